@@ -1,16 +1,65 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { LegalTab, LegalNews, ScholarlyArticle, LandmarkJudgment, BareAct, Flashcard, MindMapNode, StudyMaterials } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { LegalTab, LegalNews, ScholarlyArticle, AcademyMaterial, ArticleFilters, LandmarkJudgment, BareAct, BareActFilters, ExtractedContent, StructuredAct, Flashcard, MindMapNode, StudyMaterials, StudySession, Library, LibraryItemKind, LibraryResource, Annotation, HighlightColour, QuizAttemptSummary, SourcePolicy, LinkCheck, SearchResults } from './types';
 import { 
   fetchLegalNews, 
-  fetchAcademyArticles, 
+  fetchLegalArticles,
+  fetchAcademyMaterials,
   fetchLandmarkJudgments, 
   fetchBareActs,
   fetchTamilNaduLegalData,
   fetchSupremeCourtData,
   generateStudyMaterials,
+  generateQuiz,
   extractResourceContent,
-  ExtractedContent
-} from './services/geminiService';
+  fetchActText,
+  verifyLinks,
+  fetchSearchSuggestions,
+  searchLegalData,
+  fetchCauseList
+} from './services/apiClient';
+import { normaliseActName, EXTRACTION_FAILED_TEXT } from './services/legalText';
+import { cachedFetch, FEED_MAX_AGE, DOCUMENT_MAX_AGE } from './services/cacheService';
+import { loadLibrary, saveLibrary, isSaved, describeResource } from './services/libraryService';
+import { loadAnnotations, saveAnnotations, addHighlight, anchorAnnotations, buildAnnotationExcerpt, AnchoredAnnotation } from './services/annotationService';
+import { exportBriefingDocx, printBriefingPdf, exportFlashcardsCsv, exportMindMapSvg, exportMindMapPng, exportMindMapOpml, ExportMeta } from './services/exportService';
+import { loadSessions, saveSessions, createSession, renameSession, duplicateSession, deleteSession, findComparableSessions, updateSessionMaterials } from './services/studySessionService';
+import { ANALYSIS_PROFILES, DEFAULT_PROFILE_ID, getAnalysisProfile } from './services/analysisProfiles';
+import { createQuiz } from './services/quizService';
+import { mergeParallelCitations } from './services/citationService';
+import { actSlug, actNameForSlug, parseActAnchor } from './services/bareActService';
+import { loadCitationGraph, saveCitationGraph, recordJudgments, recordDocument, emptyGraph, judgmentNodeId, actNodeId } from './services/citationGraphService';
+import { findOldCitations, provisionLabel } from './services/correspondenceService';
+import { loadSourcePolicy, saveSourcePolicy, policyKey, linkHost } from './services/sourcePolicy';
+import { uncheckedLinks, mergeLinkChecks } from './services/linkStatus';
+import { SEARCH_DEBOUNCE_MS } from './services/searchService';
+import { readCauseListDocument } from './services/causeListService';
+import { loadTrackedCases, saveTrackedCases } from './services/caseTrackerService';
+import { loadCourtClosures, saveCourtClosures } from './services/limitationService';
+import { loadMatters, saveMatters, linkResearch, calendarEntries, dueReminders, reminderText, reminderKey, loadSentReminders, saveSentReminders, recordReminders, REMINDER_CHECK_INTERVAL } from './services/matterService';
+import { loadTemplateStore, saveTemplateStore, loadDrafts, saveDrafts } from './services/draftService';
+import { loadReviewState, saveReviewState, buildDueQueue, recordReview, pruneReviewState, ReviewCard } from './services/reviewService';
+import LibraryView from './components/LibraryView';
+import AnnotatedDocument, { HIGHLIGHT_CLASSES } from './components/AnnotatedDocument';
+import AnnotationPanel from './components/AnnotationPanel';
+import StudySessionHistory from './components/StudySessionHistory';
+import SessionComparison from './components/SessionComparison';
+import MindMapGraph from './components/MindMapGraph';
+import ReviewDashboard from './components/ReviewDashboard';
+import ReviewSession from './components/ReviewSession';
+import PracticeTest from './components/PracticeTest';
+import CitationBadge from './components/CitationBadge';
+import CitationGraphView from './components/CitationGraphView';
+import BareActReader from './components/BareActReader';
+import CorrespondenceLookup from './components/CorrespondenceLookup';
+import SourcePolicySettings from './components/SourcePolicySettings';
+import SourceNoteBadge from './components/SourceNoteBadge';
+import LinkStatusBadge from './components/LinkStatusBadge';
+import SaveToLibraryDialog from './components/SaveToLibraryDialog';
+import GlobalSearchView from './components/GlobalSearchView';
+import CaseTrackerView from './components/CaseTrackerView';
+import CalculatorsView from './components/CalculatorsView';
+import MattersView, { ReminderPermission } from './components/MattersView';
+import DraftingView from './components/DraftingView';
 
 const shareOnWhatsApp = (title: string, link: string) => {
   const appDownloadLink = window.location.origin;
@@ -18,6 +67,53 @@ const shareOnWhatsApp = (title: string, link: string) => {
   window.open(`https://wa.me/?text=${encodeURIComponent(text)}`, '_blank');
 };
 
+// Tabs that render their own workspace instead of a paginated feed
+const NON_FEED_TABS = [LegalTab.ABOUT, LegalTab.STUDY_LAB, LegalTab.LIBRARY, LegalTab.GRAPH, LegalTab.SOURCES, LegalTab.SEARCH, LegalTab.CASE_TRACKER, LegalTab.CALCULATORS, LegalTab.MATTERS, LegalTab.DRAFTING];
+
+// Feeds with fewer fresh results than this in a batch are treated as exhausted
+const MIN_BATCH_SIZE = 3;
+
+// Normalise a resource URL so trivial variations (case, trailing slash, fragment) count as the same item
+const urlKey = (url: string = "") => url.trim().toLowerCase().replace(/#.*$/, '').replace(/\/+$/, '');
+
+// Append incoming items to an existing feed, skipping anything whose URL is already present
+const appendUnique = <T,>(existing: T[], incoming: T[], getUrl: (item: T) => string): T[] => {
+  const seen = new Set(existing.map(item => urlKey(getUrl(item))));
+  const fresh = incoming.filter(item => {
+    const key = urlKey(getUrl(item));
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...existing, ...fresh];
+};
+
+// Bare Acts and Legal Articles are the feeds that take filters
+type FeedFilters = BareActFilters | ArticleFilters;
+
+// One batch of any feed tab
+type FeedBatch = LegalNews[] | ScholarlyArticle[] | AcademyMaterial[] | LandmarkJudgment[] | BareAct[];
+
+const isFilteredFeed = (tab: LegalTab) => tab === LegalTab.BARE_ACTS || tab === LegalTab.ARTICLES;
+
+// One cache record per feed batch
+const feedCacheKey = (tab: LegalTab, query: string, page: number, filters: FeedFilters, policy: SourcePolicy) =>
+  `feed:${tab}:${query.trim().toLowerCase()}:${isFilteredFeed(tab) ? JSON.stringify(filters) : ''}:${policyKey(policy)}:${page}`;
+
+const formatSavedAt = (timestamp: number) => new Date(timestamp).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+// Route a feed tab to the matching fetcher for the given batch
+const fetchTabPage = async (tab: LegalTab, query: string, page: number, filters: FeedFilters, policy: SourcePolicy): Promise<FeedBatch> => {
+  if (tab === LegalTab.NEWS) return fetchLegalNews(page, policy);
+  if (tab === LegalTab.ARTICLES) return fetchLegalArticles(query, page, filters as ArticleFilters, policy);
+  if (tab === LegalTab.ACADEMY) return fetchAcademyMaterials(query, page, policy);
+  if (tab === LegalTab.TAMIL_NADU) return fetchTamilNaduLegalData(page, policy);
+  if (tab === LegalTab.SUPREME_COURT) return fetchSupremeCourtData(page, policy);
+  if (tab === LegalTab.JUDGMENTS) return fetchLandmarkJudgments(query || "Constitution", page, policy);
+  if (tab === LegalTab.BARE_ACTS) return fetchBareActs(query, page, filters as BareActFilters, policy);
+  return [];
+};
+
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<LegalTab>(LegalTab.NEWS);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
@@ -25,13 +121,37 @@ const App: React.FC = () => {
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [actFilters, setActFilters] = useState<BareActFilters>({});
+  const [showActFilters, setShowActFilters] = useState(false);
+  const [articleFilters, setArticleFilters] = useState<ArticleFilters>({});
+  const [showArticleFilters, setShowArticleFilters] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  // Offline Cache States: where the visible feed and document came from
+  const [feedSnapshot, setFeedSnapshot] = useState<{ fetchedAt: number, fromCache: boolean, refreshFailed: boolean } | null>(null);
+  const [documentSnapshot, setDocumentSnapshot] = useState<{ fetchedAt: number, fromCache: boolean, refreshFailed: boolean } | null>(null);
+  const viewerUrlRef = useRef<string | null>(null);
 
   // In-App Viewer States
   const [viewerItem, setViewerItem] = useState<{title: string, url: string} | null>(null);
   const [extractedData, setExtractedData] = useState<ExtractedContent | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
   
+  // Bare Act Reader States
+  const [actReader, setActReader] = useState<{ name: string, url?: string } | null>(null);
+  const [structuredAct, setStructuredAct] = useState<StructuredAct | null>(null);
+  const [isActLoading, setIsActLoading] = useState(false);
+  const [actError, setActError] = useState<string | null>(null);
+  const [actSectionId, setActSectionId] = useState<string | null>(null);
+  const actSlugRef = useRef<string | null>(null);
+
+  // Annotation States
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [pendingSelection, setPendingSelection] = useState<{ start: number, end: number } | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  
   // Readability States
   const [fontSize, setFontSize] = useState(18); // Default 18px
   const [lineHeight, setLineHeight] = useState(1.6); // Default relaxed
@@ -39,23 +159,81 @@ const App: React.FC = () => {
 
   // Study Lab States
   const [labInput, setLabInput] = useState("");
-  const [labSubject, setLabSubject] = useState("Constitutional Law");
+  const [labSubject, setLabSubject] = useState(DEFAULT_PROFILE_ID);
+  const labProfile = getAnalysisProfile(labSubject);
   const [isLabGenerating, setIsLabGenerating] = useState(false);
   const [studyMaterials, setStudyMaterials] = useState<StudyMaterials | null>(null);
   const [flippedCardIndex, setFlippedCardIndex] = useState<number | null>(null);
-  const [labTab, setLabTab] = useState<'brief' | 'flash' | 'map'>('brief');
+  const [labTab, setLabTab] = useState<'brief' | 'flash' | 'map' | 'quiz'>('brief');
+  const [isQuizGenerating, setIsQuizGenerating] = useState(false);
+  const [labError, setLabError] = useState<string | null>(null);
+  const [quizError, setQuizError] = useState<string | null>(null);
+  const [labSource, setLabSource] = useState<{ title: string, url: string } | null>(null);
+  const [materialsMeta, setMaterialsMeta] = useState<ExportMeta | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<StudySession[]>(loadSessions);
+  const [reviewState, setReviewState] = useState(loadReviewState);
+  const [reviewQueue, setReviewQueue] = useState<ReviewCard[] | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Library States
+  const [library, setLibrary] = useState<Library>(loadLibrary);
+  const [savingResource, setSavingResource] = useState<{ kind: LibraryItemKind, resource: LibraryResource } | null>(null);
+
+  // Case Graph States
+  const [citationGraph, setCitationGraph] = useState(loadCitationGraph);
+  const [graphFocusId, setGraphFocusId] = useState<string | null>(null);
+
+  // Source policy applied to every feed
+  const [sourcePolicy, setSourcePolicy] = useState(loadSourcePolicy);
+
+  // Our Madras High Court matters, updated from loaded cause lists
+  const [trackedCases, setTrackedCases] = useState(loadTrackedCases);
+
+  // Holidays and vacations the limitation calculator rolls deadlines over
+  const [courtClosures, setCourtClosures] = useState(loadCourtClosures);
+
+  // Client matters with their dates and research; reminders need the browser's permission
+  const [matters, setMatters] = useState(loadMatters);
+  const [reminderPermission, setReminderPermission] = useState<ReminderPermission>(
+    () => 'Notification' in window ? Notification.permission : 'unsupported'
+  );
+
+  // Draft templates with their versions, the drafts made from them, and the briefing a new draft starts from
+  const [templateStore, setTemplateStore] = useState(loadTemplateStore);
+  const [drafts, setDrafts] = useState(loadDrafts);
+  const [draftSessionId, setDraftSessionId] = useState<string | null>(null);
+
+  // Liveness of card links, checked on the server as batches arrive
+  const [linkChecks, setLinkChecks] = useState<Record<string, LinkCheck>>({});
+  const requestedLinksRef = useRef(new Set<string>());
+
+  // Unified search: the header input with its suggestions, and the last search run across every feed
+  const [globalQuery, setGlobalQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [search, setSearch] = useState<{ query: string, results: SearchResults | null, isSearching: boolean, error: string | null }>({ query: "", results: null, isSearching: false, error: null });
+  const searchRef = useRef("");
+
+  // Section correspondence lookup; null while closed
+  const [correspondenceQuery, setCorrespondenceQuery] = useState<string | null>(null);
 
   // Data states
   const [news, setNews] = useState<LegalNews[]>([]);
   const [articles, setArticles] = useState<ScholarlyArticle[]>([]);
+  const [academy, setAcademy] = useState<AcademyMaterial[]>([]);
   const [tnData, setTnData] = useState<ScholarlyArticle[]>([]);
   const [scData, setScData] = useState<ScholarlyArticle[]>([]);
   const [judgments, setJudgments] = useState<LandmarkJudgment[]>([]);
   const [acts, setActs] = useState<BareAct[]>([]);
 
+  // Tracks which feed/query the current batches belong to, so late responses from a previous tab are dropped
+  const feedRef = useRef<{ tab: LegalTab, query: string, filters: FeedFilters, requestId: number, pages: number }>({ tab: LegalTab.NEWS, query: "", filters: {}, requestId: 0, pages: 0 });
+
   const observer = useRef<IntersectionObserver | null>(null);
   const lastElementRef = useCallback((node: HTMLDivElement | null) => {
-    if (isInitialLoading || isFetchingMore || !hasMore || activeTab === LegalTab.ABOUT || activeTab === LegalTab.STUDY_LAB) return;
+    if (isInitialLoading || isFetchingMore || !hasMore || NON_FEED_TABS.includes(activeTab)) return;
     if (observer.current) observer.current.disconnect();
     observer.current = new IntersectionObserver(entries => {
       if (entries[0].isIntersecting) setPage(prev => prev + 1);
@@ -63,8 +241,68 @@ const App: React.FC = () => {
     if (node) observer.current.observe(node);
   }, [isInitialLoading, isFetchingMore, hasMore, activeTab]);
 
-  const loadData = async (tab: LegalTab, query: string = "") => {
-    if (tab === LegalTab.ABOUT || tab === LegalTab.STUDY_LAB) {
+  // Send the links of a batch that have not been checked yet to the server
+  const checkLinks = (items: FeedBatch) => {
+    const urls = uncheckedLinks(items, requestedLinksRef.current);
+    if (!urls.length) return;
+    urls.forEach(url => requestedLinksRef.current.add(url));
+    verifyLinks(urls).then(checks => setLinkChecks(prev => mergeLinkChecks(prev, checks)));
+  };
+
+  // Merge a batch into the state of its tab and report how many new items it contributed
+  const applyBatch = (tab: LegalTab, data: FeedBatch, append: boolean): number => {
+    checkLinks(data);
+    const merge = <T,>(current: T[], getUrl: (item: T) => string) => {
+      const merged = appendUnique(append ? current : [], data as T[], getUrl);
+      return { merged, added: merged.length - (append ? current.length : 0) };
+    };
+    if (tab === LegalTab.NEWS) {
+      const { merged, added } = merge<LegalNews>(news, n => n.url);
+      setNews(merged);
+      return added;
+    }
+    if (tab === LegalTab.ARTICLES) {
+      const { merged, added } = merge<ScholarlyArticle>(articles, a => a.url);
+      setArticles(merged);
+      return added;
+    }
+    if (tab === LegalTab.ACADEMY) {
+      const { merged, added } = merge<AcademyMaterial>(academy, a => a.url);
+      setAcademy(merged);
+      return added;
+    }
+    if (tab === LegalTab.TAMIL_NADU) {
+      const { merged, added } = merge<ScholarlyArticle>(tnData, a => a.url);
+      setTnData(merged);
+      return added;
+    }
+    if (tab === LegalTab.SUPREME_COURT) {
+      const { merged, added } = merge<ScholarlyArticle>(scData, a => a.url);
+      setScData(merged);
+      return added;
+    }
+    if (tab === LegalTab.JUDGMENTS) {
+      // Parallel reports of a case arriving in different batches collapse into one card
+      const merged = mergeParallelCitations(appendUnique(append ? judgments : [], data as LandmarkJudgment[], j => j.link));
+      setJudgments(merged);
+      setCitationGraph(prev => recordJudgments(prev, data as LandmarkJudgment[]));
+      return merged.length - (append ? judgments.length : 0);
+    }
+    if (tab === LegalTab.BARE_ACTS) {
+      const { merged, added } = merge<BareAct>(acts, a => a.sourceUrl);
+      setActs(merged);
+      return added;
+    }
+    return 0;
+  };
+
+  const loadData = async (tab: LegalTab, query: string = "", filters: FeedFilters = tab === LegalTab.ARTICLES ? articleFilters : actFilters) => {
+    const requestId = feedRef.current.requestId + 1;
+    feedRef.current = { tab, query, filters, requestId, pages: 0 };
+    setPage(1);
+    setIsFetchingMore(false);
+    if (NON_FEED_TABS.includes(tab)) {
+      setFeedSnapshot(null);
       setIsInitialLoading(false);
       setHasMore(false);
       return;
@@ -72,41 +310,168 @@ const App: React.FC = () => {
     setIsInitialLoading(true);
     setHasMore(true); 
     try {
-      let data: any[] = [];
-      if (tab === LegalTab.NEWS) data = await fetchLegalNews(1);
-      else if (tab === LegalTab.ACADEMY || tab === LegalTab.ARTICLES) data = await fetchAcademyArticles(query, 1);
-      else if (tab === LegalTab.TAMIL_NADU) data = await fetchTamilNaduLegalData(1);
-      else if (tab === LegalTab.SUPREME_COURT) data = await fetchSupremeCourtData(1);
-      else if (tab === LegalTab.JUDGMENTS) data = await fetchLandmarkJudgments(query || "Constitution", 1);
-      else if (tab === LegalTab.BARE_ACTS) data = await fetchBareActs(1);
-
-      if (tab === LegalTab.NEWS) setNews(data);
-      else if (tab === LegalTab.ACADEMY || tab === LegalTab.ARTICLES) setArticles(data);
-      else if (tab === LegalTab.TAMIL_NADU) setTnData(data);
-      else if (tab === LegalTab.SUPREME_COURT) setScData(data);
-      else if (tab === LegalTab.JUDGMENTS) setJudgments(data);
-      else if (tab === LegalTab.BARE_ACTS) setActs(data);
-      
-      if (data.length < 3) setHasMore(false);
+      const { data, fetchedAt, fromCache } = await cachedFetch(feedCacheKey(tab, query, 1, filters, sourcePolicy), () => fetchTabPage(tab, query, 1, filters, sourcePolicy), {
+        maxAge: FEED_MAX_AGE,
+        onRefresh: fresh => {
+          if (feedRef.current.requestId !== requestId) return;
+          if (!fresh) return setFeedSnapshot(prev => prev && { ...prev, refreshFailed: true });
+          // Swap in the refreshed first batch only while the reader hasn't scrolled into later ones
+          if (feedRef.current.pages <= 1) applyBatch(tab, fresh.data, false);
+          setFeedSnapshot({ fetchedAt: fresh.fetchedAt, fromCache: false, refreshFailed: false });
+        }
+      });
+      if (feedRef.current.requestId !== requestId) return;
+      feedRef.current.pages = 1;
+      setFeedSnapshot({ fetchedAt, fromCache, refreshFailed: false });
+      const added = applyBatch(tab, data, false);
+      if (added < MIN_BATCH_SIZE) setHasMore(false);
     } finally {
-      setIsInitialLoading(false);
+      if (feedRef.current.requestId === requestId) setIsInitialLoading(false);
     }
   }
 
+  // Fetch the next batch for the current feed and append it below the existing cards
+  const loadMore = async (nextPage: number) => {
+    const { tab, query, filters, requestId } = feedRef.current;
+    setIsFetchingMore(true);
+    try {
+      const { data } = await cachedFetch(feedCacheKey(tab, query, nextPage, filters, sourcePolicy), () => fetchTabPage(tab, query, nextPage, filters, sourcePolicy), { maxAge: FEED_MAX_AGE });
+      if (feedRef.current.requestId !== requestId) return;
+      feedRef.current.pages = nextPage;
+      const added = applyBatch(tab, data, true);
+      if (data.length < MIN_BATCH_SIZE || added === 0) setHasMore(false);
+    } finally {
+      if (feedRef.current.requestId === requestId) setIsFetchingMore(false);
+    }
+  };
+
   useEffect(() => {
-    setPage(1);
-    setHasMore(true);
     loadData(activeTab, searchQuery);
   }, [activeTab]);
 
+  useEffect(() => {
+    if (page > 1) loadMore(page);
+  }, [page]);
+
+  useEffect(() => {
+    saveLibrary(library);
+  }, [library]);
+
+  useEffect(() => {
+    saveSessions(sessions);
+  }, [sessions]);
+
+  useEffect(() => {
+    saveReviewState(reviewState);
+  }, [reviewState]);
+
+  useEffect(() => {
+    saveCitationGraph(citationGraph);
+  }, [citationGraph]);
+
+  useEffect(() => {
+    saveSourcePolicy(sourcePolicy);
+  }, [sourcePolicy]);
+
+  useEffect(() => {
+    saveTrackedCases(trackedCases);
+  }, [trackedCases]);
+
+  useEffect(() => {
+    saveCourtClosures(courtClosures);
+  }, [courtClosures]);
+
+  useEffect(() => {
+    saveMatters(matters);
+  }, [matters]);
+
+  useEffect(() => {
+    saveTemplateStore(templateStore);
+  }, [templateStore]);
+
+  useEffect(() => {
+    saveDrafts(drafts);
+  }, [drafts]);
+
+  // Reminders fire while the app is open; each one is shown once per date and time of its event
+  useEffect(() => {
+    if (reminderPermission !== 'granted') return;
+    const remind = () => {
+      const entries = calendarEntries(matters, trackedCases);
+      const sent = loadSentReminders();
+      const due = dueReminders(entries, new Date(), sent);
+      due.forEach(entry => {
+        const { title, body } = reminderText(entry);
+        new Notification(title, { body, tag: reminderKey(entry.event) });
+      });
+      if (due.length) saveSentReminders(recordReminders(sent, entries, due));
+    };
+    remind();
+    const timer = setInterval(remind, REMINDER_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [matters, trackedCases, reminderPermission]);
+
+  // Suggestions wait for a pause in typing; a reply for text the reader has since changed is dropped
+  useEffect(() => {
+    const input = globalQuery.trim();
+    if (input.length < 2) return setSuggestions([]);
+    let current = true;
+    const timer = setTimeout(() => {
+      fetchSearchSuggestions(input).then(found => { if (current) setSuggestions(found); });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [globalQuery]);
+
+  // Deep links such as #bns/s103 open the Bare Act reader on that section
+  useEffect(() => {
+    const openFromHash = () => {
+      const anchor = parseActAnchor(window.location.hash);
+      if (anchor) handleOpenAct(actNameForSlug(anchor.slug), undefined, anchor.sectionId);
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
+  useEffect(() => {
+    const updateStatus = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateStatus);
+    window.addEventListener('offline', updateStatus);
+    return () => {
+      window.removeEventListener('online', updateStatus);
+      window.removeEventListener('offline', updateStatus);
+    };
+  }, []);
+
   const handleOpenViewer = async (title: string, url: string) => {
     setViewerItem({ title, url });
     setExtractedData(null);
+    setDocumentSnapshot(null);
     setIsExtracting(true);
     setShowAppearanceMenu(false);
+    setAnnotations(loadAnnotations(url));
+    setPendingSelection(null);
+    setActiveAnnotationId(null);
+    viewerUrlRef.current = url;
     try {
-      const result = await extractResourceContent(title, url);
-      setExtractedData(result);
+      const result = await cachedFetch(`document:${urlKey(url)}`, () => extractResourceContent(title, url), {
+        maxAge: DOCUMENT_MAX_AGE,
+        isUsable: content => Boolean(content.text) && content.text !== EXTRACTION_FAILED_TEXT,
+        onRefresh: fresh => {
+          if (viewerUrlRef.current !== url) return;
+          if (!fresh) return setDocumentSnapshot(prev => prev && { ...prev, refreshFailed: true });
+          setExtractedData(fresh.data);
+          setCitationGraph(prev => recordDocument(prev, { title, url }, fresh.data));
+          setDocumentSnapshot({ fetchedAt: fresh.fetchedAt, fromCache: false, refreshFailed: false });
+        }
+      });
+      if (viewerUrlRef.current !== url) return;
+      setExtractedData(result.data);
+      setCitationGraph(prev => recordDocument(prev, { title, url }, result.data));
+      setDocumentSnapshot({ fetchedAt: result.fetchedAt, fromCache: result.fromCache, refreshFailed: false });
     } catch {
       setExtractedData({ text: "Failed to extract text. Please use the Direct Source Link below.", mentions: [] });
     } finally {
@@ -114,11 +479,83 @@ const App: React.FC = () => {
     }
   };
 
+  const handleOpenAct = async (name: string, url?: string, sectionId: string | null = null) => {
+    const slug = actSlug(name);
+    setActReader({ name, url });
+    setActSectionId(sectionId);
+    setActError(null);
+    setViewerItem(null);
+    if (actSlugRef.current === slug && structuredAct) return;
+    actSlugRef.current = slug;
+    setStructuredAct(null);
+    setIsActLoading(true);
+    try {
+      const result = await cachedFetch(`act:${slug}`, () => fetchActText(name, url), {
+        maxAge: DOCUMENT_MAX_AGE,
+        isUsable: act => act.parts.length > 0,
+        onRefresh: fresh => {
+          if (fresh && actSlugRef.current === slug) setStructuredAct(fresh.data);
+        }
+      });
+      if (actSlugRef.current === slug) setStructuredAct(result.data);
+    } catch (error: any) {
+      if (actSlugRef.current === slug) setActError(error?.message || 'The text of this Act could not be read.');
+    } finally {
+      if (actSlugRef.current === slug) setIsActLoading(false);
+    }
+  };
+
+  // Keep the address bar on the section being read so it can be bookmarked or shared
+  const handleActSectionChange = (sectionId: string) => {
+    setActSectionId(sectionId);
+    if (actSlugRef.current) window.history.replaceState(null, '', `#${actSlugRef.current}/${sectionId}`);
+  };
+
+  // Deep links carry no URL, so the general document view needs one from the fetched Act
+  const actDocumentUrl = actReader?.url || structuredAct?.sourceUrl;
+
+  const handleCloseAct = () => {
+    setActReader(null);
+    setActSectionId(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
   const handleActJump = (actName: string) => {
     setSearchQuery(actName);
+    setActFilters({});
     setActiveTab(LegalTab.BARE_ACTS);
     setViewerItem(null);
-    loadData(LegalTab.BARE_ACTS, actName);
+    loadData(LegalTab.BARE_ACTS, actName, {});
+  };
+
+  const applySearchResults = (query: string, results: SearchResults) => {
+    checkLinks(Object.values(results).flat());
+    setCitationGraph(prev => recordJudgments(prev, results.judgments));
+    setSearch({ query, results, isSearching: false, error: null });
+  };
+
+  // One request searches every feed; saved items are matched locally by the results view
+  const handleGlobalSearch = async (input: string) => {
+    const query = input.trim();
+    if (!query) return;
+    setGlobalQuery(query);
+    setShowSuggestions(false);
+    setActiveTab(LegalTab.SEARCH);
+    setViewerItem(null);
+    searchRef.current = query;
+    setSearch({ query, results: null, isSearching: true, error: null });
+    try {
+      const { data } = await cachedFetch(`search:${query.toLowerCase()}:${policyKey(sourcePolicy)}`, () => searchLegalData(query, sourcePolicy), {
+        maxAge: FEED_MAX_AGE,
+        isUsable: results => Object.values(results).some(group => group.length > 0),
+        onRefresh: fresh => {
+          if (fresh && searchRef.current === query) applySearchResults(query, fresh.data);
+        }
+      });
+      if (searchRef.current === query) applySearchResults(query, data);
+    } catch (error: any) {
+      if (searchRef.current === query) setSearch({ query, results: null, isSearching: false, error: error?.message || 'The feeds could not be searched.' });
+    }
   };
 
   const handleJudgmentJump = (caseName: string) => {
@@ -128,36 +565,170 @@ const App: React.FC = () => {
     loadData(LegalTab.JUDGMENTS, caseName);
   }
 
-  // Process legal content into study materials
+  // Process legal content into study materials; a failure is reported under the generate button
   const handleLabGenerate = async () => {
     if (!labInput.trim()) return;
     setIsLabGenerating(true);
+    setLabError(null);
     setStudyMaterials(null);
     try {
-      const materials = await generateStudyMaterials(labInput);
+      const materials = await generateStudyMaterials(labInput, labProfile.id);
+      const session = createSession({ input: labInput, subject: labProfile.subject, materials, source: labSource });
+      setSessions(prev => [session, ...prev]);
+      setActiveSessionId(session.id);
+      setQuizError(null);
       setStudyMaterials(materials);
+      setMaterialsMeta({ sourceTitle: labSource?.title || session.name, generatedAt: session.createdAt });
       setLabTab('brief');
     } catch (error) {
-      console.error("AI Lab Error:", error);
+      setLabError(error instanceof Error ? `Analysis failed: ${error.message}` : 'Analysis failed.');
     } finally {
       setIsLabGenerating(false);
     }
   };
 
+  // Restore a saved analysis into the workspace exactly as it was generated
+  const handleOpenSession = (session: StudySession) => {
+    setActiveSessionId(session.id);
+    setQuizError(null);
+    setLabInput(session.input);
+    setLabSubject(getAnalysisProfile(session.subject).id);
+    setLabSource(session.sourceUrl ? { title: session.sourceTitle || session.name, url: session.sourceUrl } : null);
+    setStudyMaterials(session.materials);
+    setMaterialsMeta({ sourceTitle: session.sourceTitle || session.name, generatedAt: session.createdAt });
+    setFlippedCardIndex(null);
+    setLabTab('brief');
+  };
+
+  const handleMindMapChange = (mindMap: MindMapNode) => {
+    if (!studyMaterials) return;
+    const materials = { ...studyMaterials, mindMap };
+    setStudyMaterials(materials);
+    if (activeSessionId) setSessions(prev => updateSessionMaterials(prev, activeSessionId, materials));
+  };
+
+  // Practice tests belong to the session they were set from; a failure is reported in the test panel
+  const handleGenerateQuiz = async () => {
+    if (!activeSession) return;
+    const sessionId = activeSession.id;
+    setIsQuizGenerating(true);
+    setQuizError(null);
+    try {
+      const questions = await generateQuiz(activeSession.input, getAnalysisProfile(activeSession.subject).id);
+      const quiz = createQuiz(questions);
+      setSessions(prev => prev.map(session => session.id === sessionId ? { ...session, quiz } : session));
+    } catch (error) {
+      setQuizError(error instanceof Error ? `The paper could not be set: ${error.message}` : 'The paper could not be set.');
+    } finally {
+      setIsQuizGenerating(false);
+    }
+  };
+
+  // Record the attempt and add wrongly answered questions to the session's deck
+  const handleQuizFinished = (summary: QuizAttemptSummary, wrongCards: Flashcard[]) => {
+    if (!activeSession || !studyMaterials) return;
+    const materials = { ...studyMaterials, flashcards: [...studyMaterials.flashcards, ...wrongCards] };
+    const sessionId = activeSession.id;
+    setStudyMaterials(materials);
+    setSessions(prev => prev.map(session => session.id === sessionId
+      ? { ...session, materials, quizAttempts: [...(session.quizAttempts || []), summary] }
+      : session));
+  };
+
+  const handleStartReview = (deckIds?: string[]) => {
+    const queue = buildDueQueue(sessions, reviewState, deckIds);
+    if (queue.length) setReviewQueue(queue);
+  };
+
+  const handleToggleCompare = (sessionId: string) => {
+    setCompareIds(prev => prev.includes(sessionId) ? prev.filter(id => id !== sessionId) : [...prev, sessionId].slice(-2));
+  };
+
+  const activeSession = sessions.find(session => session.id === activeSessionId) || null;
+  const comparableSessions = activeSession ? findComparableSessions(sessions, activeSession) : [];
+  const selectedForCompare = compareIds.map(id => sessions.find(session => session.id === id)).filter((session): session is StudySession => Boolean(session));
+  const comparedSessions = selectedForCompare.length === 2 ? selectedForCompare : null;
+
   // Transfer content from reader to study laboratory
   const handlePushToLab = () => {
     if (extractedData?.text) {
       setLabInput(extractedData.text);
+      setLabSource(viewerItem);
       setActiveTab(LegalTab.STUDY_LAB);
       setViewerItem(null);
       window.scrollTo({ top: 0, behavior: 'smooth' });
     }
   };
 
+  const { anchored, orphaned } = useMemo(
+    () => extractedData ? anchorAnnotations(extractedData.text, annotations) : { anchored: [], orphaned: annotations },
+    [extractedData, annotations]
+  );
+
+  // Write-through so highlights survive closing the reader
+  const updateAnnotations = (next: Annotation[]) => {
+    setAnnotations(next);
+    if (viewerItem) saveAnnotations(viewerItem.url, next);
+  };
+
+  const handleHighlight = (colour: HighlightColour) => {
+    if (!viewerItem || !extractedData || !pendingSelection) return;
+    const { annotations: next, added } = addHighlight(extractedData.text, annotations, viewerItem.url, pendingSelection.start, pendingSelection.end, colour);
+    updateAnnotations(next);
+    setActiveAnnotationId(added.id);
+    setPendingSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleActivateAnnotation = (annotationId: string) => {
+    setActiveAnnotationId(annotationId);
+    setShowAnnotations(true);
+    document.getElementById(`annotation-${annotationId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Send only the highlighted passages (with their notes) to the study laboratory
+  const handlePushAnnotationsToLab = (passages: AnchoredAnnotation[]) => {
+    if (!viewerItem || !passages.length) return;
+    setLabInput(buildAnnotationExcerpt(viewerItem.title, passages));
+    setLabSource(viewerItem);
+    setActiveTab(LegalTab.STUDY_LAB);
+    setViewerItem(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Exports that fail, such as a mind map the browser cannot rasterise, report it in the export bar
+  const handleExport = async (run: () => void | Promise<void>) => {
+    setExportError(null);
+    try {
+      await run();
+    } catch (error) {
+      setExportError(error instanceof Error ? `Export failed: ${error.message}` : 'Export failed.');
+    }
+  };
+
+  const handleDraftFromSession = (sessionId: string) => {
+    setDraftSessionId(sessionId);
+    setActiveTab(LegalTab.DRAFTING);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleGraphJump = (nodeId: string) => {
+    setGraphFocusId(nodeId);
+    setActiveTab(LegalTab.GRAPH);
+    setViewerItem(null);
+  };
+
+  // A link whose host cannot be read is left off the card instead of failing the render
+  const renderSourceLink = (url: string, label: string) => {
+    const host = linkHost(url);
+    if (!host) return null;
+    return <a href={url} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-blue-600 uppercase tracking-widest flex items-center gap-2 hover:underline"><i className="fa-solid fa-link"></i> {label}: {host}</a>;
+  };
+
   const getSafeGoogleSearchLink = (title: string) => `https://www.google.com/search?q=${encodeURIComponent(title + " legal source verdictum indiakanoon")}`;
 
   const SmartTextRenderer: React.FC<{ text: string, mentions: { name: string, type: 'act' | 'judgment' }[] }> = ({ text, mentions }) => {
-    if (!mentions.length) return <>{text}</>;
+    if (!mentions.length) return <>{renderOldCitations(text)}</>;
 
     // Sort mentions by length (descending) to avoid partial matching longer names
     const sortedMentions = [...mentions].sort((a, b) => b.name.length - a.name.length);
@@ -188,35 +759,70 @@ const App: React.FC = () => {
               </button>
             );
           }
-          return part;
+          return <React.Fragment key={i}>{renderOldCitations(part)}</React.Fragment>;
         })}
       </>
     );
   };
 
-  const MindMapNodeView: React.FC<{ node: MindMapNode, level: number }> = ({ node, level }) => (
-    <div className={`ml-${level > 0 ? 6 : 0} mt-4`}>
-      <div className="flex items-center gap-3">
-        <div className="h-2.5 w-2.5 rounded-full bg-amber-500 shadow-[0_0_10px_rgba(245,158,11,0.5)]"></div>
-        <div className="p-3.5 rounded-xl bg-white border border-slate-200 shadow-sm font-bold text-slate-800 text-[11px] uppercase tracking-wider">{node.label}</div>
-      </div>
-      {node.children && node.children.length > 0 && (
-        <div className="pl-6 border-l border-slate-200 ml-1.5 space-y-4">
-          {node.children.map((child, idx) => <MindMapNodeView key={idx} node={child} level={level + 1} />)}
-        </div>
-      )}
-    </div>
-  );
+  // Sections of the repealed codes get a pointer to the provision that replaced them; the pointer is not document text
+  const renderOldCitations = (text: string) => {
+    const citations = findOldCitations(text);
+    if (!citations.length) return text;
+    const nodes: React.ReactNode[] = [];
+    let offset = 0;
+    citations.forEach((citation, i) => {
+      nodes.push(text.slice(offset, citation.start), citation.text);
+      const { table, matches } = citation;
+      const targets = Array.from(new Set(matches.map(({ entry }) => entry.new ? provisionLabel(table, 'new', entry.new) : 'repealed')));
+      nodes.push(
+        <button
+          key={i}
+          data-annotation-ignore
+          onClick={() => setCorrespondenceQuery(provisionLabel(table, 'old', matches[0].entry.old!))}
+          title={`${table.oldAct} was replaced by the ${table.newAct}`}
+          className="inline-flex items-center gap-1 ml-1 px-1.5 py-0.5 rounded-md bg-slate-900 text-amber-400 font-black text-[0.7em] uppercase tracking-wider align-middle hover:bg-amber-500 hover:text-white transition-all"
+        >
+          <i className="fa-solid fa-right-left text-[0.85em]"></i>
+          {targets.join(', ')}
+        </button>
+      );
+      offset = citation.end;
+    });
+    nodes.push(text.slice(offset));
+    return nodes;
+  };
+
+  const SaveButton: React.FC<{ kind: LibraryItemKind, resource: LibraryResource }> = ({ kind, resource }) => {
+    const saved = isSaved(library, describeResource(kind, resource).url);
+    return (
+      <button
+        onClick={() => setSavingResource({ kind, resource })}
+        title={saved ? 'Saved in My Library' : 'Save to My Library'}
+        className={`h-12 w-12 rounded-2xl flex items-center justify-center transition-all ${saved ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-600 hover:bg-amber-500 hover:text-white'}`}
+      >
+        <i className={`${saved ? 'fa-solid' : 'fa-regular'} fa-bookmark text-lg`}></i>
+      </button>
+    );
+  };
 
   const navigationItems = [
+    { id: LegalTab.SEARCH, label: 'Search All', icon: 'fa-magnifying-glass' },
     { id: LegalTab.NEWS, label: 'Current News', icon: 'fa-earth-asia' },
     { id: LegalTab.ARTICLES, label: 'Legal Articles', icon: 'fa-book-open' },
     { id: LegalTab.ACADEMY, label: 'Judiciary Academy', icon: 'fa-landmark-dome' },
     { id: LegalTab.SUPREME_COURT, label: 'SC Observer', icon: 'fa-building-columns' },
     { id: LegalTab.TAMIL_NADU, label: 'Tamil Nadu Hub', icon: 'fa-location-dot' },
+    { id: LegalTab.MATTERS, label: 'Matters', icon: 'fa-calendar-days' },
+    { id: LegalTab.CASE_TRACKER, label: 'Case Tracker', icon: 'fa-briefcase' },
+    { id: LegalTab.DRAFTING, label: 'Drafting', icon: 'fa-file-signature' },
     { id: LegalTab.JUDGMENTS, label: 'Landmark Verdicts', icon: 'fa-gavel' },
     { id: LegalTab.BARE_ACTS, label: 'Bare Acts', icon: 'fa-scroll' },
+    { id: LegalTab.CALCULATORS, label: 'Calculators', icon: 'fa-calculator' },
+    { id: LegalTab.GRAPH, label: 'Case Graph', icon: 'fa-diagram-project' },
+    { id: LegalTab.LIBRARY, label: 'My Library', icon: 'fa-bookmark' },
     { id: LegalTab.STUDY_LAB, label: 'AI Study Lab', icon: 'fa-brain' },
+    { id: LegalTab.SOURCES, label: 'Source Policy', icon: 'fa-filter' },
     { id: LegalTab.ABOUT, label: 'Firm Profile', icon: 'fa-circle-info' },
   ];
 
@@ -254,20 +860,146 @@ const App: React.FC = () => {
              <div className="text-[10px] font-black text-amber-600 uppercase tracking-widest bg-amber-50 px-4 py-2 rounded-full border border-amber-100 flex items-center gap-2">
                <i className="fa-solid fa-bolt"></i> Intelligent Legal Hub
              </div>
-             {activeTab === LegalTab.BARE_ACTS && (
-                <div className="flex-1 relative">
-                   <i className="fa-solid fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-slate-400"></i>
-                   <input 
-                     type="text" 
-                     placeholder="Search Bare Acts..." 
-                     value={searchQuery}
-                     onChange={(e) => setSearchQuery(e.target.value)}
-                     onKeyDown={(e) => e.key === 'Enter' && loadData(LegalTab.BARE_ACTS, searchQuery)}
-                     className="w-full bg-slate-50 border border-slate-200 rounded-xl pl-12 pr-4 py-2.5 text-sm outline-none focus:border-amber-500 transition-all"
-                   />
+             <div className="flex-1 relative">
+                <i className="fa-solid fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-slate-400"></i>
+                <input
+                  type="text"
+                  placeholder="Search news, judgments, Acts and your library..."
+                  value={globalQuery}
+                  onChange={(e) => { setGlobalQuery(e.target.value); setShowSuggestions(true); }}
+                  onFocus={() => setShowSuggestions(true)}
+                  onBlur={() => setShowSuggestions(false)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleGlobalSearch(globalQuery);
+                    if (e.key === 'Escape') setShowSuggestions(false);
+                  }}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl pl-12 pr-4 py-2.5 text-sm outline-none focus:border-amber-500 transition-all"
+                />
+                {showSuggestions && suggestions.length > 0 && (
+                  <div className="absolute top-14 left-0 right-0 bg-white border border-slate-200 shadow-2xl rounded-2xl p-2 z-40 animate-fade-in">
+                    {suggestions.map(suggestion => (
+                      <button
+                        key={suggestion}
+                        // Runs before the input's blur hides the list
+                        onMouseDown={(e) => { e.preventDefault(); handleGlobalSearch(suggestion); }}
+                        className="w-full text-left px-4 py-2.5 rounded-xl text-sm text-slate-600 hover:bg-amber-50 hover:text-amber-700 flex items-center gap-3"
+                      >
+                        <i className="fa-solid fa-magnifying-glass text-[10px] text-slate-300"></i> {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                )}
+             </div>
+             {activeTab === LegalTab.ARTICLES && (
+                <div className="shrink-0 relative">
+                   <button
+                     onClick={() => setShowArticleFilters(!showArticleFilters)}
+                     title="Filter articles by author or topic"
+                     className={`h-10 px-4 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 transition-all ${showArticleFilters || Object.values(articleFilters).some(Boolean) ? 'bg-amber-500 text-white' : 'bg-[#020617] text-amber-500 hover:bg-amber-500 hover:text-white'}`}
+                   >
+                     <i className="fa-solid fa-sliders"></i> Author & Topic
+                   </button>
+                   {showArticleFilters && (
+                     <div className="absolute top-14 right-0 w-80 bg-white border border-slate-200 shadow-2xl rounded-2xl p-5 z-40 animate-fade-in space-y-4">
+                       <input
+                         type="text"
+                         placeholder="Author, e.g. Gautam Bhatia"
+                         value={articleFilters.author ?? ''}
+                         onChange={(e) => setArticleFilters({ ...articleFilters, author: e.target.value || undefined })}
+                         className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500"
+                       />
+                       <input
+                         type="text"
+                         placeholder="Topic, e.g. Criminal Law"
+                         value={articleFilters.topic ?? ''}
+                         onChange={(e) => setArticleFilters({ ...articleFilters, topic: e.target.value || undefined })}
+                         className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500"
+                       />
+                       {/* Topics of the articles already loaded, as one-tap choices */}
+                       <div className="flex flex-wrap gap-2">
+                         {Array.from(new Set(articles.map(article => article.topic).filter((topic): topic is string => Boolean(topic)))).map(topic => (
+                           <button
+                             key={topic}
+                             onClick={() => setArticleFilters({ ...articleFilters, topic })}
+                             className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${articleFilters.topic === topic ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                           >
+                             {topic}
+                           </button>
+                         ))}
+                       </div>
+                       <div className="flex gap-2">
+                         <button onClick={() => { setArticleFilters({}); setShowArticleFilters(false); loadData(LegalTab.ARTICLES, searchQuery, {}); }} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-500 hover:bg-slate-200">Reset</button>
+                         <button onClick={() => { setShowArticleFilters(false); loadData(LegalTab.ARTICLES, searchQuery); }} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-white shadow-lg shadow-amber-500/20">Apply</button>
+                       </div>
+                     </div>
+                   )}
                 </div>
              )}
           </div>
+          {/* Bare Acts keep their own Act search and filters on a second row under the global search */}
+          {activeTab === LegalTab.BARE_ACTS && (
+            <div className="max-w-2xl flex items-center gap-4 mt-3">
+              <div className="flex-1 relative">
+                 <i className="fa-solid fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-slate-400"></i>
+                 <input 
+                   type="text" 
+                   placeholder="Search Bare Acts..." 
+                   value={searchQuery}
+                   onChange={(e) => setSearchQuery(e.target.value)}
+                   onKeyDown={(e) => e.key === 'Enter' && loadData(LegalTab.BARE_ACTS, searchQuery)}
+                   className="w-full bg-slate-50 border border-slate-200 rounded-xl pl-12 pr-14 py-2.5 text-sm outline-none focus:border-amber-500 transition-all"
+                 />
+                 <button
+                   onClick={() => setShowActFilters(!showActFilters)}
+                   className={`absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-lg flex items-center justify-center transition-all ${showActFilters || Object.values(actFilters).some(Boolean) ? 'bg-amber-500 text-white' : 'text-slate-400 hover:bg-slate-200'}`}
+                 >
+                   <i className="fa-solid fa-sliders text-xs"></i>
+                 </button>
+                 {showActFilters && (
+                   <div className="absolute top-14 left-0 right-0 bg-white border border-slate-200 shadow-2xl rounded-2xl p-5 z-40 animate-fade-in space-y-4">
+                     <div className="grid grid-cols-2 gap-3">
+                       <input
+                         type="number"
+                         placeholder="Enacted from"
+                         value={actFilters.yearFrom ?? ''}
+                         onChange={(e) => setActFilters({ ...actFilters, yearFrom: e.target.value ? Number(e.target.value) : undefined })}
+                         className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500"
+                       />
+                       <input
+                         type="number"
+                         placeholder="Enacted to"
+                         value={actFilters.yearTo ?? ''}
+                         onChange={(e) => setActFilters({ ...actFilters, yearTo: e.target.value ? Number(e.target.value) : undefined })}
+                         className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500"
+                       />
+                     </div>
+                     <div className="flex gap-2">
+                       {([undefined, 'central', 'state'] as const).map(scope => (
+                         <button
+                           key={scope ?? 'all'}
+                           onClick={() => setActFilters({ ...actFilters, jurisdiction: scope })}
+                           className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${actFilters.jurisdiction === scope ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                         >
+                           {scope === 'central' ? 'Central' : scope === 'state' ? 'State' : 'All'}
+                         </button>
+                       ))}
+                     </div>
+                     <div className="flex gap-2">
+                       <button onClick={() => { setActFilters({}); setShowActFilters(false); loadData(LegalTab.BARE_ACTS, searchQuery, {}); }} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-500 hover:bg-slate-200">Reset</button>
+                       <button onClick={() => { setShowActFilters(false); loadData(LegalTab.BARE_ACTS, searchQuery); }} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-white shadow-lg shadow-amber-500/20">Apply</button>
+                     </div>
+                   </div>
+                 )}
+              </div>
+              <button
+                onClick={() => setCorrespondenceQuery('')}
+                title="Find the BNS, BNSS or BSA section for an IPC, CrPC or Evidence Act section"
+                className="shrink-0 h-10 px-4 rounded-xl bg-[#020617] text-amber-500 text-[10px] font-black uppercase tracking-widest flex items-center gap-2 hover:bg-amber-500 hover:text-white transition-all"
+              >
+                <i className="fa-solid fa-right-left"></i> IPC ↔ BNS
+              </button>
+            </div>
+          )}
         </header>
 
         {/* Main Content Area */}
@@ -280,6 +1012,13 @@ const App: React.FC = () => {
               </div>
             ) : (
               <div className="space-y-10">
+                {feedSnapshot?.fromCache && (!isOnline || feedSnapshot.refreshFailed) && (
+                  <div className="flex items-center gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-6 py-4 rounded-2xl text-[11px] font-bold">
+                    <i className="fa-solid fa-cloud-arrow-down"></i>
+                    {isOnline ? 'Could not refresh' : 'Offline'}, showing saved copy from {formatSavedAt(feedSnapshot.fetchedAt)}
+                  </div>
+                )}
+
                 {activeTab === LegalTab.STUDY_LAB && (
                   <div className="space-y-8 animate-fade-in">
                     <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
@@ -291,14 +1030,11 @@ const App: React.FC = () => {
                         <div className="space-y-6">
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <select value={labSubject} onChange={(e) => setLabSubject(e.target.value)} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-xs font-black uppercase tracking-widest outline-none focus:border-amber-500 transition-colors">
-                              <option>Constitutional Law</option>
-                              <option>CrPC / BNSS</option>
-                              <option>IPC / BNS</option>
-                              <option>Property Law</option>
-                              <option>Family Law</option>
+                              {ANALYSIS_PROFILES.map(profile => <option key={profile.id} value={profile.id}>{profile.subject}</option>)}
                             </select>
-                            <button onClick={() => setLabInput("")} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-xs font-black uppercase tracking-widest outline-none hover:bg-slate-800 transition-colors">Clear Workspace</button>
+                            <button onClick={() => { setLabInput(""); setLabSource(null); }} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-xs font-black uppercase tracking-widest outline-none hover:bg-slate-800 transition-colors">Clear Workspace</button>
                           </div>
+                          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{labProfile.description} • {labProfile.flashcardCount} cards</p>
                           <textarea 
                             placeholder="Paste legal provision or judgment text here..." 
                             value={labInput} 
@@ -312,6 +1048,7 @@ const App: React.FC = () => {
                           >
                             {isLabGenerating ? <span className="flex items-center justify-center gap-3"><i className="fa-solid fa-gear fa-spin"></i> Processing Intelligence...</span> : "Generate Analysis Report"}
                           </button>
+                          {labError && <p className="text-xs font-bold text-red-400">{labError}</p>}
                         </div>
                       </div>
                     </div>
@@ -322,8 +1059,42 @@ const App: React.FC = () => {
                             <button onClick={() => setLabTab('brief')} className={`flex-1 md:flex-none px-8 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${labTab === 'brief' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Intelligence Brief</button>
                             <button onClick={() => setLabTab('flash')} className={`flex-1 md:flex-none px-8 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${labTab === 'flash' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Flashcards</button>
                             <button onClick={() => setLabTab('map')} className={`flex-1 md:flex-none px-8 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${labTab === 'map' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Mind Map</button>
+                            {activeSession && (
+                              <button onClick={() => setLabTab('quiz')} className={`flex-1 md:flex-none px-8 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${labTab === 'quiz' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Practice Test</button>
+                            )}
                          </div>
 
+                         {materialsMeta && (
+                            <div className="flex flex-wrap items-center gap-3">
+                               <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-2"><i className="fa-solid fa-file-export mr-2"></i> Export</span>
+                               {labTab === 'brief' && (
+                                 <>
+                                   <button onClick={() => handleExport(() => exportBriefingDocx(studyMaterials.briefing, materialsMeta))} className="px-5 py-2.5 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-file-word mr-2"></i> DOCX</button>
+                                   <button onClick={() => handleExport(() => printBriefingPdf(studyMaterials.briefing, materialsMeta))} className="px-5 py-2.5 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-file-pdf mr-2"></i> PDF</button>
+                                   {activeSessionId && (
+                                     <button onClick={() => handleDraftFromSession(activeSessionId)} className="px-5 py-2.5 bg-amber-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-amber-500/20 transition-all"><i className="fa-solid fa-file-signature mr-2"></i> Draft</button>
+                                   )}
+                                 </>
+                               )}
+                               {labTab === 'flash' && (
+                                 <>
+                                   {activeSessionId && (
+                                     <button onClick={() => handleStartReview([activeSessionId])} className="px-5 py-2.5 bg-amber-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-amber-500/20 transition-all"><i className="fa-solid fa-layer-group mr-2"></i> Review Deck</button>
+                                   )}
+                                   <button onClick={() => handleExport(() => exportFlashcardsCsv(studyMaterials.flashcards, materialsMeta))} className="px-5 py-2.5 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-file-csv mr-2"></i> Anki CSV</button>
+                                 </>
+                               )}
+                               {labTab === 'map' && (
+                                 <>
+                                   <button onClick={() => handleExport(() => exportMindMapSvg(studyMaterials.mindMap, materialsMeta))} className="px-5 py-2.5 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-bezier-curve mr-2"></i> SVG</button>
+                                   <button onClick={() => handleExport(() => exportMindMapPng(studyMaterials.mindMap, materialsMeta))} className="px-5 py-2.5 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-image mr-2"></i> PNG</button>
+                                   <button onClick={() => handleExport(() => exportMindMapOpml(studyMaterials.mindMap, materialsMeta))} className="px-5 py-2.5 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-list-ul mr-2"></i> OPML</button>
+                                 </>
+                               )}
+                               {exportError && <p className="w-full text-xs font-bold text-red-500">{exportError}</p>}
+                            </div>
+                         )}
+
                          {labTab === 'brief' && (
                             <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-10">
                                <div className="space-y-6">
@@ -345,6 +1116,20 @@ const App: React.FC = () => {
                                      ))}
                                   </div>
                                </div>
+                               {studyMaterials.briefing.sections?.map((section, i) => (
+                                 <div key={i} className="space-y-4">
+                                    <h4 className="text-sm font-black text-emerald-600 uppercase tracking-widest flex items-center gap-3"><i className="fa-solid fa-bookmark"></i> {section.title}</h4>
+                                    {section.points.length ? (
+                                      <ul className="space-y-3">
+                                         {section.points.map((point, j) => (
+                                           <li key={j} className="bg-slate-50 p-4 rounded-2xl border-l-4 border-emerald-500 text-slate-700 text-sm leading-relaxed">{point}</li>
+                                         ))}
+                                      </ul>
+                                    ) : (
+                                      <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Not addressed in this text</p>
+                                    )}
+                                 </div>
+                               ))}
                                <div className="pt-8 border-t border-slate-100">
                                   <h4 className="text-sm font-black text-slate-900 uppercase tracking-widest mb-4">Summary Conclusion</h4>
                                   <p className="text-slate-500 italic text-sm leading-relaxed">"{studyMaterials.briefing.conclusion}"</p>
@@ -373,15 +1158,129 @@ const App: React.FC = () => {
                          )}
 
                          {labTab === 'map' && (
-                            <div className="bg-slate-100 rounded-[3rem] p-10 min-h-[400px] shadow-inner overflow-x-auto">
-                               <MindMapNodeView node={studyMaterials.mindMap} level={0} />
-                            </div>
+                            <MindMapGraph mindMap={studyMaterials.mindMap} source={activeSession?.input ?? labInput} onChange={handleMindMapChange} />
+                         )}
+
+                         {labTab === 'quiz' && activeSession && (
+                            <PracticeTest
+                              quiz={activeSession.quiz}
+                              attempts={activeSession.quizAttempts || []}
+                              existingCards={studyMaterials.flashcards}
+                              isGenerating={isQuizGenerating}
+                              error={quizError}
+                              onGenerate={handleGenerateQuiz}
+                              onFinish={handleQuizFinished}
+                            />
                          )}
                       </div>
                     )}
+
+                    {activeSession && comparableSessions.length > 0 && !comparedSessions && (
+                      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-indigo-50 border border-indigo-100 text-indigo-800 px-6 py-4 rounded-2xl text-[11px] font-bold">
+                        <span><i className="fa-solid fa-code-compare mr-2"></i> This provision was analysed before on {new Date(comparableSessions[0].createdAt).toLocaleDateString('en-IN', { dateStyle: 'medium' })}.</span>
+                        <button onClick={() => setCompareIds([comparableSessions[0].id, activeSession.id])} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest">Compare</button>
+                      </div>
+                    )}
+
+                    {comparedSessions && (
+                      <SessionComparison left={comparedSessions[0]} right={comparedSessions[1]} onClose={() => setCompareIds([])} />
+                    )}
+
+                    <ReviewDashboard sessions={sessions} reviewState={reviewState} onStart={handleStartReview} />
+
+                    <StudySessionHistory
+                      sessions={sessions}
+                      activeSessionId={activeSessionId}
+                      compareIds={compareIds}
+                      onOpen={handleOpenSession}
+                      onRename={(sessionId, name) => setSessions(renameSession(sessions, sessionId, name))}
+                      onDuplicate={(sessionId) => setSessions(duplicateSession(sessions, sessionId))}
+                      onDelete={(sessionId) => {
+                        const remaining = deleteSession(sessions, sessionId);
+                        setSessions(remaining);
+                        setReviewState(prev => pruneReviewState(prev, remaining));
+                        setCompareIds(compareIds.filter(id => id !== sessionId));
+                        if (activeSessionId === sessionId) setActiveSessionId(null);
+                      }}
+                      onToggleCompare={handleToggleCompare}
+                    />
                   </div>
                 )}
 
+                {activeTab === LegalTab.LIBRARY && (
+                  <LibraryView library={library} onChange={setLibrary} onOpen={handleOpenViewer} />
+                )}
+
+                {activeTab === LegalTab.GRAPH && (
+                  <CitationGraphView
+                    graph={citationGraph}
+                    focusId={graphFocusId}
+                    onFocus={setGraphFocusId}
+                    onOpen={handleOpenViewer}
+                    onClear={() => { setCitationGraph(emptyGraph()); setGraphFocusId(null); }}
+                  />
+                )}
+
+                {activeTab === LegalTab.SEARCH && (
+                  <GlobalSearchView
+                    key={search.query}
+                    query={search.query}
+                    results={search.results}
+                    isSearching={search.isSearching}
+                    error={search.error}
+                    library={library}
+                    linkChecks={linkChecks}
+                    onOpen={handleOpenViewer}
+                    onOpenAct={(name, url) => handleOpenAct(name, url)}
+                    onSave={(kind, resource) => setSavingResource({ kind, resource })}
+                    onRetry={() => handleGlobalSearch(search.query)}
+                  />
+                )}
+
+                {activeTab === LegalTab.MATTERS && (
+                  <MattersView
+                    matters={matters}
+                    trackedCases={trackedCases}
+                    library={library}
+                    reminderPermission={reminderPermission}
+                    onChange={setMatters}
+                    onEnableReminders={() => Notification.requestPermission().then(setReminderPermission)}
+                    onOpen={handleOpenViewer}
+                  />
+                )}
+
+                {activeTab === LegalTab.CASE_TRACKER && (
+                  <CaseTrackerView
+                    cases={trackedCases}
+                    onChange={setTrackedCases}
+                    onFetchList={(bench, date) => fetchCauseList(bench, date).then(readCauseListDocument)}
+                  />
+                )}
+
+                {activeTab === LegalTab.DRAFTING && (
+                  <DraftingView
+                    templateStore={templateStore}
+                    onTemplateStoreChange={setTemplateStore}
+                    drafts={drafts}
+                    onDraftsChange={setDrafts}
+                    sessions={sessions}
+                    matters={matters}
+                    initialSessionId={draftSessionId}
+                  />
+                )}
+
+                {activeTab === LegalTab.CALCULATORS && (
+                  <CalculatorsView
+                    closures={courtClosures}
+                    onClosuresChange={setCourtClosures}
+                    onOpenProvision={(citation) => handleOpenAct(citation.act, undefined, citation.section ? `s${citation.section.toLowerCase()}` : null)}
+                  />
+                )}
+
+                {activeTab === LegalTab.SOURCES && (
+                  <SourcePolicySettings policy={sourcePolicy} onChange={setSourcePolicy} />
+                )}
+
                 {activeTab === LegalTab.ABOUT && (
                   <div className="space-y-12 animate-fade-in">
                     <div className="relative bg-[#020617] rounded-[3rem] overflow-hidden p-12 text-white shadow-2xl">
@@ -462,35 +1361,68 @@ const App: React.FC = () => {
                         <span className="bg-[#020617] text-white text-[9px] font-black px-4 py-1.5 rounded-full uppercase tracking-widest">{item.source}</span>
                         <span className="text-[10px] text-slate-400 font-bold">{item.date}</span>
                       </div>
+                      {item.sourceNote && <div className="mb-4"><SourceNoteBadge note={item.sourceNote} /></div>}
                       <h3 className="text-xl font-bold text-slate-900 mb-4 group-hover:text-amber-600 transition-colors">{item.title}</h3>
                       <p className="text-slate-500 text-sm mb-6 line-clamp-2">{item.summary}</p>
                       <div className="mb-8 flex flex-wrap gap-4">
-                         <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-blue-600 uppercase tracking-widest flex items-center gap-2 hover:underline"><i className="fa-solid fa-link"></i> Website: {new URL(item.url).hostname}</a>
+                         {renderSourceLink(item.url, 'Website')}
+                         <LinkStatusBadge check={linkChecks[item.url]} />
                          <a href={getSafeGoogleSearchLink(item.title)} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2 hover:underline hover:text-amber-600"><i className="fa-solid fa-magnifying-glass"></i> Alternative Search</a>
                       </div>
                       <div className="flex flex-wrap gap-4">
                         <button onClick={() => handleOpenViewer(item.title, item.url)} className="bg-amber-500 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg active:scale-95 transition-all">Read In-App</button>
                         <button onClick={() => shareOnWhatsApp(item.title, item.url)} className="h-12 w-12 bg-emerald-50 text-emerald-600 rounded-2xl flex items-center justify-center hover:bg-emerald-500 hover:text-white transition-all"><i className="fa-brands fa-whatsapp text-xl"></i></button>
+                        <SaveButton kind="news" resource={item} />
                       </div>
                     </div>
                   ))}
 
-                  {/* Articles/Academy/TN/SC Cards */}
-                  {(activeTab === LegalTab.ARTICLES || activeTab === LegalTab.ACADEMY || activeTab === LegalTab.TAMIL_NADU || activeTab === LegalTab.SUPREME_COURT) && 
+                  {/* Articles/TN/SC Cards */}
+                  {(activeTab === LegalTab.ARTICLES || activeTab === LegalTab.TAMIL_NADU || activeTab === LegalTab.SUPREME_COURT) && 
                    (activeTab === LegalTab.TAMIL_NADU ? tnData : activeTab === LegalTab.SUPREME_COURT ? scData : articles).map((item, i) => (
                     <div key={i} className="bg-white rounded-[2rem] p-8 border border-white shadow-sm flex flex-col md:flex-row gap-8 items-start hover:shadow-xl transition-all">
                       <div className="h-20 w-20 bg-amber-50 rounded-[2rem] flex items-center justify-center shrink-0 shadow-inner"><i className="fa-solid fa-feather-pointed text-3xl text-amber-500"></i></div>
                       <div className="flex-1 w-full">
                         <h3 className="text-2xl font-bold text-slate-900 mb-2 leading-tight">{item.title}</h3>
-                        <p className="text-[10px] font-black text-amber-600 mb-6 uppercase tracking-widest">{item.author} • {item.source}</p>
+                        <p className="text-[10px] font-black text-amber-600 mb-6 uppercase tracking-widest">{item.author} • {item.source}{item.date && ` • ${item.date}`}</p>
+                        {item.topic && <span className="inline-block -mt-3 mb-6 px-3 py-1 bg-slate-100 text-slate-600 text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-200">{item.topic}</span>}
+                        {item.sourceNote && <div className="-mt-3 mb-6"><SourceNoteBadge note={item.sourceNote} /></div>}
                         <p className="text-sm text-slate-500 mb-6 line-clamp-3 leading-relaxed">{item.summary}</p>
                         <div className="mb-8 flex flex-wrap gap-4">
-                           <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-blue-600 uppercase tracking-widest flex items-center gap-2 hover:underline"><i className="fa-solid fa-link"></i> Source Portal: {new URL(item.url).hostname}</a>
+                           {renderSourceLink(item.url, 'Source Portal')}
+                           <LinkStatusBadge check={linkChecks[item.url]} />
                            <a href={getSafeGoogleSearchLink(item.title)} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2 hover:underline hover:text-amber-600"><i className="fa-solid fa-magnifying-glass"></i> Alternative Search</a>
                         </div>
                         <div className="flex flex-wrap gap-4">
                           <button onClick={() => handleOpenViewer(item.title, item.url)} className="bg-[#020617] text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">Analyze Record</button>
                           {item.downloadUrl && <a href={item.downloadUrl} target="_blank" rel="noopener noreferrer" className="bg-indigo-700 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest flex items-center gap-2 shadow-lg shadow-indigo-700/20"><i className="fa-solid fa-download"></i> Direct PDF</a>}
+                          <SaveButton kind="article" resource={item} />
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+
+                  {/* Judiciary Academy */}
+                  {activeTab === LegalTab.ACADEMY && academy.map((item, i) => (
+                    <div key={i} className="bg-white rounded-[2rem] p-8 border border-white shadow-sm flex flex-col md:flex-row gap-8 items-start hover:shadow-xl transition-all">
+                      <div className="h-20 w-20 bg-indigo-50 rounded-[2rem] flex items-center justify-center shrink-0 shadow-inner"><i className="fa-solid fa-landmark-dome text-3xl text-indigo-600"></i></div>
+                      <div className="flex-1 w-full">
+                        <p className="text-[10px] font-black text-indigo-600 mb-2 uppercase tracking-widest">{item.academy}{item.date && ` • ${item.date}`}</p>
+                        <h3 className="text-2xl font-bold text-slate-900 mb-3 leading-tight">{item.title}</h3>
+                        <div className="flex flex-wrap gap-2 mb-6">
+                          <span className="bg-[#020617] text-white text-[9px] font-black px-4 py-1.5 rounded-full uppercase tracking-widest"><i className="fa-solid fa-graduation-cap mr-2"></i>{item.course}</span>
+                          {item.module && <span className="bg-slate-100 text-slate-600 text-[9px] font-black px-4 py-1.5 rounded-full uppercase tracking-widest border border-slate-200">{item.module}</span>}
+                        </div>
+                        {item.sourceNote && <div className="-mt-3 mb-6"><SourceNoteBadge note={item.sourceNote} /></div>}
+                        <p className="text-sm text-slate-500 mb-6 line-clamp-3 leading-relaxed">{item.summary}</p>
+                        <div className="mb-8 flex flex-wrap gap-4">
+                           {renderSourceLink(item.url, 'Academy Portal')}
+                           <LinkStatusBadge check={linkChecks[item.url]} />
+                        </div>
+                        <div className="flex flex-wrap gap-4">
+                          <button onClick={() => handleOpenViewer(item.title, item.url)} className="bg-[#020617] text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">Study Material</button>
+                          {item.downloadUrl && <a href={item.downloadUrl} target="_blank" rel="noopener noreferrer" className="bg-indigo-700 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest flex items-center gap-2 shadow-lg shadow-indigo-700/20"><i className="fa-solid fa-download"></i> Direct PDF</a>}
+                          <SaveButton kind="academy" resource={item} />
                         </div>
                       </div>
                     </div>
@@ -500,7 +1432,11 @@ const App: React.FC = () => {
                   {activeTab === LegalTab.JUDGMENTS && judgments.map((item, i) => (
                     <div key={i} className="bg-white rounded-[3rem] border border-slate-100 shadow-lg overflow-hidden transition-all hover:shadow-2xl">
                       <div className="bg-[#020617] p-10 flex justify-between items-center">
-                        <div><h3 className="text-2xl font-black text-white leading-tight">{item.caseName}</h3><span className="text-[10px] text-amber-500 font-black tracking-widest uppercase bg-amber-500/10 px-3 py-1 rounded-full">{item.citation}</span></div>
+                        <div>
+                          <h3 className="text-2xl font-black text-white leading-tight">{item.caseName}</h3>
+                          <CitationBadge citation={item.citation || ''} />
+                          {item.sourceNote && <div className="mt-3"><SourceNoteBadge note={item.sourceNote} /></div>}
+                        </div>
                         <button onClick={() => handleOpenViewer(item.caseName, item.link)} className="bg-amber-500 text-white px-8 py-4 rounded-2xl font-black text-[10px] uppercase shadow-xl shadow-amber-500/20">Read Analysis</button>
                       </div>
                       <div className="p-10 space-y-8">
@@ -525,11 +1461,14 @@ const App: React.FC = () => {
 
                         <div className="mb-4 flex flex-wrap gap-4">
                            <a href={item.link} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-blue-600 uppercase tracking-widest flex items-center gap-2 hover:underline"><i className="fa-solid fa-link"></i> Legal Portal Source</a>
+                           <LinkStatusBadge check={linkChecks[item.link]} />
                            <a href={getSafeGoogleSearchLink(item.caseName)} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2 hover:underline hover:text-amber-600"><i className="fa-solid fa-magnifying-glass"></i> Alternative Search</a>
                         </div>
                         <div className="flex flex-wrap gap-4">
-                           {item.freeDownloadLink && <a href={item.freeDownloadLink} target="_blank" rel="noopener noreferrer" className="bg-emerald-600 text-white px-8 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-emerald-600/20"><i className="fa-solid fa-file-pdf"></i> Download PDF</a>}
+                           {item.freeDownloadLink && <a href={item.freeDownloadLink} target="_blank" rel="noopener noreferrer" className="bg-emerald-600 text-white px-8 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-emerald-600/20"><i className="fa-solid fa-file-pdf"></i> Download PDF <LinkStatusBadge check={linkChecks[item.freeDownloadLink]} compact /></a>}
                            <button onClick={() => shareOnWhatsApp(item.caseName, item.link)} className="px-8 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-black text-[10px] uppercase text-emerald-600 flex items-center gap-2"><i className="fa-brands fa-whatsapp"></i> Share citation</button>
+                           <button onClick={() => handleGraphJump(judgmentNodeId(item.caseName))} className="px-8 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-black text-[10px] uppercase text-indigo-600 flex items-center gap-2"><i className="fa-solid fa-diagram-project"></i> View in Graph</button>
+                           <SaveButton kind="judgment" resource={item} />
                         </div>
                       </div>
                     </div>
@@ -540,36 +1479,74 @@ const App: React.FC = () => {
                     <div key={i} className="bg-white p-10 rounded-[3rem] shadow-xl border border-white hover:border-amber-400 transition-all">
                       <div className="flex justify-between items-start mb-6">
                         <div>
+                          {i === 0 && feedRef.current.query && normaliseActName(item.name).includes(normaliseActName(feedRef.current.query)) && (
+                            <span className="inline-block mb-3 text-[9px] font-black text-white bg-amber-500 px-3 py-1 rounded-full uppercase tracking-widest">Best Match</span>
+                          )}
                           <h3 className="text-3xl font-black text-slate-900 mb-1 leading-none">{item.name}</h3>
-                          <span className="text-[11px] font-black text-amber-600 uppercase tracking-widest">Enacted: {item.year}</span>
+                          <span className="text-[11px] font-black text-amber-600 uppercase tracking-widest">Enacted: {item.year}{item.jurisdiction && ` • ${item.jurisdiction === 'central' ? 'Central Act' : 'State Act'}`}</span>
+                          {item.sourceNote && <div className="mt-3"><SourceNoteBadge note={item.sourceNote} /></div>}
                         </div>
                         <i className="fa-solid fa-scroll text-slate-100 text-5xl"></i>
                       </div>
                       <p className="text-slate-400 text-sm mb-10 leading-relaxed line-clamp-3">{item.description}</p>
                       <div className="flex flex-wrap gap-4">
-                         <button onClick={() => handleOpenViewer(item.name, item.sourceUrl)} className="flex-1 min-w-[140px] bg-[#020617] text-white py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-2xl active:scale-[0.98] transition-all">Read Clauses</button>
+                         <button onClick={() => handleOpenAct(item.name, item.sourceUrl)} className="flex-1 min-w-[140px] bg-[#020617] text-white py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-2xl active:scale-[0.98] transition-all">Read Clauses</button>
                          {item.pdfUrl && (
                             <a href={item.pdfUrl} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-[140px] bg-red-600 text-white py-4 rounded-2xl flex items-center justify-center gap-3 font-black text-[11px] uppercase tracking-widest shadow-xl shadow-red-600/20">
-                              <i className="fa-solid fa-file-pdf"></i> Download PDF
+                              <i className="fa-solid fa-file-pdf"></i> Download PDF <LinkStatusBadge check={linkChecks[item.pdfUrl]} compact />
                             </a>
                          )}
-                         <a href={item.sourceUrl} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-[140px] bg-indigo-700 text-white py-4 rounded-2xl flex items-center justify-center gap-3 font-black text-[11px] uppercase tracking-widest shadow-xl shadow-indigo-700/20"><i className="fa-solid fa-arrow-up-right-from-square"></i> Official Source</a>
+                         <button onClick={() => handleGraphJump(actNodeId(item.name))} className="flex-1 min-w-[140px] bg-slate-50 border border-slate-100 text-indigo-600 py-4 rounded-2xl flex items-center justify-center gap-3 font-black text-[11px] uppercase tracking-widest"><i className="fa-solid fa-diagram-project"></i> Case Graph</button>
+                         <a href={item.sourceUrl} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-[140px] bg-indigo-700 text-white py-4 rounded-2xl flex items-center justify-center gap-3 font-black text-[11px] uppercase tracking-widest shadow-xl shadow-indigo-700/20"><i className="fa-solid fa-arrow-up-right-from-square"></i> Official Source <LinkStatusBadge check={linkChecks[item.sourceUrl]} compact /></a>
+                         <SaveButton kind="act" resource={item} />
                       </div>
                     </div>
                   ))}
                 </div>
+
+                {/* Infinite scroll sentinel and footer */}
+                {!NON_FEED_TABS.includes(activeTab) && (
+                  <>
+                    <div ref={lastElementRef} className="h-1"></div>
+                    {isFetchingMore && (
+                      <div className="flex items-center justify-center gap-3 py-8 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+                        <div className="h-5 w-5 border-2 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
+                        Loading more...
+                      </div>
+                    )}
+                    {!isFetchingMore && !hasMore && (
+                      <p className="text-center py-8 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">End of records</p>
+                    )}
+                  </>
+                )}
               </div>
             )}
           </div>
         </div>
       </main>
 
+      {/* Bare Act Reader */}
+      {actReader && (
+        <BareActReader
+          name={actReader.name}
+          sourceUrl={actReader.url}
+          act={structuredAct}
+          isLoading={isActLoading}
+          error={actError}
+          sectionId={actSectionId}
+          onSectionChange={handleActSectionChange}
+          onShare={shareOnWhatsApp}
+          onOpenDocument={actDocumentUrl ? () => { handleCloseAct(); handleOpenViewer(structuredAct?.name || actReader.name, actDocumentUrl); } : undefined}
+          onClose={handleCloseAct}
+        />
+      )}
+
       {/* Reader Viewer */}
       {viewerItem && (
         <div className="fixed inset-0 bg-white z-[100] flex flex-col animate-fade-in animate-slide-up">
           <div className="h-24 px-8 border-b border-slate-200 flex items-center justify-between bg-white/95 backdrop-blur-md sticky top-0 z-10">
             <div className="flex items-center gap-6">
-              <button onClick={() => setViewerItem(null)} className="h-12 w-12 rounded-full hover:bg-slate-100 flex items-center justify-center text-slate-600 transition-all"><i className="fa-solid fa-xmark text-2xl"></i></button>
+              <button onClick={() => { setViewerItem(null); viewerUrlRef.current = null; }} className="h-12 w-12 rounded-full hover:bg-slate-100 flex items-center justify-center text-slate-600 transition-all"><i className="fa-solid fa-xmark text-2xl"></i></button>
               <div className="hidden md:block">
                  <h2 className="serif font-bold text-slate-900 text-base md:text-xl line-clamp-1 max-w-lg">{viewerItem.title}</h2>
                  <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest">M&O Intelligent Reader</p>
@@ -619,6 +1596,14 @@ const App: React.FC = () => {
                 )}
               </div>
 
+              <button 
+                onClick={() => setShowAnnotations(!showAnnotations)} 
+                className={`relative h-12 w-12 rounded-full flex items-center justify-center transition-all ${showAnnotations ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                <i className="fa-solid fa-highlighter text-lg"></i>
+                {annotations.length > 0 && <span className="absolute -top-1 -right-1 h-5 min-w-5 px-1 rounded-full bg-[#020617] text-white text-[9px] font-black flex items-center justify-center">{annotations.length}</span>}
+              </button>
+
               <button 
                 onClick={handlePushToLab} 
                 className="hidden md:flex bg-[#020617] text-white px-8 py-3 rounded-full text-[10px] font-black uppercase tracking-widest items-center gap-2 shadow-2xl active:scale-95 transition-all"
@@ -631,35 +1616,69 @@ const App: React.FC = () => {
             </div>
           </div>
           
-          <div className="flex-1 bg-[#f8f9fa] overflow-y-auto">
-            <div className="max-w-4xl mx-auto py-16 px-10 bg-white min-h-screen shadow-2xl border-x border-slate-100">
-              <div className="mb-10 pb-10 border-b border-slate-100">
-                 <h1 className="serif font-bold text-slate-900 text-3xl md:text-5xl mb-6">{viewerItem.title}</h1>
-                 <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-                    <a href={viewerItem.url} target="_blank" rel="noopener noreferrer" className="text-xs font-bold text-blue-600 bg-blue-50 px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-blue-100 transition-all w-fit">
-                       <i className="fa-solid fa-link"></i> Website: {viewerItem.url}
-                    </a>
-                 </div>
-              </div>
-              
-              {isExtracting ? (
-                 <div className="flex flex-col items-center justify-center h-[40vh]">
-                   <div className="h-12 w-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mb-8"></div>
-                   <p className="text-slate-400 font-black text-xs uppercase tracking-[0.3em] animate-pulse">Scanning Provisions...</p>
-                 </div>
-              ) : extractedData && (
-                <div 
-                  className="serif text-slate-800 transition-all duration-300"
-                  style={{ fontSize: `${fontSize}px`, lineHeight: lineHeight }}
-                >
-                  {extractedData.text.split('\n').map((line, i) => (
-                    <p key={i} className="mb-6">
-                      <SmartTextRenderer text={line} mentions={extractedData.mentions} />
-                    </p>
-                  ))}
+          <div className="flex-1 flex overflow-hidden relative">
+            <div className="flex-1 bg-[#f8f9fa] overflow-y-auto">
+              <div className="max-w-4xl mx-auto py-16 px-10 bg-white min-h-screen shadow-2xl border-x border-slate-100">
+                <div className="mb-10 pb-10 border-b border-slate-100">
+                   <h1 className="serif font-bold text-slate-900 text-3xl md:text-5xl mb-6">{viewerItem.title}</h1>
+                   <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                      <a href={viewerItem.url} target="_blank" rel="noopener noreferrer" className="text-xs font-bold text-blue-600 bg-blue-50 px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-blue-100 transition-all w-fit">
+                         <i className="fa-solid fa-link"></i> Website: {viewerItem.url}
+                      </a>
+                   </div>
                 </div>
-              )}
+                
+                {isExtracting ? (
+                   <div className="flex flex-col items-center justify-center h-[40vh]">
+                     <div className="h-12 w-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mb-8"></div>
+                     <p className="text-slate-400 font-black text-xs uppercase tracking-[0.3em] animate-pulse">Scanning Provisions...</p>
+                   </div>
+                ) : extractedData && (
+                  <>
+                    {documentSnapshot?.fromCache && (!isOnline || documentSnapshot.refreshFailed) && (
+                      <div className="flex items-center gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-6 py-4 rounded-2xl text-[11px] font-bold mb-10">
+                        <i className="fa-solid fa-cloud-arrow-down"></i>
+                        {isOnline ? 'Could not refresh' : 'Offline'}, showing saved copy from {formatSavedAt(documentSnapshot.fetchedAt)}
+                      </div>
+                    )}
+                    <AnnotatedDocument
+                      text={extractedData.text}
+                      anchored={anchored}
+                      activeId={activeAnnotationId}
+                      style={{ fontSize: `${fontSize}px`, lineHeight: lineHeight }}
+                      renderText={(segment) => <SmartTextRenderer text={segment} mentions={extractedData.mentions} />}
+                      onSelectRange={setPendingSelection}
+                      onActivate={handleActivateAnnotation}
+                    />
+                  </>
+                )}
+              </div>
             </div>
+
+            {pendingSelection && (
+              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-[#020617] text-white rounded-full px-5 py-3 flex items-center gap-3 shadow-2xl z-20 animate-fade-in">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Highlight</span>
+                {(['yellow', 'green', 'blue', 'pink'] as HighlightColour[]).map(colour => (
+                  <button key={colour} onClick={() => handleHighlight(colour)} className={`h-7 w-7 rounded-full ${HIGHLIGHT_CLASSES[colour]} hover:scale-110 transition-transform`}></button>
+                ))}
+                <button onClick={() => setPendingSelection(null)} className="h-7 w-7 rounded-full hover:bg-slate-800 text-slate-400"><i className="fa-solid fa-xmark"></i></button>
+              </div>
+            )}
+
+            {showAnnotations && (
+              <div className="absolute inset-0 md:static md:inset-auto z-30">
+                <AnnotationPanel
+                  anchored={anchored}
+                  orphaned={orphaned}
+                  activeId={activeAnnotationId}
+                  onActivate={handleActivateAnnotation}
+                  onUpdate={(annotationId, patch) => updateAnnotations(annotations.map(a => a.id === annotationId ? { ...a, ...patch } : a))}
+                  onDelete={(annotationId) => updateAnnotations(annotations.filter(a => a.id !== annotationId))}
+                  onSendToLab={handlePushAnnotationsToLab}
+                  onClose={() => setShowAnnotations(false)}
+                />
+              </div>
+            )}
           </div>
           
           <div className="md:hidden border-t border-slate-200 bg-white p-4 flex gap-3">
@@ -670,6 +1689,35 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {correspondenceQuery !== null && (
+        <CorrespondenceLookup
+          initialQuery={correspondenceQuery}
+          onOpenSection={(actName, section) => { setCorrespondenceQuery(null); handleOpenAct(actName, undefined, `s${section.toLowerCase()}`); }}
+          onClose={() => setCorrespondenceQuery(null)}
+        />
+      )}
+
+      {savingResource && (
+        <SaveToLibraryDialog
+          library={library}
+          kind={savingResource.kind}
+          resource={savingResource.resource}
+          onSave={setLibrary}
+          matters={matters}
+          onFileToMatter={(matterId) => setMatters(current => linkResearch(current, matterId, savingResource.kind, savingResource.resource))}
+          onClose={() => setSavingResource(null)}
+        />
+      )}
+
+      {reviewQueue && (
+        <ReviewSession
+          queue={reviewQueue}
+          reviewState={reviewState}
+          onGrade={(item, grade) => setReviewState(prev => recordReview(prev, item, grade))}
+          onClose={() => setReviewQueue(null)}
+        />
+      )}
+
       <style>{`
         @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
         @keyframes slide-up { from { opacity: 0; transform: translateY(30px); } to { opacity: 1; transform: translateY(0); } }
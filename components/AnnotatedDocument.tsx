@@ -0,0 +1,90 @@
+import React from 'react';
+import { HighlightColour } from '../types';
+import { AnchoredAnnotation } from '../services/annotationService';
+
+export const HIGHLIGHT_CLASSES: Record<HighlightColour, string> = {
+  yellow: 'bg-yellow-200/80',
+  green: 'bg-emerald-200/80',
+  blue: 'bg-sky-200/80',
+  pink: 'bg-pink-200/80'
+};
+
+interface AnnotatedDocumentProps {
+  text: string;
+  anchored: AnchoredAnnotation[];
+  activeId: string | null;
+  style: React.CSSProperties;
+  renderText: (segment: string) => React.ReactNode;
+  onSelectRange: (range: { start: number, end: number } | null) => void;
+  onActivate: (annotationId: string) => void;
+}
+
+// Convert a DOM selection point into an offset in the full document text. Text that renderText
+// adds to the document, marked with data-annotation-ignore, is not counted.
+const documentOffset = (node: Node, nodeOffset: number): number | null => {
+  const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+  const paragraph = element?.closest<HTMLElement>('[data-line-start]');
+  if (!paragraph) return null;
+  const range = document.createRange();
+  range.selectNodeContents(paragraph);
+  range.setEnd(node, nodeOffset);
+  let length = 0;
+  const walker = document.createTreeWalker(paragraph, NodeFilter.SHOW_TEXT);
+  for (let textNode = walker.nextNode(); textNode && range.intersectsNode(textNode); textNode = walker.nextNode()) {
+    if (textNode.parentElement?.closest('[data-annotation-ignore]')) continue;
+    length += textNode === node ? nodeOffset : textNode.textContent!.length;
+  }
+  return Number(paragraph.dataset.lineStart) + length;
+};
+
+const AnnotatedDocument: React.FC<AnnotatedDocumentProps> = ({ text, anchored, activeId, style, renderText, onSelectRange, onActivate }) => {
+  const handleSelection = () => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || !selection.rangeCount) return onSelectRange(null);
+    const range = selection.getRangeAt(0);
+    const start = documentOffset(range.startContainer, range.startOffset);
+    const end = documentOffset(range.endContainer, range.endOffset);
+    if (start === null || end === null || end <= start || !text.slice(start, end).trim()) return onSelectRange(null);
+    onSelectRange({ start, end });
+  };
+
+  let lineStart = 0;
+  const lines = text.split('\n').map(line => {
+    const start = lineStart;
+    lineStart += line.length + 1;
+    return { line, start };
+  });
+
+  return (
+    <div className="serif text-slate-800 transition-all duration-300" style={style} onMouseUp={handleSelection} onTouchEnd={handleSelection}>
+      {lines.map(({ line, start }, i) => {
+        const end = start + line.length;
+        const segments: React.ReactNode[] = [];
+        let cursor = start;
+        anchored.filter(a => a.start < end && a.end > start).forEach(({ annotation, start: from, end: to }) => {
+          const segmentStart = Math.max(from, start);
+          const segmentEnd = Math.min(to, end);
+          if (segmentStart > cursor) segments.push(<React.Fragment key={`t${cursor}`}>{renderText(text.slice(cursor, segmentStart))}</React.Fragment>);
+          segments.push(
+            <mark
+              key={`a${annotation.id}${segmentStart}`}
+              id={segmentStart === from ? `annotation-${annotation.id}` : undefined}
+              onClick={() => onActivate(annotation.id)}
+              className={`${HIGHLIGHT_CLASSES[annotation.colour]} text-inherit rounded-sm cursor-pointer ${activeId === annotation.id ? 'ring-2 ring-amber-500' : ''}`}
+            >
+              {renderText(text.slice(segmentStart, segmentEnd))}
+              {segmentEnd === to && annotation.note && (
+                <sup title={annotation.note} className="ml-0.5 text-amber-600"><i className="fa-solid fa-note-sticky text-[0.7em]"></i></sup>
+              )}
+            </mark>
+          );
+          cursor = segmentEnd;
+        });
+        if (cursor < end) segments.push(<React.Fragment key={`t${cursor}`}>{renderText(text.slice(cursor, end))}</React.Fragment>);
+        return <p key={i} data-line-start={start} className="mb-6">{segments}</p>;
+      })}
+    </div>
+  );
+};
+
+export default AnnotatedDocument;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Annotation, HighlightColour } from '../types';
+import { AnchoredAnnotation } from '../services/annotationService';
+import { HIGHLIGHT_CLASSES } from './AnnotatedDocument';
+
+interface AnnotationPanelProps {
+  anchored: AnchoredAnnotation[];
+  orphaned: Annotation[];
+  activeId: string | null;
+  onActivate: (annotationId: string) => void;
+  onUpdate: (annotationId: string, patch: Partial<Pick<Annotation, 'note' | 'colour'>>) => void;
+  onDelete: (annotationId: string) => void;
+  onSendToLab: (passages: AnchoredAnnotation[]) => void;
+  onClose: () => void;
+}
+
+const COLOURS: HighlightColour[] = ['yellow', 'green', 'blue', 'pink'];
+
+const AnnotationPanel: React.FC<AnnotationPanelProps> = ({ anchored, orphaned, activeId, onActivate, onUpdate, onDelete, onSendToLab, onClose }) => {
+  const [colourFilter, setColourFilter] = useState<HighlightColour | null>(null);
+  const visible = colourFilter ? anchored.filter(a => a.annotation.colour === colourFilter) : anchored;
+
+  return (
+    <aside className="w-full md:w-96 shrink-0 bg-white border-l border-slate-200 flex flex-col h-full">
+      <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Annotations ({anchored.length + orphaned.length})</h4>
+        <button onClick={onClose} className="h-8 w-8 rounded-full hover:bg-slate-100 text-slate-500"><i className="fa-solid fa-xmark"></i></button>
+      </div>
+      <div className="px-6 py-4 flex gap-2 border-b border-slate-100">
+        <button onClick={() => setColourFilter(null)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest ${colourFilter === null ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500'}`}>All</button>
+        {COLOURS.map(colour => (
+          <button
+            key={colour}
+            onClick={() => setColourFilter(colourFilter === colour ? null : colour)}
+            className={`h-7 w-7 rounded-full ${HIGHLIGHT_CLASSES[colour]} ${colourFilter === colour ? 'ring-2 ring-slate-900' : ''}`}
+          ></button>
+        ))}
+      </div>
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {visible.map(({ annotation }) => (
+          <div
+            key={annotation.id}
+            onClick={() => onActivate(annotation.id)}
+            className={`rounded-2xl border p-4 space-y-3 cursor-pointer transition-all ${activeId === annotation.id ? 'border-amber-500 shadow-lg' : 'border-slate-100 hover:border-slate-300'}`}
+          >
+            <p className={`serif text-sm text-slate-800 px-2 py-1 rounded ${HIGHLIGHT_CLASSES[annotation.colour]} line-clamp-4`}>{annotation.quote}</p>
+            <textarea
+              placeholder="Margin note..."
+              value={annotation.note}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onUpdate(annotation.id, { note: e.target.value })}
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs h-16 outline-none focus:border-amber-500 resize-none"
+            />
+            <div className="flex items-center justify-between">
+              <div className="flex gap-1.5">
+                {COLOURS.map(colour => (
+                  <button
+                    key={colour}
+                    onClick={(e) => { e.stopPropagation(); onUpdate(annotation.id, { colour }); }}
+                    className={`h-5 w-5 rounded-full ${HIGHLIGHT_CLASSES[colour]} ${annotation.colour === colour ? 'ring-2 ring-slate-700' : ''}`}
+                  ></button>
+                ))}
+              </div>
+              <button onClick={(e) => { e.stopPropagation(); onDelete(annotation.id); }} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-600"><i className="fa-solid fa-trash-can"></i></button>
+            </div>
+          </div>
+        ))}
+        {!visible.length && <p className="text-center py-10 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Select text to highlight</p>}
+
+        {orphaned.length > 0 && (
+          <div className="pt-4 space-y-3">
+            <h5 className="text-[10px] font-black uppercase tracking-widest text-red-400">Not found in current text</h5>
+            {orphaned.map(annotation => (
+              <div key={annotation.id} className="rounded-2xl border border-dashed border-slate-200 p-4 space-y-2">
+                <p className="serif text-xs text-slate-500 line-clamp-3">{annotation.quote}</p>
+                {annotation.note && <p className="text-[11px] text-slate-400 italic">{annotation.note}</p>}
+                <button onClick={() => onDelete(annotation.id)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-600">Remove</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="p-6 border-t border-slate-100">
+        <button
+          onClick={() => onSendToLab(visible)}
+          disabled={!visible.length}
+          className="w-full bg-[#020617] text-white py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <i className="fa-solid fa-microscope"></i> Send {visible.length} Passage{visible.length === 1 ? '' : 's'} to Lab
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default AnnotationPanel;
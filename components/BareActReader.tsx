@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ActSection, ProvisionBlock, StructuredAct } from '../types';
+import { findActSection, findSectionChapter, formatSectionText, listSections, provisionNoun, sectionAnchor, sectionCitation } from '../services/bareActService';
+
+interface BareActReaderProps {
+  name: string;
+  sourceUrl?: string;
+  act: StructuredAct | null;
+  isLoading: boolean;
+  error: string | null;
+  sectionId: string | null;
+  onSectionChange: (sectionId: string) => void;
+  onShare: (title: string, link: string) => void;
+  // Falls back to the general extractor view; absent when the Act has no known URL
+  onOpenDocument?: () => void;
+  onClose: () => void;
+}
+
+const sectionLink = (act: StructuredAct, section: ActSection) =>
+  `${window.location.origin}${window.location.pathname}#${sectionAnchor(act, section)}`;
+
+const ProvisionList: React.FC<{ blocks: ProvisionBlock[] }> = ({ blocks }) => (
+  <div className="space-y-3">
+    {blocks.map((block, i) => (
+      <React.Fragment key={i}>
+        {block.kind === 'illustration' && blocks[i - 1]?.kind !== 'illustration' && (
+          <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest pt-2">Illustrations</h5>
+        )}
+        <ProvisionView block={block} />
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+const ProvisionView: React.FC<{ block: ProvisionBlock }> = ({ block }) => {
+  const children = block.children?.length ? <div className="pl-6 md:pl-8 mt-3"><ProvisionList blocks={block.children} /></div> : null;
+  if (block.kind === 'proviso') {
+    return <div><p className="border-l-4 border-amber-400 pl-4 italic text-slate-600">{block.text}</p>{children}</div>;
+  }
+  if (block.kind === 'explanation') {
+    return (
+      <div className="bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 text-[0.9em] text-slate-700">
+        <span className="font-black text-slate-900">{block.label}.—</span>{block.text}
+        {children}
+      </div>
+    );
+  }
+  if (block.kind === 'illustration') {
+    return <p className="text-[0.9em] text-slate-500"><span className="font-black text-slate-700 mr-2">{block.label}</span>{block.text}</p>;
+  }
+  return (
+    <div>
+      <p className="text-slate-800"><span className="font-black text-slate-900 mr-2">{block.label}</span>{block.text}</p>
+      {children}
+    </div>
+  );
+};
+
+const BareActReader: React.FC<BareActReaderProps> = ({ name, sourceUrl, act, isLoading, error, sectionId, onSectionChange, onShare, onOpenDocument, onClose }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [showContents, setShowContents] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [copied, setCopied] = useState<string | null>(null);
+  const sectionRefs = useRef<Record<string, HTMLElement | null>>({});
+  const noun = act ? provisionNoun(act) : 'Section';
+
+  // Open the chapter holding the linked section and bring the section into view
+  useEffect(() => {
+    if (!act || !sectionId) return;
+    const chapter = findSectionChapter(act, sectionId);
+    if (chapter) setExpanded(prev => new Set(prev).add(chapter.id));
+    sectionRefs.current[sectionId]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [act, sectionId]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const toggleChapter = (chapterId: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(chapterId)) next.delete(chapterId);
+    else next.add(chapterId);
+    return next;
+  });
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(current => current === key ? null : current), 2000);
+    } catch {
+      window.prompt('Copy this text:', text);
+    }
+  };
+
+  const matchesFilter = (section: ActSection) => {
+    const needle = filter.trim().toLowerCase();
+    return !needle || section.number.toLowerCase() === needle || `${section.number} ${section.heading}`.toLowerCase().includes(needle);
+  };
+
+  const linkedMissing = Boolean(act && sectionId && !findActSection(act, sectionId));
+
+  return (
+    <div className="fixed inset-0 bg-white z-[100] flex flex-col animate-fade-in animate-slide-up">
+      <div className="h-24 px-8 border-b border-slate-200 flex items-center justify-between bg-white/95 backdrop-blur-md sticky top-0 z-10">
+        <div className="flex items-center gap-6">
+          <button onClick={onClose} className="h-12 w-12 rounded-full hover:bg-slate-100 flex items-center justify-center text-slate-600 transition-all"><i className="fa-solid fa-xmark text-2xl"></i></button>
+          <div className="hidden md:block">
+            <h2 className="serif font-bold text-slate-900 text-base md:text-xl line-clamp-1 max-w-lg">{act?.name || name}</h2>
+            <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest">M&O Bare Act Reader</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => setShowContents(!showContents)} className={`lg:hidden h-12 w-12 rounded-full flex items-center justify-center transition-all ${showContents ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-600'}`}>
+            <i className="fa-solid fa-list-ol text-lg"></i>
+          </button>
+          {onOpenDocument && (
+            <button onClick={onOpenDocument} className="hidden md:flex bg-[#020617] text-white px-8 py-3 rounded-full text-[10px] font-black uppercase tracking-widest items-center gap-2 shadow-2xl active:scale-95 transition-all">
+              <i className="fa-solid fa-highlighter"></i> Document View
+            </button>
+          )}
+          {sourceUrl && (
+            <a href={sourceUrl} target="_blank" rel="noopener noreferrer" className="bg-slate-100 text-slate-600 px-6 py-3 rounded-full text-[10px] font-black uppercase tracking-widest flex items-center gap-2 hover:bg-slate-900 hover:text-white transition-all shadow-md">
+              <i className="fa-solid fa-arrow-up-right-from-square"></i> <span className="hidden sm:inline">Official Source</span>
+            </a>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex flex-col items-center justify-center">
+          <div className="h-12 w-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mb-8"></div>
+          <p className="text-slate-400 font-black text-xs uppercase tracking-[0.3em] animate-pulse">Reading Sections...</p>
+        </div>
+      ) : !act ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-6 p-10 text-center">
+          <i className="fa-solid fa-scroll text-5xl text-slate-200"></i>
+          <p className="text-sm text-slate-500 max-w-md">{error || 'The text of this Act could not be read.'}</p>
+          {onOpenDocument && <button onClick={onOpenDocument} className="bg-amber-500 text-white px-8 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg">Open In Document View</button>}
+        </div>
+      ) : (
+        <div className="flex-1 flex overflow-hidden relative">
+          <aside className={`${showContents ? 'flex' : 'hidden'} lg:flex absolute lg:relative inset-y-0 left-0 z-10 w-80 flex-col bg-white border-r border-slate-200 shadow-2xl lg:shadow-none`}>
+            <div className="p-5 border-b border-slate-100 space-y-3">
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Contents</h4>
+              <input
+                type="text"
+                placeholder={`Find ${noun.toLowerCase()} number or heading...`}
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500"
+              />
+            </div>
+            <nav className="flex-1 overflow-y-auto p-3 space-y-4">
+              {act.parts.map(part => (
+                <div key={part.id} className="space-y-1">
+                  {part.number && <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest px-3 pt-2">Part {part.number}{part.title && ` • ${part.title}`}</p>}
+                  {part.chapters.map(chapter => {
+                    const sections = chapter.sections.filter(matchesFilter);
+                    if (!sections.length) return null;
+                    // Untitled chapters (Acts without chapters) and active searches show their sections directly
+                    const isOpen = !chapter.number || Boolean(filter.trim()) || expanded.has(chapter.id);
+                    return (
+                      <div key={chapter.id}>
+                        {chapter.number && (
+                          <button onClick={() => toggleChapter(chapter.id)} className="w-full flex items-start gap-3 px-3 py-2 rounded-xl text-left hover:bg-slate-50">
+                            <i className={`fa-solid fa-chevron-right text-[9px] text-slate-400 mt-1 transition-transform ${isOpen ? 'rotate-90' : ''}`}></i>
+                            <span className="text-[10px] font-black uppercase tracking-wider text-slate-700">Chapter {chapter.number}{chapter.title && <span className="block text-slate-400 font-bold normal-case tracking-normal">{chapter.title}</span>}</span>
+                          </button>
+                        )}
+                        {isOpen && (
+                          <div className={chapter.number ? 'pl-6' : ''}>
+                            {sections.map(section => (
+                              <button
+                                key={section.id}
+                                onClick={() => { onSectionChange(section.id); setShowContents(false); }}
+                                className={`w-full text-left px-3 py-2 rounded-lg text-xs transition-all ${section.id === sectionId ? 'bg-[#020617] text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                              >
+                                <span className="font-black mr-2">{section.number}.</span>{section.heading}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </nav>
+          </aside>
+
+          <div className="flex-1 bg-[#f8f9fa] overflow-y-auto">
+            <div className="max-w-4xl mx-auto py-16 px-6 md:px-10 bg-white min-h-screen shadow-2xl border-x border-slate-100">
+              <div className="mb-10 pb-10 border-b border-slate-100">
+                <h1 className="serif font-bold text-slate-900 text-3xl md:text-5xl mb-4">{act.name}</h1>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {listSections(act).length} {noun.toLowerCase()}s • link, copy or share any {noun.toLowerCase()} below
+                </p>
+              </div>
+
+              {linkedMissing && (
+                <div className="flex items-center gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-6 py-4 rounded-2xl text-[11px] font-bold mb-10">
+                  <i className="fa-solid fa-triangle-exclamation"></i>
+                  {noun} {sectionId!.slice(1).toUpperCase()} is not in the text available for this Act.
+                </div>
+              )}
+
+              <div className="space-y-14 text-[17px] leading-relaxed">
+                {act.parts.map(part => (
+                  <div key={part.id} className="space-y-14">
+                    {part.number && (
+                      <div className="text-center">
+                        <p className="text-[11px] font-black text-amber-600 uppercase tracking-[0.3em]">Part {part.number}</p>
+                        {part.title && <h2 className="serif text-2xl font-bold text-slate-900 mt-2">{part.title}</h2>}
+                      </div>
+                    )}
+                    {part.chapters.map(chapter => (
+                      <div key={chapter.id} className="space-y-10">
+                        {chapter.number && (
+                          <div className="text-center">
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">Chapter {chapter.number}</p>
+                            {chapter.title && <h3 className="serif text-xl font-bold text-slate-800 mt-1">{chapter.title}</h3>}
+                          </div>
+                        )}
+                        {chapter.sections.map(section => (
+                          <section
+                            key={section.id}
+                            ref={node => { sectionRefs.current[section.id] = node; }}
+                            className={`scroll-mt-8 rounded-[2rem] p-6 md:p-8 transition-all ${section.id === sectionId ? 'ring-2 ring-amber-500 bg-amber-50/40' : 'hover:bg-slate-50'}`}
+                          >
+                            <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
+                              <h4 className="font-black text-slate-900">
+                                <button onClick={() => onSectionChange(section.id)} className="text-amber-600 mr-2 hover:underline">{section.number}.</button>
+                                {section.heading}.
+                              </h4>
+                              <div className="flex gap-2 shrink-0">
+                                <button onClick={() => copy(`text-${section.id}`, formatSectionText(act, section))} title={`Copy ${noun.toLowerCase()} text`} className="px-3 py-2 bg-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all">
+                                  <i className={`fa-solid ${copied === `text-${section.id}` ? 'fa-check' : 'fa-copy'} mr-1`}></i> Copy
+                                </button>
+                                <button onClick={() => copy(`link-${section.id}`, sectionLink(act, section))} title="Copy a link to this provision" className="px-3 py-2 bg-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all">
+                                  <i className={`fa-solid ${copied === `link-${section.id}` ? 'fa-check' : 'fa-link'} mr-1`}></i> Link
+                                </button>
+                                <button onClick={() => onShare(sectionCitation(act, section), sectionLink(act, section))} title="Share on WhatsApp" className="px-3 py-2 bg-emerald-50 rounded-xl text-[9px] font-black uppercase tracking-widest text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all">
+                                  <i className="fa-brands fa-whatsapp mr-1"></i> Share
+                                </button>
+                              </div>
+                            </div>
+                            {section.text && <p className="text-slate-800 mb-3">{section.text}</p>}
+                            <ProvisionList blocks={section.blocks} />
+                          </section>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BareActReader;
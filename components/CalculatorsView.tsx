@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { CourtClosure, ProvisionCitation } from '../types';
+import { DEFAULT_CLOSED_WEEKDAYS, LIMITATION, LimitationStatus, addCourtClosure, computeLimitation, findArticle, formatDate, periodLabel, removeCourtClosure } from '../services/limitationService';
+import { COURT_FEES, computeCourtFee, formatRupees } from '../services/courtFeeService';
+
+interface CalculatorsViewProps {
+  closures: CourtClosure[];
+  onClosuresChange: (closures: CourtClosure[]) => void;
+  onOpenProvision: (citation: ProvisionCitation) => void;
+}
+
+type Calculator = 'limitation' | 'court-fee';
+
+const FIELD_CLASS = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500';
+
+const STATUS_STYLES: Record<LimitationStatus, { label: (days: number) => string, className: string }> = {
+  running: { label: days => days === 0 ? 'Last day today' : `${days} days left`, className: 'bg-emerald-500 text-white' },
+  expired: { label: days => `Expired ${days} days ago`, className: 'bg-red-500 text-white' },
+  'in-time': { label: () => 'Filed in time', className: 'bg-emerald-500 text-white' },
+  late: { label: days => `${days} days late`, className: 'bg-red-500 text-white' }
+};
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const CitationLink: React.FC<{ citation: ProvisionCitation, onOpen: (citation: ProvisionCitation) => void }> = ({ citation, onOpen }) => (
+  <button
+    onClick={() => onOpen(citation)}
+    title={`Open ${citation.act} in the Bare Act reader`}
+    className="inline-flex items-center gap-2 bg-amber-50 text-amber-700 border border-amber-200 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-amber-500 hover:text-white transition-all"
+  >
+    <i className="fa-solid fa-scroll"></i> {citation.label}
+  </button>
+);
+
+const Field: React.FC<{ label: string, hint?: string, children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="space-y-1 block">
+    <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+    {children}
+    {hint && <span className="block text-[10px] text-slate-400">{hint}</span>}
+  </label>
+);
+
+const CalculatorsView: React.FC<CalculatorsViewProps> = ({ closures, onClosuresChange, onOpenProvision }) => {
+  const [calculator, setCalculator] = useState<Calculator>('limitation');
+
+  const [articleId, setArticleId] = useState(LIMITATION.articles[0].id);
+  const [startDate, setStartDate] = useState('');
+  const [copyAppliedOn, setCopyAppliedOn] = useState('');
+  const [copyReadyOn, setCopyReadyOn] = useState('');
+  const [filedOn, setFiledOn] = useState('');
+  const [closedWeekdays, setClosedWeekdays] = useState(DEFAULT_CLOSED_WEEKDAYS);
+  const [closureFrom, setClosureFrom] = useState('');
+  const [closureTo, setClosureTo] = useState('');
+  const [closureLabel, setClosureLabel] = useState('');
+
+  const [suitId, setSuitId] = useState(COURT_FEES.suits[0].id);
+  const [suitValue, setSuitValue] = useState('');
+
+  const article = findArticle(articleId)!;
+  const result = computeLimitation({
+    articleId,
+    startDate,
+    copyAppliedOn: copyAppliedOn || undefined,
+    copyReadyOn: copyReadyOn || undefined,
+    filedOn: filedOn || undefined,
+    closures,
+    closedWeekdays,
+    today: todayIso()
+  });
+  const fee = computeCourtFee(suitId, Number(suitValue));
+  const suit = COURT_FEES.suits.find(item => item.id === suitId)!;
+  const saturdaysClosed = closedWeekdays.includes(6);
+
+  const handleAddClosure = () => {
+    if (!closureFrom) return;
+    onClosuresChange(addCourtClosure(closures, closureFrom, closureTo || closureFrom, closureLabel));
+    setClosureFrom('');
+    setClosureTo('');
+    setClosureLabel('');
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-calculator text-[10rem]"></i></div>
+        <div className="relative z-10">
+          <h3 className="serif text-4xl font-bold mb-4">Practice Calculators</h3>
+          <p className="text-slate-400 text-sm mb-8 max-w-xl">
+            Limitation deadlines under the Limitation Act, 1963 and court fees under the Tamil Nadu Court-fees Act.
+            Every step cites its provision; open any citation in the Bare Act reader.
+          </p>
+          <div className="flex gap-3">
+            {([['limitation', 'Limitation', 'fa-hourglass-half'], ['court-fee', 'Court Fee', 'fa-indian-rupee-sign']] as const).map(([id, label, icon]) => (
+              <button
+                key={id}
+                onClick={() => setCalculator(id)}
+                className={`px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${calculator === id ? 'bg-amber-500 text-white shadow-lg shadow-amber-500/20' : 'bg-slate-900 border border-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                <i className={`fa-solid ${icon} mr-2`}></i> {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {calculator === 'limitation' && (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-5">
+              <Field label="Proceeding" hint={`${periodLabel(article)} from ${article.startsFrom} • Article ${article.article}`}>
+                <select value={articleId} onChange={(e) => setArticleId(e.target.value)} className={FIELD_CLASS}>
+                  {LIMITATION.articles.map(item => <option key={item.id} value={item.id}>Art. {item.article} • {item.description}</option>)}
+                </select>
+              </Field>
+              <Field label="Period runs from">
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={FIELD_CLASS} />
+              </Field>
+              {article.copyExclusion && (
+                <div className="grid grid-cols-2 gap-3">
+                  <Field label="Copy applied for">
+                    <input type="date" value={copyAppliedOn} onChange={(e) => setCopyAppliedOn(e.target.value)} className={FIELD_CLASS} />
+                  </Field>
+                  <Field label="Copy ready">
+                    <input type="date" value={copyReadyOn} onChange={(e) => setCopyReadyOn(e.target.value)} className={FIELD_CLASS} />
+                  </Field>
+                </div>
+              )}
+              <Field label="Filed on" hint="Leave empty to see the days left">
+                <input type="date" value={filedOn} onChange={(e) => setFiledOn(e.target.value)} className={FIELD_CLASS} />
+              </Field>
+            </div>
+
+            <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Court closures</h4>
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={saturdaysClosed}
+                    onChange={() => setClosedWeekdays(saturdaysClosed ? closedWeekdays.filter(day => day !== 6) : [...closedWeekdays, 6])}
+                    className="accent-amber-500"
+                  />
+                  Saturdays closed
+                </label>
+              </div>
+              <p className="text-[11px] text-slate-400">Sundays count as closed. Add holidays and vacations from the court calendar; a deadline falling on one moves to the next working day.</p>
+              <div className="grid grid-cols-2 gap-3">
+                <input type="date" value={closureFrom} onChange={(e) => setClosureFrom(e.target.value)} className={FIELD_CLASS} />
+                <input type="date" value={closureTo} min={closureFrom} onChange={(e) => setClosureTo(e.target.value)} className={FIELD_CLASS} />
+              </div>
+              <div className="flex gap-3">
+                <input type="text" placeholder="e.g. Summer vacation" value={closureLabel} onChange={(e) => setClosureLabel(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddClosure()} className={`flex-1 ${FIELD_CLASS}`} />
+                <button onClick={handleAddClosure} disabled={!closureFrom} className="bg-[#020617] text-white px-5 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Add</button>
+              </div>
+              <div className="space-y-2 max-h-56 overflow-y-auto">
+                {closures.map(closure => (
+                  <div key={closure.id} className="flex items-center gap-3 bg-slate-50 rounded-xl px-4 py-2 text-xs">
+                    <span className="flex-1 font-bold text-slate-700">{closure.label}</span>
+                    <span className="text-slate-400">{closure.from === closure.to ? formatDate(closure.from) : `${formatDate(closure.from)} – ${formatDate(closure.to)}`}</span>
+                    <button onClick={() => onClosuresChange(removeCourtClosure(closures, closure.id))} title="Remove" className="text-slate-300 hover:text-red-500"><i className="fa-solid fa-xmark"></i></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="lg:col-span-3">
+            {!result ? (
+              <div className="bg-white rounded-[2.5rem] p-12 border border-white shadow-sm text-center">
+                <i className="fa-solid fa-hourglass-half text-4xl text-slate-200 mb-4"></i>
+                <p className="text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Enter the date the period runs from</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-6">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Last day to file</p>
+                    <p className="serif text-3xl font-bold text-slate-900 mt-1">{formatDate(result.deadline)}</p>
+                  </div>
+                  <span className={`text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full ${STATUS_STYLES[result.status].className}`}>
+                    {STATUS_STYLES[result.status].label(result.days)}
+                  </span>
+                </div>
+                <ol className="space-y-3">
+                  {result.steps.map((step, i) => (
+                    <li key={i} className="bg-slate-50 rounded-2xl p-5 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className="font-bold text-slate-900 text-sm">{step.label}</p>
+                        {step.date && <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{formatDate(step.date)}</span>}
+                      </div>
+                      <p className="text-xs text-slate-500 leading-relaxed">{step.detail}</p>
+                      <CitationLink citation={step.citation} onOpen={onOpenProvision} />
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-[10px] text-slate-400">{LIMITATION.source}. Table version {LIMITATION.version}.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {calculator === 'court-fee' && (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+          <div className="lg:col-span-2 bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-5">
+            <Field label="Suit or appeal">
+              <select value={suitId} onChange={(e) => setSuitId(e.target.value)} className={FIELD_CLASS}>
+                {COURT_FEES.suits.map(item => <option key={item.id} value={item.id}>{item.label} (s. {item.section})</option>)}
+              </select>
+            </Field>
+            <Field label="Value of the suit (₹)" hint={suit.basis}>
+              <input type="number" min="0" placeholder="e.g. 500000" value={suitValue} onChange={(e) => setSuitValue(e.target.value)} className={FIELD_CLASS} />
+            </Field>
+          </div>
+
+          <div className="lg:col-span-3">
+            {!fee ? (
+              <div className="bg-white rounded-[2.5rem] p-12 border border-white shadow-sm text-center">
+                <i className="fa-solid fa-indian-rupee-sign text-4xl text-slate-200 mb-4"></i>
+                <p className="text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Enter the value of the suit</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-6">
+                <div>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Court fee payable</p>
+                  <p className="serif text-4xl font-bold text-slate-900 mt-1">{formatRupees(fee.fee)}</p>
+                  <p className="text-xs text-slate-500 mt-2">{fee.suit.label} valued at {formatRupees(fee.value)} • {fee.working}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {fee.citations.map(citation => <CitationLink key={citation.label} citation={citation} onOpen={onOpenProvision} />)}
+                </div>
+                <p className="text-[10px] text-slate-400">{COURT_FEES.source}. Rates version {COURT_FEES.version}.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalculatorsView;
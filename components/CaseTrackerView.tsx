@@ -0,0 +1,258 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CauseList, MhcBench, TrackedCase } from '../types';
+import { BENCH_LABELS, MHC_CASE_TYPES, caseTypeLabel, formatCaseNumber, readCauseListFile } from '../services/causeListService';
+import { addTrackedCase, applyCauseList, matchCauseList, removeTrackedCase, sortByNextHearing, updateTrackedCase } from '../services/caseTrackerService';
+
+interface CaseTrackerViewProps {
+  cases: TrackedCase[];
+  onChange: (cases: TrackedCase[]) => void;
+  // Published list for a bench and ISO date, from the optional live adapter
+  onFetchList: (bench: MhcBench, date: string) => Promise<CauseList>;
+}
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatHearing = (iso: string) => {
+  const days = Math.round((new Date(`${iso}T00:00:00`).getTime() - new Date(`${todayIso()}T00:00:00`).getTime()) / 86400000);
+  const date = new Date(`${iso}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+  if (days === 0) return `Today • ${date}`;
+  if (days === 1) return `Tomorrow • ${date}`;
+  return days > 1 ? `${date} • in ${days} days` : `${date} • passed`;
+};
+
+const FIELD_CLASS = 'bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500';
+
+const TrackedCaseCard: React.FC<{ item: TrackedCase, listed: boolean, cases: TrackedCase[], onChange: (cases: TrackedCase[]) => void }> = ({ item, listed, cases, onChange }) => {
+  const update = (changes: Partial<TrackedCase>) => onChange(updateTrackedCase(cases, item.id, changes));
+  return (
+    <div className={`bg-white rounded-[2rem] p-8 border shadow-sm hover:shadow-xl transition-all space-y-5 ${listed ? 'border-amber-400 ring-2 ring-amber-100' : 'border-white'}`}>
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="bg-[#020617] text-white text-[9px] font-black px-4 py-1.5 rounded-full uppercase tracking-widest">{BENCH_LABELS[item.bench]}</span>
+            {listed && <span className="bg-amber-500 text-white text-[9px] font-black px-4 py-1.5 rounded-full uppercase tracking-widest"><i className="fa-solid fa-list-check mr-1"></i> In loaded list</span>}
+          </div>
+          <h3 className="text-xl font-bold text-slate-900 mt-4 leading-tight">{formatCaseNumber(item)}</h3>
+          <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest mt-1">{caseTypeLabel(item.caseType)}</p>
+          {item.parties && <p className="text-sm text-slate-500 mt-2">{item.parties}</p>}
+        </div>
+        <button onClick={() => onChange(removeTrackedCase(cases, item.id))} title="Stop tracking" className="h-10 w-10 shrink-0 rounded-xl bg-slate-50 text-slate-400 hover:bg-red-50 hover:text-red-600 transition-all"><i className="fa-solid fa-trash-can"></i></button>
+      </div>
+
+      <div className="bg-slate-50 rounded-2xl p-5 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="space-y-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Next hearing</span>
+          <input type="date" value={item.nextHearing || ''} onChange={(e) => update({ nextHearing: e.target.value || undefined })} className={`w-full ${FIELD_CLASS} bg-white`} />
+          {item.nextHearing && <span className="block text-[11px] font-bold text-slate-600">{formatHearing(item.nextHearing)}</span>}
+        </label>
+        <label className="space-y-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Stage</span>
+          <input type="text" placeholder="e.g. For Admission" value={item.stage || ''} onChange={(e) => update({ stage: e.target.value || undefined })} className={`w-full ${FIELD_CLASS} bg-white`} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Court hall</span>
+          <input type="text" placeholder="e.g. 5" value={item.courtHall || ''} onChange={(e) => update({ courtHall: e.target.value || undefined })} className={`w-full ${FIELD_CLASS} bg-white`} />
+          {item.itemNo !== undefined && <span className="block text-[11px] font-bold text-slate-600">Item {item.itemNo}</span>}
+        </label>
+      </div>
+      {(item.judge || item.listedIn) && (
+        <p className="text-[11px] text-slate-400">
+          {item.judge}{item.judge && item.listedIn && ' • '}{item.listedIn && <>from <span className="font-mono">{item.listedIn}</span></>}
+        </p>
+      )}
+
+      <textarea
+        placeholder="Notes for this matter..."
+        value={item.notes}
+        onChange={(e) => update({ notes: e.target.value })}
+        className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 text-sm h-20 outline-none focus:border-amber-500 resize-none"
+      />
+    </div>
+  );
+};
+
+const CaseTrackerView: React.FC<CaseTrackerViewProps> = ({ cases, onChange, onFetchList }) => {
+  const [bench, setBench] = useState<MhcBench>('principal');
+  const [caseType, setCaseType] = useState(MHC_CASE_TYPES[0].code);
+  const [number, setNumber] = useState('');
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+  const [parties, setParties] = useState('');
+
+  const [list, setList] = useState<CauseList | null>(null);
+  const [listDate, setListDate] = useState(todayIso);
+  const [listBench, setListBench] = useState<MhcBench>('principal');
+  const [isReading, setIsReading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [onlyOurs, setOnlyOurs] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const matches = useMemo(() => list ? matchCauseList(list, cases) : [], [list, cases]);
+  const listedIds = new Set(matches.map(match => match.trackedCase.id));
+  const ourEntries = new Set(matches.map(match => match.entry));
+  const shownEntries = list ? list.entries.filter(entry => !onlyOurs || ourEntries.has(entry)) : [];
+  const sorted = sortByNextHearing(cases);
+  const upcoming = sorted.find(item => item.nextHearing && item.nextHearing >= todayIso());
+
+  const handleAdd = () => {
+    const parsedNumber = Number(number);
+    const parsedYear = Number(year);
+    if (!parsedNumber || parsedYear < 1900) return;
+    onChange(addTrackedCase(cases, { bench, caseType, number: parsedNumber, year: parsedYear, parties }));
+    setNumber('');
+    setParties('');
+  };
+
+  const readList = async (read: () => Promise<CauseList>) => {
+    setIsReading(true);
+    setListError(null);
+    try {
+      setList(await read());
+    } catch (error: any) {
+      setListError(error?.message || 'The cause list could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-briefcase text-[10rem]"></i></div>
+        <div className="relative z-10">
+          <h3 className="serif text-4xl font-bold mb-4">Case Tracker</h3>
+          <p className="text-slate-400 text-sm mb-8 max-w-xl">
+            Register our Madras High Court and Madurai Bench matters by case number. Load the day's cause list to find them,
+            then carry the hearing date, stage and court hall over in one step.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            <div className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Tracked</p>
+              <p className="text-2xl font-black">{cases.length}</p>
+            </div>
+            {upcoming && (
+              <div className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Next hearing</p>
+                <p className="text-sm font-black text-amber-500">{formatCaseNumber(upcoming)}</p>
+                <p className="text-[11px] text-slate-400">{formatHearing(upcoming.nextHearing!)}{upcoming.courtHall && ` • Court ${upcoming.courtHall}`}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Register a matter</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <select value={bench} onChange={(e) => setBench(e.target.value as MhcBench)} className={FIELD_CLASS}>
+            {(Object.keys(BENCH_LABELS) as MhcBench[]).map(id => <option key={id} value={id}>{BENCH_LABELS[id]}</option>)}
+          </select>
+          <select value={caseType} onChange={(e) => setCaseType(e.target.value)} className={FIELD_CLASS}>
+            {MHC_CASE_TYPES.map(type => <option key={type.code} value={type.code}>{type.code} • {type.label}</option>)}
+          </select>
+          <input type="number" min="1" placeholder="Number" value={number} onChange={(e) => setNumber(e.target.value)} className={FIELD_CLASS} />
+          <input type="number" min="1900" placeholder="Year" value={year} onChange={(e) => setYear(e.target.value)} className={FIELD_CLASS} />
+        </div>
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            placeholder="Parties, e.g. K. Ramasamy v. District Collector (optional)"
+            value={parties}
+            onChange={(e) => setParties(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            className={`flex-1 ${FIELD_CLASS}`}
+          />
+          <button onClick={handleAdd} disabled={!Number(number)} className="bg-amber-500 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-amber-500/20 disabled:opacity-40">
+            <i className="fa-solid fa-plus mr-2"></i> Track Case
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Cause list</h4>
+            <p className="text-[11px] text-slate-400">Load a PDF or HTML list downloaded from the High Court website, or fetch the published one.</p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,.html,.htm,.txt,application/pdf,text/html,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) readList(() => readCauseListFile(file));
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className="bg-[#020617] text-white px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">
+            <i className="fa-solid fa-file-arrow-up mr-2"></i> Load File
+          </button>
+          <div className="flex gap-2">
+            <select value={listBench} onChange={(e) => setListBench(e.target.value as MhcBench)} className={FIELD_CLASS}>
+              {(Object.keys(BENCH_LABELS) as MhcBench[]).map(id => <option key={id} value={id}>{BENCH_LABELS[id]}</option>)}
+            </select>
+            <input type="date" value={listDate} onChange={(e) => setListDate(e.target.value)} className={FIELD_CLASS} />
+            <button onClick={() => readList(() => onFetchList(listBench, listDate))} disabled={!listDate} className="bg-slate-100 text-slate-600 px-5 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-200 disabled:opacity-40">
+              <i className="fa-solid fa-cloud-arrow-down"></i>
+            </button>
+          </div>
+        </div>
+
+        {isReading && (
+          <div className="flex items-center gap-3 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+            <div className="h-5 w-5 border-2 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
+            Reading cause list...
+          </div>
+        )}
+        {listError && <p className="bg-red-50 border border-red-200 text-red-700 px-6 py-4 rounded-2xl text-[11px] font-bold"><i className="fa-solid fa-triangle-exclamation mr-2"></i>{listError}</p>}
+
+        {list && !isReading && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 bg-slate-50 rounded-2xl px-5 py-4">
+              <span className="font-mono text-xs text-slate-600">{list.fileName}</span>
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                {list.bench ? BENCH_LABELS[list.bench] : 'Bench not stated'} • {list.date ? formatHearing(list.date) : 'Date not found'} • {list.entries.length} items
+              </span>
+              <span className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${matches.length ? 'bg-amber-500 text-white' : 'bg-slate-200 text-slate-500'}`}>
+                {matches.length} of ours
+              </span>
+              <div className="flex-1"></div>
+              <button onClick={() => setOnlyOurs(!onlyOurs)} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-600">
+                {onlyOurs ? 'Show whole list' : 'Show only ours'}
+              </button>
+              {matches.length > 0 && (
+                <button onClick={() => onChange(applyCauseList(cases, list, matches))} className="bg-amber-500 text-white px-5 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-amber-500/20">
+                  <i className="fa-solid fa-rotate mr-2"></i> Update {new Set(matches.map(match => match.trackedCase.id)).size} Cases
+                </button>
+              )}
+            </div>
+            <div className="space-y-2 max-h-[28rem] overflow-y-auto">
+              {shownEntries.map((entry, i) => (
+                <div key={i} className={`rounded-2xl px-5 py-3 text-sm flex gap-4 ${ourEntries.has(entry) ? 'bg-amber-50 border border-amber-300' : 'border border-slate-100'}`}>
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest w-24 shrink-0">
+                    {entry.courtHall ? `Court ${entry.courtHall}` : ''}{entry.itemNo !== undefined && ` • ${entry.itemNo}`}
+                  </span>
+                  <div className="flex-1">
+                    <p className={ourEntries.has(entry) ? 'font-bold text-slate-900' : 'text-slate-600'}>{entry.text}</p>
+                    <p className="text-[10px] text-slate-400 mt-1">{[entry.stage, entry.judge].filter(Boolean).join(' • ')}</p>
+                  </div>
+                </div>
+              ))}
+              {!shownEntries.length && <p className="text-center py-6 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">None of our cases are in this list</p>}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6">
+        {sorted.map(item => <TrackedCaseCard key={item.id} item={item} listed={listedIds.has(item.id)} cases={cases} onChange={onChange} />)}
+        {!cases.length && <p className="text-center py-8 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">No matters tracked yet</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CaseTrackerView;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { analyseCitation, COURT_NAMES } from '../services/citationService';
+
+interface CitationBadgeProps {
+  citation: string;
+}
+
+// Canonical citation for a judgment card, with parallel citations and validation problems beneath it
+const CitationBadge: React.FC<CitationBadgeProps> = ({ citation }) => {
+  const { valid, invalid, unrecognised } = analyseCitation(citation);
+  const [primary, ...parallel] = valid;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      {primary && (
+        <span
+          title={`${primary.reporter} • ${COURT_NAMES[primary.court] || primary.court} • ${primary.year}`}
+          className="text-[10px] text-amber-500 font-black tracking-widest uppercase bg-amber-500/10 px-3 py-1 rounded-full"
+        >
+          {primary.canonical}
+        </span>
+      )}
+      {parallel.map(item => (
+        <span key={item.canonical} className="text-[9px] text-slate-400 font-bold tracking-widest uppercase">= {item.canonical}</span>
+      ))}
+      {invalid.map(({ citation: item, errors }) => (
+        <span key={item.raw} title={errors.join('\n')} className="text-[9px] text-red-400 font-black tracking-widest uppercase bg-red-500/10 px-3 py-1 rounded-full">
+          <i className="fa-solid fa-triangle-exclamation mr-1"></i> {item.raw}
+        </span>
+      ))}
+      {unrecognised && (
+        <span title="Not in a recognised reporter format" className="text-[9px] text-slate-400 font-black tracking-widest uppercase bg-slate-500/10 px-3 py-1 rounded-full">
+          {citation} • Unverified
+        </span>
+      )}
+      {!citation.trim() && <span className="text-[9px] text-slate-500 font-black tracking-widest uppercase">Citation unavailable</span>}
+    </div>
+  );
+};
+
+export default CitationBadge;
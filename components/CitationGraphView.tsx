@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CitationGraph, GraphNode, GraphNodeKind } from '../types';
+import { neighbours, interpretingJudgments, searchGraph, GraphNeighbour } from '../services/citationGraphService';
+
+interface CitationGraphViewProps {
+  graph: CitationGraph;
+  focusId: string | null;
+  onFocus: (nodeId: string) => void;
+  onOpen: (title: string, url: string) => void;
+  onClear: () => void;
+}
+
+const KIND_STYLES: Record<GraphNodeKind, { label: string, icon: string, fill: string, text: string }> = {
+  judgment: { label: 'Judgments', icon: 'fa-gavel', fill: '#4f46e5', text: 'text-indigo-600' },
+  act: { label: 'Acts', icon: 'fa-scroll', fill: '#f59e0b', text: 'text-amber-600' },
+  section: { label: 'Sections', icon: 'fa-paragraph', fill: '#10b981', text: 'text-emerald-600' }
+};
+
+const EDGE_LABELS: Record<string, string> = {
+  'interprets:out': 'Interprets',
+  'interprets:in': 'Interpreted by',
+  'part-of:out': 'Part of',
+  'part-of:in': 'Contains',
+  'cites:out': 'Cites',
+  'cites:in': 'Cited by'
+};
+
+const SIZE = 560;
+const CENTRE = SIZE / 2;
+const RADIUS = 200;
+const MAX_RING = 24;
+const LIST_LIMIT = 12;
+
+const shorten = (label: string, max: number) => label.length > max ? `${label.slice(0, max - 1)}…` : label;
+
+const CitationGraphView: React.FC<CitationGraphViewProps> = ({ graph, focusId, onFocus, onOpen, onClear }) => {
+  const [query, setQuery] = useState("");
+  const [trail, setTrail] = useState<string[]>([]);
+  const focus = focusId ? graph.nodes[focusId] : null;
+
+  // Keep a breadcrumb of the path followed; revisiting a node cuts the trail back to it
+  useEffect(() => {
+    if (!focusId) return;
+    setTrail(prev => prev.includes(focusId) ? prev.slice(0, prev.indexOf(focusId) + 1) : [...prev, focusId]);
+  }, [focusId]);
+
+  const results = useMemo(() => searchGraph(graph, query), [graph, query]);
+  const ring = useMemo(() => focusId ? neighbours(graph, focusId) : [], [graph, focusId]);
+  const interpreting = useMemo(() => focus && focus.kind !== 'judgment' ? interpretingJudgments(graph, focus.id) : [], [graph, focus]);
+  const grouped = (Object.keys(KIND_STYLES) as GraphNodeKind[]).map(kind => ({ kind, nodes: results.filter(node => node.kind === kind) }));
+  const nodeCount = Object.keys(graph.nodes).length;
+
+  const shown = ring.slice(0, MAX_RING);
+  const positions = shown.map((_, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(shown.length, 1) - Math.PI / 2;
+    return { x: CENTRE + RADIUS * Math.cos(angle), y: CENTRE + RADIUS * Math.sin(angle) };
+  });
+
+  const relationGroups = ring.reduce<Record<string, GraphNeighbour[]>>((groups, item) => {
+    const key = `${item.kind}:${item.direction}`;
+    return { ...groups, [key]: [...(groups[key] || []), item] };
+  }, {});
+
+  const renderNodeButton = (node: GraphNode) => (
+    <button key={node.id} onClick={() => onFocus(node.id)} className={`w-full text-left px-4 py-2.5 rounded-xl text-xs font-bold transition-all flex items-center gap-3 ${node.id === focusId ? 'bg-[#020617] text-white' : 'text-slate-700 hover:bg-slate-100'}`}>
+      <i className={`fa-solid ${KIND_STYLES[node.kind].icon} ${node.id === focusId ? 'text-amber-500' : KIND_STYLES[node.kind].text}`}></i>
+      <span className="truncate">{node.label}</span>
+    </button>
+  );
+
+  if (!nodeCount) {
+    return (
+      <div className="bg-white rounded-[3rem] p-16 text-center border border-slate-100 shadow-sm space-y-4 animate-fade-in">
+        <i className="fa-solid fa-diagram-project text-5xl text-slate-200"></i>
+        <h3 className="serif text-2xl font-bold text-slate-900">The case graph is empty</h3>
+        <p className="text-sm text-slate-500 max-w-md mx-auto">Browse Landmark Verdicts or open a judgment in the reader. The Acts, sections and cases each judgment relies on are collected here automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-diagram-project text-[10rem]"></i></div>
+        <div className="relative z-10 space-y-6">
+          <div>
+            <h3 className="serif text-4xl font-bold mb-2">Case Graph</h3>
+            <p className="text-slate-400 text-sm max-w-xl">Every stored judgment linked to the Acts and sections it interprets and the cases it cites. Pick a node and follow the links.</p>
+          </div>
+          <div className="flex flex-col md:flex-row gap-4">
+            <input
+              type="text"
+              placeholder="Search cases, Acts or sections..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="flex-1 bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-sm outline-none focus:border-amber-500"
+            />
+            <button onClick={() => { if (window.confirm('Clear the case graph? It will be rebuilt as you browse.')) { setTrail([]); onClear(); } }} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-xs font-black uppercase tracking-widest hover:bg-red-600 hover:border-red-600 transition-colors">Clear Graph</button>
+          </div>
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{nodeCount} nodes • {graph.edges.length} links</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-8">
+        <div className="bg-white rounded-[2rem] p-6 border border-slate-100 shadow-sm space-y-6 lg:max-h-[44rem] lg:overflow-y-auto">
+          {grouped.map(({ kind, nodes }) => nodes.length > 0 && (
+            <div key={kind} className="space-y-1">
+              <h4 className={`text-[10px] font-black uppercase tracking-widest px-4 mb-2 ${KIND_STYLES[kind].text}`}>{KIND_STYLES[kind].label} ({nodes.length})</h4>
+              {nodes.slice(0, LIST_LIMIT).map(renderNodeButton)}
+              {nodes.length > LIST_LIMIT && <p className="text-[10px] text-slate-400 font-bold px-4 pt-1">+{nodes.length - LIST_LIMIT} more, refine the search</p>}
+            </div>
+          ))}
+          {!results.length && <p className="text-xs text-slate-400 px-4">Nothing matches "{query}".</p>}
+        </div>
+
+        <div className="space-y-6">
+          {trail.length > 1 && (
+            <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+              {trail.map((id, i) => graph.nodes[id] && (
+                <React.Fragment key={id}>
+                  {i > 0 && <i className="fa-solid fa-chevron-right text-slate-300"></i>}
+                  <button onClick={() => onFocus(id)} className={id === focusId ? 'text-amber-600' : 'text-slate-400 hover:text-slate-700'}>{shorten(graph.nodes[id].label, 28)}</button>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+
+          {!focusId ? (
+            <div className="bg-white rounded-[2.5rem] p-12 text-center border border-slate-100 shadow-sm text-sm text-slate-500">Select a case, Act or section to see its links.</div>
+          ) : !focus ? (
+            <div className="bg-white rounded-[2.5rem] p-12 text-center border border-slate-100 shadow-sm text-sm text-slate-500">No stored judgment is linked to this yet. Open judgments that apply it to add them to the graph.</div>
+          ) : (
+            <>
+              <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-xl overflow-hidden">
+                <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto max-h-[36rem] bg-slate-50">
+                  {shown.map((item, i) => (
+                    <line
+                      key={`edge-${item.node.id}-${item.kind}-${item.direction}`}
+                      x1={CENTRE} y1={CENTRE} x2={positions[i].x} y2={positions[i].y}
+                      stroke={item.kind === 'cites' ? '#6366f1' : '#cbd5e1'}
+                      strokeWidth={1.5}
+                      strokeDasharray={item.kind === 'part-of' ? '4 4' : undefined}
+                    />
+                  ))}
+                  {shown.map((item, i) => (
+                    <g key={`node-${item.node.id}-${item.kind}-${item.direction}`} onClick={() => onFocus(item.node.id)} className="cursor-pointer">
+                      <circle cx={positions[i].x} cy={positions[i].y} r={10} fill={KIND_STYLES[item.node.kind].fill} stroke="#fff" strokeWidth={3} />
+                      <text x={positions[i].x} y={positions[i].y + 26} textAnchor="middle" fontSize={11} fontWeight={700} fill="#334155">{shorten(item.node.label, 22)}</text>
+                    </g>
+                  ))}
+                  <circle cx={CENTRE} cy={CENTRE} r={18} fill="#020617" stroke={KIND_STYLES[focus.kind].fill} strokeWidth={4} />
+                  <text x={CENTRE} y={CENTRE + 40} textAnchor="middle" fontSize={13} fontWeight={900} fill="#020617">{shorten(focus.label, 34)}</text>
+                </svg>
+                {ring.length > MAX_RING && (
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-8 py-3 border-t border-slate-100">Showing {MAX_RING} of {ring.length} links, all are listed below</p>
+                )}
+              </div>
+
+              <div className="bg-white rounded-[2.5rem] p-8 border border-slate-100 shadow-sm space-y-6">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div>
+                    <span className={`text-[10px] font-black uppercase tracking-widest ${KIND_STYLES[focus.kind].text}`}><i className={`fa-solid ${KIND_STYLES[focus.kind].icon} mr-2`}></i>{focus.kind}</span>
+                    <h3 className="text-2xl font-black text-slate-900 leading-tight mt-2">{focus.label}</h3>
+                    {focus.citation && <p className="text-[11px] font-bold text-slate-400 mt-1">{focus.citation}</p>}
+                  </div>
+                  {focus.url && (
+                    <button onClick={() => onOpen(focus.label, focus.url!)} className="bg-amber-500 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shrink-0">Read In-App</button>
+                  )}
+                </div>
+
+                {focus.kind !== 'judgment' && (
+                  <div className="space-y-3">
+                    <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Judgments Interpreting This ({interpreting.length})</h4>
+                    {interpreting.map(node => (
+                      <div key={node.id} className="flex items-center justify-between gap-4 bg-slate-50 rounded-2xl px-5 py-3">
+                        <button onClick={() => onFocus(node.id)} className="text-left text-sm font-bold text-slate-800 hover:text-amber-600">{node.label}{node.citation && <span className="block text-[10px] text-slate-400">{node.citation}</span>}</button>
+                        {node.url && <button onClick={() => onOpen(node.label, node.url!)} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 shrink-0">Open</button>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {(Object.entries(relationGroups) as [string, GraphNeighbour[]][]).map(([key, items]) => (
+                  <div key={key} className="space-y-2">
+                    <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{EDGE_LABELS[key]}</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {items.map(item => (
+                        <button key={item.node.id} onClick={() => onFocus(item.node.id)} className="px-4 py-2 bg-slate-100 text-slate-600 text-[10px] font-black uppercase rounded-lg border border-slate-200 hover:bg-amber-500 hover:text-white hover:border-amber-500 transition-all">
+                          <i className={`fa-solid ${KIND_STYLES[item.node.kind].icon} mr-2`}></i>{item.node.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CitationGraphView;
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CorrespondenceChange, CorrespondenceEntry, CorrespondenceTable } from '../types';
+import { CORRESPONDENCE, CorrespondenceMatch, diffWords, lookupProvision, provisionLabel, sectionBase } from '../services/correspondenceService';
+
+interface CorrespondenceLookupProps {
+  initialQuery: string;
+  onOpenSection: (actName: string, section: string) => void;
+  onClose: () => void;
+}
+
+const EXAMPLES = ['IPC 302', 'BNS 103', 'CrPC 438', 'IEA 65B', 'IPC 377'];
+
+const CHANGE_STYLES: Record<CorrespondenceChange, { label: string, className: string }> = {
+  same: { label: 'Same wording', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  modified: { label: 'Modified', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  repealed: { label: 'Repealed', className: 'bg-red-50 text-red-700 border-red-200' },
+  new: { label: 'New provision', className: 'bg-indigo-50 text-indigo-700 border-indigo-200' }
+};
+
+const ChangeBadge: React.FC<{ change: CorrespondenceChange }> = ({ change }) => (
+  <span className={`text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-lg border ${CHANGE_STYLES[change].className}`}>
+    {CHANGE_STYLES[change].label}
+  </span>
+);
+
+const entryQuery = (table: CorrespondenceTable, entry: CorrespondenceEntry) =>
+  entry.old ? provisionLabel(table, 'old', entry.old) : provisionLabel(table, 'new', entry.new!);
+
+const CorrespondenceLookup: React.FC<CorrespondenceLookupProps> = ({ initialQuery, onOpenSection, onClose }) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [tableId, setTableId] = useState(CORRESPONDENCE.tables[0].id);
+  const matches = useMemo(() => query.trim() ? lookupProvision(query) : [], [query]);
+  const browsing = CORRESPONDENCE.tables.find(table => table.id === tableId) || CORRESPONDENCE.tables[0];
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const renderSide = (table: CorrespondenceTable, side: 'old' | 'new', section: string | null, asked: boolean) => (
+    <div className={`flex-1 rounded-2xl p-4 ${asked ? 'bg-slate-50 border border-slate-100' : 'bg-[#020617] text-white'}`}>
+      <p className={`text-[9px] font-black uppercase tracking-widest mb-1 ${asked ? 'text-slate-400' : 'text-amber-500'}`}>
+        {side === 'old' ? table.oldAct : table.newAct}
+      </p>
+      <p className="serif text-2xl font-bold">
+        {section ? provisionLabel(table, side, section) : <span className={asked ? 'text-slate-300' : 'text-slate-500'}>No counterpart</span>}
+      </p>
+    </div>
+  );
+
+  const renderMatch = ({ table, entry, side }: CorrespondenceMatch, i: number) => {
+    const target = side === 'old' ? 'new' : 'old';
+    const targetSection = entry[target];
+    return (
+      <div key={`${table.id}-${entry.old}-${entry.new}-${i}`} className="bg-white border border-slate-100 rounded-[2rem] p-6 shadow-sm space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <p className="serif text-lg font-bold text-slate-900">{entry.subject}</p>
+          <ChangeBadge change={entry.change} />
+        </div>
+        <div className="flex items-center gap-3">
+          {renderSide(table, side, entry[side], true)}
+          <i className="fa-solid fa-arrow-right text-amber-500"></i>
+          {renderSide(table, target, targetSection, false)}
+        </div>
+        {entry.note && <p className="text-sm text-slate-600 leading-relaxed">{entry.note}</p>}
+        {entry.oldText && entry.newText && (
+          <div className="bg-slate-50 rounded-2xl p-5">
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-3">Changes in wording</p>
+            <p className="serif text-sm leading-relaxed text-slate-700">
+              {diffWords(entry.oldText, entry.newText).map((part, j) => (
+                <React.Fragment key={j}>
+                  {j > 0 && ' '}
+                  {part.kind === 'same' ? part.text : (
+                    <span className={part.kind === 'added' ? 'bg-emerald-100 text-emerald-800 rounded px-0.5' : 'bg-red-100 text-red-700 line-through rounded px-0.5'}>{part.text}</span>
+                  )}
+                </React.Fragment>
+              ))}
+            </p>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {(['old', 'new'] as const).filter(s => entry[s]).map(s => (
+            <button
+              key={s}
+              onClick={() => onOpenSection(s === 'old' ? table.oldAct : table.newAct, sectionBase(entry[s]!))}
+              className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-50 text-amber-700 hover:bg-amber-500 hover:text-white transition-all"
+            >
+              <i className="fa-solid fa-book-open mr-2"></i>Read {provisionLabel(table, s, sectionBase(entry[s]!))}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[110] flex items-center justify-center p-5 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] w-full max-w-3xl max-h-[90vh] shadow-2xl flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="p-8 pb-5 border-b border-slate-100 space-y-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-amber-600 mb-2">Old Codes ↔ New Sanhitas</h4>
+              <p className="serif text-2xl font-bold text-slate-900">Section Correspondence</p>
+            </div>
+            <button onClick={onClose} className="h-10 w-10 rounded-xl bg-slate-100 text-slate-500 hover:bg-slate-200" title="Close">
+              <i className="fa-solid fa-xmark"></i>
+            </button>
+          </div>
+          <input
+            type="text"
+            autoFocus
+            placeholder="e.g. IPC 302, BNS 103, s. 438 CrPC"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-amber-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLES.map(example => (
+              <button key={example} onClick={() => setQuery(example)} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-500 hover:bg-amber-100 hover:text-amber-700">
+                {example}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-4 bg-slate-50/50">
+          {query.trim() ? (
+            matches.length ? matches.map(renderMatch) : (
+              <p className="text-sm text-slate-400 text-center py-10">
+                No correspondence found. Name the code and the section, e.g. "IPC 420" or "BNSS 482".
+              </p>
+            )
+          ) : (
+            <>
+              <div className="flex gap-2">
+                {CORRESPONDENCE.tables.map(table => (
+                  <button
+                    key={table.id}
+                    onClick={() => setTableId(table.id)}
+                    className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${table.id === browsing.id ? 'bg-[#020617] text-amber-500' : 'bg-white text-slate-500 border border-slate-200'}`}
+                  >
+                    {table.oldCode} → {table.newCode}
+                  </button>
+                ))}
+              </div>
+              <div className="bg-white rounded-[2rem] border border-slate-100 divide-y divide-slate-100">
+                {browsing.entries.map(entry => (
+                  <button
+                    key={`${entry.old}-${entry.new}`}
+                    onClick={() => setQuery(entryQuery(browsing, entry))}
+                    className="w-full flex items-center gap-4 px-6 py-3 text-left hover:bg-amber-50/50 transition-all"
+                  >
+                    <span className="w-20 text-xs font-black text-slate-700">{entry.old || '—'}</span>
+                    <span className="w-20 text-xs font-black text-amber-600">{entry.new || '—'}</span>
+                    <span className="flex-1 text-xs text-slate-500 truncate">{entry.subject}</span>
+                    {entry.change !== 'same' && <ChangeBadge change={entry.change} />}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="px-8 py-4 border-t border-slate-100 text-[10px] text-slate-400">
+          Tables v{CORRESPONDENCE.version}, updated {CORRESPONDENCE.updatedOn}. {CORRESPONDENCE.source}. Check the Gazette text before relying on a mapping.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorrespondenceLookup;
@@ -0,0 +1,360 @@
+import React, { useState } from 'react';
+import { Draft, DraftField, DraftTemplate, Matter, StudySession } from '../types';
+import {
+  TemplateStore,
+  BUILT_IN_PLACEHOLDERS,
+  currentTemplates,
+  findTemplate,
+  templateVersions,
+  saveTemplateVersion,
+  restoreTemplateVersion,
+  duplicateTemplate,
+  deleteTemplate,
+  isBundled,
+  validateTemplate,
+  validateDraftInputs,
+  renderDraft,
+  matterValues,
+  fieldLabel,
+  createDraft,
+  updateDraft,
+  deleteDraft
+} from '../services/draftService';
+import { exportDraftDocx } from '../services/exportService';
+
+interface DraftingViewProps {
+  templateStore: TemplateStore;
+  onTemplateStoreChange: (store: TemplateStore) => void;
+  drafts: Draft[];
+  onDraftsChange: (drafts: Draft[]) => void;
+  sessions: StudySession[];
+  matters: Matter[];
+  // Study Lab session to draft from when the desk was opened from a briefing
+  initialSessionId: string | null;
+}
+
+type DeskMode = 'draft' | 'templates';
+
+const FIELD_CLASS = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500';
+
+// Values still in square brackets are placeholders the draft could not fill
+const MARKER = /\[[^\]\n]{2,60}\]/g;
+
+const formatStamp = (timestamp: number) => new Date(timestamp).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+const IssueList: React.FC<{ issues: { level: 'error' | 'warning', message: string }[] }> = ({ issues }) => (
+  <ul className="space-y-1">
+    {issues.map((issue, i) => (
+      <li key={i} className={`text-[11px] font-bold ${issue.level === 'error' ? 'text-red-600' : 'text-amber-700'}`}>
+        <i className={`fa-solid ${issue.level === 'error' ? 'fa-circle-xmark' : 'fa-triangle-exclamation'} mr-2`}></i>{issue.message}
+      </li>
+    ))}
+  </ul>
+);
+
+const TemplateEditor: React.FC<{ store: TemplateStore, template: DraftTemplate, onStoreChange: (store: TemplateStore) => void, onSelect: (id: string) => void }> = ({ store, template, onStoreChange, onSelect }) => {
+  const [edited, setEdited] = useState<DraftTemplate>(template);
+  const issues = validateTemplate(edited);
+  const hasErrors = issues.some(issue => issue.level === 'error');
+  const changed = JSON.stringify(edited) !== JSON.stringify(template);
+  const versions = templateVersions(store, template.id);
+
+  const setField = (index: number, changes: Partial<DraftField>) =>
+    setEdited({ ...edited, fields: edited.fields.map((field, i) => i === index ? { ...field, ...changes } : field) });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <input type="text" value={edited.name} onChange={(e) => setEdited({ ...edited, name: e.target.value })} className="flex-1 serif text-2xl font-bold text-slate-900 outline-none border-b border-transparent focus:border-amber-500" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Version {template.version}</span>
+        </div>
+        <input type="text" placeholder="What the template is for" value={edited.description} onChange={(e) => setEdited({ ...edited, description: e.target.value })} className={FIELD_CLASS} />
+
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 pt-2">Fields</h4>
+        <div className="space-y-2">
+          {edited.fields.map((field, i) => (
+            <div key={i} className="grid grid-cols-12 gap-2 items-center">
+              <input type="text" placeholder="key" value={field.key} onChange={(e) => setField(i, { key: e.target.value })} className={`col-span-3 font-mono ${FIELD_CLASS}`} />
+              <input type="text" placeholder="Label" value={field.label} onChange={(e) => setField(i, { label: e.target.value })} className={`col-span-3 ${FIELD_CLASS}`} />
+              <input type="text" placeholder="Hint (optional)" value={field.hint || ''} onChange={(e) => setField(i, { hint: e.target.value || undefined })} className={`col-span-3 ${FIELD_CLASS}`} />
+              <label className="col-span-1 text-[9px] font-black uppercase text-slate-400 flex items-center gap-1" title="Required">
+                <input type="checkbox" checked={field.required} onChange={() => setField(i, { required: !field.required })} className="accent-amber-500" /> Req
+              </label>
+              <label className="col-span-1 text-[9px] font-black uppercase text-slate-400 flex items-center gap-1" title="Several lines">
+                <input type="checkbox" checked={Boolean(field.multiline)} onChange={() => setField(i, { multiline: !field.multiline || undefined })} className="accent-amber-500" /> Long
+              </label>
+              <button onClick={() => setEdited({ ...edited, fields: edited.fields.filter((_, index) => index !== i) })} title="Remove field" className="col-span-1 text-slate-300 hover:text-red-500"><i className="fa-solid fa-xmark"></i></button>
+            </div>
+          ))}
+          <button
+            onClick={() => setEdited({ ...edited, fields: [...edited.fields, { key: `field_${edited.fields.length + 1}`, label: '', required: true }] })}
+            className="text-[10px] font-black uppercase tracking-widest text-amber-600 hover:text-amber-700"
+          >
+            <i className="fa-solid fa-plus mr-1"></i> Add field
+          </button>
+        </div>
+
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 pt-2">Body</h4>
+        <textarea
+          value={edited.body}
+          onChange={(e) => setEdited({ ...edited, body: e.target.value })}
+          className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 text-xs font-mono h-96 outline-none focus:border-amber-500"
+        />
+        <p className="text-[11px] text-slate-400">
+          Use {'{{key}}'} for a field. Built-in values: {BUILT_IN_PLACEHOLDERS.map(builtIn => <span key={builtIn.key} title={builtIn.label} className="font-mono text-slate-600 mr-2">{`{{${builtIn.key}}}`}</span>)}
+        </p>
+        {issues.length > 0 && <IssueList issues={issues} />}
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => onStoreChange(saveTemplateVersion(store, edited).store)}
+            disabled={!changed || hasErrors}
+            className="bg-amber-500 text-white px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-amber-500/20 disabled:opacity-40"
+          >
+            <i className="fa-solid fa-floppy-disk mr-2"></i> Save as Version {Math.max(...versions.map(version => version.version)) + 1}
+          </button>
+          {changed && <button onClick={() => setEdited(template)} className="bg-slate-100 text-slate-600 px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">Discard Changes</button>}
+          <button
+            onClick={() => {
+              const copied = duplicateTemplate(store, template);
+              onStoreChange(copied.store);
+              onSelect(copied.template.id);
+            }}
+            className="bg-slate-100 text-slate-600 px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest"
+          >
+            <i className="fa-solid fa-copy mr-2"></i> Duplicate
+          </button>
+          {!isBundled(template.id) && (
+            <button
+              onClick={() => {
+                if (!window.confirm(`Delete "${template.name}" and all its versions?`)) return;
+                onStoreChange(deleteTemplate(store, template.id));
+                onSelect(currentTemplates(store)[0].id);
+              }}
+              className="bg-red-50 text-red-600 px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest"
+            >
+              <i className="fa-solid fa-trash-can mr-2"></i> Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-3">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Versions</h4>
+        {versions.map(version => (
+          <div key={version.version} className="flex items-center gap-4 bg-slate-50 rounded-2xl px-5 py-3">
+            <span className="text-[10px] font-black uppercase tracking-widest text-amber-600 w-20">Version {version.version}</span>
+            <span className="flex-1 text-xs text-slate-600 truncate">{version.name}</span>
+            <span className="text-[11px] text-slate-400">{version.updatedAt ? formatStamp(version.updatedAt) : 'As shipped'}</span>
+            {version.version === template.version
+              ? <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Current</span>
+              : <button onClick={() => onStoreChange(restoreTemplateVersion(store, template.id, version.version).store)} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-600">Restore</button>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const DraftingView: React.FC<DraftingViewProps> = ({ templateStore, onTemplateStoreChange, drafts, onDraftsChange, sessions, matters, initialSessionId }) => {
+  const templates = currentTemplates(templateStore);
+  const [mode, setMode] = useState<DeskMode>('draft');
+  const [templateId, setTemplateId] = useState(templates[0].id);
+  const [sessionId, setSessionId] = useState(initialSessionId || '');
+  const [matterId, setMatterId] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [selectedDraftId, setSelectedDraftId] = useState<string | null>(drafts[0]?.id ?? null);
+
+  const template = findTemplate(templateStore, templateId) || templates[0];
+  const session = sessions.find(item => item.id === sessionId);
+  const source = { briefing: session?.materials.briefing, sourceTitle: session?.sourceTitle || session?.name, today: new Date() };
+  const inputIssues = validateDraftInputs(template, values, source);
+  const templateErrors = validateTemplate(template).filter(issue => issue.level === 'error');
+  const missingFields = new Set(inputIssues.map(issue => issue.field).filter(Boolean));
+  const selectedDraft = drafts.find(draft => draft.id === selectedDraftId) || null;
+  const markers = selectedDraft ? Array.from(new Set(selectedDraft.text.match(MARKER) || [])) : [];
+
+  const handleMatter = (id: string) => {
+    setMatterId(id);
+    const matter = matters.find(item => item.id === id);
+    if (!matter) return;
+    // Matter details only fill fields that are still empty
+    const prefill = matterValues(matter);
+    setValues(current => ({ ...prefill, ...Object.fromEntries(Object.entries<string>(current).filter(([, value]) => value.trim())) }));
+  };
+
+  const handleGenerate = () => {
+    const subject = values.client_name?.trim() || session?.name;
+    const created = createDraft(drafts, {
+      title: subject ? `${template.name} — ${subject}` : template.name,
+      templateId: template.id,
+      templateVersion: template.version,
+      sessionId: session?.id,
+      matterId: matterId || undefined,
+      values,
+      text: renderDraft(template, values, source)
+    });
+    onDraftsChange(created.drafts);
+    setSelectedDraftId(created.draft.id);
+  };
+
+  // Load a saved draft's inputs back into the form, e.g. to fill in what was missing and generate again
+  const handleReopen = (draft: Draft) => {
+    if (findTemplate(templateStore, draft.templateId)) setTemplateId(draft.templateId);
+    setSessionId(draft.sessionId || '');
+    setMatterId(draft.matterId || '');
+    setValues(draft.values);
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-file-signature text-[10rem]"></i></div>
+        <div className="relative z-10">
+          <h3 className="serif text-4xl font-bold mb-4">Drafting Desk</h3>
+          <p className="text-slate-400 text-sm mb-8 max-w-xl">
+            Turn a Study Lab briefing and a few matter details into a first draft of a notice, bail petition, writ petition or
+            written statement. Edit the draft, then export it to Word.
+          </p>
+          <div className="flex gap-3">
+            {([['draft', 'Draft', 'fa-pen-nib'], ['templates', 'Templates', 'fa-layer-group']] as const).map(([id, label, icon]) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${mode === id ? 'bg-amber-500 text-white shadow-lg shadow-amber-500/20' : 'bg-slate-900 border border-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                <i className={`fa-solid ${icon} mr-2`}></i> {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {mode === 'draft' && (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+          <div className="lg:col-span-2 bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+            <select value={template.id} onChange={(e) => setTemplateId(e.target.value)} className={`font-bold ${FIELD_CLASS}`}>
+              {templates.map(item => <option key={item.id} value={item.id}>{item.name} (v{item.version})</option>)}
+            </select>
+            <p className="text-[11px] text-slate-400">{template.description}</p>
+            <select value={sessionId} onChange={(e) => setSessionId(e.target.value)} className={FIELD_CLASS}>
+              <option value="">No briefing note</option>
+              {sessions.map(item => <option key={item.id} value={item.id}>Briefing: {item.name}</option>)}
+            </select>
+            {matters.length > 0 && (
+              <select value={matterId} onChange={(e) => handleMatter(e.target.value)} className={FIELD_CLASS}>
+                <option value="">No matter</option>
+                {matters.map(item => <option key={item.id} value={item.id}>Matter: {item.title}</option>)}
+              </select>
+            )}
+            <div className="space-y-3 pt-2">
+              {template.fields.map(field => (
+                <label key={field.key} className="block space-y-1">
+                  <span className={`text-[10px] font-black uppercase tracking-widest ${missingFields.has(field.key) ? 'text-amber-600' : 'text-slate-400'}`}>{fieldLabel(field)}</span>
+                  {field.multiline
+                    ? <textarea value={values[field.key] || ''} placeholder={field.hint} onChange={(e) => setValues({ ...values, [field.key]: e.target.value })} className={`h-24 resize-none ${FIELD_CLASS}`} />
+                    : <input type="text" value={values[field.key] || ''} placeholder={field.hint} onChange={(e) => setValues({ ...values, [field.key]: e.target.value })} className={FIELD_CLASS} />}
+                </label>
+              ))}
+            </div>
+            {templateErrors.length > 0 && <IssueList issues={templateErrors} />}
+            {inputIssues.length > 0 && <IssueList issues={inputIssues} />}
+            <button onClick={handleGenerate} disabled={templateErrors.length > 0} className="w-full bg-amber-500 text-white py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-amber-500/20 disabled:opacity-40">
+              <i className="fa-solid fa-wand-magic-sparkles mr-2"></i> Generate Draft
+            </button>
+          </div>
+
+          <div className="lg:col-span-3 space-y-6">
+            {drafts.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {drafts.map(draft => (
+                  <button
+                    key={draft.id}
+                    onClick={() => setSelectedDraftId(draft.id)}
+                    className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest max-w-xs truncate ${draft.id === selectedDraftId ? 'bg-[#020617] text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {draft.title}
+                  </button>
+                ))}
+              </div>
+            )}
+            {!selectedDraft ? (
+              <div className="bg-white rounded-[2.5rem] p-12 border border-white shadow-sm text-center">
+                <i className="fa-solid fa-file-signature text-4xl text-slate-200 mb-4"></i>
+                <p className="text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Fill in the details and generate a draft</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+                <input
+                  type="text"
+                  value={selectedDraft.title}
+                  onChange={(e) => onDraftsChange(updateDraft(drafts, selectedDraft.id, { title: e.target.value }))}
+                  className="w-full serif text-2xl font-bold text-slate-900 outline-none border-b border-transparent focus:border-amber-500"
+                />
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  {findTemplate(templateStore, selectedDraft.templateId)?.name || 'Deleted template'} v{selectedDraft.templateVersion}
+                  {selectedDraft.sessionId && ` • ${sessions.find(item => item.id === selectedDraft.sessionId)?.name || 'Deleted session'}`}
+                  {` • Edited ${formatStamp(selectedDraft.updatedAt)}`}
+                </p>
+                {markers.length > 0 && (
+                  <p className="bg-amber-50 border border-amber-200 text-amber-800 px-5 py-3 rounded-2xl text-[11px] font-bold">
+                    <i className="fa-solid fa-triangle-exclamation mr-2"></i>Still to fill: {markers.join(', ')}
+                  </p>
+                )}
+                <textarea
+                  value={selectedDraft.text}
+                  onChange={(e) => onDraftsChange(updateDraft(drafts, selectedDraft.id, { text: e.target.value }))}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-5 text-sm leading-relaxed h-[36rem] outline-none focus:border-amber-500"
+                  style={{ fontFamily: '"Times New Roman", serif' }}
+                />
+                <div className="flex flex-wrap gap-3">
+                  <button onClick={() => exportDraftDocx(selectedDraft)} className="bg-[#020617] text-white px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">
+                    <i className="fa-solid fa-file-word mr-2"></i> Export DOCX
+                  </button>
+                  <button onClick={() => handleReopen(selectedDraft)} className="bg-slate-100 text-slate-600 px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">
+                    <i className="fa-solid fa-rotate-left mr-2"></i> Reuse Details
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (!window.confirm(`Delete "${selectedDraft.title}"?`)) return;
+                      const remaining = deleteDraft(drafts, selectedDraft.id);
+                      onDraftsChange(remaining);
+                      setSelectedDraftId(remaining[0]?.id ?? null);
+                    }}
+                    className="bg-red-50 text-red-600 px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest"
+                  >
+                    <i className="fa-solid fa-trash-can mr-2"></i> Delete
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === 'templates' && (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <div className="space-y-2">
+            {templates.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setTemplateId(item.id)}
+                className={`w-full text-left rounded-2xl px-5 py-4 transition-all ${item.id === template.id ? 'bg-[#020617] text-white' : 'bg-white text-slate-700 hover:bg-slate-50'}`}
+              >
+                <p className="font-bold text-sm truncate">{item.name}</p>
+                <p className={`text-[10px] font-black uppercase tracking-widest mt-1 ${item.id === template.id ? 'text-amber-500' : 'text-slate-400'}`}>
+                  Version {item.version}{isBundled(item.id) ? '' : ' • Custom'}
+                </p>
+              </button>
+            ))}
+          </div>
+          <div className="lg:col-span-3">
+            <TemplateEditor key={`${template.id}-${template.version}`} store={templateStore} template={template} onStoreChange={onTemplateStoreChange} onSelect={setTemplateId} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DraftingView;
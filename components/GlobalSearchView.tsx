@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { BareAct, Library, LibraryItemKind, LibraryResource, LinkCheck, SearchFilters, SearchResults } from '../types';
+import { filterHits, filterOptions, groupHits, savedHits, searchHits, SearchHit } from '../services/searchService';
+import { isSaved } from '../services/libraryService';
+import LinkStatusBadge from './LinkStatusBadge';
+
+interface GlobalSearchViewProps {
+  query: string;
+  results: SearchResults | null;
+  isSearching: boolean;
+  error: string | null;
+  library: Library;
+  linkChecks: Record<string, LinkCheck>;
+  onOpen: (title: string, url: string) => void;
+  onOpenAct: (name: string, url?: string) => void;
+  onSave: (kind: LibraryItemKind, resource: LibraryResource) => void;
+  onRetry: () => void;
+}
+
+interface FilterSelectProps<T extends string | number> {
+  label: string;
+  value?: T;
+  options: T[];
+  onChange: (value?: T) => void;
+}
+
+const FilterSelect = <T extends string | number,>({ label, value, options, onChange }: FilterSelectProps<T>) => (
+  <select
+    value={value ?? ''}
+    disabled={!options.length}
+    onChange={(e) => onChange(e.target.value ? options.find(option => String(option) === e.target.value) : undefined)}
+    className={`rounded-xl px-4 py-2.5 text-[10px] font-black uppercase tracking-widest outline-none border transition-all disabled:opacity-40 ${value !== undefined ? 'bg-amber-500 border-amber-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-300 focus:border-amber-500'}`}
+  >
+    <option value="">Any {label}</option>
+    {options.map(option => <option key={option} value={option}>{option}</option>)}
+  </select>
+);
+
+const SearchHitCard: React.FC<{ hit: SearchHit, saved: boolean, check?: LinkCheck } & Pick<GlobalSearchViewProps, 'onOpen' | 'onOpenAct' | 'onSave'>> = ({ hit, saved, check, onOpen, onOpenAct, onSave }) => (
+  <div className="bg-white rounded-[2rem] p-8 border border-white shadow-sm hover:shadow-xl transition-all space-y-4">
+    <div className="flex flex-wrap items-center gap-2">
+      {hit.court && <span className="bg-[#020617] text-white text-[9px] font-black px-4 py-1.5 rounded-full uppercase tracking-widest">{hit.court}</span>}
+      {hit.year && <span className="text-[10px] text-slate-400 font-bold">{hit.year}</span>}
+      {hit.source && <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{hit.source}</span>}
+    </div>
+    <h3 className="text-xl font-bold text-slate-900 leading-tight">{hit.title}</h3>
+    {hit.snippet && <p className="text-slate-500 text-sm line-clamp-2">{hit.snippet}</p>}
+    {hit.acts.length > 0 && (
+      <div className="flex flex-wrap gap-2">
+        {hit.acts.map(act => <span key={act} className="px-3 py-1 bg-slate-100 text-slate-600 text-[9px] font-black uppercase rounded-lg border border-slate-200">{act}</span>)}
+      </div>
+    )}
+    <div className="flex flex-wrap items-center gap-4">
+      {hit.resourceKind === 'act'
+        ? <button onClick={() => onOpenAct((hit.resource as BareAct).name, hit.url)} className="bg-[#020617] text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">Read Clauses</button>
+        : <button onClick={() => onOpen(hit.title, hit.url)} className="bg-amber-500 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg active:scale-95 transition-all">Read In-App</button>}
+      {hit.url && <a href={hit.url} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-blue-600 uppercase tracking-widest flex items-center gap-2 hover:underline"><i className="fa-solid fa-link"></i> Source</a>}
+      <LinkStatusBadge check={check} />
+      <button
+        onClick={() => onSave(hit.resourceKind, hit.resource)}
+        title={saved ? 'Saved in My Library' : 'Save to My Library'}
+        className={`ml-auto h-10 w-10 rounded-xl flex items-center justify-center transition-all ${saved ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-600 hover:bg-amber-500 hover:text-white'}`}
+      >
+        <i className={`${saved ? 'fa-solid' : 'fa-regular'} fa-bookmark`}></i>
+      </button>
+    </div>
+  </div>
+);
+
+// Results of one search across every feed and the reader's library, grouped by type
+const GlobalSearchView: React.FC<GlobalSearchViewProps> = ({ query, results, isSearching, error, library, linkChecks, onOpen, onOpenAct, onSave, onRetry }) => {
+  const [filters, setFilters] = useState<SearchFilters>({});
+
+  const hits = useMemo(() => [...savedHits(library, query), ...(results ? searchHits(results) : [])], [library, query, results]);
+  const options = useMemo(() => filterOptions(hits), [hits]);
+  const groups = groupHits(filterHits(hits, filters));
+  const activeFilters = Object.values(filters).filter(Boolean).length;
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-magnifying-glass text-[10rem]"></i></div>
+        <div className="relative z-10">
+          <p className="text-[10px] font-black text-amber-500 uppercase tracking-widest mb-3">Search across every tab</p>
+          <h3 className="serif text-4xl font-bold mb-4">{query ? `“${query}”` : 'Unified Search'}</h3>
+          <p className="text-slate-400 text-sm mb-8 max-w-xl">
+            {query
+              ? `${hits.length} result${hits.length === 1 ? '' : 's'} from news, articles, judicial academies, the SC and Tamil Nadu feeds, judgments, Bare Acts and your saved items.`
+              : 'Type in the search bar above to look through news, articles, judgments, Bare Acts and your saved items at once.'}
+          </p>
+          {hits.length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              <FilterSelect label="court" value={filters.court} options={options.courts} onChange={court => setFilters({ ...filters, court })} />
+              <FilterSelect label="year" value={filters.year} options={options.years} onChange={year => setFilters({ ...filters, year })} />
+              <FilterSelect label="Act" value={filters.act} options={options.acts} onChange={act => setFilters({ ...filters, act })} />
+              <FilterSelect label="source" value={filters.source} options={options.sources} onChange={source => setFilters({ ...filters, source })} />
+              {activeFilters > 0 && (
+                <button onClick={() => setFilters({})} className="bg-slate-900 border border-slate-800 rounded-xl px-4 py-2.5 text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-colors">
+                  <i className="fa-solid fa-xmark mr-2"></i> Clear {activeFilters} filter{activeFilters === 1 ? '' : 's'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isSearching && (
+        <div className="flex items-center justify-center gap-3 py-8 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+          <div className="h-5 w-5 border-2 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
+          Searching the feeds...
+        </div>
+      )}
+
+      {error && !isSearching && (
+        <div className="flex items-center justify-between gap-3 bg-red-50 border border-red-200 text-red-700 px-6 py-4 rounded-2xl text-[11px] font-bold">
+          <span><i className="fa-solid fa-triangle-exclamation mr-2"></i> {error}</span>
+          <button onClick={onRetry} className="text-[10px] font-black uppercase tracking-widest hover:underline">Try again</button>
+        </div>
+      )}
+
+      {groups.map(group => (
+        <section key={group.kind} className="space-y-4">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-2">
+            <i className={`fa-solid ${group.icon} text-amber-500`}></i> {group.label} <span className="text-slate-300">({group.hits.length})</span>
+          </h4>
+          <div className="grid grid-cols-1 gap-4">
+            {group.hits.map(hit => (
+              <SearchHitCard
+                key={hit.id}
+                hit={hit}
+                saved={isSaved(library, hit.url)}
+                check={linkChecks[hit.url]}
+                onOpen={onOpen}
+                onOpenAct={onOpenAct}
+                onSave={onSave}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {query && !isSearching && !error && !groups.length && (
+        <p className="text-center py-8 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">
+          {hits.length ? 'No results match these filters' : 'No results found'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearchView;
@@ -0,0 +1,205 @@
+import React, { useState, useRef } from 'react';
+import { Library, LibraryItem, LibraryItemKind } from '../types';
+import {
+  createFolder,
+  renameFolder,
+  deleteFolder,
+  updateItem,
+  removeItem,
+  parseTags,
+  exportLibrary,
+  importLibrary,
+  LibraryImportError
+} from '../services/libraryService';
+import { downloadJson } from '../services/localStore';
+
+const KIND_LABELS: Record<LibraryItemKind, { label: string, icon: string }> = {
+  news: { label: 'News', icon: 'fa-earth-asia' },
+  article: { label: 'Article', icon: 'fa-feather-pointed' },
+  academy: { label: 'Academy', icon: 'fa-landmark-dome' },
+  judgment: { label: 'Judgment', icon: 'fa-gavel' },
+  act: { label: 'Bare Act', icon: 'fa-scroll' }
+};
+
+interface LibraryViewProps {
+  library: Library;
+  onChange: (library: Library) => void;
+  onOpen: (title: string, url: string) => void;
+}
+
+const LibraryItemCard: React.FC<{ item: LibraryItem, library: Library, onChange: (library: Library) => void, onOpen: (title: string, url: string) => void }> = ({ item, library, onChange, onOpen }) => {
+  const [tagInput, setTagInput] = useState(item.tags.join(', '));
+  const kind = KIND_LABELS[item.kind];
+
+  return (
+    <div className="bg-white rounded-[2rem] p-8 border border-white shadow-sm hover:shadow-xl transition-all space-y-5">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <span className="bg-[#020617] text-white text-[9px] font-black px-4 py-1.5 rounded-full uppercase tracking-widest inline-flex items-center gap-2"><i className={`fa-solid ${kind.icon}`}></i> {kind.label}</span>
+          <h3 className="text-xl font-bold text-slate-900 mt-4 leading-tight">{item.title}</h3>
+          <p className="text-[10px] text-slate-400 font-bold mt-1">Saved {new Date(item.savedAt).toLocaleDateString('en-IN', { dateStyle: 'medium' })}</p>
+        </div>
+        <button onClick={() => onChange(removeItem(library, item.id))} className="h-10 w-10 shrink-0 rounded-xl bg-slate-50 text-slate-400 hover:bg-red-50 hover:text-red-600 transition-all"><i className="fa-solid fa-trash-can"></i></button>
+      </div>
+      <textarea
+        placeholder="Notes for this matter..."
+        value={item.notes}
+        onChange={(e) => onChange(updateItem(library, item.id, { notes: e.target.value }))}
+        className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 text-sm h-24 outline-none focus:border-amber-500 resize-none"
+      />
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          placeholder="Tags, comma separated"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onBlur={() => onChange(updateItem(library, item.id, { tags: parseTags(tagInput) }))}
+          className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500"
+        />
+        <select
+          value={item.folderId}
+          onChange={(e) => onChange(updateItem(library, item.id, { folderId: e.target.value }))}
+          className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-[10px] font-black uppercase tracking-widest outline-none focus:border-amber-500"
+        >
+          {library.folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        <button onClick={() => onOpen(item.title, item.url)} className="bg-amber-500 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg active:scale-95 transition-all">Read In-App</button>
+        <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-blue-600 uppercase tracking-widest flex items-center gap-2 hover:underline"><i className="fa-solid fa-link"></i> Source</a>
+      </div>
+    </div>
+  );
+};
+
+const LibraryView: React.FC<LibraryViewProps> = ({ library, onChange, onOpen }) => {
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(library.folders[0]?.id ?? null);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const selectedFolder = library.folders.find(folder => folder.id === selectedFolderId) || library.folders[0];
+  const folderItems = selectedFolder ? library.items.filter(item => item.folderId === selectedFolder.id) : [];
+  const folderTags = Array.from(new Set(folderItems.flatMap(item => item.tags))).sort();
+  const visibleItems = tagFilter ? folderItems.filter(item => item.tags.includes(tagFilter)) : folderItems;
+
+  const handleCreateFolder = () => {
+    if (!newFolderName.trim()) return;
+    const { library: updated, folder } = createFolder(library, newFolderName);
+    onChange(updated);
+    setSelectedFolderId(folder.id);
+    setNewFolderName("");
+  };
+
+  const handleRenameFolder = () => {
+    if (!selectedFolder) return;
+    const name = window.prompt('Rename folder', selectedFolder.name);
+    if (name) onChange(renameFolder(library, selectedFolder.id, name));
+  };
+
+  const handleDeleteFolder = () => {
+    if (!selectedFolder) return;
+    if (!window.confirm(`Delete "${selectedFolder.name}" and its ${folderItems.length} saved item(s)?`)) return;
+    onChange(deleteFolder(library, selectedFolder.id));
+    setSelectedFolderId(null);
+  };
+
+  const handleExport = (folderIds?: string[]) => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadJson(`mo-library-${stamp}.json`, exportLibrary(library, folderIds));
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      onChange(importLibrary(library, await file.text()));
+    } catch (error) {
+      setImportError(error instanceof LibraryImportError ? error.message : 'Import failed.');
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-bookmark text-[10rem]"></i></div>
+        <div className="relative z-10">
+          <h3 className="serif text-4xl font-bold mb-4">My Library</h3>
+          <p className="text-slate-400 text-sm mb-8 max-w-xl">Research folders for each client matter. Save any card, add notes and tags, and hand a research set to a colleague as a file.</p>
+          <div className="flex flex-wrap gap-3">
+            <button onClick={() => handleExport()} disabled={!library.items.length} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-colors disabled:opacity-50"><i className="fa-solid fa-file-export mr-2"></i> Export All</button>
+            <button onClick={() => fileInputRef.current?.click()} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-colors"><i className="fa-solid fa-file-import mr-2"></i> Import</button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }}
+            />
+          </div>
+          {importError && <p className="mt-4 text-xs font-bold text-red-400">{importError}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-8">
+        <div className="space-y-3">
+          {library.folders.map(folder => (
+            <button
+              key={folder.id}
+              onClick={() => { setSelectedFolderId(folder.id); setTagFilter(null); }}
+              className={`w-full flex items-center justify-between px-5 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${selectedFolder?.id === folder.id ? 'bg-amber-500 text-white shadow-xl shadow-amber-500/20' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+            >
+              <span className="flex items-center gap-3 truncate"><i className="fa-solid fa-folder"></i> {folder.name}</span>
+              <span>{library.items.filter(item => item.folderId === folder.id).length}</span>
+            </button>
+          ))}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="New folder"
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateFolder()}
+              className="flex-1 min-w-0 bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500"
+            />
+            <button onClick={handleCreateFolder} className="h-10 w-10 bg-[#020617] text-white rounded-xl"><i className="fa-solid fa-plus"></i></button>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {selectedFolder ? (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h3 className="serif text-2xl font-bold text-slate-900">{selectedFolder.name}</h3>
+                <div className="flex gap-2">
+                  <button onClick={handleRenameFolder} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100">Rename</button>
+                  <button onClick={() => handleExport([selectedFolder.id])} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100">Export Folder</button>
+                  <button onClick={handleDeleteFolder} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-red-500 hover:bg-red-50">Delete</button>
+                </div>
+              </div>
+              {folderTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {folderTags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${tagFilter === tag ? 'bg-amber-500 text-white border-amber-500' : 'bg-slate-100 text-slate-600 border-slate-200'}`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {visibleItems.map(item => <LibraryItemCard key={item.id} item={item} library={library} onChange={onChange} onOpen={onOpen} />)}
+              {!visibleItems.length && <p className="text-center py-16 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Nothing saved here yet</p>}
+            </>
+          ) : (
+            <p className="text-center py-16 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Create a folder or save a card to start your library</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryView;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { LinkCheck, LinkStatus } from '../types';
+
+interface LinkStatusBadgeProps {
+  check?: LinkCheck;
+  // Icon only, for use inside link buttons
+  compact?: boolean;
+}
+
+const STYLES: Record<LinkStatus, { label: string, icon: string, className: string }> = {
+  verified: { label: 'Verified', icon: 'fa-circle-check', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  unverified: { label: 'Unverified', icon: 'fa-circle-question', className: 'bg-slate-50 text-slate-500 border-slate-200' },
+  dead: { label: 'Dead link', icon: 'fa-circle-xmark', className: 'bg-red-50 text-red-700 border-red-200' }
+};
+
+const describe = (check: LinkCheck) =>
+  `${check.reason}${check.finalUrl ? ` (via ${check.finalUrl})` : ''} • checked ${new Date(check.checkedAt).toLocaleTimeString('en-IN', { timeStyle: 'short' })}`;
+
+// Result of the server-side liveness check for one link; nothing while the check is pending
+const LinkStatusBadge: React.FC<LinkStatusBadgeProps> = ({ check, compact }) => {
+  if (!check) return null;
+  const style = STYLES[check.status];
+  if (compact) return <i title={`${style.label}: ${describe(check)}`} className={`fa-solid ${style.icon} opacity-90`}></i>;
+  return (
+    <span title={describe(check)} className={`inline-flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${style.className}`}>
+      <i className={`fa-solid ${style.icon}`}></i> {style.label}
+    </span>
+  );
+};
+
+export default LinkStatusBadge;
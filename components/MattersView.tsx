@@ -0,0 +1,367 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Library, Matter, MatterEventKind, PracticeArea, TrackedCase } from '../types';
+import {
+  PRACTICE_AREAS,
+  EVENT_KINDS,
+  DEFAULT_REMINDER_DAYS,
+  CalendarEntry,
+  calendarEntries,
+  upcomingEntries,
+  createMatter,
+  updateMatter,
+  deleteMatter,
+  addEvent,
+  updateEvent,
+  removeEvent,
+  linkResearch,
+  unlinkResearch,
+  formatEventDate
+} from '../services/matterService';
+import { exportIcs, importIcs } from '../services/icsService';
+import { formatCaseNumber } from '../services/causeListService';
+import { downloadBlob } from '../services/localStore';
+
+// Notification.permission, or 'unsupported' where the browser has no notifications
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+interface MattersViewProps {
+  matters: Matter[];
+  trackedCases: TrackedCase[];
+  library: Library;
+  reminderPermission: ReminderPermission;
+  onChange: (matters: Matter[]) => void;
+  onEnableReminders: () => void;
+  onOpen: (title: string, url: string) => void;
+}
+
+type MattersMode = 'calendar' | 'matters';
+
+const FIELD_CLASS = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs outline-none focus:border-amber-500';
+
+const KIND_STYLES: Record<MatterEventKind, string> = {
+  hearing: 'bg-[#020617] text-white',
+  deadline: 'bg-red-500 text-white',
+  meeting: 'bg-amber-100 text-amber-800'
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const isoOf = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Dates shown in the month grid, from the Sunday before the 1st to the Saturday after the last day
+const monthDays = (year: number, month: number) => {
+  const first = new Date(year, month, 1);
+  const start = new Date(year, month, 1 - first.getDay());
+  const weeks = Math.ceil((first.getDay() + new Date(year, month + 1, 0).getDate()) / 7);
+  return Array.from({ length: weeks * 7 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+};
+
+const EventChip: React.FC<{ entry: CalendarEntry, onSelect: (matterId: string) => void }> = ({ entry, onSelect }) => (
+  <button
+    onClick={() => onSelect(entry.matter.id)}
+    title={`${EVENT_KINDS[entry.event.kind].label}: ${entry.event.title} • ${entry.matter.title}`}
+    className={`w-full text-left truncate px-2 py-1 rounded-md text-[10px] font-bold ${KIND_STYLES[entry.event.kind]} ${entry.event.done ? 'opacity-40 line-through' : ''}`}
+  >
+    {entry.event.time && `${entry.event.time} `}{entry.event.title}
+  </button>
+);
+
+const MattersView: React.FC<MattersViewProps> = ({ matters, trackedCases, library, reminderPermission, onChange, onEnableReminders, onOpen }) => {
+  const today = isoOf(new Date());
+  const [mode, setMode] = useState<MattersMode>('calendar');
+  const [month, setMonth] = useState(() => ({ year: new Date().getFullYear(), month: new Date().getMonth() }));
+  const [selectedId, setSelectedId] = useState<string | null>(matters[0]?.id ?? null);
+  const [importMessage, setImportMessage] = useState<{ text: string, error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [newMatter, setNewMatter] = useState({ title: '', client: '', area: 'civil' as PracticeArea });
+  const [newEvent, setNewEvent] = useState({ kind: 'hearing' as MatterEventKind, title: '', date: '', time: '', location: '', remindDaysBefore: DEFAULT_REMINDER_DAYS.hearing });
+  const [researchItemId, setResearchItemId] = useState('');
+
+  const entries = useMemo(() => calendarEntries(matters, trackedCases), [matters, trackedCases]);
+  const upcoming = upcomingEntries(entries, today, 14);
+  const selected = matters.find(matter => matter.id === selectedId) || null;
+  const selectedEntries = selected ? entries.filter(entry => entry.matter.id === selected.id) : [];
+  const linkableItems = selected ? library.items.filter(item => !selected.research.some(linked => linked.url === item.url)) : [];
+  const days = monthDays(month.year, month.month);
+  const monthLabel = new Date(month.year, month.month, 1).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+  const openMatter = (matterId: string) => {
+    setSelectedId(matterId);
+    setMode('matters');
+  };
+
+  const shiftMonth = (delta: number) => setMonth(({ year, month }) => {
+    const date = new Date(year, month + delta, 1);
+    return { year: date.getFullYear(), month: date.getMonth() };
+  });
+
+  const handleCreateMatter = () => {
+    if (!newMatter.title.trim()) return;
+    const created = createMatter(matters, newMatter);
+    onChange(created.matters);
+    setSelectedId(created.matter.id);
+    setNewMatter({ title: '', client: '', area: newMatter.area });
+  };
+
+  const handleAddEvent = () => {
+    if (!selected || !newEvent.date) return;
+    onChange(addEvent(matters, selected.id, newEvent));
+    setNewEvent({ ...newEvent, title: '', date: '', time: '', location: '' });
+  };
+
+  const handleDeleteMatter = () => {
+    if (!selected || !window.confirm(`Delete "${selected.title}" with its ${selected.events.length} events?`)) return;
+    const remaining = deleteMatter(matters, selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleLinkResearch = () => {
+    const item = library.items.find(candidate => candidate.id === researchItemId);
+    if (!selected || !item) return;
+    onChange(linkResearch(matters, selected.id, item.kind, item.resource));
+    setResearchItemId('');
+  };
+
+  const handleExport = () => {
+    const exported = mode === 'matters' && selected ? selectedEntries : entries;
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadBlob(`mo-matters-${stamp}.ics`, new Blob([exportIcs(exported)], { type: 'text/calendar;charset=utf-8' }));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const result = importIcs(matters, await file.text(), mode === 'matters' ? selected?.id : undefined);
+      onChange(result.matters);
+      setImportMessage({ text: `${result.added} events added, ${result.updated} updated.`, error: false });
+    } catch (error: any) {
+      setImportMessage({ text: error?.message || 'The calendar could not be imported.', error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-calendar-days text-[10rem]"></i></div>
+        <div className="relative z-10">
+          <h3 className="serif text-4xl font-bold mb-4">Matters & Calendar</h3>
+          <p className="text-slate-400 text-sm mb-8 max-w-xl">
+            Hearings, filing deadlines and client meetings for every matter, with the research filed against it.
+            Export to .ics to see the dates on your phone, or import a calendar back.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {([['calendar', 'Calendar', 'fa-calendar-days'], ['matters', 'Matters', 'fa-folder-open']] as const).map(([id, label, icon]) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${mode === id ? 'bg-amber-500 text-white shadow-lg shadow-amber-500/20' : 'bg-slate-900 border border-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                <i className={`fa-solid ${icon} mr-2`}></i> {label}
+              </button>
+            ))}
+            <button onClick={handleExport} disabled={!entries.length} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-colors disabled:opacity-50">
+              <i className="fa-solid fa-file-export mr-2"></i> {mode === 'matters' && selected ? 'Export Matter' : 'Export All'}
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-colors">
+              <i className="fa-solid fa-file-import mr-2"></i> Import .ics
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }}
+            />
+            {reminderPermission === 'default' && (
+              <button onClick={onEnableReminders} className="bg-slate-900 border border-amber-500/40 text-amber-500 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-colors">
+                <i className="fa-solid fa-bell mr-2"></i> Enable Reminders
+              </button>
+            )}
+          </div>
+          {importMessage && <p className={`mt-4 text-xs font-bold ${importMessage.error ? 'text-red-400' : 'text-emerald-400'}`}>{importMessage.text}</p>}
+          {reminderPermission === 'granted' && <p className="mt-4 text-[11px] text-slate-500"><i className="fa-solid fa-bell mr-2 text-amber-500"></i>Reminders are on while the app is open.</p>}
+          {reminderPermission === 'denied' && <p className="mt-4 text-[11px] text-slate-500">Notifications are blocked for this site; allow them in the browser settings to get reminders.</p>}
+        </div>
+      </div>
+
+      {mode === 'calendar' && (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <div className="lg:col-span-3 bg-white rounded-[2.5rem] p-8 border border-white shadow-sm">
+            <div className="flex items-center justify-between mb-6">
+              <button onClick={() => shiftMonth(-1)} className="h-10 w-10 rounded-xl bg-slate-50 text-slate-500 hover:bg-slate-100"><i className="fa-solid fa-chevron-left"></i></button>
+              <h4 className="serif text-2xl font-bold text-slate-900">{monthLabel}</h4>
+              <button onClick={() => shiftMonth(1)} className="h-10 w-10 rounded-xl bg-slate-50 text-slate-500 hover:bg-slate-100"><i className="fa-solid fa-chevron-right"></i></button>
+            </div>
+            <div className="grid grid-cols-7 gap-2">
+              {WEEKDAYS.map(day => <div key={day} className="text-center text-[10px] font-black uppercase tracking-widest text-slate-400 pb-2">{day}</div>)}
+              {days.map(day => {
+                const iso = isoOf(day);
+                const dayEntries = entries.filter(entry => entry.event.date === iso);
+                return (
+                  <div key={iso} className={`min-h-24 rounded-xl p-2 space-y-1 border ${iso === today ? 'border-amber-500 bg-amber-50/40' : 'border-slate-100'} ${day.getMonth() !== month.month ? 'opacity-40' : ''}`}>
+                    <p className={`text-[11px] font-black ${iso === today ? 'text-amber-600' : 'text-slate-400'}`}>{day.getDate()}</p>
+                    {dayEntries.map(entry => <EventChip key={entry.event.id} entry={entry} onSelect={openMatter} />)}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Next 14 days</h4>
+            {upcoming.map(({ matter, event }) => (
+              <button key={`${matter.id}-${event.id}`} onClick={() => openMatter(matter.id)} className="w-full text-left bg-slate-50 rounded-2xl p-4 hover:bg-amber-50 transition-all">
+                <p className="text-[10px] font-black uppercase tracking-widest text-amber-600"><i className={`fa-solid ${EVENT_KINDS[event.kind].icon} mr-1`}></i> {EVENT_KINDS[event.kind].label}</p>
+                <p className="font-bold text-slate-900 text-sm mt-1">{event.title}</p>
+                <p className="text-[11px] text-slate-500">{formatEventDate(event)}{event.location && ` • ${event.location}`}</p>
+                <p className="text-[11px] text-slate-400 truncate">{matter.title}</p>
+              </button>
+            ))}
+            {!upcoming.length && <p className="text-center py-6 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Nothing scheduled</p>}
+          </div>
+        </div>
+      )}
+
+      {mode === 'matters' && (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <div className="space-y-4">
+            <div className="bg-white rounded-[2rem] p-6 border border-white shadow-sm space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">New matter</h4>
+              <input type="text" placeholder="Matter, e.g. Ramasamy v. State" value={newMatter.title} onChange={(e) => setNewMatter({ ...newMatter, title: e.target.value })} className={FIELD_CLASS} />
+              <input type="text" placeholder="Client" value={newMatter.client} onChange={(e) => setNewMatter({ ...newMatter, client: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && handleCreateMatter()} className={FIELD_CLASS} />
+              <select value={newMatter.area} onChange={(e) => setNewMatter({ ...newMatter, area: e.target.value as PracticeArea })} className={FIELD_CLASS}>
+                {(Object.keys(PRACTICE_AREAS) as PracticeArea[]).map(area => <option key={area} value={area}>{PRACTICE_AREAS[area]}</option>)}
+              </select>
+              <button onClick={handleCreateMatter} disabled={!newMatter.title.trim()} className="w-full bg-amber-500 text-white py-3 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">
+                <i className="fa-solid fa-plus mr-2"></i> Open Matter
+              </button>
+            </div>
+            <div className="space-y-2">
+              {matters.map(matter => (
+                <button
+                  key={matter.id}
+                  onClick={() => setSelectedId(matter.id)}
+                  className={`w-full text-left rounded-2xl px-5 py-4 transition-all ${matter.id === selectedId ? 'bg-[#020617] text-white' : 'bg-white text-slate-700 hover:bg-slate-50'}`}
+                >
+                  <p className="font-bold text-sm truncate">{matter.title}</p>
+                  <p className={`text-[10px] font-black uppercase tracking-widest mt-1 ${matter.id === selectedId ? 'text-amber-500' : 'text-slate-400'}`}>
+                    {PRACTICE_AREAS[matter.area]}{matter.client && ` • ${matter.client}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="lg:col-span-3">
+            {!selected ? (
+              <div className="bg-white rounded-[2.5rem] p-12 border border-white shadow-sm text-center">
+                <i className="fa-solid fa-folder-open text-4xl text-slate-200 mb-4"></i>
+                <p className="text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Open a matter to schedule its dates</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+                  <div className="flex items-start gap-4">
+                    <input type="text" value={selected.title} onChange={(e) => onChange(updateMatter(matters, selected.id, { title: e.target.value }))} className="flex-1 serif text-2xl font-bold text-slate-900 outline-none border-b border-transparent focus:border-amber-500" />
+                    <button onClick={handleDeleteMatter} title="Delete matter" className="h-10 w-10 shrink-0 rounded-xl bg-slate-50 text-slate-400 hover:bg-red-50 hover:text-red-600 transition-all"><i className="fa-solid fa-trash-can"></i></button>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input type="text" placeholder="Client" value={selected.client} onChange={(e) => onChange(updateMatter(matters, selected.id, { client: e.target.value }))} className={FIELD_CLASS} />
+                    <input type="text" placeholder="Court" value={selected.court || ''} onChange={(e) => onChange(updateMatter(matters, selected.id, { court: e.target.value || undefined }))} className={FIELD_CLASS} />
+                    <input type="text" placeholder="Case number" value={selected.caseRef || ''} onChange={(e) => onChange(updateMatter(matters, selected.id, { caseRef: e.target.value || undefined }))} className={FIELD_CLASS} />
+                    <select value={selected.area} onChange={(e) => onChange(updateMatter(matters, selected.id, { area: e.target.value as PracticeArea }))} className={FIELD_CLASS}>
+                      {(Object.keys(PRACTICE_AREAS) as PracticeArea[]).map(area => <option key={area} value={area}>{PRACTICE_AREAS[area]}</option>)}
+                    </select>
+                    <select
+                      value={selected.trackedCaseId || ''}
+                      onChange={(e) => onChange(updateMatter(matters, selected.id, { trackedCaseId: e.target.value || undefined }))}
+                      className={`md:col-span-2 ${FIELD_CLASS}`}
+                    >
+                      <option value="">Not linked to the Case Tracker</option>
+                      {trackedCases.map(item => <option key={item.id} value={item.id}>Hearings of {formatCaseNumber(item)}{item.parties && ` • ${item.parties}`}</option>)}
+                    </select>
+                  </div>
+                  <textarea
+                    placeholder="Notes on this matter..."
+                    value={selected.notes}
+                    onChange={(e) => onChange(updateMatter(matters, selected.id, { notes: e.target.value }))}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 text-sm h-20 outline-none focus:border-amber-500 resize-none"
+                  />
+                </div>
+
+                <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Dates</h4>
+                  <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                    <select
+                      value={newEvent.kind}
+                      onChange={(e) => {
+                        const kind = e.target.value as MatterEventKind;
+                        setNewEvent({ ...newEvent, kind, remindDaysBefore: DEFAULT_REMINDER_DAYS[kind] });
+                      }}
+                      className={FIELD_CLASS}
+                    >
+                      {(Object.keys(EVENT_KINDS) as MatterEventKind[]).map(kind => <option key={kind} value={kind}>{EVENT_KINDS[kind].label}</option>)}
+                    </select>
+                    <input type="text" placeholder="What" value={newEvent.title} onChange={(e) => setNewEvent({ ...newEvent, title: e.target.value })} className={`md:col-span-2 ${FIELD_CLASS}`} />
+                    <input type="date" value={newEvent.date} onChange={(e) => setNewEvent({ ...newEvent, date: e.target.value })} className={FIELD_CLASS} />
+                    <input type="time" value={newEvent.time} onChange={(e) => setNewEvent({ ...newEvent, time: e.target.value })} className={FIELD_CLASS} />
+                    <select value={newEvent.remindDaysBefore} onChange={(e) => setNewEvent({ ...newEvent, remindDaysBefore: Number(e.target.value) })} className={FIELD_CLASS}>
+                      {[0, 1, 2, 3, 7, 14].map(days => <option key={days} value={days}>{days ? `Remind ${days}d before` : 'Remind on the day'}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex gap-3">
+                    <input type="text" placeholder="Where, e.g. Court 5, Madurai Bench (optional)" value={newEvent.location} onChange={(e) => setNewEvent({ ...newEvent, location: e.target.value })} className={`flex-1 ${FIELD_CLASS}`} />
+                    <button onClick={handleAddEvent} disabled={!newEvent.date} className="bg-amber-500 text-white px-6 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Add Date</button>
+                  </div>
+                  <div className="space-y-2">
+                    {selectedEntries.map(({ event, derived }) => (
+                      <div key={event.id} className={`flex items-center gap-4 rounded-2xl px-5 py-3 ${event.date < today || event.done ? 'bg-slate-50 opacity-60' : 'bg-slate-50'}`}>
+                        {derived
+                          ? <span className="h-5 w-5 flex items-center justify-center text-amber-500" title="From the Case Tracker"><i className="fa-solid fa-briefcase"></i></span>
+                          : <input type="checkbox" checked={event.done} onChange={() => onChange(updateEvent(matters, selected.id, event.id, { done: !event.done }))} title="Done" className="h-5 w-5 accent-amber-500" />}
+                        <span className={`text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-lg ${KIND_STYLES[event.kind]}`}>{EVENT_KINDS[event.kind].label}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className={`font-bold text-sm text-slate-900 truncate ${event.done ? 'line-through' : ''}`}>{event.title}</p>
+                          <p className="text-[11px] text-slate-500">{formatEventDate(event)}{event.location && ` • ${event.location}`}</p>
+                        </div>
+                        {!derived && <button onClick={() => onChange(removeEvent(matters, selected.id, event.id))} title="Remove" className="text-slate-300 hover:text-red-500"><i className="fa-solid fa-xmark"></i></button>}
+                      </div>
+                    ))}
+                    {!selectedEntries.length && <p className="text-center py-4 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">No dates yet</p>}
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-4">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Research</h4>
+                  <p className="text-[11px] text-slate-400">File cards from any tab with the bookmark button, or link items already in My Library.</p>
+                  {linkableItems.length > 0 && (
+                    <div className="flex gap-3">
+                      <select value={researchItemId} onChange={(e) => setResearchItemId(e.target.value)} className={`flex-1 ${FIELD_CLASS}`}>
+                        <option value="">Link from My Library...</option>
+                        {linkableItems.map(item => <option key={item.id} value={item.id}>{item.title}</option>)}
+                      </select>
+                      <button onClick={handleLinkResearch} disabled={!researchItemId} className="bg-[#020617] text-white px-5 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Link</button>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    {selected.research.map(item => (
+                      <div key={item.id} className="flex items-center gap-4 bg-slate-50 rounded-2xl px-5 py-3">
+                        <span className="text-[9px] font-black uppercase tracking-widest text-amber-600 w-20 shrink-0">{item.kind}</span>
+                        <button onClick={() => onOpen(item.title, item.url)} className="flex-1 text-left text-sm font-bold text-slate-800 hover:text-amber-600 truncate">{item.title}</button>
+                        <button onClick={() => onChange(unlinkResearch(matters, selected.id, item.id))} title="Unlink" className="text-slate-300 hover:text-red-500"><i className="fa-solid fa-link-slash"></i></button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MattersView;
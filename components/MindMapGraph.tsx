@@ -0,0 +1,257 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { MindMapNode } from '../types';
+import {
+  layoutMindMap,
+  pruneCollapsed,
+  findNode,
+  renameNode,
+  addChildNode,
+  removeNode,
+  countDescendants,
+  findSupportingPassage,
+  truncateLabel,
+  LaidOutNode,
+  NODE_HEIGHT,
+  COLUMN_GAP
+} from '../services/mindMapService';
+
+interface MindMapGraphProps {
+  mindMap: MindMapNode;
+  source: string;
+  onChange: (mindMap: MindMapNode) => void;
+}
+
+const MARGIN = 40;
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 2.5;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const flatten = (item: LaidOutNode, depth: number = 0): { item: LaidOutNode, depth: number }[] =>
+  [{ item, depth }, ...item.children.flatMap(child => flatten(child, depth + 1))];
+
+const OutlineNode: React.FC<{ node: MindMapNode, selectedId: string | null, onSelect: (nodeId: string) => void }> = ({ node, selectedId, onSelect }) => (
+  <div className="mt-4">
+    <button onClick={() => onSelect(node.id)} className="flex items-center gap-3 text-left">
+      <span className="h-2.5 w-2.5 shrink-0 rounded-full bg-amber-500 shadow-[0_0_10px_rgba(245,158,11,0.5)]"></span>
+      <span className={`p-3.5 rounded-xl bg-white border shadow-sm font-bold text-slate-800 text-[11px] uppercase tracking-wider ${selectedId === node.id ? 'border-amber-500' : 'border-slate-200'}`}>{node.label}</span>
+    </button>
+    {node.children && node.children.length > 0 && (
+      <div className="pl-6 border-l border-slate-200 ml-1.5">
+        {node.children.map(child => <OutlineNode key={child.id} node={child} selectedId={selectedId} onSelect={onSelect} />)}
+      </div>
+    )}
+  </div>
+);
+
+const MindMapGraph: React.FC<MindMapGraphProps> = ({ mindMap, source, onChange }) => {
+  const [mode, setMode] = useState<'graph' | 'outline'>('graph');
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState("");
+  const canvasRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ pointerX: number, pointerY: number, x: number, y: number } | null>(null);
+
+  const { tree, right, bottom } = useMemo(() => layoutMindMap(pruneCollapsed(mindMap, collapsed), { x: MARGIN, y: MARGIN }), [mindMap, collapsed]);
+  const laidOut = flatten(tree);
+  const selectedNode = selectedId ? findNode(mindMap, selectedId) : null;
+  const passage = selectedNode ? findSupportingPassage(source, selectedNode) : null;
+
+  // Zoom towards the cursor; a native listener because React registers wheel handlers as passive
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const cursorX = e.clientX - rect.left;
+      const cursorY = e.clientY - rect.top;
+      setView(prev => {
+        const scale = clampScale(prev.scale * (e.deltaY < 0 ? 1.1 : 0.9));
+        const ratio = scale / prev.scale;
+        return { scale, x: cursorX - (cursorX - prev.x) * ratio, y: cursorY - (cursorY - prev.y) * ratio };
+      });
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [mode]);
+
+  const zoomBy = (factor: number) => setView(prev => ({ ...prev, scale: clampScale(prev.scale * factor) }));
+
+  const fitToView = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const scale = clampScale(Math.min(canvas.clientWidth / (right + MARGIN), canvas.clientHeight / (bottom + MARGIN), 1));
+    setView({ scale, x: 0, y: 0 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('[data-mind-map-node]')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView(prev => ({ ...prev, x: drag.x + e.clientX - drag.pointerX, y: drag.y + e.clientY - drag.pointerY }));
+  };
+
+  const toggleCollapsed = (nodeId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId); else next.add(nodeId);
+      return next;
+    });
+  };
+
+  const startEditing = (node: MindMapNode) => {
+    setEditingId(node.id);
+    setDraftLabel(node.label);
+  };
+
+  const commitEditing = () => {
+    if (editingId) onChange(renameNode(mindMap, editingId, draftLabel));
+    setEditingId(null);
+  };
+
+  const handleAddChild = (parentId: string) => {
+    const { mindMap: updated, node } = addChildNode(mindMap, parentId);
+    setCollapsed(prev => { const next = new Set(prev); next.delete(parentId); return next; });
+    onChange(updated);
+    setSelectedId(node.id);
+    if (mode === 'graph') startEditing(node);
+  };
+
+  const handleDelete = (nodeId: string) => {
+    const node = findNode(mindMap, nodeId);
+    const descendants = node ? countDescendants(node) : 0;
+    if (descendants && !window.confirm(`Delete "${node?.label}" and ${descendants} node(s) beneath it?`)) return;
+    onChange(removeNode(mindMap, nodeId));
+    setSelectedId(null);
+  };
+
+  const edges = laidOut.flatMap(({ item }) => item.children.map(child => {
+    const startX = item.x + item.width;
+    const startY = item.y + NODE_HEIGHT / 2;
+    const endY = child.y + NODE_HEIGHT / 2;
+    const midX = startX + COLUMN_GAP / 2;
+    return <path key={child.node.id} d={`M${startX},${startY} C${midX},${startY} ${midX},${endY} ${child.x},${endY}`} fill="none" stroke="#cbd5e1" strokeWidth="1.5" />;
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex bg-white p-1 rounded-xl shadow-sm border border-slate-100">
+          <button onClick={() => setMode('graph')} className={`px-5 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest ${mode === 'graph' ? 'bg-slate-900 text-white' : 'text-slate-500'}`}>Graph</button>
+          <button onClick={() => setMode('outline')} className={`px-5 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest ${mode === 'outline' ? 'bg-slate-900 text-white' : 'text-slate-500'}`}>Outline</button>
+        </div>
+        {mode === 'graph' && (
+          <div className="flex gap-2">
+            <button onClick={() => zoomBy(1.2)} title="Zoom in" className="h-9 w-9 bg-white border border-slate-200 rounded-xl text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-plus"></i></button>
+            <button onClick={() => zoomBy(1 / 1.2)} title="Zoom out" className="h-9 w-9 bg-white border border-slate-200 rounded-xl text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-minus"></i></button>
+            <button onClick={fitToView} title="Fit to view" className="h-9 w-9 bg-white border border-slate-200 rounded-xl text-slate-600 hover:bg-slate-900 hover:text-white transition-all"><i className="fa-solid fa-expand"></i></button>
+            <button onClick={() => setCollapsed(new Set())} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all">Expand All</button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_20rem] gap-6">
+        {mode === 'graph' ? (
+          <div
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragRef.current = null; }}
+            onPointerCancel={() => { dragRef.current = null; }}
+            className="relative h-[560px] bg-slate-100 rounded-[3rem] shadow-inner overflow-hidden cursor-grab active:cursor-grabbing touch-none select-none"
+          >
+            <div className="absolute top-0 left-0 origin-top-left" style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}>
+              <svg width={right + MARGIN} height={bottom + MARGIN} className="absolute top-0 left-0 pointer-events-none">{edges}</svg>
+              {laidOut.map(({ item, depth }) => {
+                const node = item.node;
+                const original = findNode(mindMap, node.id);
+                const hiddenCount = collapsed.has(node.id) && original ? countDescendants(original) : 0;
+                const hasChildren = Boolean(original?.children?.length);
+                return (
+                  <div
+                    key={node.id}
+                    data-mind-map-node
+                    className="absolute flex items-center"
+                    style={{ left: item.x, top: item.y, width: item.width, height: NODE_HEIGHT }}
+                  >
+                    {editingId === node.id ? (
+                      <input
+                        autoFocus
+                        value={draftLabel}
+                        onChange={(e) => setDraftLabel(e.target.value)}
+                        onBlur={commitEditing}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitEditing(); if (e.key === 'Escape') setEditingId(null); }}
+                        className="w-full h-full rounded-[10px] border-2 border-amber-500 px-3 text-xs font-bold outline-none"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => setSelectedId(node.id)}
+                        onDoubleClick={() => startEditing(node)}
+                        title={node.label}
+                        className={`w-full h-full rounded-[10px] px-3 text-left text-xs font-bold truncate border transition-all ${depth === 0 ? 'bg-[#020617] text-white border-amber-500' : 'bg-white text-slate-800 border-slate-200'} ${selectedId === node.id ? 'ring-2 ring-amber-500' : ''}`}
+                      >
+                        {truncateLabel(node.label, item.width)}
+                      </button>
+                    )}
+                    {hasChildren && (
+                      <button
+                        onClick={() => toggleCollapsed(node.id)}
+                        title={hiddenCount ? 'Expand branch' : 'Collapse branch'}
+                        className="absolute -right-3 h-6 min-w-6 px-1 rounded-full bg-white border border-slate-300 text-[9px] font-black text-slate-500 hover:border-amber-500 hover:text-amber-600"
+                      >
+                        {hiddenCount ? `+${hiddenCount}` : '−'}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="absolute bottom-4 left-6 text-[9px] font-black text-slate-400 uppercase tracking-widest pointer-events-none">Drag to pan • Scroll to zoom • Double-click to rename</p>
+          </div>
+        ) : (
+          <div className="bg-slate-100 rounded-[3rem] p-10 min-h-[400px] shadow-inner overflow-x-auto">
+            <OutlineNode node={mindMap} selectedId={selectedId} onSelect={setSelectedId} />
+          </div>
+        )}
+
+        <aside className="bg-white rounded-[2.5rem] p-8 shadow-xl border border-slate-100 space-y-5 self-start">
+          {selectedNode ? (
+            <>
+              <div>
+                <h5 className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-2">Selected Concept</h5>
+                <p className="serif text-xl font-bold text-slate-900">{selectedNode.label}</p>
+              </div>
+              <div className="space-y-2">
+                <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Supporting Passage</h5>
+                {passage ? (
+                  <p className="serif text-sm text-slate-700 leading-relaxed bg-amber-50 border-l-4 border-amber-500 rounded-xl p-4">{passage}</p>
+                ) : (
+                  <p className="text-xs text-slate-400 italic">No supporting passage found in the source text.</p>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <button onClick={() => startEditing(selectedNode)} disabled={mode !== 'graph'} className="px-4 py-2 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-200 disabled:opacity-50">Rename</button>
+                <button onClick={() => handleAddChild(selectedNode.id)} className="px-4 py-2 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-200">Add Child</button>
+                {selectedNode.id !== mindMap.id && (
+                  <button onClick={() => handleDelete(selectedNode.id)} className="px-4 py-2 bg-red-50 rounded-xl text-[10px] font-black uppercase tracking-widest text-red-500 hover:bg-red-100">Delete</button>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-center py-10 text-[10px] font-black text-slate-300 uppercase tracking-[0.3em]">Select a concept to see its source</p>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default MindMapGraph;
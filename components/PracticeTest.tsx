@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { Flashcard, Quiz, QuizAttemptSummary, QuizQuestion } from '../types';
+import {
+  gradeQuiz,
+  overrideResult,
+  scoreByTopic,
+  wrongAnswerFlashcards,
+  timeLimitMinutes,
+  totalMarks,
+  QuizAnswer,
+  QuestionResult
+} from '../services/quizService';
+
+interface PracticeTestProps {
+  quiz?: Quiz;
+  attempts: QuizAttemptSummary[];
+  existingCards: Flashcard[];
+  isGenerating: boolean;
+  // Why the last attempt to set a paper failed
+  error?: string | null;
+  onGenerate: () => void;
+  onFinish: (summary: QuizAttemptSummary, wrongCards: Flashcard[]) => void;
+}
+
+const TYPE_LABELS: Record<QuizQuestion['type'], string> = {
+  mcq: 'Multiple Choice',
+  'identify-section': 'Identify the Section',
+  'short-answer': 'Short Answer'
+};
+
+const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const PracticeTest: React.FC<PracticeTestProps> = ({ quiz, attempts, existingCards, isGenerating, error, onGenerate, onFinish }) => {
+  const [phase, setPhase] = useState<'ready' | 'taking' | 'results'>('ready');
+  const [timed, setTimed] = useState(true);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [remaining, setRemaining] = useState(0);
+  const [addedCards, setAddedCards] = useState(0);
+
+  // A new paper resets the workspace
+  useEffect(() => {
+    setPhase('ready');
+    setAnswers({});
+    setResults([]);
+  }, [quiz?.id]);
+
+  const handleStart = () => {
+    if (!quiz) return;
+    setAnswers({});
+    setResults([]);
+    setDeadline(timed ? Date.now() + timeLimitMinutes(quiz) * 60 * 1000 : null);
+    setPhase('taking');
+  };
+
+  const handleSubmit = () => {
+    if (!quiz) return;
+    const graded = gradeQuiz(quiz, answers);
+    const wrongCards = wrongAnswerFlashcards(quiz, graded, existingCards);
+    setResults(graded);
+    setAddedCards(wrongCards.length);
+    setDeadline(null);
+    setPhase('results');
+    onFinish({ finishedAt: Date.now(), score: graded.reduce((sum, result) => sum + result.score, 0), total: totalMarks(quiz), timed }, wrongCards);
+  };
+
+  useEffect(() => {
+    if (phase !== 'taking' || !deadline) return;
+    const tick = () => setRemaining(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => window.clearInterval(timer);
+  }, [phase, deadline]);
+
+  // Submit whatever has been answered when time runs out
+  useEffect(() => {
+    if (phase === 'taking' && deadline && Date.now() >= deadline) handleSubmit();
+  }, [remaining]);
+
+  if (!quiz) {
+    return (
+      <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 text-center space-y-6">
+        <i className="fa-solid fa-file-pen text-5xl text-amber-500"></i>
+        <p className="serif text-2xl font-bold text-slate-900">Practice Test</p>
+        <p className="text-sm text-slate-500 max-w-md mx-auto">Multiple-choice, identify-the-section and short-answer questions in the style of the judicial service examinations, set from this text.</p>
+        <button onClick={onGenerate} disabled={isGenerating} className="bg-[#020617] text-white px-10 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl disabled:opacity-50">
+          {isGenerating ? <><i className="fa-solid fa-spinner fa-spin mr-2"></i> Setting Paper...</> : 'Generate Test'}
+        </button>
+        {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+      </div>
+    );
+  }
+
+  const total = totalMarks(quiz);
+  const score = results.reduce((sum, result) => sum + result.score, 0);
+
+  if (phase === 'ready') {
+    return (
+      <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div>
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-amber-600 mb-2">Practice Test</h4>
+            <p className="serif text-2xl font-bold text-slate-900">{quiz.questions.length} questions • {total} marks</p>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">
+              {(['mcq', 'identify-section', 'short-answer'] as const).map(type => `${quiz.questions.filter(q => q.type === type).length} ${TYPE_LABELS[type]}`).join(' • ')}
+            </p>
+          </div>
+          <div className="flex flex-col gap-3 md:items-end">
+            <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={timed} onChange={(e) => setTimed(e.target.checked)} className="accent-amber-500" />
+              Timed • {timeLimitMinutes(quiz)} min
+            </label>
+            <div className="flex gap-3">
+              <button onClick={onGenerate} disabled={isGenerating} className="px-6 py-4 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-200 disabled:opacity-50">New Paper</button>
+              <button onClick={handleStart} className="bg-amber-500 text-white px-10 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-amber-500/20">Start</button>
+            </div>
+            {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+          </div>
+        </div>
+        {attempts.length > 0 && (
+          <div className="border-t border-slate-100 pt-6 space-y-2">
+            <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Previous Attempts</h5>
+            {attempts.slice(-5).reverse().map(attempt => (
+              <p key={attempt.finishedAt} className="text-xs text-slate-600">
+                <span className="font-bold text-slate-900">{attempt.score}/{attempt.total}</span> • {new Date(attempt.finishedAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}{attempt.timed ? ' • timed' : ''}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {phase === 'taking' && deadline && (
+        <div className={`sticky top-24 z-20 flex items-center justify-between px-6 py-4 rounded-2xl shadow-lg text-[11px] font-black uppercase tracking-widest ${remaining < 60 ? 'bg-red-600 text-white' : 'bg-[#020617] text-white'}`}>
+          <span><i className="fa-solid fa-stopwatch mr-2"></i> Time Remaining</span>
+          <span className="text-lg tabular-nums">{formatClock(remaining)}</span>
+        </div>
+      )}
+
+      {phase === 'results' && (
+        <div className="bg-[#020617] rounded-[2.5rem] p-10 text-white shadow-2xl space-y-6">
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div>
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-amber-500 mb-2">Score</h4>
+              <p className="serif text-5xl font-bold">{score}<span className="text-slate-500 text-2xl"> / {total}</span></p>
+            </div>
+            <div className="flex gap-3">
+              {addedCards > 0 && <span className="px-4 py-3 rounded-xl bg-slate-900 border border-slate-800 text-[10px] font-black uppercase tracking-widest text-amber-400"><i className="fa-solid fa-layer-group mr-2"></i> {addedCards} added to flashcards</span>}
+              <button onClick={() => setPhase('ready')} className="px-6 py-3 rounded-xl bg-amber-500 text-[10px] font-black uppercase tracking-widest">Done</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {scoreByTopic(quiz, results).map(topic => (
+              <div key={topic.topic} className="bg-slate-900 border border-slate-800 rounded-2xl p-4">
+                <div className="flex justify-between text-[10px] font-black uppercase tracking-widest mb-3">
+                  <span className="text-slate-300">{topic.topic}</span>
+                  <span className="text-amber-400">{topic.score}/{topic.possible}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                  <div className="h-full bg-amber-500" style={{ width: `${Math.round(100 * topic.score / topic.possible)}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {quiz.questions.map((question, i) => {
+        const result = phase === 'results' ? results[i] : null;
+        const answer = answers[question.id];
+        return (
+          <div key={question.id} className={`bg-white rounded-[2rem] p-8 shadow-sm border space-y-5 ${result ? (result.correct ? 'border-emerald-200' : 'border-red-200') : 'border-slate-100'}`}>
+            <div className="flex justify-between items-start gap-4">
+              <span className="text-[10px] font-black uppercase tracking-widest text-amber-600">Q{i + 1} • {TYPE_LABELS[question.type]} • {question.topic}</span>
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 shrink-0">{result ? `${result.score}/` : ''}{question.marks} mark{question.marks === 1 ? '' : 's'}</span>
+            </div>
+            <p className="serif text-lg font-bold text-slate-900 leading-snug">{question.prompt}</p>
+
+            {question.type === 'mcq' && (
+              <div className="space-y-3">
+                {question.options!.map((option, optionIndex) => {
+                  const chosen = answer === optionIndex;
+                  const isAnswer = optionIndex === question.answerIndex;
+                  const tone = result
+                    ? isAnswer ? 'border-emerald-500 bg-emerald-50' : chosen ? 'border-red-400 bg-red-50' : 'border-slate-100'
+                    : chosen ? 'border-amber-500 bg-amber-50' : 'border-slate-200 hover:border-slate-400';
+                  return (
+                    <button
+                      key={optionIndex}
+                      disabled={Boolean(result)}
+                      onClick={() => setAnswers(prev => ({ ...prev, [question.id]: optionIndex }))}
+                      className={`w-full text-left rounded-2xl border-2 px-5 py-4 transition-all ${tone}`}
+                    >
+                      <span className="text-sm font-bold text-slate-800">{String.fromCharCode(65 + optionIndex)}. {option.text}</span>
+                      {result && <span className="block mt-2 text-xs text-slate-500">{option.explanation}</span>}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {question.type === 'identify-section' && (
+              <input
+                type="text"
+                placeholder="e.g. Section 103 BNS"
+                value={(answer as string) || ''}
+                disabled={Boolean(result)}
+                onChange={(e) => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-5 py-3 text-sm outline-none focus:border-amber-500"
+              />
+            )}
+
+            {question.type === 'short-answer' && (
+              <textarea
+                placeholder="Write your answer..."
+                value={(answer as string) || ''}
+                disabled={Boolean(result)}
+                onChange={(e) => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 text-sm h-40 outline-none focus:border-amber-500 resize-none"
+              />
+            )}
+
+            {result && question.type !== 'mcq' && (
+              <div className="bg-slate-50 rounded-2xl p-5 space-y-3">
+                {question.acceptedAnswers && <p className="text-xs font-bold text-slate-800">Answer: {question.acceptedAnswers.join(' / ')}</p>}
+                {question.modelAnswer && <p className="text-xs text-slate-600 leading-relaxed">{question.modelAnswer}</p>}
+                {question.keyPoints && (
+                  <ul className="space-y-1">
+                    {question.keyPoints.map(point => (
+                      <li key={point} className={`text-xs ${result.coveredPoints?.includes(point) ? 'text-emerald-700' : 'text-slate-400'}`}>
+                        <i className={`fa-solid ${result.coveredPoints?.includes(point) ? 'fa-check' : 'fa-minus'} mr-2`}></i>{point}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {question.type === 'short-answer' && (
+                  <button
+                    onClick={() => setResults(prev => prev.map((r, j) => j === i ? overrideResult(question, r, !r.correct) : r))}
+                    className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:underline"
+                  >
+                    Mark as {result.correct ? 'wrong' : 'correct'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {phase === 'taking' && (
+        <button onClick={handleSubmit} className="w-full bg-[#020617] text-white py-5 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl">
+          Submit Answers ({Object.keys(answers).length}/{quiz.questions.length} answered)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PracticeTest;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ReviewState, StudySession } from '../types';
+import { buildDueQueue, computeDeckStats, reviewsToday } from '../services/reviewService';
+
+interface ReviewDashboardProps {
+  sessions: StudySession[];
+  reviewState: ReviewState;
+  onStart: (deckIds?: string[]) => void;
+}
+
+const ReviewDashboard: React.FC<ReviewDashboardProps> = ({ sessions, reviewState, onStart }) => {
+  const decks = computeDeckStats(sessions, reviewState).filter(deck => deck.total > 0);
+  const dueNow = buildDueQueue(sessions, reviewState).length;
+  const today = reviewsToday(reviewState);
+
+  if (!decks.length) return null;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-8 shadow-xl border border-slate-100 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Spaced Repetition</h4>
+          <p className="serif text-2xl font-bold text-slate-900 mt-1">{dueNow} card{dueNow === 1 ? '' : 's'} due</p>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{today} reviewed today</p>
+        </div>
+        <button
+          onClick={() => onStart()}
+          disabled={!dueNow}
+          className="bg-amber-500 text-white px-8 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-amber-500/20 active:scale-95 transition-all disabled:opacity-50"
+        >
+          <i className="fa-solid fa-layer-group mr-2"></i> Review All Due
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-100">
+              <th className="py-3 pr-4">Deck</th>
+              <th className="py-3 px-2 text-center">New</th>
+              <th className="py-3 px-2 text-center">Learning</th>
+              <th className="py-3 px-2 text-center">Mature</th>
+              <th className="py-3 px-2 text-center">Due</th>
+              <th className="py-3 px-2 text-center">Retention</th>
+              <th className="py-3 pl-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {decks.map(deck => (
+              <tr key={deck.deckId} className="border-b border-slate-50">
+                <td className="py-3 pr-4 font-bold text-slate-800 max-w-xs truncate">{deck.deckName}</td>
+                <td className="py-3 px-2 text-center font-bold text-sky-600">{deck.newCards}</td>
+                <td className="py-3 px-2 text-center font-bold text-amber-600">{deck.learning}</td>
+                <td className="py-3 px-2 text-center font-bold text-emerald-600">{deck.mature}</td>
+                <td className="py-3 px-2 text-center font-bold text-slate-900">{deck.due}</td>
+                <td className="py-3 px-2 text-center text-slate-500">{deck.retention === null ? '—' : `${deck.retention}%`}</td>
+                <td className="py-3 pl-2 text-right">
+                  <button onClick={() => onStart([deck.deckId])} className="px-4 py-2 bg-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-900 hover:text-white transition-all">Review</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewDashboard;
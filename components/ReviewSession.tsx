@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { ReviewGrade, ReviewState } from '../types';
+import { ReviewCard, describeNextInterval } from '../services/reviewService';
+
+interface ReviewSessionProps {
+  queue: ReviewCard[];
+  reviewState: ReviewState;
+  onGrade: (item: ReviewCard, grade: ReviewGrade) => void;
+  onClose: () => void;
+}
+
+const GRADES: { grade: ReviewGrade, label: string, className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-50 text-red-600 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-50 text-amber-700 hover:bg-amber-100' },
+  { grade: 'good', label: 'Good', className: 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100' },
+  { grade: 'easy', label: 'Easy', className: 'bg-sky-50 text-sky-700 hover:bg-sky-100' }
+];
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ queue: initialQueue, reviewState, onGrade, onClose }) => {
+  // "Again" cards go to the back of this sitting's queue
+  const [queue, setQueue] = useState(initialQueue);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const current = queue[0];
+  const schedule = current ? reviewState.schedules[current.cardId] || null : null;
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    onGrade(current, grade);
+    setQueue(prev => grade === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1));
+    setReviewed(count => count + 1);
+    setRevealed(false);
+  };
+
+  // Space reveals the answer; 1-4 grade it
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') return onClose();
+      if (!current) return;
+      if (!revealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setRevealed(true);
+      } else if (revealed && ['1', '2', '3', '4'].includes(e.key)) {
+        handleGrade(GRADES[Number(e.key) - 1].grade);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-[110] flex items-center justify-center p-5 animate-fade-in">
+      <div className="bg-white rounded-[2.5rem] p-8 md:p-12 w-full max-w-2xl shadow-2xl space-y-8">
+        <div className="flex items-center justify-between">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-amber-600">
+            {current ? `${current.deckName} • ${queue.length} left` : 'Review Complete'}
+          </h4>
+          <button onClick={onClose} className="h-10 w-10 rounded-full hover:bg-slate-100 text-slate-500"><i className="fa-solid fa-xmark"></i></button>
+        </div>
+
+        {current ? (
+          <>
+            <div className="min-h-[12rem] flex flex-col items-center justify-center text-center space-y-6">
+              <p className="serif text-2xl font-bold text-slate-900 leading-snug">{current.card.question}</p>
+              {revealed && (
+                <p className="text-sm text-slate-600 leading-relaxed border-t border-slate-100 pt-6 w-full">{current.card.answer}</p>
+              )}
+            </div>
+            {revealed ? (
+              <div className="grid grid-cols-4 gap-3">
+                {GRADES.map(({ grade, label, className }, i) => (
+                  <button key={grade} onClick={() => handleGrade(grade)} className={`py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${className}`}>
+                    {label}
+                    <span className="block mt-1 text-[9px] opacity-60">{i + 1} • {describeNextInterval(schedule, grade, Date.now())}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button onClick={() => setRevealed(true)} className="w-full bg-[#020617] text-white py-5 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl">
+                Show Answer <span className="opacity-50 ml-2">Space</span>
+              </button>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-10 space-y-6">
+            <i className="fa-solid fa-circle-check text-5xl text-emerald-500"></i>
+            <p className="serif text-2xl font-bold text-slate-900">{reviewed} review{reviewed === 1 ? '' : 's'} done</p>
+            <p className="text-xs text-slate-500">Nothing else is due in this queue. Come back tomorrow for the next cards.</p>
+            <button onClick={onClose} className="bg-amber-500 text-white px-10 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-lg">Done</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
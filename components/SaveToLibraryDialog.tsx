@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Library, LibraryItemKind, LibraryResource, Matter } from '../types';
+import { createFolder, saveToFolder, describeResource, parseTags, DEFAULT_FOLDER_NAME } from '../services/libraryService';
+
+interface SaveToLibraryDialogProps {
+  library: Library;
+  kind: LibraryItemKind;
+  resource: LibraryResource;
+  onSave: (library: Library) => void;
+  // Open matters the card can also be filed against
+  matters: Matter[];
+  onFileToMatter: (matterId: string) => void;
+  onClose: () => void;
+}
+
+const NEW_FOLDER = '__new__';
+
+const SaveToLibraryDialog: React.FC<SaveToLibraryDialogProps> = ({ library, kind, resource, onSave, matters, onFileToMatter, onClose }) => {
+  const [folderId, setFolderId] = useState(library.folders[0]?.id ?? NEW_FOLDER);
+  const [newFolderName, setNewFolderName] = useState(library.folders.length ? "" : DEFAULT_FOLDER_NAME);
+  const [notes, setNotes] = useState("");
+  const [tags, setTags] = useState("");
+  const [matterId, setMatterId] = useState("");
+  const { title } = describeResource(kind, resource);
+
+  const handleSave = () => {
+    let updated = library;
+    let targetId = folderId;
+    if (folderId === NEW_FOLDER) {
+      const created = createFolder(library, newFolderName);
+      updated = created.library;
+      targetId = created.folder.id;
+    }
+    onSave(saveToFolder(updated, targetId, kind, resource, { notes, tags: parseTags(tags) }));
+    if (matterId) onFileToMatter(matterId);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[110] flex items-center justify-center p-5 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] p-8 w-full max-w-md shadow-2xl space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-amber-600 mb-2">Save to My Library</h4>
+          <p className="serif text-xl font-bold text-slate-900 line-clamp-2">{title}</p>
+        </div>
+        <select
+          value={folderId}
+          onChange={(e) => setFolderId(e.target.value)}
+          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-bold outline-none focus:border-amber-500"
+        >
+          {library.folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+          <option value={NEW_FOLDER}>+ New folder...</option>
+        </select>
+        {folderId === NEW_FOLDER && (
+          <input
+            type="text"
+            placeholder="Folder name, e.g. client matter"
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs outline-none focus:border-amber-500"
+          />
+        )}
+        <textarea
+          placeholder="Notes (optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs h-20 outline-none focus:border-amber-500 resize-none"
+        />
+        <input
+          type="text"
+          placeholder="Tags, comma separated (optional)"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs outline-none focus:border-amber-500"
+        />
+        {matters.length > 0 && (
+          <select
+            value={matterId}
+            onChange={(e) => setMatterId(e.target.value)}
+            className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-bold outline-none focus:border-amber-500"
+          >
+            <option value="">Not filed under a matter</option>
+            {matters.map(matter => <option key={matter.id} value={matter.id}>Matter: {matter.title}</option>)}
+          </select>
+        )}
+        <div className="flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-500 hover:bg-slate-200">Cancel</button>
+          <button onClick={handleSave} className="flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-white shadow-lg shadow-amber-500/20">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveToLibraryDialog;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { StudySession } from '../types';
+
+interface SessionComparisonProps {
+  left: StudySession;
+  right: StudySession;
+  onClose: () => void;
+}
+
+const normalise = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Items present in this list but not in the other are marked so differences stand out
+const ComparedList: React.FC<{ items: string[], other: string[], ordered?: boolean }> = ({ items, other, ordered }) => {
+  const otherSet = new Set(other.map(normalise));
+  return (
+    <ul className="space-y-2">
+      {items.map((item, i) => {
+        const unique = !otherSet.has(normalise(item));
+        return (
+          <li key={i} className={`text-sm p-3 rounded-xl border-l-4 ${unique ? 'bg-amber-50 border-amber-500 text-slate-800' : 'bg-slate-50 border-slate-200 text-slate-500'}`}>
+            {ordered && <span className="font-black mr-2">{i + 1}.</span>}{item}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+const SessionColumn: React.FC<{ session: StudySession, other: StudySession }> = ({ session, other }) => (
+  <div className="space-y-6 min-w-0">
+    <div>
+      <p className="font-bold text-slate-900">{session.name}</p>
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{session.subject} • {new Date(session.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}</p>
+    </div>
+    <div className="space-y-3">
+      <h5 className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Key Provisions</h5>
+      <ComparedList items={session.materials.briefing.provisions} other={other.materials.briefing.provisions} />
+    </div>
+    <div className="space-y-3">
+      <h5 className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">Arguments</h5>
+      <ComparedList items={session.materials.briefing.arguments} other={other.materials.briefing.arguments} ordered />
+    </div>
+    {session.materials.briefing.sections?.map(section => (
+      <div key={section.title} className="space-y-3">
+        <h5 className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{section.title}</h5>
+        <ComparedList items={section.points} other={other.materials.briefing.sections?.find(s => s.title === section.title)?.points || []} />
+      </div>
+    ))}
+    <div className="space-y-3">
+      <h5 className="text-[10px] font-black text-slate-900 uppercase tracking-widest">Conclusion</h5>
+      <p className="text-sm text-slate-500 italic">"{session.materials.briefing.conclusion}"</p>
+    </div>
+    <div className="space-y-3">
+      <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Flashcards ({session.materials.flashcards.length})</h5>
+      <ComparedList items={session.materials.flashcards.map(card => card.question)} other={other.materials.flashcards.map(card => card.question)} />
+    </div>
+  </div>
+);
+
+const SessionComparison: React.FC<SessionComparisonProps> = ({ left, right, onClose }) => (
+  <div className="bg-white rounded-[2.5rem] p-8 md:p-10 shadow-xl border border-slate-100 space-y-8 animate-slide-up">
+    <div className="flex items-center justify-between">
+      <h4 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-3"><i className="fa-solid fa-code-compare text-amber-500"></i> Side-by-Side Comparison</h4>
+      <button onClick={onClose} className="h-10 w-10 rounded-full hover:bg-slate-100 text-slate-500"><i className="fa-solid fa-xmark"></i></button>
+    </div>
+    <p className="text-[11px] text-slate-400">Highlighted entries appear in only one of the two analyses.</p>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 md:divide-x md:divide-slate-100">
+      <SessionColumn session={left} other={right} />
+      <div className="md:pl-8"><SessionColumn session={right} other={left} /></div>
+    </div>
+  </div>
+);
+
+export default SessionComparison;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { SourceNote, SourceNoteStatus } from '../types';
+
+interface SourceNoteBadgeProps {
+  note?: SourceNote;
+}
+
+const STYLES: Record<SourceNoteStatus, { label: string, icon: string, className: string }> = {
+  preferred: { label: 'Preferred source', icon: 'fa-star', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'down-ranked': { label: 'Down-ranked', icon: 'fa-arrow-down-wide-short', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  filtered: { label: 'Filtered', icon: 'fa-ban', className: 'bg-red-50 text-red-700 border-red-200' }
+};
+
+// Why the source policy moved or kept back a feed item; hover for the full reason
+const SourceNoteBadge: React.FC<SourceNoteBadgeProps> = ({ note }) => {
+  if (!note) return null;
+  const style = STYLES[note.status];
+  return (
+    <span title={note.reason} className={`inline-flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${style.className}`}>
+      <i className={`fa-solid ${style.icon}`}></i> {style.label}
+      {note.status !== 'preferred' && <span className="normal-case tracking-normal font-bold opacity-80">• {note.reason}</span>}
+    </span>
+  );
+};
+
+export default SourceNoteBadge;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { SourcePolicy, SourceTab } from '../types';
+import { DEFAULT_SOURCE_POLICY, SOURCE_TABS, parseDomainList } from '../services/sourcePolicy';
+
+interface SourcePolicySettingsProps {
+  policy: SourcePolicy;
+  onChange: (policy: SourcePolicy) => void;
+}
+
+interface DomainListFieldProps {
+  label: string;
+  hint: string;
+  domains: string[];
+  onCommit: (domains: string[]) => void;
+}
+
+// Free-text list of domains, parsed and normalised when the field loses focus
+const DomainListField: React.FC<DomainListFieldProps> = ({ label, hint, domains, onCommit }) => {
+  const saved = domains.join('\n');
+  const [draft, setDraft] = useState(saved);
+
+  useEffect(() => setDraft(saved), [saved]);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500">{label}</h4>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onCommit(parseDomainList(draft))}
+        placeholder="one domain per line, e.g. scconline.com"
+        className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 text-sm font-mono h-32 outline-none focus:border-amber-500 resize-none"
+      />
+      <p className="text-[11px] text-slate-400">{hint}</p>
+    </div>
+  );
+};
+
+const SourcePolicySettings: React.FC<SourcePolicySettingsProps> = ({ policy, onChange }) => {
+  const [tab, setTab] = useState<SourceTab>(SOURCE_TABS[0].id);
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="bg-[#020617] rounded-[3rem] p-10 text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-10 opacity-10"><i className="fa-solid fa-filter text-[10rem]"></i></div>
+        <div className="relative z-10">
+          <h3 className="serif text-4xl font-bold mb-4">Source Policy</h3>
+          <p className="text-slate-400 text-sm mb-8 max-w-xl">
+            Choose which portals the feeds may draw on. Allow a paywalled source you subscribe to, block one you do not trust and
+            pick the sources each tab should show first. Cards explain every item the policy moved or held back.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => onChange({ ...policy, showFiltered: !policy.showFiltered })}
+              className={`rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest transition-colors ${policy.showFiltered ? 'bg-amber-500 text-white' : 'bg-slate-900 border border-slate-800 hover:bg-slate-800'}`}
+            >
+              <i className={`fa-solid ${policy.showFiltered ? 'fa-eye' : 'fa-eye-slash'} mr-2`}></i>
+              {policy.showFiltered ? 'Showing filtered items' : 'Hiding filtered items'}
+            </button>
+            <button
+              onClick={() => onChange(DEFAULT_SOURCE_POLICY)}
+              className="bg-slate-900 border border-slate-800 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-colors"
+            >
+              <i className="fa-solid fa-rotate-left mr-2"></i> Restore Defaults
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm grid grid-cols-1 md:grid-cols-2 gap-8">
+        <DomainListField
+          label="Allow-list"
+          hint="Always kept, even if blocked below or the summary looks like an error page."
+          domains={policy.allowed}
+          onCommit={(allowed) => onChange({ ...policy, allowed })}
+        />
+        <DomainListField
+          label="Blocklist"
+          hint="Items from these domains are filtered; a blocked secondary link only down-ranks the item."
+          domains={policy.blocked}
+          onCommit={(blocked) => onChange({ ...policy, blocked })}
+        />
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] p-8 border border-white shadow-sm space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {SOURCE_TABS.map(item => (
+            <button
+              key={item.id}
+              onClick={() => setTab(item.id)}
+              className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${tab === item.id ? 'bg-[#020617] text-amber-500' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              {item.label} {policy.preferred[item.id]?.length ? `(${policy.preferred[item.id]!.length})` : ''}
+            </button>
+          ))}
+        </div>
+        <DomainListField
+          key={tab}
+          label={`Preferred sources: ${SOURCE_TABS.find(item => item.id === tab)!.label}`}
+          hint="Items from these domains are listed first on this tab and marked as preferred."
+          domains={policy.preferred[tab] || []}
+          onCommit={(domains) => onChange({ ...policy, preferred: { ...policy.preferred, [tab]: domains } })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SourcePolicySettings;
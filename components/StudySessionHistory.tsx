@@ -0,0 +1,62 @@
+import React from 'react';
+import { StudySession } from '../types';
+
+interface StudySessionHistoryProps {
+  sessions: StudySession[];
+  activeSessionId: string | null;
+  compareIds: string[];
+  onOpen: (session: StudySession) => void;
+  onRename: (sessionId: string, name: string) => void;
+  onDuplicate: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  onToggleCompare: (sessionId: string) => void;
+}
+
+const StudySessionHistory: React.FC<StudySessionHistoryProps> = ({ sessions, activeSessionId, compareIds, onOpen, onRename, onDuplicate, onDelete, onToggleCompare }) => {
+  if (!sessions.length) return null;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-8 shadow-xl border border-slate-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-3"><i className="fa-solid fa-clock-rotate-left text-amber-500"></i> Analysis History</h4>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{compareIds.length ? `${compareIds.length}/2 selected to compare` : `${sessions.length} saved`}</span>
+      </div>
+      <div className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+        {sessions.map(session => (
+          <div key={session.id} className={`flex flex-col md:flex-row md:items-center gap-3 py-4 px-3 rounded-xl ${activeSessionId === session.id ? 'bg-amber-50' : ''}`}>
+            <label className="flex items-center gap-3 flex-1 min-w-0 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={compareIds.includes(session.id)}
+                onChange={() => onToggleCompare(session.id)}
+                className="accent-amber-500 h-4 w-4 shrink-0"
+              />
+              <div className="min-w-0">
+                <p className="font-bold text-slate-800 text-sm truncate">{session.name}</p>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {session.subject} • {new Date(session.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+              </div>
+            </label>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => onOpen(session)} className="px-4 py-2 bg-[#020617] text-white rounded-xl text-[10px] font-black uppercase tracking-widest">Open</button>
+              <button
+                onClick={() => { const name = window.prompt('Rename analysis', session.name); if (name) onRename(session.id, name); }}
+                title="Rename"
+                className="h-9 w-9 bg-slate-50 text-slate-500 rounded-xl hover:bg-slate-200"
+              ><i className="fa-solid fa-pen"></i></button>
+              <button onClick={() => onDuplicate(session.id)} title="Duplicate" className="h-9 w-9 bg-slate-50 text-slate-500 rounded-xl hover:bg-slate-200"><i className="fa-solid fa-copy"></i></button>
+              <button
+                onClick={() => { if (window.confirm(`Delete "${session.name}"?`)) onDelete(session.id); }}
+                title="Delete"
+                className="h-9 w-9 bg-slate-50 text-slate-400 rounded-xl hover:bg-red-50 hover:text-red-600"
+              ><i className="fa-solid fa-trash-can"></i></button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StudySessionHistory;
@@ -0,0 +1,60 @@
+import { CauseListDocument, MhcBench } from "../types";
+import { isMhcBench } from "../services/causeListService";
+
+/**
+ * Optional live source for Madras High Court cause lists. The court publishes them as files
+ * whose address depends on the bench and date; the address is configured with
+ * MHC_CAUSE_LIST_URL rather than hard-coded, since it changes whenever the site is redesigned.
+ * Without it the tracker still works with cause lists downloaded by hand.
+ */
+
+export interface CauseListFetcher {
+  fetch(bench: MhcBench, date: string): Promise<CauseListDocument>;
+}
+
+export class CauseListUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CauseListUnavailableError';
+  }
+}
+
+const REQUEST_TIMEOUT = 20000;
+const MAX_BYTES = 15 * 1024 * 1024;
+
+/**
+ * Fill a URL template such as "https://example.org/clists/{bench}/{dd}-{mm}-{yyyy}.pdf".
+ * {bench} becomes "principal" or "madurai"; {dd}, {mm} and {yyyy} come from the ISO date.
+ */
+export const causeListUrl = (template: string, bench: MhcBench, date: string) => {
+  const [yyyy, mm, dd] = date.split('-');
+  return template.replace(/\{bench\}/g, bench).replace(/\{yyyy\}/g, yyyy).replace(/\{mm\}/g, mm).replace(/\{dd\}/g, dd);
+};
+
+const fileNameFor = (url: string, bench: MhcBench, date: string) =>
+  decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || `${bench}-${date}`;
+
+export const createLiveCauseListFetcher = (template?: string): CauseListFetcher => ({
+  fetch: async (bench, date) => {
+    if (!template) throw new CauseListUnavailableError('Live cause lists are not configured. Set MHC_CAUSE_LIST_URL, or load a downloaded list instead.');
+    // The bench goes into the URL, so only the known benches are accepted
+    if (!isMhcBench(bench)) throw new CauseListUnavailableError(`Not a Madras High Court bench: ${String(bench)}`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new CauseListUnavailableError(`Not a date: ${date}`);
+    const url = causeListUrl(template, bench, date);
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+    } catch {
+      throw new CauseListUnavailableError('The cause list site could not be reached.');
+    }
+    if (response.status === 404) throw new CauseListUnavailableError(`No cause list has been published for ${date} yet.`);
+    if (!response.ok) throw new CauseListUnavailableError(`The cause list site answered ${response.status}.`);
+    const bytes = Buffer.from(await response.arrayBuffer());
+    if (bytes.length > MAX_BYTES) throw new CauseListUnavailableError('The cause list is too large to read here; download it and load the file.');
+    return {
+      fileName: fileNameFor(response.url || url, bench, date),
+      contentType: response.headers.get('content-type') || '',
+      data: bytes.toString('base64')
+    };
+  }
+});
@@ -0,0 +1,118 @@
+import { LegalNews, ScholarlyArticle, AcademyMaterial, LandmarkJudgment, BareAct, ExtractedContent, StudyMaterials, AnalysisProfile, QuizQuestion, StructuredAct, SearchResults, SourcePolicy } from "../types";
+import { applyArticleFilters, applyBareActQuery } from "../services/legalText";
+import { alignBriefingSections } from "../services/analysisProfiles";
+import { normaliseQuizQuestions } from "../services/quizService";
+import { mergeParallelCitations } from "../services/citationService";
+import { actSlug, parseActText } from "../services/bareActService";
+import { cleanLegalData } from "../services/sourcePolicy";
+import { LegalDataProvider } from "../services/legalDataProvider";
+import { readdirSync, readFileSync } from "fs";
+import { createMockRequester, HttpRequester, MockRoute } from "./linkVerifier";
+import { CauseListFetcher, CauseListUnavailableError } from "./causeListFetcher";
+import newsFixture from "../fixtures/news.json";
+import articlesFixture from "../fixtures/articles.json";
+import academyFixture from "../fixtures/academy.json";
+import tamilNaduFixture from "../fixtures/tamil-nadu.json";
+import supremeCourtFixture from "../fixtures/supreme-court.json";
+import judgmentsFixture from "../fixtures/judgments.json";
+import bareActsFixture from "../fixtures/bare-acts.json";
+import extractFixture from "../fixtures/extract.json";
+import actTextFixture from "../fixtures/act-text.json";
+import studyMaterialsFixture from "../fixtures/study-materials.json";
+import quizFixture from "../fixtures/quiz.json";
+import suggestionsFixture from "../fixtures/suggestions.json";
+import linkChecksFixture from "../fixtures/link-checks.json";
+
+/**
+ * Deterministic LegalDataProvider backed by the recorded JSON fixtures.
+ * The same input always yields the same output, so the whole UI can be developed,
+ * demoed and tested without network access or a Gemini key (`npm run dev:mock`).
+ */
+
+const PAGE_SIZE = 3;
+
+const paginate = <T,>(items: T[], page: number = 1): T[] => items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+// Keep items mentioning the query; fall back to everything so the screen is never empty in demos
+const matchQuery = <T extends object>(items: T[], query: string = ""): T[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return items;
+  const matches = items.filter(item => JSON.stringify(item).toLowerCase().includes(needle));
+  return matches.length ? matches : items;
+};
+
+// Every word of the query must appear; unlike matchQuery there is no fallback, so searches can come back empty
+const matchWords = <T extends object>(items: T[], query: string): T[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter(item => {
+    const text = JSON.stringify(item).toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
+
+const searchFixtures = (query: string, policy: SourcePolicy): SearchResults => ({
+  news: cleanLegalData(matchWords(newsFixture as LegalNews[], query), 'news', policy),
+  articles: cleanLegalData(matchWords(articlesFixture as ScholarlyArticle[], query), 'articles', policy),
+  academy: cleanLegalData(matchWords(academyFixture as AcademyMaterial[], query), 'academy', policy),
+  supremeCourt: cleanLegalData(matchWords(supremeCourtFixture as ScholarlyArticle[], query), 'supreme-court', policy),
+  tamilNadu: cleanLegalData(matchWords(tamilNaduFixture as ScholarlyArticle[], query), 'tamil-nadu', policy),
+  judgments: mergeParallelCitations(cleanLegalData(matchWords(judgmentsFixture as LandmarkJudgment[], query), 'judgments', policy)),
+  acts: cleanLegalData(matchWords(bareActsFixture as BareAct[], query), 'bare-acts', policy)
+});
+
+// Shape the recorded materials to the requested profile: its flashcard count and briefing sections
+const studyMaterialsFor = (profile: AnalysisProfile): StudyMaterials => {
+  const { sectionPoints, ...materials } = studyMaterialsFixture as StudyMaterials & { sectionPoints: Record<string, string[]> };
+  return {
+    ...materials,
+    flashcards: materials.flashcards.slice(0, profile.flashcardCount),
+    briefing: {
+      ...materials.briefing,
+      sections: alignBriefingSections(profile, profile.sections.map(({ id, title }) => ({ title, points: sectionPoints[id] || [] })))
+    }
+  };
+};
+
+// Recorded Act texts are keyed by slug; any other Act is served the BNS excerpt under its own name
+const actTextFor = (name: string, url: string = ""): StructuredAct => {
+  const texts = actTextFixture as Record<string, string>;
+  return parseActText(name, url, texts[actSlug(name)] || texts.bns);
+};
+
+export const createFixtureProvider = (): LegalDataProvider => ({
+  fetchLegalNews: async (page, policy) => paginate(cleanLegalData(newsFixture as LegalNews[], 'news', policy), page),
+  fetchLegalArticles: async (query, page, filters, policy) =>
+    paginate(applyArticleFilters(cleanLegalData(matchQuery(articlesFixture as ScholarlyArticle[], query), 'articles', policy), filters || {}), page),
+  fetchAcademyMaterials: async (query, page, policy) => paginate(cleanLegalData(matchQuery(academyFixture as AcademyMaterial[], query), 'academy', policy), page),
+  fetchTamilNaduLegalData: async (page, policy) => paginate(cleanLegalData(tamilNaduFixture as ScholarlyArticle[], 'tamil-nadu', policy), page),
+  fetchSupremeCourtData: async (page, policy) => paginate(cleanLegalData(supremeCourtFixture as ScholarlyArticle[], 'supreme-court', policy), page),
+  fetchLandmarkJudgments: async (actName, page, policy) =>
+    paginate(mergeParallelCitations(cleanLegalData(matchQuery(judgmentsFixture as LandmarkJudgment[], actName), 'judgments', policy)), page),
+  fetchBareActs: async (query, page, filters, policy) =>
+    paginate(applyBareActQuery(cleanLegalData(bareActsFixture as BareAct[], 'bare-acts', policy), query, filters || {}), page),
+  extractResourceContent: async () => extractFixture as ExtractedContent,
+  fetchActText: async (name, url) => actTextFor(name, url),
+  generateStudyMaterials: async (_content, profile) => studyMaterialsFor(profile),
+  generateQuiz: async () => normaliseQuizQuestions(quizFixture as Partial<QuizQuestion>[]),
+  fetchSearchSuggestions: async (input) => (suggestionsFixture as string[]).filter(s => s.toLowerCase().includes((input || "").toLowerCase())),
+  searchLegalData: async (query, policy) => searchFixtures(query, policy)
+});
+
+// Scripted HTTP replies for the fixture URLs: live pages, a PDF, a redirect loop, a soft 404 and an outage
+export const createFixtureRequester = (): HttpRequester =>
+  createMockRequester(linkChecksFixture as Record<string, MockRoute>);
+
+const CAUSE_LIST_SAMPLES = new URL('../fixtures/cause-lists/', import.meta.url);
+
+// Sample cause lists in fixtures/cause-lists, one per bench, served for whichever date is asked for
+export const createFixtureCauseListFetcher = (): CauseListFetcher => ({
+  fetch: async (bench) => {
+    const fileName = readdirSync(CAUSE_LIST_SAMPLES).find(name => name.startsWith(`${bench}-`));
+    if (!fileName) throw new CauseListUnavailableError(`No sample cause list for the ${bench} bench in fixtures/cause-lists.`);
+    return {
+      fileName,
+      contentType: fileName.endsWith('.pdf') ? 'application/pdf' : 'text/html',
+      data: readFileSync(new URL(fileName, CAUSE_LIST_SAMPLES)).toString('base64')
+    };
+  }
+});
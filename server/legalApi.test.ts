@@ -0,0 +1,105 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_SOURCE_POLICY } from "../services/sourcePolicy";
+import { createFixtureCauseListFetcher, createFixtureProvider, createFixtureRequester } from "./fixtureProvider";
+import { createLegalApiHandlers, createLegalApiMiddleware, resolveLegalApiConfig } from "./legalApi";
+import { createLinkVerifier } from "./linkVerifier";
+
+// The API as `npm run dev:mock` serves it, on a port of its own
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  const middleware = createLegalApiMiddleware(createLegalApiHandlers(
+    createFixtureProvider(),
+    createLinkVerifier({ request: createFixtureRequester() }),
+    createFixtureCauseListFetcher()
+  ));
+  server = createServer((req, res) => middleware(req, res, () => {
+    res.statusCode = 404;
+    res.end();
+  }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const post = async (route: string, body: unknown) => {
+  const response = await fetch(`${base}/api/${route}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('legal API', () => {
+  it('serves the feeds a page at a time', async () => {
+    const first = await post('news', { page: 1 });
+    const second = await post('news', { page: 2 });
+    expect(first.status).toBe(200);
+    expect(first.body).toHaveLength(3);
+    expect(second.body[0].title).not.toBe(first.body[0].title);
+  });
+
+  it('filters feeds by the source policy sent with the request', async () => {
+    const { body } = await post('news', { page: 1 });
+    expect(body[0].sourceNote).toMatchObject({ status: 'preferred' });
+
+    const blocked = await post('news', { policy: { ...DEFAULT_SOURCE_POLICY, blocked: ['verdictum.in'] } });
+    expect(blocked.body.every((item: { url: string }) => !item.url.includes('verdictum.in'))).toBe(true);
+  });
+
+  it('answers suggestions and extracts from the fixtures', async () => {
+    const { body } = await post('suggestions', { input: 'BAIL' });
+    expect(body.length).toBeGreaterThan(0);
+    expect(body.every((suggestion: string) => suggestion.toLowerCase().includes('bail'))).toBe(true);
+    expect((await post('extract', { title: 'Any', url: 'https://indiankanoon.org/doc/1/' })).body).toHaveProperty('text');
+  });
+
+  it('checks links against the scripted replies', async () => {
+    const { status, body } = await post('verify-links', { urls: ['https://www.indiacode.nic.in/bitstream/123456789/20062/1/a2023-45.pdf', 'https://tnsja.tn.gov.in/'] });
+    expect(status).toBe(200);
+    expect(body.map((check: { status: string }) => check.status)).toEqual(['verified', 'unverified']);
+  });
+
+  it('answers 400 for link lists it will not check', async () => {
+    const tooMany = Array.from({ length: 41 }, (_, i) => `https://indiankanoon.org/doc/${i}/`);
+    expect(await post('verify-links', { urls: tooMany })).toMatchObject({ status: 400, body: { error: 'At most 40 links can be checked per request' } });
+    expect((await post('verify-links', { urls: 'https://indiankanoon.org/' })).status).toBe(400);
+  });
+
+  it('serves sample cause lists for the known benches only', async () => {
+    const { status, body } = await post('cause-list', { bench: 'principal', date: '2026-10-20' });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ contentType: 'text/html' });
+    expect(Buffer.from(body.data, 'base64').toString('utf8')).toContain('DAILY CAUSE LIST');
+
+    expect(await post('cause-list', { bench: '../../etc', date: '2026-10-20' })).toMatchObject({ status: 400, body: { error: 'bench must be "principal" or "madurai"' } });
+  });
+
+  it('answers 400 for requests that do not match the route', async () => {
+    expect(await post('news', { policy: {} })).toMatchObject({ status: 400, body: { error: 'policy.allowed and policy.blocked must be lists of domains' } });
+    expect(await post('news', { policy: { ...DEFAULT_SOURCE_POLICY, preferred: { news: 'livelaw.in' } } })).toMatchObject({ status: 400 });
+    expect(await post('articles', { page: 0 })).toMatchObject({ status: 400, body: { error: 'page must be a positive whole number' } });
+    expect(await post('bare-acts', { page: '2' })).toMatchObject({ status: 400 });
+    expect(await post('extract', { title: 'Any' })).toMatchObject({ status: 400, body: { error: 'url must be a non-empty string' } });
+    expect(await post('bare-acts', { filters: { jurisdiction: 'federal' } })).toMatchObject({ status: 400 });
+    expect(await post('news', [1, 2])).toMatchObject({ status: 400, body: { error: 'Request body must be a JSON object' } });
+  });
+
+  it('rejects unknown routes, other methods and bodies that are not JSON', async () => {
+    expect((await post('nothing-here', {})).status).toBe(404);
+    expect((await fetch(`${base}/api/news`)).status).toBe(405);
+    const broken = await fetch(`${base}/api/news`, { method: 'POST', body: '{' });
+    expect(broken.status).toBe(400);
+    expect((await fetch(`${base}/elsewhere`, { method: 'POST' })).status).toBe(404);
+  });
+});
+
+describe('resolveLegalApiConfig', () => {
+  it('uses the fixtures in mock mode and reads model overrides', () => {
+    expect(resolveLegalApiConfig('mock', {}).provider).toBe('fixtures');
+    expect(resolveLegalApiConfig('development', { LEGAL_API_PROVIDER: 'fixtures' }).provider).toBe('fixtures');
+    const config = resolveLegalApiConfig('development', { GEMINI_API_KEY: 'key', GEMINI_MODEL_STUDY_MATERIALS: 'model-x' });
+    expect(config).toMatchObject({ provider: 'gemini', apiKey: 'key', models: { 'study-materials': 'model-x' } });
+  });
+});
@@ -0,0 +1,242 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Connect, Plugin } from "vite";
+import { ArticleFilters, BareActFilters, MhcBench, SourcePolicy } from "../types";
+import { API_BASE, LegalApiRoute, LegalApiRoutes, MAX_LINKS_PER_CHECK } from "../services/apiContract";
+import { LegalDataProvider, LegalDataProviderName, LegalDataTask } from "../services/legalDataProvider";
+import { createGeminiProvider, DEFAULT_GEMINI_MODELS } from "../services/geminiService";
+import { getAnalysisProfile, DEFAULT_PROFILE_ID } from "../services/analysisProfiles";
+import { DEFAULT_SOURCE_POLICY } from "../services/sourcePolicy";
+import { isMhcBench } from "../services/causeListService";
+import { createFixtureProvider, createFixtureRequester, createFixtureCauseListFetcher } from "./fixtureProvider";
+import { createLinkVerifier, fetchRequester, LinkVerifier } from "./linkVerifier";
+import { CauseListFetcher, createLiveCauseListFetcher } from "./causeListFetcher";
+
+/**
+ * Local API that keeps Gemini calls (and the key) on the server.
+ * Mounted into the Vite dev and preview servers; every route is a JSON POST under /api.
+ */
+
+export type LegalApiHandlers = {
+  [R in LegalApiRoute]: (request: LegalApiRoutes[R]['request']) => Promise<LegalApiRoutes[R]['response']>;
+};
+
+// A request the route cannot serve as sent; answered with 400 rather than blamed on the provider
+export class LegalApiRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LegalApiRequestError';
+  }
+}
+
+const MAX_LINK_LENGTH = 2048;
+
+type RequestBody = Record<string, unknown>;
+
+const reject = (message: string): never => {
+  throw new LegalApiRequestError(message);
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const requiredString = (body: RequestBody, key: string): string => {
+  const value = body[key];
+  return typeof value === 'string' && value ? value : reject(`${key} must be a non-empty string`);
+};
+
+const optionalString = (body: RequestBody, key: string): string | undefined => {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  return typeof value === 'string' ? value : reject(`${key} must be a string`);
+};
+
+const pageOf = (body: RequestBody): number =>
+  body.page === undefined ? 1 : Number.isInteger(body.page) && Number(body.page) > 0 ? Number(body.page) : reject('page must be a positive whole number');
+
+// A policy must arrive whole; a partial one would fail inside the provider instead of here
+const policyOf = (body: RequestBody): SourcePolicy | undefined => {
+  const policy = body.policy;
+  if (policy === undefined) return undefined;
+  if (typeof policy !== 'object' || policy === null) return reject('policy must be an object');
+  const { allowed, blocked, preferred, showFiltered } = policy as RequestBody;
+  if (!isStringList(allowed) || !isStringList(blocked)) return reject('policy.allowed and policy.blocked must be lists of domains');
+  if (typeof preferred !== 'object' || preferred === null || !Object.values(preferred).every(isStringList)) {
+    return reject('policy.preferred must map tabs to lists of domains');
+  }
+  if (typeof showFiltered !== 'boolean') return reject('policy.showFiltered must be true or false');
+  return { allowed, blocked, preferred, showFiltered };
+};
+
+const filtersOf = (body: RequestBody): RequestBody => {
+  if (body.filters === undefined) return {};
+  return typeof body.filters === 'object' && body.filters !== null && !Array.isArray(body.filters) ? body.filters as RequestBody : reject('filters must be an object');
+};
+
+const articleFiltersOf = (body: RequestBody): ArticleFilters => {
+  const filters = filtersOf(body);
+  return { author: optionalString(filters, 'author'), topic: optionalString(filters, 'topic') };
+};
+
+const bareActFiltersOf = (body: RequestBody): BareActFilters => {
+  const { yearFrom, yearTo, jurisdiction } = filtersOf(body);
+  if ([yearFrom, yearTo].some(year => year !== undefined && !Number.isInteger(year))) return reject('filters.yearFrom and filters.yearTo must be years');
+  if (jurisdiction !== undefined && jurisdiction !== 'central' && jurisdiction !== 'state') return reject('filters.jurisdiction must be "central" or "state"');
+  return { yearFrom: yearFrom as number | undefined, yearTo: yearTo as number | undefined, jurisdiction: jurisdiction as BareActFilters['jurisdiction'] };
+};
+
+const linkListOf = (body: RequestBody): string[] => {
+  const urls = body.urls ?? [];
+  if (!isStringList(urls) || urls.some(url => url.length > MAX_LINK_LENGTH)) return reject('urls must be a list of web addresses');
+  if (urls.length > MAX_LINKS_PER_CHECK) return reject(`At most ${MAX_LINKS_PER_CHECK} links can be checked per request`);
+  return urls;
+};
+
+const benchOf = (body: RequestBody): MhcBench => {
+  const bench = body.bench ?? 'principal';
+  return isMhcBench(bench) ? bench : reject('bench must be "principal" or "madurai"');
+};
+
+// Check a JSON body against the route's request shape, filling the defaults the browser client uses
+const REQUEST_PARSERS: { [R in LegalApiRoute]: (body: RequestBody) => LegalApiRoutes[R]['request'] } = {
+  news: body => ({ page: pageOf(body), policy: policyOf(body) }),
+  articles: body => ({ query: optionalString(body, 'query') ?? '', page: pageOf(body), filters: articleFiltersOf(body), policy: policyOf(body) }),
+  academy: body => ({ query: optionalString(body, 'query') ?? '', page: pageOf(body), policy: policyOf(body) }),
+  'tamil-nadu': body => ({ page: pageOf(body), policy: policyOf(body) }),
+  'supreme-court': body => ({ page: pageOf(body), policy: policyOf(body) }),
+  judgments: body => ({ actName: requiredString(body, 'actName'), page: pageOf(body), policy: policyOf(body) }),
+  'bare-acts': body => ({ query: optionalString(body, 'query') ?? '', page: pageOf(body), filters: bareActFiltersOf(body), policy: policyOf(body) }),
+  extract: body => ({ title: requiredString(body, 'title'), url: requiredString(body, 'url') }),
+  'act-text': body => ({ name: requiredString(body, 'name'), url: optionalString(body, 'url') }),
+  'study-materials': body => ({ content: requiredString(body, 'content'), subject: optionalString(body, 'subject') }),
+  quiz: body => ({ content: requiredString(body, 'content'), subject: optionalString(body, 'subject') }),
+  suggestions: body => ({ input: requiredString(body, 'input') }),
+  search: body => ({ query: optionalString(body, 'query') ?? '', policy: policyOf(body) }),
+  'verify-links': body => ({ urls: linkListOf(body) }),
+  'cause-list': body => ({ bench: benchOf(body), date: requiredString(body, 'date') })
+};
+
+const parseRequest = <R extends LegalApiRoute>(route: R, body: unknown): LegalApiRoutes[R]['request'] => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return reject('Request body must be a JSON object');
+  return REQUEST_PARSERS[route](body as RequestBody);
+};
+
+const serve = <R extends LegalApiRoute>(handlers: LegalApiHandlers, route: R, body: unknown) =>
+  handlers[route](parseRequest(route, body));
+
+export interface LegalApiConfig {
+  provider: LegalDataProviderName;
+  apiKey?: string;
+  models?: Partial<Record<LegalDataTask, string>>;
+  // URL template for live Madras High Court cause lists; see server/causeListFetcher.ts
+  causeListUrl?: string;
+}
+
+// Adapt a provider to the route table; requests arrive checked by parseRequest
+export const createLegalApiHandlers = (provider: LegalDataProvider, linkVerifier: LinkVerifier, causeLists: CauseListFetcher): LegalApiHandlers => ({
+  news: ({ page, policy = DEFAULT_SOURCE_POLICY }) => provider.fetchLegalNews(page, policy),
+  articles: ({ query, page, filters = {}, policy = DEFAULT_SOURCE_POLICY }) => provider.fetchLegalArticles(query, page, filters, policy),
+  academy: ({ query, page, policy = DEFAULT_SOURCE_POLICY }) => provider.fetchAcademyMaterials(query, page, policy),
+  'tamil-nadu': ({ page, policy = DEFAULT_SOURCE_POLICY }) => provider.fetchTamilNaduLegalData(page, policy),
+  'supreme-court': ({ page, policy = DEFAULT_SOURCE_POLICY }) => provider.fetchSupremeCourtData(page, policy),
+  judgments: ({ actName, page, policy = DEFAULT_SOURCE_POLICY }) => provider.fetchLandmarkJudgments(actName, page, policy),
+  'bare-acts': ({ query, page, filters, policy = DEFAULT_SOURCE_POLICY }) => provider.fetchBareActs(query, page, filters, policy),
+  extract: ({ title, url }) => provider.extractResourceContent(title, url),
+  'act-text': ({ name, url }) => provider.fetchActText(name, url),
+  'study-materials': ({ content, subject = DEFAULT_PROFILE_ID }) => provider.generateStudyMaterials(content, getAnalysisProfile(subject)),
+  quiz: ({ content, subject = DEFAULT_PROFILE_ID }) => provider.generateQuiz(content, getAnalysisProfile(subject)),
+  suggestions: ({ input }) => provider.fetchSearchSuggestions(input),
+  search: ({ query, policy = DEFAULT_SOURCE_POLICY }) => provider.searchLegalData(query, policy),
+  'verify-links': ({ urls }) => linkVerifier.verify(urls),
+  'cause-list': ({ bench, date }) => causeLists.fetch(bench, date)
+});
+
+// Offline runs check links against the scripted replies in fixtures/link-checks.json
+export const createConfiguredLinkVerifier = (config: LegalApiConfig): LinkVerifier =>
+  createLinkVerifier({ request: config.provider === 'fixtures' ? createFixtureRequester() : fetchRequester });
+
+// Offline runs serve the samples in fixtures/cause-lists; live fetching needs MHC_CAUSE_LIST_URL
+export const createConfiguredCauseListFetcher = (config: LegalApiConfig): CauseListFetcher =>
+  config.provider === 'fixtures' ? createFixtureCauseListFetcher() : createLiveCauseListFetcher(config.causeListUrl);
+
+export const createLegalDataProvider = (config: LegalApiConfig): LegalDataProvider => {
+  if (config.provider === 'fixtures') return createFixtureProvider();
+  if (!config.apiKey) console.warn('[legal-api] GEMINI_API_KEY is not set; use `npm run dev:mock` to run against fixtures.');
+  return createGeminiProvider({ apiKey: config.apiKey, models: config.models });
+};
+
+/**
+ * Read provider settings from the Vite mode and env files.
+ * LEGAL_API_PROVIDER selects "gemini" or "fixtures" (`--mode mock` implies fixtures);
+ * GEMINI_MODEL_<TASK>, e.g. GEMINI_MODEL_STUDY_MATERIALS, overrides the model for one task;
+ * MHC_CAUSE_LIST_URL enables live Madras High Court cause lists.
+ */
+export const resolveLegalApiConfig = (mode: string, env: Record<string, string>): LegalApiConfig => {
+  const requested = env.LEGAL_API_PROVIDER;
+  const provider: LegalDataProviderName = mode === 'mock' || requested === 'mock' || requested === 'fixtures' ? 'fixtures' : 'gemini';
+  const models: Partial<Record<LegalDataTask, string>> = {};
+  (Object.keys(DEFAULT_GEMINI_MODELS) as LegalDataTask[]).forEach(task => {
+    const override = env[`GEMINI_MODEL_${task.replace(/-/g, '_').toUpperCase()}`];
+    if (override) models[task] = override;
+  });
+  return { provider, apiKey: env.GEMINI_API_KEY, models, causeListUrl: env.MHC_CAUSE_LIST_URL || undefined };
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) reject(new Error('Request body too large'));
+  });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch {
+      reject(new Error('Request body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(payload));
+};
+
+export const createLegalApiMiddleware = (handlers: LegalApiHandlers) =>
+  async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (!req.url?.startsWith(`${API_BASE}/`)) return next();
+    const route = req.url.slice(API_BASE.length + 1).split('?')[0] as LegalApiRoute;
+    if (!Object.prototype.hasOwnProperty.call(handlers, route)) return sendJson(res, 404, { error: `Unknown route: ${route}` });
+    if (req.method !== 'POST') return sendJson(res, 405, { error: 'Use POST with a JSON body' });
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error: unknown) {
+      return sendJson(res, 400, { error: error instanceof Error ? error.message : 'Request body could not be read' });
+    }
+
+    try {
+      sendJson(res, 200, await serve(handlers, route, body));
+    } catch (error: unknown) {
+      if (error instanceof LegalApiRequestError) return sendJson(res, 400, { error: error.message });
+      console.error(`[legal-api] ${route} failed:`, error);
+      sendJson(res, 502, { error: error instanceof Error && error.message ? error.message : 'Upstream provider failed' });
+    }
+  };
+
+export const legalApiPlugin = (config: LegalApiConfig): Plugin => {
+  // Built when a server starts rather than when the config loads, so `vite build` never touches the key
+  let middleware: ReturnType<typeof createLegalApiMiddleware> | undefined;
+  const mount = (server: { middlewares: Connect.Server }) => {
+    middleware ??= createLegalApiMiddleware(createLegalApiHandlers(createLegalDataProvider(config), createConfiguredLinkVerifier(config), createConfiguredCauseListFetcher(config)));
+    server.middlewares.use(middleware);
+  };
+  return {
+    name: 'legal-api',
+    configureServer: mount,
+    configurePreviewServer: mount
+  };
+};
@@ -0,0 +1,134 @@
+import { createServer, get } from "http";
+import { AddressInfo } from "net";
+import { describe, expect, it } from "vitest";
+import { createLinkVerifier, createMockRequester, fetchRequester, HttpRequester, isPublicAddress, MockRoute, pinnedLookup } from "./linkVerifier";
+
+const html = (body: string) => ({ status: 200, headers: { 'content-type': 'text/html' }, body });
+
+const ROUTES: Record<string, MockRoute> = {
+  'https://www.indiacode.nic.in/act.pdf': { HEAD: { status: 200, headers: { 'content-type': 'application/pdf' } } },
+  'https://www.indiacode.nic.in/moved': { status: 301, headers: { location: '/act.pdf' } },
+  'https://www.indiacode.nic.in/loop': { status: 302, headers: { location: 'https://www.indiacode.nic.in/loop' } },
+  'https://www.indiacode.nic.in/to-file': { status: 302, headers: { location: 'file:///etc/passwd' } },
+  'https://www.verdictum.in/soft-404': html('<title>Verdictum</title><p>The page you requested could not be found.</p>'),
+  'verdictum.in': html('<title>Verdictum</title>'),
+  'scobserver.in': { HEAD: { status: 405, headers: {} }, GET: html('<title>Supreme Court Observer</title>') },
+  'tnsja.tn.gov.in': { status: 503, headers: {} },
+  'indialegallive.com': { throws: 'The site did not answer in time' }
+};
+
+// Counts the requests that reach the scripted replies, to tell cache hits from fresh checks
+const counting = (request: HttpRequester) => {
+  const calls: string[] = [];
+  const counted: HttpRequester = (method, url) => {
+    calls.push(`${method} ${url}`);
+    return request(method, url);
+  };
+  return { calls, request: counted };
+};
+
+describe('createLinkVerifier', () => {
+  const verifier = createLinkVerifier({ request: createMockRequester(ROUTES) });
+  const verifyOne = async (url: string) => (await verifier.verify([url]))[0];
+
+  it('verifies documents from HEAD and pages from GET', async () => {
+    expect(await verifyOne('https://www.indiacode.nic.in/act.pdf')).toMatchObject({ status: 'verified', reason: 'Document is available', httpStatus: 200 });
+    expect(await verifyOne('https://www.verdictum.in/story')).toMatchObject({ status: 'verified', reason: 'Page is available' });
+  });
+
+  it('follows redirects and reports where they ended', async () => {
+    expect(await verifyOne('https://www.indiacode.nic.in/moved')).toMatchObject({ status: 'verified', finalUrl: 'https://www.indiacode.nic.in/act.pdf' });
+  });
+
+  it('falls back to GET when the server refuses HEAD', async () => {
+    expect(await verifyOne('https://scobserver.in/cases')).toMatchObject({ status: 'verified', httpStatus: 200 });
+  });
+
+  it('marks missing pages dead, including pages that load but say they were not found', async () => {
+    expect(await verifyOne('https://www.indiacode.nic.in/gone')).toMatchObject({ status: 'dead', reason: 'Server answered 404' });
+    expect(await verifyOne('https://www.verdictum.in/soft-404')).toMatchObject({ status: 'dead', reason: 'Page loads but says it was not found' });
+  });
+
+  it('leaves outages, timeouts and redirect loops unverified rather than dead', async () => {
+    expect(await verifyOne('https://tnsja.tn.gov.in/')).toMatchObject({ status: 'unverified', reason: 'Server answered 503' });
+    expect(await verifyOne('https://indialegallive.com/story')).toMatchObject({ status: 'unverified', reason: 'The site did not answer in time' });
+    expect(await verifyOne('https://www.indiacode.nic.in/loop')).toMatchObject({ status: 'unverified', reason: 'More than 5 redirects' });
+  });
+
+  it('refuses addresses that are not http or https, as links and as redirect targets', async () => {
+    expect(await verifyOne('ftp://indiacode.nic.in/act.pdf')).toMatchObject({ status: 'dead', reason: 'Not a web address' });
+    expect(await verifyOne('not a link')).toMatchObject({ status: 'dead', reason: 'Malformed URL' });
+    expect(await verifyOne('https://www.indiacode.nic.in/to-file')).toMatchObject({ status: 'dead', reason: 'Redirects to a non-web address' });
+  });
+
+  it('answers once per distinct URL, in the order asked', async () => {
+    const { calls, request } = counting(createMockRequester(ROUTES));
+    const checks = await createLinkVerifier({ request }).verify(['https://www.verdictum.in/a', 'https://www.indiacode.nic.in/act.pdf', 'https://www.verdictum.in/a']);
+    expect(checks.map(check => check.url)).toEqual(['https://www.verdictum.in/a', 'https://www.indiacode.nic.in/act.pdf']);
+    expect(calls.filter(call => call.endsWith('/a'))).toEqual(['HEAD https://www.verdictum.in/a', 'GET https://www.verdictum.in/a']);
+  });
+
+  it('serves cached results until the time-to-live runs out', async () => {
+    let clock = 0;
+    const { calls, request } = counting(createMockRequester(ROUTES));
+    const cached = createLinkVerifier({ request, ttl: 1000, now: () => clock });
+    await cached.verify(['https://www.indiacode.nic.in/act.pdf']);
+    clock = 999;
+    await cached.verify(['https://www.indiacode.nic.in/act.pdf']);
+    expect(calls).toHaveLength(1);
+    clock = 1000;
+    await cached.verify(['https://www.indiacode.nic.in/act.pdf']);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('keeps at most maxEntries results, dropping the least recently used', async () => {
+    const { calls, request } = counting(createMockRequester(ROUTES));
+    const bounded = createLinkVerifier({ request, maxEntries: 2 });
+    const [a, b, c] = ['https://www.indiacode.nic.in/a.pdf', 'https://www.indiacode.nic.in/b.pdf', 'https://www.indiacode.nic.in/c.pdf'];
+    await bounded.verify([a]);
+    await bounded.verify([b]);
+    await bounded.verify([a]);
+    await bounded.verify([c]);
+    calls.length = 0;
+    await bounded.verify([a]);
+    expect(calls).toEqual([]);
+    await bounded.verify([b]);
+    expect(calls).toEqual([`HEAD ${b}`]);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('accepts public addresses only', () => {
+    ['8.8.8.8', '164.100.1.1', '2606:4700:4700::1111'].forEach(address => expect(isPublicAddress(address)).toBe(true));
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'localhost']
+      .forEach(address => expect(isPublicAddress(address)).toBe(false));
+  });
+});
+
+describe('fetchRequester', () => {
+  it('refuses to contact the server\'s own network', async () => {
+    await expect(fetchRequester('HEAD', 'http://127.0.0.1:5173/api/news')).rejects.toMatchObject({ message: 'Not a public address', permanent: true });
+    await expect(fetchRequester('HEAD', 'http://[::1]/')).rejects.toMatchObject({ message: 'Not a public address' });
+    await expect(fetchRequester('GET', 'file:///etc/passwd')).rejects.toMatchObject({ message: 'Not a web address' });
+  });
+});
+
+describe('pinnedLookup', () => {
+  it('connects to the checked address whatever the host name resolves to', async () => {
+    const server = createServer((req, res) => res.end(req.headers.host));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const body = await new Promise<string>((resolve, reject) => {
+        get(`http://court.invalid:${port}/`, { lookup: pinnedLookup('127.0.0.1', 4) }, response => {
+          let text = '';
+          response.on('data', chunk => { text += chunk; });
+          response.on('end', () => resolve(text));
+        }).on('error', reject);
+      });
+      expect(body).toBe(`court.invalid:${port}`);
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
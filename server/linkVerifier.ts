@@ -0,0 +1,260 @@
+import { LinkCheck } from "../types";
+import { lookup } from "dns/promises";
+import { request as httpRequest, IncomingMessage } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+
+/**
+ * Checks that the URLs a provider returned actually resolve. Runs on the API server, where
+ * CORS does not apply: HEAD first, GET when the server refuses HEAD or the page has to be read
+ * for soft-404 text, following at most MAX_REDIRECTS redirects. Only public http(s) addresses
+ * are fetched, on the first request and on every redirect, so the check cannot be pointed at the
+ * server's own network; the connection goes to the address that was checked, so a second DNS
+ * answer cannot redirect it. Results are kept in a bounded in-memory cache for a time-to-live so a
+ * feed scrolled twice is not checked twice. The HTTP layer is injectable; `--mode mock` uses
+ * createFixtureRequester so the whole flow works offline.
+ */
+
+export interface HttpReply {
+  status: number;
+  headers: Record<string, string>;
+  // Page text; only read for GET requests on HTML pages
+  body?: string;
+}
+
+export type HttpRequester = (method: 'HEAD' | 'GET', url: string) => Promise<HttpReply>;
+
+export class LinkUnreachableError extends Error {
+  constructor(message: string, public permanent: boolean) {
+    super(message);
+    this.name = 'LinkUnreachableError';
+  }
+}
+
+export interface LinkVerifierOptions {
+  request: HttpRequester;
+  ttl?: number;
+  maxRedirects?: number;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export interface LinkVerifier {
+  verify(urls: string[]): Promise<LinkCheck[]>;
+}
+
+export const LINK_CHECK_TTL = 6 * 60 * 60 * 1000;
+export const MAX_REDIRECTS = 5;
+// Checks kept in memory; the least recently used are dropped first
+export const MAX_CACHED_CHECKS = 5000;
+
+const REQUEST_TIMEOUT = 8000;
+const MAX_BODY_CHARS = 200_000;
+const CONCURRENCY = 4;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const GONE_STATUSES = [404, 410];
+// Pages that answer 200 but say the document is missing
+const SOFT_404_PATTERNS = [
+  /<title>[^<]*(?:404|not found|page not found|no such page)[^<]*<\/title>/i,
+  /\b(?:page|document|judgment|file)\s+(?:you requested\s+)?(?:was|could)\s+not\s+(?:be\s+)?found\b/i,
+  /\b(?:no longer available|does not exist|has been removed)\b/i
+];
+
+const isHtml = (reply: HttpReply) => (reply.headers['content-type'] || '').toLowerCase().includes('html');
+
+const isWebAddress = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Loopback, private, link-local, shared, multicast and reserved ranges, including IPv6 unique-local
+// addresses; IPv4-mapped IPv6 addresses are matched against the IPv4 ranges
+const NON_PUBLIC_RANGES = new BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const).forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+export const isPublicAddress = (address: string) => {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Every address the host resolves to must be public, so a DNS entry cannot point the check inside the network.
+// Returns the address to connect to.
+const resolvePublicHost = async (url: URL): Promise<{ address: string, family: number }> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string, family: number }[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true, verbatim: true });
+  } catch (error: any) {
+    if (error?.code === 'ENOTFOUND') throw new LinkUnreachableError('Domain does not resolve', true);
+    throw new LinkUnreachableError('Could not reach the site', false);
+  }
+  if (!addresses.length || !addresses.every(({ address }) => isPublicAddress(address))) throw new LinkUnreachableError('Not a public address', true);
+  return addresses[0];
+};
+
+// Answers every lookup with the checked address, whatever DNS would say by the time the socket opens
+export const pinnedLookup = (address: string, family: number): LookupFunction =>
+  ((_hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  }) as LookupFunction;
+
+const replyHeaders = (response: IncomingMessage): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  Object.entries(response.headers).forEach(([key, value]) => {
+    if (value !== undefined) headers[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+  });
+  return headers;
+};
+
+// Node's http(s) client without redirects, so every hop is counted and its host checked here rather than followed silently
+export const fetchRequester: HttpRequester = async (method, url) => {
+  if (!isWebAddress(url)) throw new LinkUnreachableError('Not a web address', true);
+  const target = new URL(url);
+  const { address, family } = await resolvePublicHost(target);
+  return new Promise<HttpReply>((resolve, reject) => {
+    let settled = false;
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      outcome();
+    };
+    const request = (target.protocol === 'https:' ? httpsRequest : httpRequest)(target, {
+      method,
+      lookup: pinnedLookup(address, family),
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; MO-LinkCheck/1.0)', Accept: 'text/html,application/pdf;q=0.9,*/*;q=0.8', 'Accept-Encoding': 'identity' }
+    }, response => {
+      const reply: HttpReply = { status: response.statusCode ?? 0, headers: replyHeaders(response) };
+      if (method !== 'GET' || reply.status < 200 || reply.status >= 300 || !isHtml(reply)) {
+        response.destroy();
+        return settle(() => resolve(reply));
+      }
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length < MAX_BODY_CHARS) return;
+        response.destroy();
+        settle(() => resolve({ ...reply, body: body.slice(0, MAX_BODY_CHARS) }));
+      });
+      response.on('end', () => settle(() => resolve({ ...reply, body })));
+      response.on('error', () => settle(() => reject(new LinkUnreachableError('Could not reach the site', false))));
+    });
+    const timer = setTimeout(() => {
+      request.destroy();
+      settle(() => reject(new LinkUnreachableError('The site did not answer in time', false)));
+    }, REQUEST_TIMEOUT);
+    request.on('error', () => settle(() => reject(new LinkUnreachableError('Could not reach the site', false))));
+    request.end();
+  });
+};
+
+/**
+ * Scripted HTTP layer: replies are looked up by exact URL, then by host, then `fallback`.
+ * A reply without a method applies to HEAD and GET alike; `{ throws }` simulates a network failure.
+ */
+export type MockRoute = HttpReply | { HEAD?: HttpReply, GET?: HttpReply } | { throws: string, permanent?: boolean };
+
+export const createMockRequester = (routes: Record<string, MockRoute>, fallback: HttpReply = { status: 404, headers: {} }): HttpRequester =>
+  async (method, url) => {
+    let host = '';
+    try { host = new URL(url).hostname.replace(/^www\./, ''); } catch { /* matched by URL only */ }
+    const route = routes[url] || routes[host] || fallback;
+    if ('throws' in route) throw new LinkUnreachableError(route.throws, Boolean(route.permanent));
+    if ('status' in route) return route;
+    const reply = route[method];
+    return reply || { status: 405, headers: {} };
+  };
+
+const check = (url: string, status: LinkCheck['status'], reason: string, checkedAt: number, reply?: HttpReply, finalUrl?: string): LinkCheck =>
+  ({ url, status, reason, checkedAt, httpStatus: reply?.status, finalUrl: finalUrl && finalUrl !== url ? finalUrl : undefined });
+
+export const createLinkVerifier = ({ request, ttl = LINK_CHECK_TTL, maxRedirects = MAX_REDIRECTS, maxEntries = MAX_CACHED_CHECKS, now = Date.now }: LinkVerifierOptions): LinkVerifier => {
+  // Map order is insertion order; a hit is re-inserted, so the first key is the least recently used
+  const cache = new Map<string, LinkCheck>();
+
+  // One request, following redirects up to the limit; null when the limit is exceeded
+  const follow = async (method: 'HEAD' | 'GET', url: string): Promise<{ reply: HttpReply, finalUrl: string } | null> => {
+    let current = url;
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+      const reply = await request(method, current);
+      const location = reply.headers.location;
+      if (!REDIRECT_STATUSES.includes(reply.status) || !location) return { reply, finalUrl: current };
+      current = new URL(location, current).toString();
+      if (!isWebAddress(current)) throw new LinkUnreachableError('Redirects to a non-web address', true);
+    }
+    return null;
+  };
+
+  const judge = async (url: string): Promise<LinkCheck> => {
+    const checkedAt = now();
+    if (!isWebAddress(url)) return check(url, 'dead', URL.canParse(url) ? 'Not a web address' : 'Malformed URL', checkedAt);
+    try {
+      const head = await follow('HEAD', url);
+      if (!head) return check(url, 'unverified', `More than ${maxRedirects} redirects`, checkedAt);
+      if (GONE_STATUSES.includes(head.reply.status)) return check(url, 'dead', `Server answered ${head.reply.status}`, checkedAt, head.reply, head.finalUrl);
+      if (head.reply.status >= 200 && head.reply.status < 300 && !isHtml(head.reply)) {
+        return check(url, 'verified', 'Document is available', checkedAt, head.reply, head.finalUrl);
+      }
+
+      // HTML pages are read for soft-404 text; servers that refuse HEAD get a second chance
+      const get = await follow('GET', head.finalUrl);
+      if (!get) return check(url, 'unverified', `More than ${maxRedirects} redirects`, checkedAt);
+      const { reply, finalUrl } = get;
+      if (GONE_STATUSES.includes(reply.status)) return check(url, 'dead', `Server answered ${reply.status}`, checkedAt, reply, finalUrl);
+      if (reply.status >= 200 && reply.status < 300) {
+        if (reply.body && SOFT_404_PATTERNS.some(pattern => pattern.test(reply.body!))) {
+          return check(url, 'dead', 'Page loads but says it was not found', checkedAt, reply, finalUrl);
+        }
+        return check(url, 'verified', 'Page is available', checkedAt, reply, finalUrl);
+      }
+      return check(url, 'unverified', `Server answered ${reply.status}`, checkedAt, reply, finalUrl);
+    } catch (error: any) {
+      if (error instanceof LinkUnreachableError) return check(url, error.permanent ? 'dead' : 'unverified', error.message, checkedAt);
+      return check(url, 'unverified', error?.message || 'Check failed', checkedAt);
+    }
+  };
+
+  const verifyOne = async (url: string) => {
+    const cached = cache.get(url);
+    if (cached) {
+      cache.delete(url);
+      if (now() - cached.checkedAt < ttl) {
+        cache.set(url, cached);
+        return cached;
+      }
+    }
+    const result = await judge(url);
+    cache.set(url, result);
+    while (cache.size > maxEntries) cache.delete(cache.keys().next().value!);
+    return result;
+  };
+
+  return {
+    verify: async (urls) => {
+      const unique = Array.from(new Set(urls.filter(Boolean)));
+      const results: LinkCheck[] = new Array(unique.length);
+      let next = 0;
+      const worker = async () => {
+        while (next < unique.length) {
+          const index = next++;
+          results[index] = await verifyOne(unique[index]);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(CONCURRENCY, unique.length) }, worker));
+      return results;
+    }
+  };
+};
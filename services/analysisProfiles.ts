@@ -0,0 +1,22 @@
+import { AnalysisProfile, BriefingSection } from "../types";
+import profiles from "../config/analysisProfiles.json";
+
+/**
+ * Study Lab subjects. Each profile shapes the analysis prompt, fixes the briefing sections
+ * and the number of flashcards. Add a subject by adding an entry to config/analysisProfiles.json.
+ */
+
+export const ANALYSIS_PROFILES: AnalysisProfile[] = profiles;
+
+export const DEFAULT_PROFILE_ID = ANALYSIS_PROFILES[0].id;
+
+// Accepts a profile id or its subject label (sessions saved before profiles stored the label)
+export const getAnalysisProfile = (idOrSubject: string): AnalysisProfile =>
+  ANALYSIS_PROFILES.find(profile => profile.id === idOrSubject || profile.subject === idOrSubject) || ANALYSIS_PROFILES[0];
+
+// Put the model's sections into profile order, adding any it left out
+export const alignBriefingSections = (profile: AnalysisProfile, sections: BriefingSection[] = []): BriefingSection[] =>
+  profile.sections.map(({ title }) => {
+    const match = sections.find(section => section.title.trim().toLowerCase() === title.toLowerCase());
+    return { title, points: match?.points || [] };
+  });
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { addHighlight, anchorAnnotation, anchorAnnotations, buildAnnotationExcerpt, createAnnotation } from "./annotationService";
+
+const TEXT = 'The accused was granted bail. The court held that bail is the rule and jail the exception. Bail was later cancelled.';
+
+const highlight = (quote: string, occurrence: number = 0, text: string = TEXT) => {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) start = text.indexOf(quote, start + 1);
+  return createAnnotation('https://indiankanoon.org/doc/1/', text, start, start + quote.length, 'yellow');
+};
+
+describe('createAnnotation', () => {
+  it('keeps the quote with up to 32 characters of context either side', () => {
+    const annotation = highlight('bail is the rule');
+    expect(annotation.quote).toBe('bail is the rule');
+    expect(annotation.prefix).toBe('anted bail. The court held that ');
+    expect(annotation.suffix).toBe(' and jail the exception. Bail wa');
+  });
+});
+
+describe('anchorAnnotation', () => {
+  it('finds the passage again after the text around it has shifted', () => {
+    const annotation = highlight('bail is the rule');
+    const edited = `HEADNOTE\n\n${TEXT}`;
+    expect(anchorAnnotation(edited, annotation)).toMatchObject({ start: edited.indexOf('bail is the rule') });
+  });
+
+  it('picks the occurrence whose context still matches', () => {
+    const second = highlight('bail', 1);
+    const edited = `Preface. ${TEXT}`;
+    const match = anchorAnnotation(edited, second);
+    expect(match?.start).toBe(edited.indexOf('bail is the rule'));
+  });
+
+  it('gives up when the quote is no longer in the text', () => {
+    expect(anchorAnnotation('Another judgment altogether.', highlight('bail is the rule'))).toBeNull();
+  });
+});
+
+describe('anchorAnnotations', () => {
+  it('returns highlights in reading order and the unplaced ones as orphans', () => {
+    const late = highlight('Bail was later cancelled');
+    const early = highlight('granted bail');
+    const gone = { ...highlight('jail the exception'), quote: 'no longer here' };
+    const { anchored, orphaned } = anchorAnnotations(TEXT, [late, early, gone]);
+    expect(anchored.map(({ annotation }) => annotation.quote)).toEqual(['granted bail', 'Bail was later cancelled']);
+    expect(orphaned).toEqual([gone]);
+  });
+});
+
+describe('addHighlight', () => {
+  it('folds highlights the selection overlaps into one, keeping their notes', () => {
+    const granted = { ...highlight('granted bail'), note: 'Interim bail' };
+    const rule = { ...highlight('bail is the rule'), note: 'Krishna Iyer J.' };
+    const later = highlight('Bail was later cancelled');
+    const start = TEXT.indexOf('bail. The court');
+    const { annotations, added } = addHighlight(TEXT, [granted, rule, later], granted.url, start, start + 'bail. The court held that bail'.length, 'green');
+
+    expect(annotations).toEqual([later, added]);
+    expect(added).toMatchObject({ quote: 'granted bail. The court held that bail is the rule', colour: 'green', note: 'Interim bail\nKrishna Iyer J.' });
+    expect(anchorAnnotations(TEXT, annotations).orphaned).toEqual([]);
+  });
+
+  it('adds a selection that overlaps nothing as it is', () => {
+    const { annotations, added } = addHighlight(TEXT, [highlight('granted bail')], 'https://indiankanoon.org/doc/1/', 0, 11, 'blue');
+    expect(annotations).toHaveLength(2);
+    expect(added).toMatchObject({ quote: 'The accused', note: '' });
+  });
+});
+
+describe('buildAnnotationExcerpt', () => {
+  it('numbers the passages and adds their notes', () => {
+    const noted = { ...highlight('bail is the rule'), note: 'Krishna Iyer J.' };
+    const { anchored } = anchorAnnotations(TEXT, [noted, highlight('granted bail')]);
+    expect(buildAnnotationExcerpt('Bail order', anchored)).toBe(
+      'Annotated passages from: Bail order\n\n1. "granted bail"\n\n2. "bail is the rule"\n   Note: Krishna Iyer J.'
+    );
+  });
+});
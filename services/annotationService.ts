@@ -0,0 +1,109 @@
+import { Annotation, HighlightColour } from "../types";
+import { readStored, writeStored, createId } from "./localStore";
+
+/**
+ * Reader highlights and margin notes, stored per document URL.
+ * Each annotation keeps the quoted passage with a little context either side, so it can be
+ * found again when the extracted text is refreshed and offsets shift.
+ */
+
+const STORAGE_KEY = 'mo-annotations';
+const CONTEXT_LENGTH = 32;
+
+export interface AnchoredAnnotation {
+  annotation: Annotation;
+  start: number;
+  end: number;
+}
+
+type AnnotationStore = Record<string, Annotation[]>;
+
+const readStore = () => readStored<AnnotationStore>(STORAGE_KEY, {});
+
+export const loadAnnotations = (url: string): Annotation[] => readStore()[url] || [];
+
+export const saveAnnotations = (url: string, annotations: Annotation[]) => {
+  const store = readStore();
+  if (annotations.length) store[url] = annotations;
+  else delete store[url];
+  writeStored(STORAGE_KEY, store);
+};
+
+export const createAnnotation = (url: string, text: string, start: number, end: number, colour: HighlightColour): Annotation => ({
+  id: createId('note-'),
+  url,
+  colour,
+  quote: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: text.slice(end, end + CONTEXT_LENGTH),
+  start,
+  note: '',
+  createdAt: Date.now()
+});
+
+// Number of characters two strings share at their ends (suffix of a / prefix of b as requested)
+const sharedTail = (a: string, b: string) => {
+  let count = 0;
+  while (count < a.length && count < b.length && a[a.length - 1 - count] === b[b.length - 1 - count]) count++;
+  return count;
+};
+const sharedHead = (a: string, b: string) => {
+  let count = 0;
+  while (count < a.length && count < b.length && a[count] === b[count]) count++;
+  return count;
+};
+
+/**
+ * Locate an annotation in the current text. Every occurrence of the quote is scored by how much
+ * of the stored context still surrounds it, with distance from the old offset as a tie-breaker.
+ */
+export const anchorAnnotation = (text: string, annotation: Annotation): AnchoredAnnotation | null => {
+  if (!annotation.quote) return null;
+  let best: { start: number, score: number } | null = null;
+  for (let index = text.indexOf(annotation.quote); index !== -1; index = text.indexOf(annotation.quote, index + 1)) {
+    const context =
+      sharedTail(text.slice(Math.max(0, index - annotation.prefix.length), index), annotation.prefix) +
+      sharedHead(text.slice(index + annotation.quote.length, index + annotation.quote.length + annotation.suffix.length), annotation.suffix);
+    const score = context * 1000 - Math.abs(index - annotation.start);
+    if (!best || score > best.score) best = { start: index, score };
+  }
+  return best ? { annotation, start: best.start, end: best.start + annotation.quote.length } : null;
+};
+
+// Anchor every annotation, dropping overlaps so highlights never nest; unplaced ones are returned as orphans
+export const anchorAnnotations = (text: string, annotations: Annotation[]): { anchored: AnchoredAnnotation[], orphaned: Annotation[] } => {
+  const anchored: AnchoredAnnotation[] = [];
+  const orphaned: Annotation[] = [];
+  annotations.forEach(annotation => {
+    const match = anchorAnnotation(text, annotation);
+    if (match && !anchored.some(other => match.start < other.end && other.start < match.end)) anchored.push(match);
+    else orphaned.push(annotation);
+  });
+  return { anchored: anchored.sort((a, b) => a.start - b.start), orphaned };
+};
+
+/**
+ * Highlight a selection. Highlights it overlaps are folded into one spanning them all, keeping
+ * their notes, rather than left to be orphaned by anchorAnnotations.
+ */
+export const addHighlight = (text: string, annotations: Annotation[], url: string, start: number, end: number, colour: HighlightColour): { annotations: Annotation[], added: Annotation } => {
+  const overlapping = anchorAnnotations(text, annotations).anchored.filter(other => start < other.end && other.start < end);
+  const merged = createAnnotation(
+    url,
+    text,
+    Math.min(start, ...overlapping.map(other => other.start)),
+    Math.max(end, ...overlapping.map(other => other.end)),
+    colour
+  );
+  const added = { ...merged, note: overlapping.map(({ annotation }) => annotation.note.trim()).filter(Boolean).join('\n') };
+  const replaced = new Set(overlapping.map(({ annotation }) => annotation.id));
+  return { annotations: [...annotations.filter(annotation => !replaced.has(annotation.id)), added], added };
+};
+
+// The passages (with their notes) in reading order, ready to send to the Study Lab
+export const buildAnnotationExcerpt = (title: string, anchored: AnchoredAnnotation[]): string =>
+  [
+    `Annotated passages from: ${title}`,
+    ...anchored.map(({ annotation }, i) =>
+      `${i + 1}. "${annotation.quote.trim()}"${annotation.note.trim() ? `\n   Note: ${annotation.note.trim()}` : ''}`)
+  ].join('\n\n');
@@ -0,0 +1,83 @@
+import { LegalNews, ScholarlyArticle, AcademyMaterial, ArticleFilters, LandmarkJudgment, BareAct, BareActFilters, ExtractedContent, StudyMaterials, QuizQuestion, StructuredAct, SourcePolicy, LinkCheck, SearchResults, CauseListDocument, MhcBench } from "../types";
+import { API_BASE, LegalApiRoute, LegalApiRoutes, MAX_LINKS_PER_CHECK } from "./apiContract";
+import { EXTRACTION_FAILED_TEXT } from "./legalText";
+
+/**
+ * Browser-side client for the local legal API.
+ * Mirrors the fetcher signatures of geminiService.ts, which now only runs on the server.
+ */
+
+export class LegalApiError extends Error {
+  constructor(public route: LegalApiRoute, public status: number, message: string) {
+    super(message);
+    this.name = 'LegalApiError';
+  }
+}
+
+const callApi = async <R extends LegalApiRoute>(route: R, body: LegalApiRoutes[R]['request']): Promise<LegalApiRoutes[R]['response']> => {
+  const response = await fetch(`${API_BASE}/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const detail = await response.json().catch(() => null);
+    throw new LegalApiError(route, response.status, detail?.error || `Request to ${route} failed with ${response.status}`);
+  }
+  return response.json();
+};
+
+export const extractResourceContent = async (title: string, url: string): Promise<ExtractedContent> =>
+  callApi('extract', { title, url }).catch(() => ({ text: EXTRACTION_FAILED_TEXT, mentions: [] }));
+
+export const fetchActText = async (name: string, url?: string): Promise<StructuredAct> =>
+  callApi('act-text', { name, url });
+
+export const generateStudyMaterials = async (content: string, subject?: string): Promise<StudyMaterials> =>
+  callApi('study-materials', { content, subject });
+
+export const generateQuiz = async (content: string, subject?: string): Promise<QuizQuestion[]> =>
+  callApi('quiz', { content, subject });
+
+// Server-side liveness checks, sent in batches the server accepts; an unreachable API leaves the links unchecked rather than failing the feed
+export const verifyLinks = async (urls: string[]): Promise<LinkCheck[]> => {
+  const batches: string[][] = [];
+  for (let i = 0; i < urls.length; i += MAX_LINKS_PER_CHECK) batches.push(urls.slice(i, i + MAX_LINKS_PER_CHECK));
+  const results = await Promise.all(batches.map(batch => callApi('verify-links', { urls: batch }).catch((): LinkCheck[] => [])));
+  return results.flat();
+};
+
+// Errors reach the caller: the server explains when live cause lists are not configured or not yet published
+export const fetchCauseList = async (bench: MhcBench, date: string): Promise<CauseListDocument> =>
+  callApi('cause-list', { bench, date });
+
+export const fetchSearchSuggestions = async (input: string): Promise<string[]> => {
+  if (!input || input.length < 2) return [];
+  return callApi('suggestions', { input }).catch(() => []);
+};
+
+// Errors reach the caller, so a failed search is not mistaken for one without results
+export const searchLegalData = async (query: string, policy?: SourcePolicy): Promise<SearchResults> =>
+  callApi('search', { query, policy });
+
+// Feed fetchers send the reader's source policy; the server falls back to the default one without it
+export const fetchLegalNews = async (page: number = 1, policy?: SourcePolicy): Promise<LegalNews[]> =>
+  callApi('news', { page, policy }).catch(() => []);
+
+export const fetchLegalArticles = async (query: string = "", page: number = 1, filters: ArticleFilters = {}, policy?: SourcePolicy): Promise<ScholarlyArticle[]> =>
+  callApi('articles', { query, page, filters, policy }).catch(() => []);
+
+export const fetchAcademyMaterials = async (query: string = "", page: number = 1, policy?: SourcePolicy): Promise<AcademyMaterial[]> =>
+  callApi('academy', { query, page, policy }).catch(() => []);
+
+export const fetchTamilNaduLegalData = async (page: number = 1, policy?: SourcePolicy): Promise<ScholarlyArticle[]> =>
+  callApi('tamil-nadu', { page, policy }).catch(() => []);
+
+export const fetchSupremeCourtData = async (page: number = 1, policy?: SourcePolicy): Promise<ScholarlyArticle[]> =>
+  callApi('supreme-court', { page, policy }).catch(() => []);
+
+export const fetchLandmarkJudgments = async (actName: string, page: number = 1, policy?: SourcePolicy): Promise<LandmarkJudgment[]> =>
+  callApi('judgments', { actName, page, policy }).catch(() => []);
+
+export const fetchBareActs = async (query: string = "", page: number = 1, filters: BareActFilters = {}, policy?: SourcePolicy): Promise<BareAct[]> =>
+  callApi('bare-acts', { query, page, filters, policy }).catch(() => []);
@@ -0,0 +1,31 @@
+import { LegalNews, ScholarlyArticle, AcademyMaterial, ArticleFilters, LandmarkJudgment, BareAct, BareActFilters, ExtractedContent, StudyMaterials, QuizQuestion, StructuredAct, SourcePolicy, LinkCheck, SearchResults, CauseListDocument, MhcBench } from "../types";
+
+/**
+ * Request and response shapes for every route served under /api.
+ * Shared by the browser client (apiClient.ts) and the server (server/legalApi.ts)
+ * so both sides break at compile time if a route changes.
+ */
+export interface LegalApiRoutes {
+  news: { request: { page: number, policy?: SourcePolicy }, response: LegalNews[] };
+  articles: { request: { query: string, page: number, filters?: ArticleFilters, policy?: SourcePolicy }, response: ScholarlyArticle[] };
+  academy: { request: { query: string, page: number, policy?: SourcePolicy }, response: AcademyMaterial[] };
+  'tamil-nadu': { request: { page: number, policy?: SourcePolicy }, response: ScholarlyArticle[] };
+  'supreme-court': { request: { page: number, policy?: SourcePolicy }, response: ScholarlyArticle[] };
+  judgments: { request: { actName: string, page: number, policy?: SourcePolicy }, response: LandmarkJudgment[] };
+  'bare-acts': { request: { query: string, page: number, filters: BareActFilters, policy?: SourcePolicy }, response: BareAct[] };
+  extract: { request: { title: string, url: string }, response: ExtractedContent };
+  'act-text': { request: { name: string, url?: string }, response: StructuredAct };
+  'study-materials': { request: { content: string, subject?: string }, response: StudyMaterials };
+  quiz: { request: { content: string, subject?: string }, response: QuizQuestion[] };
+  suggestions: { request: { input: string }, response: string[] };
+  search: { request: { query: string, policy?: SourcePolicy }, response: SearchResults };
+  'verify-links': { request: { urls: string[] }, response: LinkCheck[] };
+  'cause-list': { request: { bench: MhcBench, date: string }, response: CauseListDocument };
+}
+
+export type LegalApiRoute = keyof LegalApiRoutes;
+
+export const API_BASE = '/api';
+
+// Links one verify-links request may carry; the client splits longer lists
+export const MAX_LINKS_PER_CHECK = 40;
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { ProvisionBlock } from "../types";
+import { actNameForSlug, actSlug, findActSection, findSectionChapter, formatSectionText, listSections, parseActAnchor, parseActText, sectionAnchor } from "./bareActService";
+
+const BNS = `
+CHAPTER VI
+OF OFFENCES AFFECTING THE HUMAN BODY
+100. Culpable homicide.—Whoever causes death by doing an act with the intention of causing death commits culpable homicide.
+Illustrations
+(a) A lays sticks and turf over a pit, with the intention of thereby causing death.
+(b) A knows Z to be behind a bush.
+Explanation 1.—A person who causes bodily injury to another is deemed to have caused his death.
+103. Punishment for murder.—(1) Whoever commits murder shall be punished with death or imprisonment for life,
+and shall also be liable to fine.
+(2) When a group of five or more persons acting in concert commits murder on the ground of—
+(a) race;
+(h) language;
+(i) personal belief,
+each member of such group shall be punished with death.
+Provided that nothing in this sub-section applies to a person under eighteen.
+CHAPTER VII
+OF OFFENCES AGAINST THE STATE
+147. Waging war against Government of India.
+Whoever wages war against the Government of India shall be punished.
+`;
+
+const act = parseActText('Bharatiya Nyaya Sanhita, 2023', 'https://www.indiacode.nic.in/bns', BNS);
+
+const labels = (blocks: ProvisionBlock[]): string[] =>
+  blocks.map(block => block.children?.length ? `${block.label || block.kind}[${labels(block.children).join(' ')}]` : block.label || block.kind);
+
+describe('parseActText', () => {
+  it('reads chapters with their titles on the next line', () => {
+    expect(act.slug).toBe('bns');
+    expect(act.parts).toHaveLength(1);
+    expect(act.parts[0].chapters.map(chapter => [chapter.number, chapter.title])).toEqual([
+      ['VI', 'OF OFFENCES AFFECTING THE HUMAN BODY'],
+      ['VII', 'OF OFFENCES AGAINST THE STATE']
+    ]);
+    expect(listSections(act).map(section => `${section.id} ${section.heading}`)).toEqual([
+      's100 Culpable homicide', 's103 Punishment for murder', 's147 Waging war against Government of India'
+    ]);
+  });
+
+  it('nests sub-sections, clauses and provisos and joins wrapped lines', () => {
+    const murder = findActSection(act, 'S103')!;
+    expect(labels(murder.blocks)).toEqual(['(1)', '(2)[(a) (h) (i) proviso]']);
+    expect(murder.blocks[0].text).toBe('Whoever commits murder shall be punished with death or imprisonment for life, and shall also be liable to fine.');
+    expect(murder.blocks[1].children![2].text).toBe('personal belief, each member of such group shall be punished with death.');
+  });
+
+  it('keeps illustrations and explanations apart from the section text', () => {
+    const homicide = findActSection(act, 's100')!;
+    expect(homicide.text).toBe('Whoever causes death by doing an act with the intention of causing death commits culpable homicide.');
+    expect(homicide.blocks.map(block => `${block.kind} ${block.label}`)).toEqual(['illustration (a)', 'illustration (b)', 'explanation Explanation 1']);
+  });
+
+  it('reads a section whose heading stands on a line of its own', () => {
+    expect(findActSection(act, 's147')).toMatchObject({ heading: 'Waging war against Government of India', text: 'Whoever wages war against the Government of India shall be punished.' });
+    expect(findSectionChapter(act, 's147')?.number).toBe('VII');
+  });
+
+  it('treats Roman numerals after a clause letter as sub-clauses', () => {
+    const parsed = parseActText('Some Act', '', '2. Definitions.—In this Act,—\n(a) "court" means—\n(i) a civil court;\n(ii) a tribunal;\n(b) "day" means a day.');
+    expect(labels(findActSection(parsed, 's2')!.blocks)).toEqual(['(a)[(i) (ii)]', '(b)']);
+  });
+});
+
+describe('deep links', () => {
+  it('round-trips the section anchor', () => {
+    expect(sectionAnchor(act, findActSection(act, 's103')!)).toBe('bns/s103');
+    expect(parseActAnchor('#BNS/S103')).toEqual({ slug: 'bns', sectionId: 's103' });
+    expect(parseActAnchor('#library')).toBeNull();
+  });
+
+  it('names well-known Acts in full and guesses the rest', () => {
+    expect(actSlug('Constitution of India')).toBe('constitution');
+    expect(actNameForSlug('bnss')).toBe('Bharatiya Nagarik Suraksha Sanhita, 2023');
+    expect(actNameForSlug('hindu-succession-act')).toBe('Hindu Succession Act');
+  });
+});
+
+describe('formatSectionText', () => {
+  it('heads the copied text with its citation and indents nested provisions', () => {
+    expect(formatSectionText(act, findActSection(act, 's100')!)).toBe([
+      'Section 100, Bharatiya Nyaya Sanhita, 2023',
+      '100. Culpable homicide.—Whoever causes death by doing an act with the intention of causing death commits culpable homicide.',
+      'Illustrations',
+      '(a) A lays sticks and turf over a pit, with the intention of thereby causing death.',
+      '(b) A knows Z to be behind a bush.',
+      'Explanation 1.—A person who causes bodily injury to another is deemed to have caused his death.'
+    ].join('\n'));
+  });
+});
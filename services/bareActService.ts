@@ -0,0 +1,188 @@
+import { ActChapter, ActPart, ActSection, ProvisionBlock, StructuredAct } from "../types";
+import { actKey, actLabel } from "./citationGraphService";
+
+/**
+ * Structured model of a Bare Act: parts, chapters, sections and the sub-sections, clauses,
+ * provisos, explanations and illustrations inside them. The parser works on the plain-text
+ * layout used by IndiaCode and the official Gazette, one provision per line. Shared by the
+ * API server (which parses) and the reader (which renders, copies and deep-links).
+ */
+
+const PART_LINE = /^PART\s+([IVXLC]+[A-Z]?|\d+[A-Z]?)\b\.?\s*(?:[—–:-]+\s*)?(.*)$/;
+const CHAPTER_LINE = /^CHAPTER\s+([IVXLC]+[A-Z]?|\d+[A-Z]?)\b\.?\s*(?:[—–:-]+\s*)?(.*)$/i;
+// "103. Punishment for murder.—(1) Whoever..." and the bare "480. When bail may be taken."
+const SECTION_LINE = /^(?:Section\s+|Article\s+)?(\d+[A-Z]*)\.\s+(.+?)\.?\s*(?:[—–]|:-|--)\s*(.*)$/;
+const SECTION_HEADING_ONLY = /^(?:Section\s+|Article\s+)?(\d+[A-Z]*)\.\s+([A-Z][^.]*)\.\s*$/;
+const SUB_SECTION_LINE = /^\((\d+[A-Z]?)\)\s*(.*)$/;
+const CLAUSE_LINE = /^\(([a-z]{1,2}|[ivx]+)\)\s*(.*)$/;
+const PROVISO_LINE = /^Provided\b/;
+const EXPLANATION_LINE = /^((?:Explanation|Exception)(?:\s+(?:\d+|[IVX]+))?)\s*\.?\s*(?:[—–:-]+)\s*(.*)$/;
+const ILLUSTRATIONS_LINE = /^Illustrations?\.?$/;
+const TITLE_LINE = /^[A-Z][A-Z ,'&()-]+$/;
+
+const ANCHOR = /^#?([a-z0-9-]+)\/(s[0-9a-z]+)$/i;
+
+const isRoman = (label: string) => /^[ivx]+$/.test(label);
+
+// "(i)" straight after "(h)" is the next clause, not the first sub-clause
+const followsLetter = (previous: string, label: string) =>
+  label.length === 1 && previous.length === 1 && label.charCodeAt(0) === previous.charCodeAt(0) + 1;
+
+export const actSlug = (name: string) => actKey(name).replace(/\s+/g, '-');
+
+// Name to request for a deep-linked slug: the full title for well-known Acts, a readable guess otherwise
+export const actNameForSlug = (slug: string) => {
+  const words = slug.replace(/-/g, ' ');
+  const label = actLabel(words);
+  return label === words ? words.replace(/\b[a-z]/g, letter => letter.toUpperCase()) : label;
+};
+
+// The Constitution numbers Articles, every other Act numbers sections
+export const provisionNoun = (act: StructuredAct) => actKey(act.name) === 'constitution' ? 'Article' : 'Section';
+
+export const parseActText = (name: string, sourceUrl: string, text: string): StructuredAct => {
+  const parts: ActPart[] = [];
+  let part: ActPart | null = null;
+  let chapter: ActChapter | null = null;
+  let section: ActSection | null = null;
+  let subSection: ProvisionBlock | null = null;
+  let clause: ProvisionBlock | null = null;
+  let last: ProvisionBlock | null = null;
+  let illustrations = false;
+  // A PART or CHAPTER line without a title takes the capitalised line that follows
+  let awaitingTitle: ActPart | ActChapter | null = null;
+
+  const ensurePart = () => {
+    if (!part) {
+      part = { id: 'part-0', number: '', title: '', chapters: [] };
+      parts.push(part);
+    }
+    return part;
+  };
+
+  const ensureChapter = () => {
+    const current = ensurePart();
+    if (!chapter) {
+      chapter = { id: `${current.id}-ch-0`, number: '', title: '', sections: [] };
+      current.chapters.push(chapter);
+    }
+    return chapter;
+  };
+
+  const addBlock = (block: ProvisionBlock, parent: ProvisionBlock | null) => {
+    if (parent) parent.children = [...(parent.children || []), block];
+    else section!.blocks.push(block);
+    last = block;
+  };
+
+  const readBodyLine = (line: string) => {
+    if (!section) return;
+    let match: RegExpMatchArray | null;
+    if (ILLUSTRATIONS_LINE.test(line)) {
+      illustrations = true;
+      clause = null;
+      last = null;
+    } else if ((match = line.match(SUB_SECTION_LINE))) {
+      subSection = { kind: 'sub-section', label: `(${match[1]})`, text: match[2] };
+      clause = null;
+      illustrations = false;
+      addBlock(subSection, null);
+    } else if ((match = line.match(CLAUSE_LINE))) {
+      const label = match[1];
+      if (illustrations) {
+        addBlock({ kind: 'illustration', label: `(${label})`, text: match[2] }, null);
+      } else if (clause && isRoman(label) && !isRoman(clause.label!.slice(1, -1)) && !followsLetter(clause.label!.slice(1, -1), label)) {
+        addBlock({ kind: 'sub-clause', label: `(${label})`, text: match[2] }, clause);
+      } else {
+        clause = { kind: 'clause', label: `(${label})`, text: match[2] };
+        addBlock(clause, subSection);
+      }
+    } else if (PROVISO_LINE.test(line)) {
+      clause = null;
+      illustrations = false;
+      addBlock({ kind: 'proviso', text: line }, subSection);
+    } else if ((match = line.match(EXPLANATION_LINE))) {
+      clause = null;
+      illustrations = false;
+      addBlock({ kind: 'explanation', label: match[1], text: match[2] }, subSection);
+    } else if (last) {
+      last.text = `${last.text} ${line}`.trim();
+    } else {
+      section.text = `${section.text} ${line}`.trim();
+    }
+  };
+
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    let match: RegExpMatchArray | null;
+    if (awaitingTitle && TITLE_LINE.test(line) && !CHAPTER_LINE.test(line) && !PART_LINE.test(line)) {
+      awaitingTitle.title = line;
+      awaitingTitle = null;
+      return;
+    }
+    awaitingTitle = null;
+
+    if ((match = line.match(PART_LINE))) {
+      part = { id: `part-${match[1].toLowerCase()}`, number: match[1], title: match[2], chapters: [] };
+      parts.push(part);
+      chapter = null;
+      section = null;
+      if (!match[2]) awaitingTitle = part;
+    } else if ((match = line.match(CHAPTER_LINE))) {
+      const current = ensurePart();
+      chapter = { id: `${current.id}-ch-${match[1].toLowerCase()}`, number: match[1].toUpperCase(), title: match[2], sections: [] };
+      current.chapters.push(chapter);
+      section = null;
+      if (!match[2]) awaitingTitle = chapter;
+    } else if ((match = line.match(SECTION_LINE) || line.match(SECTION_HEADING_ONLY))) {
+      section = { id: `s${match[1].toLowerCase()}`, number: match[1], heading: match[2].trim(), text: '', blocks: [] };
+      ensureChapter().sections.push(section);
+      subSection = null;
+      clause = null;
+      last = null;
+      illustrations = false;
+      if (match[3]) readBodyLine(match[3]);
+    } else {
+      readBodyLine(line);
+    }
+  });
+
+  return { slug: actSlug(name), name, sourceUrl, parts };
+};
+
+export const listSections = (act: StructuredAct): ActSection[] =>
+  act.parts.flatMap(part => part.chapters.flatMap(chapter => chapter.sections));
+
+export const findActSection = (act: StructuredAct, sectionId: string): ActSection | null =>
+  listSections(act).find(section => section.id === sectionId.toLowerCase()) || null;
+
+// Chapter holding a section, so the table of contents can open on it
+export const findSectionChapter = (act: StructuredAct, sectionId: string): ActChapter | null =>
+  act.parts.flatMap(part => part.chapters).find(chapter => chapter.sections.some(section => section.id === sectionId)) || null;
+
+// URL fragment for one section, e.g. "bns/s103"
+export const sectionAnchor = (act: StructuredAct, section: ActSection) => `${act.slug}/${section.id}`;
+
+export const parseActAnchor = (hash: string): { slug: string, sectionId: string } | null => {
+  const match = hash.match(ANCHOR);
+  return match ? { slug: match[1].toLowerCase(), sectionId: match[2].toLowerCase() } : null;
+};
+
+// "Section 103, Bharatiya Nyaya Sanhita, 2023" or "Article 21, Constitution of India"
+export const sectionCitation = (act: StructuredAct, section: ActSection) => `${provisionNoun(act)} ${section.number}, ${act.name}`;
+
+const blockLines = (blocks: ProvisionBlock[], depth: number): string[] =>
+  blocks.flatMap((block, i) => [
+    ...(block.kind === 'illustration' && blocks[i - 1]?.kind !== 'illustration' ? ['Illustrations'] : []),
+    `${'  '.repeat(depth)}${block.kind === 'explanation' ? `${block.label}.—` : block.label ? `${block.label} ` : ''}${block.text}`,
+    ...blockLines(block.children || [], depth + 1)
+  ]);
+
+// Plain text of one section for the clipboard, headed by its citation
+export const formatSectionText = (act: StructuredAct, section: ActSection): string => {
+  const lines = [
+    `${sectionCitation(act, section)}`,
+    `${section.number}. ${section.heading}.${section.text ? `—${section.text}` : ''}`,
+    ...blockLines(section.blocks, 0)
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,124 @@
+import { LegalNews, ScholarlyArticle, AcademyMaterial, LandmarkJudgment, BareAct, ExtractedContent, StructuredAct, SearchResults } from "../types";
+
+/**
+ * Offline cache for everything the app fetches from Gemini.
+ * Records are kept in IndexedDB with their fetch time so a saved copy can be served
+ * immediately (or without signal at all) and refreshed in the background once stale.
+ */
+
+const DB_NAME = 'mo-legal-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+
+// Feeds change through the day; extracted documents rarely change once published
+export const FEED_MAX_AGE = 30 * 60 * 1000;
+export const DOCUMENT_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+export type CachedPayload = LegalNews[] | ScholarlyArticle[] | AcademyMaterial[] | LandmarkJudgment[] | BareAct[] | ExtractedContent | StructuredAct | SearchResults;
+
+interface CacheRecord<T extends CachedPayload> {
+  key: string;
+  data: T;
+  fetchedAt: number;
+}
+
+export interface CachedResult<T extends CachedPayload> {
+  data: T;
+  fetchedAt: number;
+  fromCache: boolean;
+}
+
+export interface CacheOptions<T extends CachedPayload> {
+  maxAge: number;
+  // Results that fail this check (empty batches, failed extractions) are never written over a saved copy
+  isUsable?: (data: T) => boolean;
+  // Called once a background refresh of a stale record settles; null means the refresh failed or came back empty
+  onRefresh?: (result: CachedResult<T> | null) => void;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available'));
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const readRecord = async <T extends CachedPayload>(key: string): Promise<CacheRecord<T> | null> => {
+  try {
+    const db = await openDatabase();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve((request.result as CacheRecord<T>) || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.warn('Cache read failed:', error);
+    return null;
+  }
+};
+
+const writeRecord = async <T extends CachedPayload>(record: CacheRecord<T>): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.warn('Cache write failed:', error);
+  }
+};
+
+const defaultIsUsable = (data: CachedPayload) => Array.isArray(data) ? data.length > 0 : Boolean(data);
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Serve a saved copy first and refresh it in the background when older than maxAge.
+ * Without a saved copy the fetcher is awaited directly and its result stored when usable.
+ */
+export const cachedFetch = async <T extends CachedPayload>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: CacheOptions<T>
+): Promise<CachedResult<T>> => {
+  const isUsable = options.isUsable || defaultIsUsable;
+
+  const fetchAndStore = async (): Promise<{ result: CachedResult<T>, usable: boolean }> => {
+    const data = await fetcher();
+    const fetchedAt = Date.now();
+    const usable = isUsable(data);
+    if (usable) await writeRecord({ key, data, fetchedAt });
+    return { result: { data, fetchedAt, fromCache: false }, usable };
+  };
+
+  const saved = await readRecord<T>(key);
+  if (saved) {
+    const isStale = Date.now() - saved.fetchedAt > options.maxAge;
+    // Without signal the saved copy is all there is; callers watch connectivity themselves
+    if (isStale && !isOffline()) {
+      fetchAndStore()
+        .then(({ result, usable }) => options.onRefresh?.(usable ? result : null))
+        .catch(() => options.onRefresh?.(null));
+    }
+    return { data: saved.data, fetchedAt: saved.fetchedAt, fromCache: true };
+  }
+
+  // Nothing saved yet: unusable results (the fetcher's fallback) are passed through without being stored
+  const { result } = await fetchAndStore();
+  return result;
+};
@@ -0,0 +1,82 @@
+import { CaseNumber, CauseList, CauseListEntry, MhcBench, TrackedCase } from "../types";
+import { readStored, writeStored, createId } from "./localStore";
+
+/**
+ * Our Madras High Court matters, registered by case number. A parsed cause list is matched
+ * against them to highlight our items and to carry the next hearing date, stage and court hall
+ * over to each case. All operations are pure; App persists the result.
+ */
+
+const STORAGE_KEY = 'mo-tracked-cases';
+
+export interface CauseListMatch {
+  entry: CauseListEntry;
+  trackedCase: TrackedCase;
+  // The case number in the entry that matched; a connected petition rather than the main case when they differ
+  listed: CaseNumber;
+}
+
+export const loadTrackedCases = (): TrackedCase[] => readStored<TrackedCase[]>(STORAGE_KEY, []);
+
+export const saveTrackedCases = (cases: TrackedCase[]) => writeStored(STORAGE_KEY, cases);
+
+export const caseKey = ({ caseType, number, year }: CaseNumber) => `${caseType}/${number}/${year}`;
+
+export const addTrackedCase = (
+  cases: TrackedCase[],
+  details: { bench: MhcBench, caseType: string, number: number, year: number, parties?: string }
+): TrackedCase[] => {
+  const duplicate = cases.some(item => item.bench === details.bench && caseKey(item) === caseKey(details));
+  if (duplicate) return cases;
+  const now = Date.now();
+  const trackedCase: TrackedCase = { ...details, id: createId('case-'), parties: details.parties?.trim() || '', notes: '', createdAt: now, updatedAt: now };
+  return [...cases, trackedCase];
+};
+
+export const updateTrackedCase = (cases: TrackedCase[], id: string, changes: Partial<Omit<TrackedCase, 'id' | 'createdAt'>>): TrackedCase[] =>
+  cases.map(item => item.id === id ? { ...item, ...changes, updatedAt: Date.now() } : item);
+
+export const removeTrackedCase = (cases: TrackedCase[], id: string): TrackedCase[] => cases.filter(item => item.id !== id);
+
+// Cases with a hearing date first, soonest first; the rest in the order they were registered
+export const sortByNextHearing = (cases: TrackedCase[]): TrackedCase[] =>
+  [...cases].sort((a, b) => {
+    if (a.nextHearing && b.nextHearing) return a.nextHearing.localeCompare(b.nextHearing);
+    if (a.nextHearing || b.nextHearing) return a.nextHearing ? -1 : 1;
+    return a.createdAt - b.createdAt;
+  });
+
+// A number printed with "(MD)" is a Madurai Bench case whichever list it appears in
+const benchOf = (listed: CaseNumber, list: CauseList) => listed.bench || list.bench;
+
+export const matchCauseList = (list: CauseList, cases: TrackedCase[]): CauseListMatch[] =>
+  list.entries.flatMap(entry =>
+    entry.cases.flatMap(listed => {
+      const bench = benchOf(listed, list);
+      return cases
+        .filter(item => caseKey(item) === caseKey(listed) && (!bench || bench === item.bench))
+        .map(trackedCase => ({ entry, trackedCase, listed }));
+    }));
+
+/**
+ * Copy the listing of every matched case onto it. A list dated before the hearing already
+ * recorded is ignored, so loading last week's list does not undo this week's.
+ */
+export const applyCauseList = (cases: TrackedCase[], list: CauseList, matches: CauseListMatch[]): TrackedCase[] => {
+  const byCase = new Map(matches.map(match => [match.trackedCase.id, match.entry]));
+  const now = Date.now();
+  return cases.map(item => {
+    const entry = byCase.get(item.id);
+    if (!entry || (list.date && item.nextHearing && list.date < item.nextHearing)) return item;
+    return {
+      ...item,
+      nextHearing: list.date || item.nextHearing,
+      stage: entry.stage || item.stage,
+      courtHall: entry.courtHall || item.courtHall,
+      judge: entry.judge || item.judge,
+      itemNo: entry.itemNo,
+      listedIn: list.fileName,
+      updatedAt: now
+    };
+  });
+};
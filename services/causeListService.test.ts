@@ -0,0 +1,57 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { findCaseNumbers, formatCaseNumber, htmlToText, parseCauseListText } from "./causeListService";
+
+const MADURAI_LIST = `
+HIGH COURT OF JUDICATURE AT MADRAS
+MADURAI BENCH
+CAUSE LIST DATED 21.10.2026
+COURT HALL NO. 3
+THE HON'BLE MR.JUSTICE G. ILANGOVAN
+FOR ADMISSION
+1. W.P.(MD) No.1234 of 2024 M. Selvi Vs The District Collector, Madurai
+   M/S. THE MOON & OCEAN
+   WMP(MD)/567/2024
+2. CRL.OP(MD)/890/2025 R. Kannan Vs State
+FOR ORDERS
+3 S.A.(MD) No.45 of 2019 Arulmigu Meenakshi Temple Vs P. Raju
+`;
+
+describe('findCaseNumbers', () => {
+  it('reads the spellings cause lists use for one case type', () => {
+    const numbers = findCaseNumbers('W.P. No.30112 of 2026, WP/12345/2025, W P 7 of 2020 and CRL.OP(MD)/890/2025');
+    expect(numbers.map(formatCaseNumber)).toEqual(['WP No.30112 of 2026', 'WP No.12345 of 2025', 'WP No.7 of 2020', 'CRL.OP(MD) No.890 of 2025']);
+  });
+
+  it('does not read a longer case type as a shorter one', () => {
+    expect(findCaseNumbers('WMP/25678/2026')[0].caseType).toBe('WMP');
+    expect(findCaseNumbers('ARB.OP No.5 of 2024')[0].caseType).toBe('ARB.OP');
+  });
+});
+
+describe('parseCauseListText', () => {
+  it('carries the court hall, judge and stage down to each item', () => {
+    const list = parseCauseListText(MADURAI_LIST, 'madurai.pdf');
+    expect(list).toMatchObject({ fileName: 'madurai.pdf', bench: 'madurai', date: '2026-10-21' });
+    expect(list.entries.map(entry => [entry.itemNo, entry.stage, entry.courtHall, entry.judge])).toEqual([
+      [1, 'For Admission', '3', "The Hon'ble Mr.Justice G. Ilangovan"],
+      [2, 'For Admission', '3', "The Hon'ble Mr.Justice G. Ilangovan"],
+      [3, 'For Orders', '3', "The Hon'ble Mr.Justice G. Ilangovan"]
+    ]);
+  });
+
+  it('joins connected petitions and wrapped lines to the item above them', () => {
+    const [first] = parseCauseListText(MADURAI_LIST, 'madurai.pdf').entries;
+    expect(first.cases.map(formatCaseNumber)).toEqual(['WP(MD) No.1234 of 2024', 'WMP(MD) No.567 of 2024']);
+    expect(first.text).toContain('THE MOON & OCEAN');
+  });
+
+  it('reads the sample HTML list of the Principal Seat', () => {
+    const html = readFileSync(new URL('../fixtures/cause-lists/principal-2026-10-20.html', import.meta.url), 'utf8');
+    const list = parseCauseListText(htmlToText(html), 'principal-2026-10-20.html');
+    expect(list).toMatchObject({ bench: 'principal', date: '2026-10-20' });
+    expect(list.entries).toHaveLength(8);
+    expect(list.entries[1].cases.map(formatCaseNumber)).toEqual(['WP No.23456 of 2026', 'WMP No.25678 of 2026']);
+    expect(list.entries[4]).toMatchObject({ courtHall: '12', stage: 'For Hearing', judge: "Hon'ble The Chief Justice & Hon'ble Mr.Justice D. Bharatha Chakravarthy" });
+  });
+});
@@ -0,0 +1,192 @@
+import { CaseNumber, CauseList, CauseListDocument, CauseListEntry, MhcBench } from "../types";
+import { extractPdfText } from "./pdfText";
+
+/**
+ * Reader for Madras High Court cause lists downloaded as PDF or HTML. Both are reduced to
+ * lines of text; the court hall, judge and stage headings are carried down to the items below
+ * them, and every case number on an item line is recognised, including connected petitions.
+ */
+
+// Case types heard at the Principal Seat and the Madurai Bench, with the code used in cause lists
+export const MHC_CASE_TYPES: { code: string, label: string }[] = [
+  { code: 'WP', label: 'Writ Petition' },
+  { code: 'WA', label: 'Writ Appeal' },
+  { code: 'WMP', label: 'Writ Miscellaneous Petition' },
+  { code: 'HCP', label: 'Habeas Corpus Petition' },
+  { code: 'CRL.OP', label: 'Criminal Original Petition' },
+  { code: 'CRL.A', label: 'Criminal Appeal' },
+  { code: 'CRL.RC', label: 'Criminal Revision Case' },
+  { code: 'CRL.MP', label: 'Criminal Miscellaneous Petition' },
+  { code: 'SA', label: 'Second Appeal' },
+  { code: 'AS', label: 'Appeal Suit' },
+  { code: 'CMA', label: 'Civil Miscellaneous Appeal' },
+  { code: 'CRP', label: 'Civil Revision Petition' },
+  { code: 'CMP', label: 'Civil Miscellaneous Petition' },
+  { code: 'OSA', label: 'Original Side Appeal' },
+  { code: 'CS', label: 'Civil Suit' },
+  { code: 'OP', label: 'Original Petition' },
+  { code: 'ARB.OP', label: 'Arbitration Original Petition' },
+  { code: 'CONT.P', label: 'Contempt Petition' },
+  { code: 'TCA', label: 'Tax Case Appeal' },
+  { code: 'REV.APLW', label: 'Review Application (Writ)' }
+];
+
+export const BENCH_LABELS: Record<MhcBench, string> = {
+  principal: 'Principal Seat, Chennai',
+  madurai: 'Madurai Bench'
+};
+
+export const isMhcBench = (value: unknown): value is MhcBench =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(BENCH_LABELS, value);
+
+const lettersOf = (code: string) => code.replace(/[^A-Z]/gi, '').toUpperCase();
+
+// "W.P.", "W P" and "WP" are one type; longer codes first so "CRL.OP" is not read as "OP"
+const TYPE_ALTERNATIVES = [...MHC_CASE_TYPES]
+  .sort((a, b) => lettersOf(b.code).length - lettersOf(a.code).length)
+  .map(({ code }) => lettersOf(code).split('').join('[.\\s]*'));
+
+const CASE_NUMBER_PATTERN = new RegExp(
+  `(?<![A-Za-z.])(${TYPE_ALTERNATIVES.join('|')})\\.?\\s*(\\(\\s*M\\.?D\\.?\\s*\\))?\\s*(?:No\\.?|Nos\\.?)?\\s*[/.]?\\s*(\\d{1,6})\\s*(?:/|of)\\s*((?:19|20)\\d{2})(?!\\d)`,
+  'gi'
+);
+
+const typeForLetters = (letters: string) => MHC_CASE_TYPES.find(({ code }) => lettersOf(code) === letters.toUpperCase())?.code;
+
+export const caseTypeLabel = (code: string) => MHC_CASE_TYPES.find(type => type.code === code)?.label || code;
+
+// Every case number in a line of text, e.g. "W.P.(MD) No.1234 of 2024 and WMP(MD)/567/2024"
+export const findCaseNumbers = (text: string): CaseNumber[] =>
+  Array.from(text.matchAll(CASE_NUMBER_PATTERN)).flatMap(([, type, madurai, number, year]) => {
+    const caseType = typeForLetters(type.replace(/[.\s]/g, ''));
+    if (!caseType) return [];
+    return [{ caseType, number: Number(number), year: Number(year), bench: madurai ? 'madurai' as const : undefined }];
+  });
+
+export const formatCaseNumber = (value: CaseNumber) =>
+  `${value.caseType}${value.bench === 'madurai' ? '(MD)' : ''} No.${value.number} of ${value.year}`;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Rows and blocks become lines and table cells are spaced apart, so an HTML list reads like the PDF one
+export const htmlToText = (html: string) =>
+  html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(?:tr|p|div|h[1-6]|li|table|thead|tbody)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '  ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') return String.fromCharCode(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+
+const COURT_HALL_PATTERN = /^(?:COURT\s*(?:HALL)?|CT\.?\s*HALL)\s*(?:NO\.?)?\s*[:\-]?\s*(\d{1,3}[A-Z]?)\b/i;
+const JUDGE_PATTERN = /^(?:THE\s+)?HON'?BLE\b.*\bJUSTICE\b/i;
+const STAGE_PATTERN = /^(?:FOR\s+[A-Z][A-Z ,&/-]+|TO BE MENTIONED|MOTION|ADMISSION|PART HEARD|HEARING|ORDERS|FINAL DISPOSAL|AFTER NOTICE|FRESH CASES)\s*:?$/i;
+const DATE_PATTERN = /\b(\d{1,2})[.\-/](\d{1,2})[.\-/]((?:19|20)\d{2})\b/;
+const ITEM_PATTERN = /^(\d{1,4})\s*[.)]?\s+/;
+
+const titleCase = (text: string) => text.toLowerCase().replace(/(^|[\s.(/&-])([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase()).replace(/\s*:$/, '');
+
+const isoDate = (text: string) => {
+  const match = text.match(DATE_PATTERN);
+  if (!match) return undefined;
+  const [, day, month, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+// The list date is the one printed next to "cause list" or "dated"; failing that, the first date in the header
+const listDate = (lines: string[]) => {
+  const header = lines.slice(0, 20);
+  const labelled = header.find(line => /cause\s*list|dated|list\s+for/i.test(line) && DATE_PATTERN.test(line));
+  return isoDate(labelled || header.find(line => DATE_PATTERN.test(line)) || '');
+};
+
+const listBench = (lines: string[]): MhcBench | undefined => {
+  const header = lines.slice(0, 20).join(' ');
+  if (/madurai\s+bench/i.test(header)) return 'madurai';
+  if (/high court|madras|principal seat/i.test(header)) return 'principal';
+  return undefined;
+};
+
+export const parseCauseListText = (text: string, fileName: string): CauseList => {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const entries: CauseListEntry[] = [];
+  let courtHall: string | undefined;
+  let judge: string | undefined;
+  let stage: string | undefined;
+  let current: CauseListEntry | null = null;
+
+  lines.forEach(line => {
+    const hall = line.match(COURT_HALL_PATTERN);
+    if (hall) {
+      courtHall = hall[1].toUpperCase();
+      judge = undefined;
+      stage = undefined;
+      current = null;
+      return;
+    }
+    if (JUDGE_PATTERN.test(line)) {
+      // Division benches print one judge per line
+      judge = judge && current === null && !stage ? `${judge} & ${titleCase(line)}` : titleCase(line);
+      return;
+    }
+    const cases = findCaseNumbers(line);
+    if (!cases.length) {
+      if (STAGE_PATTERN.test(line) && line.length < 60) {
+        stage = titleCase(line);
+        current = null;
+      } else if (current && current.text.length < 400) {
+        // Party names and counsel wrap onto the lines below the case number
+        current.text = `${current.text} ${line}`;
+      }
+      return;
+    }
+    const itemNo = line.match(ITEM_PATTERN)?.[1];
+    // An unnumbered line under a numbered item lists petitions connected with it
+    if (!itemNo && current?.itemNo !== undefined) {
+      current.cases.push(...cases);
+      current.text = `${current.text} ${line}`;
+      return;
+    }
+    current = { itemNo: itemNo ? Number(itemNo) : undefined, cases, text: line.replace(ITEM_PATTERN, ''), stage, courtHall, judge };
+    entries.push(current);
+  });
+
+  return { fileName, bench: listBench(lines), date: listDate(lines), entries };
+};
+
+const looksLikePdf = (fileName: string, contentType: string, bytes: Uint8Array) =>
+  /pdf/i.test(contentType) || /\.pdf$/i.test(fileName) || new TextDecoder('latin1').decode(bytes.subarray(0, 5)) === '%PDF-';
+
+export class CauseListReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CauseListReadError';
+  }
+}
+
+// Parse a downloaded PDF, HTML or plain-text cause list
+export const readCauseListBytes = async (fileName: string, contentType: string, bytes: Uint8Array): Promise<CauseList> => {
+  let text: string;
+  if (looksLikePdf(fileName, contentType, bytes)) {
+    text = await extractPdfText(bytes);
+    if (!text.trim()) throw new CauseListReadError('This PDF has no text layer to read. Scanned cause lists are not supported.');
+  } else {
+    const decoded = new TextDecoder('utf-8').decode(bytes);
+    text = /html/i.test(contentType) || /\.html?$/i.test(fileName) || /<\/(?:td|tr|p|div)>/i.test(decoded) ? htmlToText(decoded) : decoded;
+  }
+  const list = parseCauseListText(text, fileName);
+  if (!list.entries.length) throw new CauseListReadError('No case numbers were found in this file. Is it a Madras High Court cause list?');
+  return list;
+};
+
+export const readCauseListFile = async (file: File): Promise<CauseList> =>
+  readCauseListBytes(file.name, file.type, new Uint8Array(await file.arrayBuffer()));
+
+export const readCauseListDocument = (document: CauseListDocument): Promise<CauseList> => {
+  const binary = atob(document.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return readCauseListBytes(document.fileName, document.contentType, bytes);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { LandmarkJudgment } from "../types";
+import { emptyGraph, findStatuteReferences, interpretingJudgments, judgmentNodeId, neighbours, recordDocument, recordJudgments, searchGraph } from "./citationGraphService";
+
+const judgment = (changes: Partial<LandmarkJudgment>): LandmarkJudgment => ({
+  caseName: 'Arnesh Kumar v. State of Bihar',
+  citation: '(2014) 8 SCC 273',
+  act: 'IPC',
+  bench: 'Division Bench',
+  summary: 'Arrest under Section 498A IPC and s. 41 CrPC needs reasons.',
+  impact: 'Guidelines under Article 21.',
+  link: 'https://indiankanoon.org/doc/2982624/',
+  ...changes
+});
+
+const refs = (text: string, defaultAct?: string) =>
+  findStatuteReferences(text, defaultAct).map(ref => `${ref.actId}${ref.section ? `/${ref.section}` : ''}`);
+
+describe('findStatuteReferences', () => {
+  it('reads lists of sections, abbreviations and Articles', () => {
+    expect(refs('bail under Sections 437 and 439 CrPC, s. 498A IPC and Articles 14, 21')).toEqual([
+      'act:crpc/437', 'act:crpc/439', 'act:ipc/498A', 'act:constitution/14', 'act:constitution/21'
+    ]);
+  });
+
+  it('brings full Act names and abbreviations to one Act', () => {
+    expect(refs('Section 302 of the Indian Penal Code, 1860')).toEqual(['act:ipc/302']);
+    expect(findStatuteReferences('Section 103(1) of the Bharatiya Nyaya Sanhita')[0]).toEqual({ actId: 'act:bns', actLabel: 'Bharatiya Nyaya Sanhita, 2023', section: '103' });
+  });
+
+  it('gives sections without an Act to the default Act, or skips them', () => {
+    expect(refs('the amended Section 6', 'Hindu Succession Act, 1956')).toEqual(['act:hindu succession act/6']);
+    expect(refs('the amended Section 6')).toEqual([]);
+  });
+});
+
+describe('recordJudgments', () => {
+  const graph = recordJudgments(emptyGraph(), [judgment({ relatedActs: ['Code of Criminal Procedure, 1973'] })]);
+  const id = judgmentNodeId('Arnesh Kumar v. State of Bihar');
+
+  it('links a judgment to the sections it interprets and the sections to their Acts', () => {
+    expect(graph.nodes[id]).toMatchObject({ kind: 'judgment', url: 'https://indiankanoon.org/doc/2982624/' });
+    expect(neighbours(graph, 'section:ipc:498a')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'part-of', direction: 'out', node: expect.objectContaining({ id: 'act:ipc' }) }),
+      expect.objectContaining({ kind: 'interprets', direction: 'in', node: expect.objectContaining({ id }) })
+    ]));
+    expect(graph.nodes['section:constitution:21'].label).toBe('Article 21');
+    expect(graph.nodes['section:crpc:41'].label).toBe('Section 41 CrPC');
+  });
+
+  it('finds the judgments on an Act through any of its sections', () => {
+    expect(interpretingJudgments(graph, 'act:ipc').map(node => node.id)).toEqual([id]);
+    expect(interpretingJudgments(graph, 'act:crpc').map(node => node.id)).toEqual([id]);
+  });
+
+  it('adds nothing twice when the same card is seen again', () => {
+    expect(recordJudgments(graph, [judgment({ relatedActs: ['Code of Criminal Procedure, 1973'] })]).edges).toHaveLength(graph.edges.length);
+  });
+});
+
+describe('recordDocument', () => {
+  const graph = recordJudgments(emptyGraph(), [judgment({})]);
+  const content = {
+    text: 'The Court read Section 41A CrPC with Article 22.',
+    mentions: [{ name: 'Joginder Kumar v. State of U.P.', type: 'judgment' as const }, { name: 'Indian Evidence Act, 1872', type: 'act' as const }]
+  };
+
+  it('adds the citations and statutes of an opened judgment', () => {
+    const next = recordDocument(graph, { title: 'Arnesh Kumar', url: 'https://indiankanoon.org/doc/2982624' }, content);
+    const cited = neighbours(next, judgmentNodeId('Arnesh Kumar v. State of Bihar')).filter(item => item.direction === 'out').map(item => `${item.kind} ${item.node.id}`);
+    expect(cited).toEqual(expect.arrayContaining([`cites ${judgmentNodeId('Joginder Kumar v. State of U.P.')}`, 'interprets act:iea', 'interprets section:crpc:41a', 'interprets section:constitution:22']));
+  });
+
+  it('ignores documents that are not known judgments', () => {
+    expect(recordDocument(graph, { title: 'A blog post', url: 'https://example.org/post' }, content)).toBe(graph);
+  });
+});
+
+describe('searchGraph', () => {
+  it('matches every word of the query and lists the best connected first', () => {
+    const graph = recordJudgments(emptyGraph(), [judgment({}), judgment({ caseName: 'Satender Kumar Antil v. CBI', citation: '(2022) 10 SCC 51', summary: '', impact: '' })]);
+    expect(searchGraph(graph, 'kumar').map(node => node.label)).toEqual(['Arnesh Kumar v. State of Bihar', 'Satender Kumar Antil v. CBI']);
+    expect(searchGraph(graph, '2022 SCC').map(node => node.label)).toEqual(['Satender Kumar Antil v. CBI']);
+  });
+});
@@ -0,0 +1,201 @@
+import { CitationGraph, ExtractedContent, GraphEdgeKind, GraphNode, GraphNodeKind, LandmarkJudgment } from "../types";
+import { readStored, writeStored } from "./localStore";
+import { normaliseActName } from "./legalText";
+import { canonicalCitation, normaliseCaseName } from "./citationService";
+
+/**
+ * Local knowledge graph of the case law the reader has come across. Judgments are linked to the
+ * Acts and sections they interpret and to the judgments they cite, collected from judgment cards
+ * and from the mentions found when a judgment is opened in the viewer.
+ */
+
+const STORAGE_KEY = 'mo-citation-graph';
+
+export interface GraphNeighbour {
+  node: GraphNode;
+  kind: GraphEdgeKind;
+  direction: 'out' | 'in';
+}
+
+export interface StatuteReference {
+  actId: string;
+  actLabel: string;
+  // Section or Article number; absent when only the Act is named
+  section?: string;
+}
+
+// Acts that are usually cited by abbreviation, so "s. 302 IPC" and "Indian Penal Code, 1860" meet at one node
+const KNOWN_ACTS: { key: string, label: string, short: string, aliases: string[] }[] = [
+  { key: 'bns', label: 'Bharatiya Nyaya Sanhita, 2023', short: 'BNS', aliases: ['bns', 'bharatiya nyaya sanhita'] },
+  { key: 'bnss', label: 'Bharatiya Nagarik Suraksha Sanhita, 2023', short: 'BNSS', aliases: ['bnss', 'bharatiya nagarik suraksha sanhita'] },
+  { key: 'bsa', label: 'Bharatiya Sakshya Adhiniyam, 2023', short: 'BSA', aliases: ['bsa', 'bharatiya sakshya adhiniyam'] },
+  { key: 'ipc', label: 'Indian Penal Code, 1860', short: 'IPC', aliases: ['ipc', 'i p c', 'indian penal code', 'penal code'] },
+  { key: 'crpc', label: 'Code of Criminal Procedure, 1973', short: 'CrPC', aliases: ['crpc', 'cr p c', 'code of criminal procedure', 'criminal procedure code'] },
+  { key: 'iea', label: 'Indian Evidence Act, 1872', short: 'IEA', aliases: ['iea', 'evidence act', 'indian evidence act'] },
+  { key: 'constitution', label: 'Constitution of India', short: 'Constitution', aliases: ['constitution', 'constitution of india', 'indian constitution'] }
+];
+
+const ACT_NAME = '(BNSS|BNS|BSA|IPC|I\\.P\\.C\\.?|CrPC|Cr\\.\\s?P\\.\\s?C\\.?|IEA|Code of Criminal Procedure(?:,?\\s*\\d{4})?|Constitution(?: of India)?|(?:[A-Z][A-Za-z]+\\s+){1,6}(?:Act|Code|Sanhita|Adhiniyam)(?:,?\\s*\\d{4})?)';
+const NUMBER_LIST = '(\\d+[A-Z]{0,2}(?:\\s*\\(\\d+\\))?(?:\\s*(?:,|and|&)\\s*\\d+[A-Z]{0,2}(?:\\s*\\(\\d+\\))?)*)';
+
+// "Section 103 of the Bharatiya Nyaya Sanhita", "Sections 437 and 439 CrPC", "s. 498A IPC", "amended Section 6"
+const SECTION_PATTERN = new RegExp(`\\b(?:[Ss]ections?|[Ss]ecs?\\.|[Ss]s?\\.)\\s*${NUMBER_LIST}(?:\\s*(?:of\\s+)?(?:the\\s+)?${ACT_NAME})?`, 'g');
+const ARTICLE_PATTERN = new RegExp(`\\b(?:Articles?|Arts?\\.)\\s*${NUMBER_LIST}`, 'g');
+
+export const emptyGraph = (): CitationGraph => ({ nodes: {}, edges: [] });
+
+export const loadCitationGraph = (): CitationGraph => readStored<CitationGraph>(STORAGE_KEY, emptyGraph());
+
+export const saveCitationGraph = (graph: CitationGraph) => writeStored(STORAGE_KEY, graph);
+
+export const actKey = (name: string) => {
+  const normalised = normaliseActName(name);
+  const known = KNOWN_ACTS.find(act => act.aliases.includes(normalised));
+  return known ? known.key : normalised;
+};
+
+export const actNodeId = (name: string) => `act:${actKey(name)}`;
+
+export const judgmentNodeId = (caseName: string) => `case:${normaliseCaseName(caseName)}`;
+
+const sectionNodeId = (actId: string, section: string) => `section:${actId.slice(4)}:${section.toLowerCase()}`;
+
+export const actLabel = (name: string) => KNOWN_ACTS.find(act => act.key === actKey(name))?.label || name.trim();
+
+const splitNumbers = (list: string) =>
+  list.split(/,|and|&/).map(item => item.replace(/\(\d+\)/g, '').trim()).filter(Boolean);
+
+/**
+ * Every Act, section and Article named in a passage. Sections with no Act of their own are
+ * attributed to `defaultAct`, usually the Act the judgment is filed under.
+ */
+export const findStatuteReferences = (text: string = "", defaultAct?: string): StatuteReference[] => {
+  const references: StatuteReference[] = [];
+  const add = (act: string, section?: string) => {
+    const actId = actNodeId(act);
+    if (!references.some(ref => ref.actId === actId && ref.section === section)) references.push({ actId, actLabel: actLabel(act), section });
+  };
+  SECTION_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SECTION_PATTERN.exec(text))) {
+    const act = match[2] || defaultAct;
+    if (act) splitNumbers(match[1]).forEach(section => add(act, section));
+  }
+  ARTICLE_PATTERN.lastIndex = 0;
+  while ((match = ARTICLE_PATTERN.exec(text))) {
+    splitNumbers(match[1]).forEach(section => add('Constitution of India', section));
+  }
+  return references;
+};
+
+const sectionLabel = (ref: StatuteReference) => {
+  if (ref.actId === 'act:constitution') return `Article ${ref.section}`;
+  const known = KNOWN_ACTS.find(act => `act:${act.key}` === ref.actId);
+  return `Section ${ref.section} ${known ? known.short : ref.actLabel}`;
+};
+
+const upsertNode = (graph: CitationGraph, id: string, kind: GraphNodeKind, label: string, extra: Partial<GraphNode> = {}) => {
+  const existing = graph.nodes[id];
+  graph.nodes[id] = {
+    ...existing,
+    id,
+    kind,
+    label: existing?.label || label,
+    ...Object.fromEntries(Object.entries(extra).filter(([, value]) => value)),
+    updatedAt: Date.now()
+  };
+};
+
+const addEdge = (graph: CitationGraph, from: string, to: string, kind: GraphEdgeKind) => {
+  if (from === to) return;
+  if (graph.edges.some(edge => edge.from === from && edge.to === to && edge.kind === kind)) return;
+  graph.edges.push({ from, to, kind });
+};
+
+// Link a judgment to an Act, or to a section together with the Act it belongs to
+const linkReference = (graph: CitationGraph, fromId: string, ref: StatuteReference) => {
+  upsertNode(graph, ref.actId, 'act', ref.actLabel);
+  if (!ref.section) return addEdge(graph, fromId, ref.actId, 'interprets');
+  const sectionId = sectionNodeId(ref.actId, ref.section);
+  upsertNode(graph, sectionId, 'section', sectionLabel(ref));
+  addEdge(graph, sectionId, ref.actId, 'part-of');
+  addEdge(graph, fromId, sectionId, 'interprets');
+};
+
+const cloneGraph = (graph: CitationGraph): CitationGraph => ({ nodes: { ...graph.nodes }, edges: [...graph.edges] });
+
+export const recordJudgments = (graph: CitationGraph, judgments: LandmarkJudgment[]): CitationGraph => {
+  const next = cloneGraph(graph);
+  judgments.forEach(judgment => {
+    if (!judgment.caseName) return;
+    const id = judgmentNodeId(judgment.caseName);
+    upsertNode(next, id, 'judgment', judgment.caseName, { url: judgment.link, citation: canonicalCitation(judgment.citation) || judgment.citation });
+    const homeAct = judgment.act || judgment.relatedActs?.[0];
+    (judgment.relatedActs || []).forEach(act => {
+      const refs = findStatuteReferences(act);
+      (refs.length ? refs : [{ actId: actNodeId(act), actLabel: actLabel(act) }]).forEach(ref => linkReference(next, id, ref));
+    });
+    findStatuteReferences(`${judgment.summary} ${judgment.impact}`, homeAct).forEach(ref => linkReference(next, id, ref));
+  });
+  return next;
+};
+
+const urlKey = (url: string = "") => url.trim().toLowerCase().replace(/#.*$/, '').replace(/\/+$/, '');
+
+/**
+ * Fold what the viewer extracted from an opened document into the graph. Only documents that are
+ * already known judgments contribute, since the mentions say nothing about what kind of record
+ * anything else is.
+ */
+export const recordDocument = (graph: CitationGraph, source: { title: string, url: string }, content: ExtractedContent): CitationGraph => {
+  const judgment = Object.values(graph.nodes).find(node =>
+    node.kind === 'judgment' && ((node.url && urlKey(node.url) === urlKey(source.url)) || node.id === judgmentNodeId(source.title)));
+  if (!judgment) return graph;
+  const next = cloneGraph(graph);
+  content.mentions.forEach(mention => {
+    if (mention.type === 'act') {
+      linkReference(next, judgment.id, { actId: actNodeId(mention.name), actLabel: actLabel(mention.name) });
+      return;
+    }
+    const citedId = judgmentNodeId(mention.name);
+    upsertNode(next, citedId, 'judgment', mention.name);
+    addEdge(next, judgment.id, citedId, 'cites');
+  });
+  findStatuteReferences(content.text).forEach(ref => linkReference(next, judgment.id, ref));
+  return next;
+};
+
+export const neighbours = (graph: CitationGraph, id: string): GraphNeighbour[] =>
+  graph.edges.flatMap<GraphNeighbour>(edge => {
+    if (edge.from === id && graph.nodes[edge.to]) return [{ node: graph.nodes[edge.to], kind: edge.kind, direction: 'out' }];
+    if (edge.to === id && graph.nodes[edge.from]) return [{ node: graph.nodes[edge.from], kind: edge.kind, direction: 'in' }];
+    return [];
+  });
+
+// Judgments that interpret a section, or an Act either directly or through any of its sections
+export const interpretingJudgments = (graph: CitationGraph, id: string): GraphNode[] => {
+  const targets = new Set([id]);
+  if (graph.nodes[id]?.kind === 'act') {
+    graph.edges.forEach(edge => { if (edge.kind === 'part-of' && edge.to === id) targets.add(edge.from); });
+  }
+  const ids = new Set(graph.edges.filter(edge => edge.kind === 'interprets' && targets.has(edge.to)).map(edge => edge.from));
+  return Array.from(ids).map(judgmentId => graph.nodes[judgmentId]).filter(Boolean).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+const degrees = (graph: CitationGraph) => {
+  const counts: Record<string, number> = {};
+  graph.edges.forEach(edge => {
+    counts[edge.from] = (counts[edge.from] || 0) + 1;
+    counts[edge.to] = (counts[edge.to] || 0) + 1;
+  });
+  return counts;
+};
+
+// Nodes whose label or citation contains every word of the query, best connected first
+export const searchGraph = (graph: CitationGraph, query: string): GraphNode[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const counts = degrees(graph);
+  return Object.values(graph.nodes)
+    .filter(node => words.every(word => node.label.toLowerCase().includes(word) || node.citation?.toLowerCase().includes(word)))
+    .sort((a, b) => (counts[b.id] || 0) - (counts[a.id] || 0) || a.label.localeCompare(b.label));
+};
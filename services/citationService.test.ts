@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseCitations, validateCitation } from "./citationService";
+
+describe('parseCitations', () => {
+  it('reads every reporter in the order the citations appear', () => {
+    const text = 'Relied on (2017) 10 SCC 1, AIR 1973 SC 1461, [1950] SCR 88, 2023 SCC OnLine SC 1234, 2024 INSC 56 and (2019) 3 MLJ 245.';
+    expect(parseCitations(text).map(citation => citation.canonical)).toEqual([
+      '(2017) 10 SCC 1',
+      'AIR 1973 SC 1461',
+      '[1950] SCR 88',
+      '2023 SCC OnLine SC 1234',
+      '2024 INSC 56',
+      '(2019) 3 MLJ 245'
+    ]);
+  });
+
+  it('splits a citation into its parts', () => {
+    expect(parseCitations('(2014) 8 SCC (Cri) 273')[0]).toMatchObject({
+      reporter: 'SCC', year: 2014, volume: '8', series: 'Cri', page: 273, court: 'SC', canonical: '(2014) 8 SCC (Cri) 273'
+    });
+  });
+
+  it('normalises dotted abbreviations, court codes and supplementary volumes', () => {
+    expect(parseCitations('A.I.R. 1950 mad 120')[0].canonical).toBe('AIR 1950 Mad 120');
+    expect(parseCitations('(1994) Supp (3) S.C.C. 5')[0]).toMatchObject({ volume: 'Supp (3)', canonical: '(1994) Supp (3) SCC 5' });
+    expect(parseCitations('2021 SCC Online Mad 77')[0].canonical).toBe('2021 SCC OnLine Mad 77');
+  });
+
+  it('finds nothing in text without citations', () => {
+    expect(parseCitations('Section 438 of the Code')).toEqual([]);
+    expect(parseCitations()).toEqual([]);
+  });
+});
+
+describe('validateCitation', () => {
+  const check = (text: string) => validateCitation(parseCitations(text)[0], 2026);
+
+  it('passes well-formed citations', () => {
+    expect(check('(2017) 10 SCC 1')).toEqual([]);
+    expect(check('AIR 1973 SC 1461')).toEqual([]);
+    expect(check('2026 INSC 12')).toEqual([]);
+  });
+
+  it('rejects years the reporter was not published in', () => {
+    expect(check('(1960) 2 SCC 14')).toContain('SCC has no volume for 1960');
+    expect(check('2030 INSC 5')).toContain('INSC has no volume for 2030');
+  });
+
+  it('rejects volumes out of range and reporters that need one', () => {
+    expect(check('(2010) 25 SCC 14')).toContain('Volume 25 is out of range for SCC');
+    expect(check('(2010) SCC 14')).toContain('SCC citations need a volume');
+  });
+
+  it('rejects unknown court codes', () => {
+    expect(check('AIR 1990 Xyz 10')).toContain('Unknown court code "Xyz"');
+  });
+});
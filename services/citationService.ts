@@ -0,0 +1,215 @@
+import { CitationReporter, LandmarkJudgment, ParsedCitation } from "../types";
+
+/**
+ * Parser and normaliser for Indian case-law citations. Recognises SCC, SCC OnLine, AIR, SCR, MLJ
+ * and Supreme Court neutral citations (INSC), validates them, and merges judgments that are
+ * the same case reported under parallel citations.
+ */
+
+export const COURT_NAMES: Record<string, string> = {
+  SC: 'Supreme Court',
+  Mad: 'Madras High Court',
+  Del: 'Delhi High Court',
+  Bom: 'Bombay High Court',
+  Cal: 'Calcutta High Court',
+  Ker: 'Kerala High Court',
+  Kar: 'Karnataka High Court',
+  All: 'Allahabad High Court',
+  AP: 'Andhra Pradesh High Court',
+  Tel: 'Telangana High Court',
+  Guj: 'Gujarat High Court',
+  Raj: 'Rajasthan High Court',
+  MP: 'Madhya Pradesh High Court',
+  Ori: 'Orissa High Court',
+  Pat: 'Patna High Court',
+  'P&H': 'Punjab and Haryana High Court',
+  Gau: 'Gauhati High Court',
+  HP: 'Himachal Pradesh High Court',
+  Jhar: 'Jharkhand High Court',
+  Chh: 'Chhattisgarh High Court',
+  Utt: 'Uttarakhand High Court',
+  'J&K': 'Jammu and Kashmir High Court'
+};
+
+// Preferred order when one case has several citations: the official neutral citation first
+const REPORTER_RANK: CitationReporter[] = ['INSC', 'SCC', 'SCR', 'AIR', 'SCC OnLine', 'MLJ'];
+
+// First year each reporter was published (INSC citations were assigned back to 1950)
+const FIRST_YEAR: Record<CitationReporter, number> = { INSC: 1950, SCC: 1969, SCR: 1950, AIR: 1914, 'SCC OnLine': 1950, MLJ: 1891 };
+
+const MAX_VOLUME: Partial<Record<CitationReporter, number>> = { SCC: 20, SCR: 12, MLJ: 6 };
+
+const SERIES = '(?:\\((Cri|Civ|L&S|Tax|Crl)\\)\\s+)?';
+const BRACKET_YEAR = '[(\\[](\\d{4})[)\\]]';
+const SUPP = '(Supp\\.?\\s*(?:\\(\\d+\\)\\s*)?)?';
+
+// "Supp (3)" and "4" both become the volume; a bare "Supp" volume stays "Supp"
+const volumeOf = (supp: string | undefined, volume: string | undefined) => {
+  if (supp) {
+    const number = supp.match(/\d+/)?.[0];
+    return number ? `Supp (${number})` : 'Supp';
+  }
+  return volume?.trim() || undefined;
+};
+
+const PATTERNS: { reporter: CitationReporter, regex: RegExp, read: (m: RegExpExecArray) => Omit<ParsedCitation, 'raw' | 'reporter' | 'canonical'> }[] = [
+  {
+    reporter: 'SCC OnLine',
+    regex: /\b(\d{4})\s+SCC\s+OnLine\s+([A-Za-z&]+)\s+(\d+)/g,
+    read: m => ({ year: Number(m[1]), court: m[2], page: Number(m[3]) })
+  },
+  {
+    reporter: 'SCC',
+    regex: new RegExp(`${BRACKET_YEAR}\\s+${SUPP}(\\d+\\s+)?SCC\\s+${SERIES}(\\d+)`, 'g'),
+    read: m => ({ year: Number(m[1]), volume: volumeOf(m[2], m[3]), series: m[4], court: 'SC', page: Number(m[5]) })
+  },
+  {
+    reporter: 'SCR',
+    regex: new RegExp(`${BRACKET_YEAR}\\s+${SUPP}(\\d+\\s+)?SCR\\s+(\\d+)`, 'g'),
+    read: m => ({ year: Number(m[1]), volume: volumeOf(m[2], m[3]), court: 'SC', page: Number(m[4]) })
+  },
+  {
+    reporter: 'MLJ',
+    regex: new RegExp(`[(\\[]?(\\d{4})[)\\]]?\\s+\\(?(\\d+)\\)?\\s+MLJ\\s+${SERIES}(\\d+)`, 'g'),
+    read: m => ({ year: Number(m[1]), volume: m[2], series: m[3], court: 'Mad', page: Number(m[4]) })
+  },
+  {
+    reporter: 'AIR',
+    regex: /\bAIR\s+(\d{4})\s+([A-Za-z&]+)\s+(\d+)/g,
+    read: m => ({ year: Number(m[1]), court: m[2], page: Number(m[3]) })
+  },
+  {
+    reporter: 'INSC',
+    regex: /\b(\d{4})\s+INSC\s+(\d+)/g,
+    read: m => ({ year: Number(m[1]), court: 'SC', page: Number(m[2]) })
+  }
+];
+
+// Reporter abbreviations arrive with dots and odd spacing: "S.C.C.", "A.I.R.", "SCC Online"
+const normaliseText = (text: string) =>
+  text
+    .replace(/S\.\s*C\.\s*C\.?/gi, 'SCC')
+    .replace(/S\.\s*C\.\s*R\.?/gi, 'SCR')
+    .replace(/A\.\s*I\.\s*R\.?/gi, 'AIR')
+    .replace(/M\.\s*L\.\s*J\.?/gi, 'MLJ')
+    .replace(/On\s*Line/gi, 'OnLine')
+    .replace(/\bCrl\b/g, 'Cri')
+    .replace(/\s+/g, ' ');
+
+const normaliseCourt = (code: string) => {
+  const match = Object.keys(COURT_NAMES).find(key => key.toLowerCase() === code.toLowerCase());
+  return match || code;
+};
+
+export const formatCitation = (citation: Omit<ParsedCitation, 'raw' | 'canonical'>): string => {
+  const series = citation.series ? ` (${citation.series})` : '';
+  const volume = citation.volume ? ` ${citation.volume}` : '';
+  switch (citation.reporter) {
+    case 'SCC': return `(${citation.year})${volume} SCC${series} ${citation.page}`;
+    case 'SCR': return `[${citation.year}]${volume} SCR ${citation.page}`;
+    case 'MLJ': return `(${citation.year})${volume} MLJ${series} ${citation.page}`;
+    case 'AIR': return `AIR ${citation.year} ${citation.court} ${citation.page}`;
+    case 'SCC OnLine': return `${citation.year} SCC OnLine ${citation.court} ${citation.page}`;
+    case 'INSC': return `${citation.year} INSC ${citation.page}`;
+  }
+};
+
+// Every citation found in a free-text field, in the order they appear
+export const parseCitations = (text: string = ""): ParsedCitation[] => {
+  const normalised = normaliseText(text);
+  const found: { index: number, citation: ParsedCitation }[] = [];
+  PATTERNS.forEach(({ reporter, regex, read }) => {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(normalised))) {
+      const fields = read(match);
+      const parsed = { ...fields, reporter, court: normaliseCourt(fields.court) };
+      found.push({ index: match.index, citation: { ...parsed, raw: match[0].trim(), canonical: formatCitation(parsed) } });
+    }
+  });
+  return found.sort((a, b) => a.index - b.index).map(item => item.citation);
+};
+
+// Reasons a parsed citation cannot be right; empty when it passes
+export const validateCitation = (citation: ParsedCitation, currentYear: number = new Date().getFullYear()): string[] => {
+  const errors: string[] = [];
+  if (citation.year < FIRST_YEAR[citation.reporter] || citation.year > currentYear) {
+    errors.push(`${citation.reporter} has no volume for ${citation.year}`);
+  }
+  if (citation.page < 1) errors.push('Page number must be positive');
+  const volumeNumber = Number(citation.volume?.match(/\d+/)?.[0]);
+  const maxVolume = MAX_VOLUME[citation.reporter];
+  if (citation.volume && !Number.isNaN(volumeNumber) && (volumeNumber < 1 || (maxVolume && volumeNumber > maxVolume))) {
+    errors.push(`Volume ${citation.volume} is out of range for ${citation.reporter}`);
+  }
+  if (['SCC', 'MLJ'].includes(citation.reporter) && !citation.volume) errors.push(`${citation.reporter} citations need a volume`);
+  if (!COURT_NAMES[citation.court]) errors.push(`Unknown court code "${citation.court}"`);
+  return errors;
+};
+
+export interface CitationAnalysis {
+  valid: ParsedCitation[];
+  invalid: { citation: ParsedCitation, errors: string[] }[];
+  // True when the text had content but no recognisable citation
+  unrecognised: boolean;
+}
+
+export const analyseCitation = (text: string = ""): CitationAnalysis => {
+  const parsed = parseCitations(text);
+  const valid: ParsedCitation[] = [];
+  const invalid: CitationAnalysis['invalid'] = [];
+  const seen = new Set<string>();
+  parsed.forEach(citation => {
+    if (seen.has(citation.canonical)) return;
+    seen.add(citation.canonical);
+    const errors = validateCitation(citation);
+    if (errors.length) invalid.push({ citation, errors });
+    else valid.push(citation);
+  });
+  valid.sort((a, b) => REPORTER_RANK.indexOf(a.reporter) - REPORTER_RANK.indexOf(b.reporter));
+  return { valid, invalid, unrecognised: !parsed.length && Boolean(text.trim()) };
+};
+
+// The single form shown on cards: the highest-ranked valid citation
+export const canonicalCitation = (text: string = ""): string | null => analyseCitation(text).valid[0]?.canonical || null;
+
+export const normaliseCaseName = (name: string = "") =>
+  name
+    .toLowerCase()
+    .replace(/\(retd\.?\)/g, '')
+    .replace(/\b(and others|& ors|and ors|ors|anr|and another)\b\.?/g, '')
+    .replace(/\bvs?\.?\b|\bversus\b/g, ' v ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const citationYears = (judgment: LandmarkJudgment) => new Set(parseCitations(judgment.citation).map(citation => citation.year));
+
+// Same case: any shared citation, or the same parties reported in the same year
+export const isSameCase = (a: LandmarkJudgment, b: LandmarkJudgment): boolean => {
+  const citationsA = new Set(analyseCitation(a.citation).valid.map(citation => citation.canonical));
+  if (analyseCitation(b.citation).valid.some(citation => citationsA.has(citation.canonical))) return true;
+  if (!a.caseName || normaliseCaseName(a.caseName) !== normaliseCaseName(b.caseName)) return false;
+  const yearsA = citationYears(a);
+  const yearsB = citationYears(b);
+  return !yearsA.size || !yearsB.size || Array.from(yearsA).some(year => yearsB.has(year));
+};
+
+const mergeTwo = (kept: LandmarkJudgment, other: LandmarkJudgment): LandmarkJudgment => {
+  const combined = analyseCitation(`${kept.citation}; ${other.citation}`);
+  const citations = [...combined.valid.map(citation => citation.canonical), ...combined.invalid.map(({ citation }) => citation.raw)];
+  return {
+    ...kept,
+    citation: citations.length ? citations.join('; ') : kept.citation || other.citation,
+    freeDownloadLink: kept.freeDownloadLink || other.freeDownloadLink,
+    relatedActs: Array.from(new Set([...(kept.relatedActs || []), ...(other.relatedActs || [])]))
+  };
+};
+
+// Collapse parallel reports of one case into a single judgment carrying every citation
+export const mergeParallelCitations = (judgments: LandmarkJudgment[]): LandmarkJudgment[] =>
+  judgments.reduce<LandmarkJudgment[]>((merged, judgment) => {
+    const index = merged.findIndex(existing => isSameCase(existing, judgment));
+    if (index === -1) return [...merged, judgment];
+    return merged.map((existing, i) => i === index ? mergeTwo(existing, judgment) : existing);
+  }, []);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { diffWords, findOldCitations, lookupProvision, parseProvisionQuery, provisionLabel, sectionBase } from "./correspondenceService";
+
+// "IPC 302 -> BNS 103(1)" for each match, in the direction of the query
+const answers = (query: string) =>
+  lookupProvision(query).map(({ table, entry, side }) => {
+    const other = side === 'old' ? 'new' : 'old';
+    return `${provisionLabel(table, side, entry[side]!)} -> ${entry[other] ? provisionLabel(table, other, entry[other]!) : 'none'}`;
+  });
+
+describe('lookupProvision', () => {
+  it('maps the old codes to the Sanhitas, with the Act before or after the number', () => {
+    expect(answers('IPC 302')).toEqual(['IPC 302 -> BNS 103(1)']);
+    expect(answers('420 IPC')).toEqual(['IPC 420 -> BNS 318(4)']);
+    expect(answers('s. 498A of the Indian Penal Code')).toEqual(['IPC 498A -> BNS 85']);
+    expect(answers('CrPC 438')).toEqual(['CrPC 438 -> BNSS 482']);
+    expect(answers('IEA 65B')).toEqual(['IEA 65B -> BSA 63']);
+  });
+
+  it('maps the Sanhitas back, reading a sub-section as its section when no row has it', () => {
+    expect(answers('BNS 103(1)')).toEqual(['BNS 103(1) -> IPC 302']);
+    expect(answers('BNSS 482(2)')).toEqual(['BNSS 482 -> CrPC 438']);
+  });
+
+  it('reports repealed sections and unknown Acts', () => {
+    expect(answers('IPC 124A')).toEqual(['IPC 124A -> none']);
+    expect(lookupProvision('Motor Vehicles Act 166')).toEqual([]);
+    expect(lookupProvision('sedition')).toEqual([]);
+  });
+
+  it('searches every table on both sides when no Act is named', () => {
+    const parsed = parseProvisionQuery('Section 302');
+    expect(parsed).toMatchObject({ section: '302' });
+    expect(parsed?.side).toBeUndefined();
+    expect(answers('302')).toContain('IPC 302 -> BNS 103(1)');
+  });
+});
+
+describe('findOldCitations', () => {
+  it('finds every spelling of an old citation with its offsets', () => {
+    const text = 'Charged u/s 498A I.P.C. and bail was sought under Sections 437 and 439 of the Cr.P.C.; Section 103 BNS was also cited.';
+    const citations = findOldCitations(text);
+    expect(citations.map(citation => citation.text)).toEqual(['u/s 498A I.P.C.', 'Sections 437 and 439 of the Cr.P.C.']);
+    expect(text.slice(citations[0].start, citations[0].end)).toBe('u/s 498A I.P.C.');
+    expect(citations[0].matches.map(match => match.entry.new)).toEqual(['85']);
+    expect(citations[1].matches.map(match => match.entry.new)).toEqual(['480', '483']);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks the words removed from and added to a provision', () => {
+    expect(diffWords('punished with death, or imprisonment', 'punished with death or imprisonment for life')).toEqual([
+      { kind: 'same', text: 'punished with' },
+      { kind: 'removed', text: 'death,' },
+      { kind: 'added', text: 'death' },
+      { kind: 'same', text: 'or imprisonment' },
+      { kind: 'added', text: 'for life' }
+    ]);
+  });
+
+  it('reads the base number of a sub-section', () => {
+    expect(sectionBase('103(1)')).toBe('103');
+    expect(sectionBase('498a')).toBe('498A');
+  });
+});
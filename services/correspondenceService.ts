@@ -0,0 +1,143 @@
+import { CorrespondenceDataset, CorrespondenceEntry, CorrespondenceTable } from "../types";
+import dataset from "../config/sectionCorrespondence.json";
+import { actKey } from "./citationGraphService";
+
+/**
+ * Section correspondence between the repealed criminal codes and the 2023 Sanhitas: IPC to BNS,
+ * CrPC to BNSS and the Evidence Act to the BSA. The tables ship with the app in
+ * config/sectionCorrespondence.json; bump its version whenever rows are added or corrected.
+ */
+
+export const CORRESPONDENCE = dataset as CorrespondenceDataset;
+
+export type CorrespondenceSide = 'old' | 'new';
+
+export interface ProvisionQuery {
+  // Tables the Act named in the query belongs to; every table when no Act was named
+  tables: CorrespondenceTable[];
+  side?: CorrespondenceSide;
+  section: string;
+}
+
+export interface CorrespondenceMatch {
+  table: CorrespondenceTable;
+  entry: CorrespondenceEntry;
+  // Side of the entry the query matched; the answer is on the other one
+  side: CorrespondenceSide;
+}
+
+export interface WordDiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface OldCitation {
+  start: number;
+  end: number;
+  text: string;
+  table: CorrespondenceTable;
+  matches: CorrespondenceMatch[];
+}
+
+const SECTION_NUMBER = /(\d+[A-Za-z]{0,2})\s*(\(\d+\))?/;
+const SECTION_WORDS = /\b(?:sections?|secs?|ss?|u\/ss?|of|under|the)\b\.?/gi;
+const YEAR = /\b(?:18|19|20)\d{2}\b/g;
+
+const OLD_ACT = '(IPC|I\\.\\s?P\\.\\s?C\\.?|Indian Penal Code(?:,?\\s*1860)?|CrPC|Cr\\.\\s?P\\.\\s?C\\.?|Code of Criminal Procedure(?:,?\\s*1973)?|(?:Indian\\s+)?Evidence Act(?:,?\\s*1872)?|IEA)';
+const SECTION_LIST = '(\\d+[A-Z]{0,2}(?:\\s*\\(\\d+\\))?(?:\\s*(?:,|and|&|/)\\s*\\d+[A-Z]{0,2}(?:\\s*\\(\\d+\\))?)*)';
+// "Section 302 IPC", "Sections 437 and 439 of the Cr.P.C.", "u/s 498A I.P.C." and the bare "302 IPC"
+const OLD_CITATION = new RegExp(`(?:\\b(?:[Ss]ections?|[Ss]ecs?\\.|[Ss]s?\\.|u\\/[Ss]s?\\.?)\\s*)?\\b${SECTION_LIST}\\s*(?:of\\s+)?(?:the\\s+)?${OLD_ACT}`, 'g');
+
+// "103(1)" and "103" share the base number 103; letters are upper-cased, so "498a" is "498A"
+export const sectionBase = (section: string) => section.replace(/\(.*$/, '').trim().toUpperCase();
+
+const normaliseSection = (section: string) => section.replace(/\s+/g, '').toUpperCase();
+
+const tableSide = (table: CorrespondenceTable, key: string): CorrespondenceSide | undefined => {
+  if (actKey(table.oldCode) === key || actKey(table.oldAct) === key) return 'old';
+  if (actKey(table.newCode) === key || actKey(table.newAct) === key) return 'new';
+  return undefined;
+};
+
+// "IPC 302", "302 IPC", "s. 498A of the Indian Penal Code", "BNS 103(1)" or just "302"
+export const parseProvisionQuery = (query: string): ProvisionQuery | null => {
+  const text = query.replace(YEAR, ' ');
+  const match = text.match(SECTION_NUMBER);
+  if (!match) return null;
+  const section = normaliseSection(`${match[1]}${match[2] || ''}`);
+  const rest = text.replace(match[0], ' ').replace(SECTION_WORDS, ' ').trim();
+  if (!rest) return { tables: CORRESPONDENCE.tables, section };
+  const key = actKey(rest);
+  const tables = CORRESPONDENCE.tables.filter(table => tableSide(table, key));
+  if (!tables.length) return null;
+  return { tables, side: tableSide(tables[0], key), section };
+};
+
+// Rows for one section on one side: an exact sub-section match wins, otherwise every row sharing the base number
+const findEntries = (table: CorrespondenceTable, side: CorrespondenceSide, section: string): CorrespondenceEntry[] => {
+  const rows = table.entries.filter(entry => entry[side]);
+  const exact = rows.filter(entry => normaliseSection(entry[side]!) === section);
+  if (exact.length) return exact;
+  return rows.filter(entry => sectionBase(entry[side]!) === sectionBase(section));
+};
+
+export const lookupProvision = (query: string): CorrespondenceMatch[] => {
+  const parsed = parseProvisionQuery(query);
+  if (!parsed) return [];
+  const sides: CorrespondenceSide[] = parsed.side ? [parsed.side] : ['old', 'new'];
+  return parsed.tables.flatMap(table =>
+    sides.flatMap(side => findEntries(table, side, parsed.section).map(entry => ({ table, entry, side }))));
+};
+
+// "IPC 302" or "BNS 103(1)"
+export const provisionLabel = (table: CorrespondenceTable, side: CorrespondenceSide, section: string) =>
+  `${side === 'old' ? table.oldCode : table.newCode} ${section}`;
+
+const tokenise = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Word-level LCS diff of two versions of a provision
+export const diffWords = (before: string, after: string): WordDiffPart[] => {
+  const a = tokenise(before);
+  const b = tokenise(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const parts: WordDiffPart[] = [];
+  const push = (kind: WordDiffPart['kind'], word: string) => {
+    const previous = parts[parts.length - 1];
+    if (previous?.kind === kind) previous.text = `${previous.text} ${word}`;
+    else parts.push({ kind, text: word });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push('removed', a[i++]);
+    else push('added', b[j++]);
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+/**
+ * Citations of sections of the repealed codes in a passage, with the rows they map to, so older
+ * judgments can point the reader at the provision now in force.
+ */
+export const findOldCitations = (text: string = ""): OldCitation[] => {
+  const citations: OldCitation[] = [];
+  OLD_CITATION.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = OLD_CITATION.exec(text))) {
+    const key = actKey(match[2]);
+    const table = CORRESPONDENCE.tables.find(candidate => tableSide(candidate, key) === 'old');
+    if (!table) continue;
+    const sections = match[1].split(/,|and|&|\//).map(normaliseSection).filter(Boolean);
+    const matches = sections.flatMap(section => findEntries(table, 'old', section).map(entry => ({ table, entry, side: 'old' as const })));
+    if (matches.length) citations.push({ start: match.index, end: match.index + match[0].length, text: match[0], table, matches });
+  }
+  return citations;
+};
@@ -0,0 +1,40 @@
+import { CourtFeeDataset, CourtFeeSuitType, ProvisionCitation } from "../types";
+import dataset from "../config/courtFees.json";
+
+/**
+ * Court fee on plaints and appeals in Tamil Nadu. The suit type decides how the suit is valued
+ * under the Tamil Nadu Court-fees and Suits Valuation Act, 1955; the fee is then charged ad
+ * valorem on that value under Schedule I. Rates ship in config/courtFees.json.
+ */
+
+export const COURT_FEES = dataset as CourtFeeDataset;
+
+export interface CourtFeeResult {
+  suit: CourtFeeSuitType;
+  value: number;
+  fee: number;
+  // Detail of the ad valorem calculation, e.g. "1,235 × ₹7.50 per ₹100 or part"
+  working: string;
+  citations: ProvisionCitation[];
+}
+
+export const formatRupees = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: amount % 1 ? 2 : 0, maximumFractionDigits: 2 })}`;
+
+export const computeCourtFee = (suitId: string, value: number): CourtFeeResult | null => {
+  const suit = COURT_FEES.suits.find(item => item.id === suitId);
+  if (!suit || !(value > 0)) return null;
+  const { rate, per, minimum, article } = COURT_FEES.adValorem;
+  const units = Math.ceil(value / per);
+  const fee = Math.max(minimum, Math.round(units * rate * 100) / 100);
+  return {
+    suit,
+    value,
+    fee,
+    working: `${units.toLocaleString('en-IN')} × ${formatRupees(rate)} per ${formatRupees(per)} or part`,
+    citations: [
+      { act: COURT_FEES.act, label: `Section ${suit.section}`, section: suit.section },
+      { act: COURT_FEES.act, label: article }
+    ]
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { DraftTemplate } from "../types";
+import { BUNDLED_TEMPLATES, renderDraft, validateDraftInputs, validateTemplate } from "./draftService";
+
+const template = (changes: Partial<DraftTemplate>): DraftTemplate => ({
+  id: 'test',
+  name: 'Adjournment letter',
+  description: '',
+  version: 1,
+  updatedAt: 0,
+  fields: [
+    { key: 'client', label: 'Client', required: true },
+    { key: 'reason', label: 'Reason', required: true },
+    { key: 'cc', label: 'Copy to', required: false }
+  ],
+  body: 'On behalf of {{client}}, {{ reason }}.\n{{cc}}\nDated {{today}}\n{{briefing.conclusion}}',
+  ...changes
+});
+
+const source = { today: new Date(2026, 9, 19) };
+
+describe('validateTemplate', () => {
+  it('passes every bundled template', () => {
+    BUNDLED_TEMPLATES.forEach(bundled => expect(validateTemplate(bundled).filter(issue => issue.level === 'error')).toEqual([]));
+  });
+
+  it('reports unknown placeholders, stray braces and bad field keys as errors', () => {
+    const issues = validateTemplate(template({
+      body: '{{client}} {{reason}} {{cc}} {{unknown}} and {{broken',
+      fields: [...template({}).fields, { key: 'Bad Key', label: 'Bad', required: false }, { key: 'client', label: 'Client again', required: true }]
+    }));
+    expect(issues.filter(issue => issue.level === 'error').map(issue => issue.message)).toEqual([
+      '"Bad Key" is not a valid field key; use lower-case letters, digits and underscores.',
+      'The field "client" is declared twice.',
+      'Malformed placeholder near "and {{broken".',
+      '{{unknown}} is neither a field of this template nor a built-in value.'
+    ]);
+  });
+
+  it('warns about fields the body does not use', () => {
+    expect(validateTemplate(template({ body: '{{client}} {{reason}}' }))).toEqual([
+      { level: 'warning', field: 'cc', message: 'The field "Copy to" is not used in the body.' }
+    ]);
+  });
+});
+
+describe('renderDraft', () => {
+  it('fills fields and built-in values, and drops lines of empty optional fields', () => {
+    const draft = renderDraft(template({}), { client: 'K. Ramasamy', reason: 'counsel is unwell' }, { ...source, briefing: { provisions: [], arguments: [], conclusion: 'The petition is to be allowed.' } });
+    expect(draft).toBe('On behalf of K. Ramasamy, counsel is unwell.\nDated 19 October 2026\nThe petition is to be allowed.');
+  });
+
+  it('marks missing required values with their label so they cannot be missed', () => {
+    const draft = renderDraft(template({}), { client: 'K. Ramasamy', cc: 'The Registrar' }, source);
+    expect(draft).toBe(`On behalf of K. Ramasamy, [Reason].\nThe Registrar\nDated 19 October 2026\n[Conclusion of the briefing]`);
+    expect(validateDraftInputs(template({}), { client: 'K. Ramasamy' }, source).map(issue => issue.message)).toEqual([
+      'Reason is not filled in.',
+      'No briefing note is selected, so the grounds and provisions are left as markers.'
+    ]);
+  });
+
+  it('numbers briefing provisions and arguments', () => {
+    const body = '{{briefing.provisions}}\n{{briefing.arguments}}';
+    const briefing = { provisions: ['Section 438 BNSS', 'Article 21'], arguments: ['Liberty', 'Parity'], conclusion: '' };
+    expect(renderDraft(template({ body, fields: [] }), {}, { ...source, briefing })).toBe('(1) Section 438 BNSS\n(2) Article 21\n(a) Liberty\n\n(b) Parity');
+  });
+});
@@ -0,0 +1,207 @@
+import { BriefingNote, Draft, DraftField, DraftTemplate, DraftTemplateDataset, Matter } from "../types";
+import dataset from "../config/draftTemplates.json";
+import { readStored, writeStored, createId } from "./localStore";
+
+/**
+ * First drafts of standard documents from a Study Lab briefing note and a few matter details.
+ * Templates are plain text with {{key}} placeholders for their own fields and for the built-in
+ * values below. The bundled templates ship in config/draftTemplates.json; edits are saved as
+ * new versions and every earlier version is kept, so a draft can say which version it used.
+ */
+
+const TEMPLATES_KEY = 'mo-draft-templates';
+const DRAFTS_KEY = 'mo-drafts';
+
+export const BUNDLED_TEMPLATES = (dataset as DraftTemplateDataset).templates;
+
+// Values every template can use without declaring a field
+export const BUILT_IN_PLACEHOLDERS: { key: string, label: string, fromBriefing: boolean }[] = [
+  { key: 'briefing.provisions', label: 'Key provisions of the briefing, numbered', fromBriefing: true },
+  { key: 'briefing.arguments', label: 'Arguments of the briefing, as numbered grounds', fromBriefing: true },
+  { key: 'briefing.conclusion', label: 'Conclusion of the briefing', fromBriefing: true },
+  { key: 'briefing.source', label: 'Title of the judgment or Act the briefing was made from', fromBriefing: true },
+  { key: 'today', label: "Today's date, e.g. 19 October 2026", fromBriefing: false },
+  { key: 'year', label: 'The current year', fromBriefing: false }
+];
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][\w.]*)\s*\}\}/g;
+const FIELD_KEY = /^[a-z][a-z0-9_]*$/;
+
+export interface TemplateStore {
+  // Latest version of every edited or added template; bundled templates not listed here are used as shipped
+  templates: DraftTemplate[];
+  // Earlier versions, newest first
+  history: DraftTemplate[];
+}
+
+export interface DraftIssue {
+  level: 'error' | 'warning';
+  message: string;
+  // Field the issue is about, so the form can mark it
+  field?: string;
+}
+
+export interface DraftSource {
+  briefing?: BriefingNote;
+  sourceTitle?: string;
+  today: Date;
+}
+
+export const loadTemplateStore = (): TemplateStore => readStored<TemplateStore>(TEMPLATES_KEY, { templates: [], history: [] });
+
+export const saveTemplateStore = (store: TemplateStore) => writeStored(TEMPLATES_KEY, store);
+
+// Shipped in config/draftTemplates.json rather than created here
+export const isBundled = (id: string) => BUNDLED_TEMPLATES.some(template => template.id === id);
+
+export const currentTemplates = (store: TemplateStore): DraftTemplate[] => [
+  ...BUNDLED_TEMPLATES.map(template => store.templates.find(edited => edited.id === template.id) || template),
+  ...store.templates.filter(template => !BUNDLED_TEMPLATES.some(bundled => bundled.id === template.id))
+];
+
+export const findTemplate = (store: TemplateStore, id: string) => currentTemplates(store).find(template => template.id === id);
+
+// Every version of a template, newest first
+export const templateVersions = (store: TemplateStore, id: string): DraftTemplate[] => {
+  const current = findTemplate(store, id);
+  const older = store.history.filter(template => template.id === id);
+  const bundled = BUNDLED_TEMPLATES.find(template => template.id === id);
+  // The shipped version joins the history once it has been edited
+  const shipped = bundled && current !== bundled && !older.some(template => template.version === bundled.version) ? [bundled] : [];
+  return [...(current ? [current] : []), ...older, ...shipped].sort((a, b) => b.version - a.version);
+};
+
+export const saveTemplateVersion = (store: TemplateStore, template: DraftTemplate): { store: TemplateStore, template: DraftTemplate } => {
+  const previous = findTemplate(store, template.id);
+  const latest = Math.max(0, ...templateVersions(store, template.id).map(version => version.version));
+  const saved: DraftTemplate = { ...template, version: latest + 1, updatedAt: Date.now() };
+  // The shipped version is always listed from the config, so it is not copied into the history
+  const keepPrevious = previous && !BUNDLED_TEMPLATES.includes(previous) ? [previous] : [];
+  return {
+    store: {
+      templates: [...store.templates.filter(item => item.id !== template.id), saved],
+      history: [...keepPrevious, ...store.history]
+    },
+    template: saved
+  };
+};
+
+// An earlier version comes back as the newest one, so nothing in between is lost
+export const restoreTemplateVersion = (store: TemplateStore, id: string, version: number) => {
+  const restored = templateVersions(store, id).find(template => template.version === version);
+  return restored ? saveTemplateVersion(store, restored) : { store, template: findTemplate(store, id)! };
+};
+
+export const duplicateTemplate = (store: TemplateStore, template: DraftTemplate): { store: TemplateStore, template: DraftTemplate } => {
+  const copy: DraftTemplate = { ...template, id: createId('template-'), name: `${template.name} (copy)`, version: 1, updatedAt: Date.now() };
+  return { store: { ...store, templates: [...store.templates, copy] }, template: copy };
+};
+
+// Only templates created here can be deleted; bundled ones can be restored to their shipped version instead
+export const deleteTemplate = (store: TemplateStore, id: string): TemplateStore => ({
+  templates: store.templates.filter(template => template.id !== id),
+  history: store.history.filter(template => template.id !== id)
+});
+
+export const placeholdersIn = (body: string) => Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER), match => match[1])));
+
+export const validateTemplate = (template: DraftTemplate): DraftIssue[] => {
+  const issues: DraftIssue[] = [];
+  if (!template.name.trim()) issues.push({ level: 'error', message: 'The template needs a name.' });
+  if (!template.body.trim()) issues.push({ level: 'error', message: 'The template body is empty.' });
+
+  const keys = new Set<string>();
+  template.fields.forEach(field => {
+    if (!FIELD_KEY.test(field.key)) issues.push({ level: 'error', field: field.key, message: `"${field.key}" is not a valid field key; use lower-case letters, digits and underscores.` });
+    else if (keys.has(field.key)) issues.push({ level: 'error', field: field.key, message: `The field "${field.key}" is declared twice.` });
+    if (!field.label.trim()) issues.push({ level: 'error', field: field.key, message: `The field "${field.key}" needs a label.` });
+    keys.add(field.key);
+  });
+
+  // Braces left over once the well-formed placeholders are removed are typing mistakes
+  const stray = template.body.replace(PLACEHOLDER, '').match(/.{0,20}(?:\{\{|\}\}).{0,20}/);
+  if (stray) issues.push({ level: 'error', message: `Malformed placeholder near "${stray[0].trim()}".` });
+
+  const used = placeholdersIn(template.body);
+  used.forEach(key => {
+    if (!keys.has(key) && !BUILT_IN_PLACEHOLDERS.some(builtIn => builtIn.key === key)) {
+      issues.push({ level: 'error', message: `{{${key}}} is neither a field of this template nor a built-in value.` });
+    }
+  });
+  template.fields.forEach(field => {
+    if (!used.includes(field.key)) issues.push({ level: 'warning', field: field.key, message: `The field "${field.label || field.key}" is not used in the body.` });
+  });
+  return issues;
+};
+
+// What is still missing before the draft is complete; missing values show as [Label] in the draft
+export const validateDraftInputs = (template: DraftTemplate, values: Record<string, string>, source: DraftSource): DraftIssue[] => {
+  const used = placeholdersIn(template.body);
+  const issues: DraftIssue[] = template.fields
+    .filter(field => field.required && used.includes(field.key) && !values[field.key]?.trim())
+    .map(field => ({ level: 'warning', field: field.key, message: `${field.label} is not filled in.` }));
+  if (!source.briefing && used.some(key => BUILT_IN_PLACEHOLDERS.some(builtIn => builtIn.key === key && builtIn.fromBriefing))) {
+    issues.push({ level: 'warning', message: 'No briefing note is selected, so the grounds and provisions are left as markers.' });
+  }
+  return issues;
+};
+
+const numbered = (items: string[]) => items.map((item, i) => `(${i + 1}) ${item.trim()}`).join('\n');
+
+const builtInValue = (key: string, source: DraftSource): string | undefined => {
+  const { briefing } = source;
+  switch (key) {
+    case 'briefing.provisions': return briefing?.provisions.length ? numbered(briefing.provisions) : undefined;
+    case 'briefing.arguments': return briefing?.arguments.length ? briefing.arguments.map((argument, i) => `(${String.fromCharCode(97 + (i % 26))}) ${argument.trim()}`).join('\n\n') : undefined;
+    case 'briefing.conclusion': return briefing?.conclusion.trim() || undefined;
+    case 'briefing.source': return source.sourceTitle;
+    case 'today': return source.today.toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+    case 'year': return String(source.today.getFullYear());
+    default: return undefined;
+  }
+};
+
+export const renderDraft = (template: DraftTemplate, values: Record<string, string>, source: DraftSource): string => {
+  const labels = new Map<string, string>([
+    ...BUILT_IN_PLACEHOLDERS.map(builtIn => [builtIn.key, builtIn.label] as [string, string]),
+    ...template.fields.map(field => [field.key, field.label] as [string, string])
+  ]);
+  const optional = new Set(template.fields.filter(field => !field.required).map(field => field.key));
+  return template.body
+    .split('\n')
+    // A line that only held an optional value that was left empty is dropped
+    .filter(line => {
+      const only = line.trim().match(/^\{\{\s*([A-Za-z][\w.]*)\s*\}\}$/);
+      return !only || !optional.has(only[1]) || Boolean(values[only[1]]?.trim());
+    })
+    .join('\n')
+    .replace(PLACEHOLDER, (_, key: string) => {
+      const value = BUILT_IN_PLACEHOLDERS.some(builtIn => builtIn.key === key) ? builtInValue(key, source) : values[key]?.trim();
+      if (value) return value;
+      return optional.has(key) ? '' : `[${labels.get(key) || key}]`;
+    });
+};
+
+// Details of a matter that fill the fields of the same name
+export const matterValues = (matter: Matter): Record<string, string> => ({
+  ...(matter.client ? { client_name: matter.client } : {}),
+  ...(matter.court ? { court: matter.court } : {}),
+  ...(matter.caseRef ? { case_number: matter.caseRef } : {})
+});
+
+export const fieldLabel = (field: DraftField) => field.required ? field.label : `${field.label} (optional)`;
+
+export const loadDrafts = (): Draft[] => readStored<Draft[]>(DRAFTS_KEY, []);
+
+export const saveDrafts = (drafts: Draft[]) => writeStored(DRAFTS_KEY, drafts);
+
+export const createDraft = (drafts: Draft[], details: Omit<Draft, 'id' | 'createdAt' | 'updatedAt'>): { drafts: Draft[], draft: Draft } => {
+  const now = Date.now();
+  const draft: Draft = { ...details, id: createId('draft-'), createdAt: now, updatedAt: now };
+  return { drafts: [draft, ...drafts], draft };
+};
+
+export const updateDraft = (drafts: Draft[], id: string, changes: Partial<Omit<Draft, 'id' | 'createdAt'>>): Draft[] =>
+  drafts.map(draft => draft.id === id ? { ...draft, ...changes, updatedAt: Date.now() } : draft);
+
+export const deleteDraft = (drafts: Draft[], id: string): Draft[] => drafts.filter(draft => draft.id !== id);
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { exportBriefingDocx, exportFlashcardsCsv, exportMindMapOpml, renderMindMapSvg } from "./exportService";
+
+const downloads = vi.hoisted(() => [] as { filename: string, blob: Blob }[]);
+
+vi.mock("./localStore", () => ({
+  downloadBlob: (filename: string, blob: Blob) => downloads.push({ filename, blob })
+}));
+
+const meta = { sourceTitle: 'Arnesh Kumar v. State of Bihar', generatedAt: new Date(2026, 9, 19).getTime() };
+
+beforeEach(() => {
+  downloads.length = 0;
+});
+
+describe('exportBriefingDocx', () => {
+  it('writes a DOCX package with the briefing escaped into the document', async () => {
+    exportBriefingDocx({ provisions: ['Section 41A CrPC'], arguments: ['Arrest is not <automatic> & must be justified'], conclusion: 'Guidelines apply.' }, meta);
+    const [{ filename, blob }] = downloads;
+    expect(filename).toBe('arnesh-kumar-v-state-of-bihar-briefing.docx');
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    const archive = await blob.text();
+    expect(archive).toContain('[Content_Types].xml');
+    expect(archive).toContain('1.\tArrest is not &lt;automatic&gt; &amp; must be justified');
+  });
+
+  it('drops characters XML 1.0 forbids, which make Word refuse the file', async () => {
+    exportBriefingDocx({ provisions: ['Section\u000B 41A\u0000 CrPC\uFFFF'], arguments: [], conclusion: 'Tabs\tand\nnew lines stay.' }, meta);
+    const archive = await downloads[0].blob.text();
+    expect(archive).toContain('•\tSection 41A CrPC</w:t>');
+    expect(archive).toContain('Tabs\tand\nnew lines stay.');
+  });
+});
+
+describe('exportFlashcardsCsv', () => {
+  it('writes Anki headers and quotes every field', async () => {
+    exportFlashcardsCsv([{ question: 'What does "bail" mean?', answer: 'Release; on conditions' }], meta);
+    const lines = (await downloads[0].blob.text()).split('\n');
+    expect(lines.slice(0, 4)).toEqual(['#separator:Semicolon', '#html:false', '#tags column:3', '#notetype:Basic']);
+    expect(lines[5]).toBe('"What does ""bail"" mean?";"Release; on conditions";"arnesh_kumar_v_state_of_bihar_mo"');
+  });
+});
+
+describe('mind map exports', () => {
+  const root = { id: 'root', label: 'Bail & arrest', children: [{ id: 'a', label: 'Section 41A' }, { id: 'b', label: 'Section 437' }] };
+
+  it('draws every node with its label escaped', () => {
+    const { svg, width } = renderMindMapSvg(root, meta);
+    expect(svg.match(/<rect x=/g)).toHaveLength(3);
+    expect(svg).toContain('>Bail &amp; arrest</text>');
+    expect(width).toBeGreaterThanOrEqual(480);
+  });
+
+  it('nests the outline in OPML', async () => {
+    exportMindMapOpml(root, meta);
+    const opml = await downloads[0].blob.text();
+    expect(opml).toContain('<outline text="Bail &amp; arrest">\n      <outline text="Section 41A"/>');
+    expect(downloads[0].filename).toBe('arnesh-kumar-v-state-of-bihar-mind-map.opml');
+  });
+});
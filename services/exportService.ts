@@ -0,0 +1,239 @@
+import { BriefingNote, Draft, Flashcard, MindMapNode } from "../types";
+import { createZip } from "./zipWriter";
+import { downloadBlob } from "./localStore";
+import { layoutMindMap, truncateLabel, LaidOutNode, NODE_HEIGHT, COLUMN_GAP } from "./mindMapService";
+
+/**
+ * File exports for Study Lab output: briefing notes (DOCX, print-to-PDF), flashcards
+ * (Anki CSV) and mind maps (SVG, PNG, OPML). Every export carries the source title and
+ * the generation date so it can go straight into a case file. Drafts from the drafting
+ * module export to DOCX as well.
+ */
+
+export interface ExportMeta {
+  sourceTitle: string;
+  generatedAt: number;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' });
+
+// File-system friendly stem, e.g. "Kesavananda Bharati v. State" -> "kesavananda-bharati-v-state"
+const fileStem = (meta: ExportMeta, suffix: string) =>
+  `${meta.sourceTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'study-lab'}-${suffix}`;
+
+// Characters XML 1.0 does not allow even when escaped; one of them in model output makes Word refuse the file
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|[\uD800-\uDFFF]/gu;
+
+const escapeXml = (value: string) =>
+  value.replace(INVALID_XML_CHARS, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// ---------- Word documents ----------
+
+interface DocxParagraphOptions {
+  bold?: boolean;
+  italic?: boolean;
+  size?: number;
+  colour?: string;
+  spacingAfter?: number;
+  indent?: number;
+  align?: 'center' | 'right';
+  font?: string;
+}
+
+const docxParagraph = (text: string, options: DocxParagraphOptions = {}) => {
+  const font = options.font || 'Georgia';
+  const runProps = [
+    options.bold ? '<w:b/>' : '',
+    options.italic ? '<w:i/>' : '',
+    options.colour ? `<w:color w:val="${options.colour}"/>` : '',
+    options.size ? `<w:sz w:val="${options.size * 2}"/>` : ''
+  ].join('');
+  const paraProps = `<w:pPr><w:spacing w:after="${options.spacingAfter ?? 160}"/>${options.indent ? `<w:ind w:left="${options.indent}" w:hanging="360"/>` : ''}${options.align ? `<w:jc w:val="${options.align}"/>` : ''}</w:pPr>`;
+  return `<w:p>${paraProps}<w:r><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}"/>${runProps}</w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+};
+
+// A one-part Word document holding the given paragraphs on A4 with one-inch margins
+const docxBlob = (body: string) => createZip([
+  {
+    name: '[Content_Types].xml',
+    content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>'
+  },
+  {
+    name: '_rels/.rels',
+    content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>'
+  },
+  {
+    name: 'word/document.xml',
+    content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`
+  }
+], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+
+// ---------- Briefing note ----------
+
+export const exportBriefingDocx = (briefing: BriefingNote, meta: ExportMeta) => {
+  const body = [
+    docxParagraph('M&O LAW OFFICE — BRIEFING NOTE', { bold: true, size: 10, colour: 'B45309', spacingAfter: 80 }),
+    docxParagraph(meta.sourceTitle, { bold: true, size: 20, spacingAfter: 80 }),
+    docxParagraph(`Generated on ${formatDate(meta.generatedAt)}`, { italic: true, size: 9, colour: '64748B', spacingAfter: 360 }),
+    docxParagraph('Key Provisions', { bold: true, size: 13, colour: 'B45309' }),
+    ...briefing.provisions.map(p => docxParagraph(`•\t${p}`, { indent: 720 })),
+    docxParagraph('Arguments for Advocates', { bold: true, size: 13, colour: '4338CA' }),
+    ...briefing.arguments.map((a, i) => docxParagraph(`${i + 1}.\t${a}`, { indent: 720 })),
+    ...(briefing.sections || []).flatMap(section => [
+      docxParagraph(section.title, { bold: true, size: 13, colour: '047857' }),
+      ...section.points.map(point => docxParagraph(`•\t${point}`, { indent: 720 }))
+    ]),
+    docxParagraph('Summary Conclusion', { bold: true, size: 13 }),
+    docxParagraph(briefing.conclusion, { italic: true })
+  ].join('');
+
+  downloadBlob(`${fileStem(meta, 'briefing')}.docx`, docxBlob(body));
+};
+
+// Open a print-ready copy; the browser's print dialog saves it as PDF
+export const printBriefingPdf = (briefing: BriefingNote, meta: ExportMeta) => {
+  const html = `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeXml(meta.sourceTitle)} — Briefing Note</title>
+<style>
+  @page { size: A4; margin: 2.5cm; }
+  body { font-family: Georgia, serif; color: #0f172a; line-height: 1.6; }
+  .firm { font: 700 10px/1 sans-serif; letter-spacing: .2em; color: #b45309; text-transform: uppercase; }
+  h1 { font-size: 24px; margin: 8px 0 4px; }
+  .date { color: #64748b; font-style: italic; font-size: 12px; margin-bottom: 32px; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: .1em; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin-top: 28px; }
+  .conclusion { font-style: italic; }
+</style></head><body>
+<div class="firm">M&amp;O Law Office — Briefing Note</div>
+<h1>${escapeXml(meta.sourceTitle)}</h1>
+<div class="date">Generated on ${escapeXml(formatDate(meta.generatedAt))}</div>
+<h2>Key Provisions</h2><ul>${briefing.provisions.map(p => `<li>${escapeXml(p)}</li>`).join('')}</ul>
+<h2>Arguments for Advocates</h2><ol>${briefing.arguments.map(a => `<li>${escapeXml(a)}</li>`).join('')}</ol>
+${(briefing.sections || []).map(section => `<h2>${escapeXml(section.title)}</h2><ul>${section.points.map(point => `<li>${escapeXml(point)}</li>`).join('')}</ul>`).join('\n')}
+<h2>Summary Conclusion</h2><p class="conclusion">${escapeXml(briefing.conclusion)}</p>
+</body></html>`;
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error('The browser blocked the print window; allow pop-ups for this site');
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+// ---------- Drafts ----------
+
+// Court headings and titles are typed in capitals; they are centred and set in bold
+const isHeadingLine = (line: string) => line.length <= 120 && /[A-Z]/.test(line) && line === line.toUpperCase();
+
+export const exportDraftDocx = (draft: Draft) => {
+  const lines = draft.text.replace(/\r\n/g, '\n').split('\n');
+  const body = lines.map((line, i) => {
+    if (!line.trim()) return '';
+    // Lines of one block sit together; a blank line after a block opens up the space
+    const spacingAfter = lines[i + 1]?.trim() ? 0 : 240;
+    const heading = isHeadingLine(line.trim());
+    return docxParagraph(line.trim(), { font: 'Times New Roman', size: 12, spacingAfter, bold: heading, align: heading ? 'center' : undefined });
+  }).join('');
+  const stem = draft.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'draft';
+  downloadBlob(`${stem}.docx`, docxBlob(body));
+};
+
+// ---------- Flashcards ----------
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Anki (2.1.55+) reads the header lines to pick the separator and the tags column on import
+export const exportFlashcardsCsv = (flashcards: Flashcard[], meta: ExportMeta) => {
+  const tag = fileStem(meta, 'mo').replace(/-/g, '_');
+  const rows = flashcards.map(card => [card.question, card.answer, tag].map(csvField).join(';'));
+  const csv = [
+    '#separator:Semicolon',
+    '#html:false',
+    '#tags column:3',
+    `#notetype:Basic`,
+    `# Source: ${meta.sourceTitle.replace(/\n/g, ' ')} | Generated on ${formatDate(meta.generatedAt)}`,
+    ...rows
+  ].join('\n');
+  downloadBlob(`${fileStem(meta, 'flashcards')}.csv`, new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+};
+
+// ---------- Mind map ----------
+
+const HEADER_HEIGHT = 64;
+const MARGIN = 32;
+
+export const renderMindMapSvg = (root: MindMapNode, meta: ExportMeta): { svg: string, width: number, height: number } => {
+  const { tree, right, bottom } = layoutMindMap(root, { x: MARGIN, y: HEADER_HEIGHT + MARGIN });
+  const width = Math.max(right + MARGIN, 480);
+  const height = bottom + MARGIN;
+  const parts: string[] = [];
+  const draw = (item: LaidOutNode, depth: number) => {
+    item.children.forEach(child => {
+      const startX = item.x + item.width;
+      const startY = item.y + NODE_HEIGHT / 2;
+      const endY = child.y + NODE_HEIGHT / 2;
+      const midX = startX + COLUMN_GAP / 2;
+      parts.push(`<path d="M${startX},${startY} C${midX},${startY} ${midX},${endY} ${child.x},${endY}" fill="none" stroke="#cbd5e1" stroke-width="1.5"/>`);
+      draw(child, depth + 1);
+    });
+    const fill = depth === 0 ? '#020617' : '#ffffff';
+    const textColour = depth === 0 ? '#ffffff' : '#1e293b';
+    parts.push(`<rect x="${item.x}" y="${item.y}" width="${item.width}" height="${NODE_HEIGHT}" rx="10" fill="${fill}" stroke="${depth === 0 ? '#f59e0b' : '#e2e8f0'}"/>`);
+    parts.push(`<text x="${item.x + 14}" y="${item.y + NODE_HEIGHT / 2 + 4}" font-family="Inter, Arial, sans-serif" font-size="12" font-weight="700" fill="${textColour}">${escapeXml(truncateLabel(item.node.label, item.width))}</text>`);
+  };
+  draw(tree, 0);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="100%" height="100%" fill="#f1f5f9"/>
+<text x="${MARGIN}" y="${MARGIN + 4}" font-family="Georgia, serif" font-size="16" font-weight="700" fill="#0f172a">${escapeXml(meta.sourceTitle)}</text>
+<text x="${MARGIN}" y="${MARGIN + 24}" font-family="Inter, Arial, sans-serif" font-size="10" fill="#64748b">Generated on ${escapeXml(formatDate(meta.generatedAt))} · M&amp;O Law Office</text>
+${parts.join('\n')}
+</svg>`;
+  return { svg, width, height };
+};
+
+export const exportMindMapSvg = (root: MindMapNode, meta: ExportMeta) => {
+  const { svg } = renderMindMapSvg(root, meta);
+  downloadBlob(`${fileStem(meta, 'mind-map')}.svg`, new Blob([svg], { type: 'image/svg+xml' }));
+};
+
+export const exportMindMapPng = async (root: MindMapNode, meta: ExportMeta, scale: number = 2) => {
+  const { svg, width, height } = renderMindMapSvg(root, meta);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Could not render mind map'));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error('Could not encode the image');
+    downloadBlob(`${fileStem(meta, 'mind-map')}.png`, png);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const exportMindMapOpml = (root: MindMapNode, meta: ExportMeta) => {
+  const outline = (node: MindMapNode, indent: string): string =>
+    node.children?.length
+      ? `${indent}<outline text="${escapeXml(node.label)}">\n${node.children.map(child => outline(child, indent + '  ')).join('\n')}\n${indent}</outline>`
+      : `${indent}<outline text="${escapeXml(node.label)}"/>`;
+  const opml = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(meta.sourceTitle)}</title>
+    <dateCreated>${new Date(meta.generatedAt).toUTCString()}</dateCreated>
+    <ownerName>M&amp;O Law Office</ownerName>
+  </head>
+  <body>
+${outline(root, '    ')}
+  </body>
+</opml>`;
+  downloadBlob(`${fileStem(meta, 'mind-map')}.opml`, new Blob([opml], { type: 'text/x-opml' }));
+};
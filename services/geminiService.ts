@@ -1,6 +1,28 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { LegalNews, ScholarlyArticle, LandmarkJudgment, BareAct, Flashcard, MindMapNode, StudyMaterials } from "../types";
+import { LegalNews, ScholarlyArticle, AcademyMaterial, ArticleFilters, LandmarkJudgment, BareAct, BareActFilters, ExtractedContent, Flashcard, MindMapNode, StudyMaterials, AnalysisProfile, QuizQuestion, StructuredAct, SourcePolicy, SourceTab, SearchResults } from "../types";
+import { applyArticleFilters, applyBareActQuery, EXTRACTION_FAILED_TEXT } from "./legalText";
+import { alignBriefingSections } from "./analysisProfiles";
+import { buildMindMapTree, FlatMindMapNode } from "./mindMapService";
+import { normaliseQuizQuestions } from "./quizService";
+import { mergeParallelCitations } from "./citationService";
+import { parseActText } from "./bareActService";
+import { cleanLegalData, sourceGuidance, groupedSourceGuidance } from "./sourcePolicy";
+import { LegalDataProvider, LegalDataTask } from "./legalDataProvider";
+
+// Gemini implementation of LegalDataProvider. Server-side only: loaded by the API middleware in
+// server/legalApi.ts so the key never reaches the browser bundle.
+
+// Source policy tab whose preferred sources apply to each group of a cross-tab search
+const SEARCH_GROUP_TABS: Record<keyof SearchResults, SourceTab> = {
+  news: 'news',
+  articles: 'articles',
+  academy: 'academy',
+  supremeCourt: 'supreme-court',
+  tamilNadu: 'tamil-nadu',
+  judgments: 'judgments',
+  acts: 'bare-acts'
+};
 
 /**
  * Utility to handle API calls with exponential backoff retry logic
@@ -32,386 +54,631 @@ async function callGeminiWithRetry<T>(
   throw lastError;
 }
 
-// Updated cleanLegalData with a more inclusive constraint to support all legal data types
-// This fix addresses the missing property errors by allowing title, name, and caseName as well as different URL types.
-const cleanLegalData = <T extends { 
-  title?: string; 
-  name?: string; 
-  caseName?: string; 
-  summary?: string; 
-  description?: string;
-  url?: string; 
-  link?: string; 
-  sourceUrl?: string;
-  downloadUrl?: string; 
-  freeAlternativeUrl?: string; 
-  secondarySourceUrl?: string; 
-  pdfUrl?: string; 
-  downloadLink?: string;
-  freeDownloadLink?: string;
-}>(data: T[]): T[] => {
-  const errorPatterns = [/404/i, /page not found/i, /oops/i, /error 404/i, /not found/i, /access denied/i, /maintenance/i, /forbidden/i];
-  const blockedDomains = ['livelaw.in', 'barandbench.com', 'scconline.com', 'manupatra.com'];
-
-  return data.filter(item => {
-    // Check multiple possible text fields for error patterns
-    const textToCheck = `${item.title || item.name || item.caseName || ''} ${item.summary || item.description || ''}`.toLowerCase();
-    // Check multiple possible URL fields for validity and blocklisting
-    const urlsToCheck = [
-      item.url, 
-      item.link, 
-      item.sourceUrl, 
-      item.downloadUrl, 
-      item.freeAlternativeUrl, 
-      item.secondarySourceUrl, 
-      item.pdfUrl, 
-      item.downloadLink, 
-      item.freeDownloadLink
-    ].filter(Boolean) as string[];
-    
-    const hasErrorText = errorPatterns.some(pattern => pattern.test(textToCheck));
-    const hasBlockedDomain = urlsToCheck.some(url => blockedDomains.some(domain => url.toLowerCase().includes(domain)));
-    
-    const hasBadUrl = urlsToCheck.some(url => {
-      const lowerUrl = url.toLowerCase();
-      if (!lowerUrl.startsWith('http')) return true;
-      if (lowerUrl.length < 15) return true;
-      if (url.includes('...') || url.includes('…')) return true;
-      if (lowerUrl.includes('example.com') || lowerUrl.includes('placeholder')) return true;
-      return false;
-    });
-
-    return !hasErrorText && !hasBadUrl && !hasBlockedDomain && urlsToCheck.length > 0;
-  });
+/**
+ * Model used for each task unless overridden in GeminiProviderConfig.models.
+ * Extraction and feeds need search grounding and speed; study materials need deeper reasoning.
+ */
+export const DEFAULT_GEMINI_MODELS: Record<LegalDataTask, string> = {
+  news: 'gemini-3-flash-preview',
+  articles: 'gemini-3-flash-preview',
+  academy: 'gemini-3-flash-preview',
+  'tamil-nadu': 'gemini-3-flash-preview',
+  'supreme-court': 'gemini-3-flash-preview',
+  judgments: 'gemini-3-flash-preview',
+  'bare-acts': 'gemini-3-flash-preview',
+  extract: 'gemini-3-flash-preview',
+  'act-text': 'gemini-3-flash-preview',
+  'study-materials': 'gemini-3-pro-preview',
+  quiz: 'gemini-3-pro-preview',
+  suggestions: 'gemini-3-flash-preview',
+  search: 'gemini-3-flash-preview'
 };
 
-export interface ExtractedContent {
-  text: string;
-  mentions: {
-    name: string;
-    type: 'act' | 'judgment';
-  }[];
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  models?: Partial<Record<LegalDataTask, string>>;
 }
 
-export const extractResourceContent = async (title: string, url: string): Promise<ExtractedContent> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Extract the full legal text or detailed analytical summary for: "${title}" from the live webpage: ${url}. 
-      Focus on structured sections: facts, laws mentioned, and findings. Avoid ads. 
-      ALSO, identify all specific Indian Bare Acts and Landmark Judgments mentioned in the content.
-      Return as a JSON object.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            text: { type: Type.STRING },
-            mentions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ['act', 'judgment'] }
-                },
-                required: ["name", "type"]
+export const createGeminiProvider = (config: GeminiProviderConfig = {}): LegalDataProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const models: Record<LegalDataTask, string> = { ...DEFAULT_GEMINI_MODELS, ...config.models };
+
+  const extractResourceContent = async (title: string, url: string): Promise<ExtractedContent> => {
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.extract,
+        contents: `Extract the full legal text or detailed analytical summary for: "${title}" from the live webpage: ${url}. 
+        Focus on structured sections: facts, laws mentioned, and findings. Avoid ads. 
+        ALSO, identify all specific Indian Bare Acts and Landmark Judgments mentioned in the content.
+        Return as a JSON object.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING },
+              mentions: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING },
+                    type: { type: Type.STRING, enum: ['act', 'judgment'] }
+                  },
+                  required: ["name", "type"]
+                }
               }
-            }
-          },
-          required: ["text", "mentions"]
+            },
+            required: ["text", "mentions"]
+          }
         }
-      }
+      });
+      return JSON.parse(response.text || "{}");
+    }).catch(() => ({ text: EXTRACTION_FAILED_TEXT, mentions: [] }));
+  };
+
+  // The model only transcribes; the structure comes from parseActText so every Act is split the same way
+  const fetchActText = async (name: string, url?: string): Promise<StructuredAct> => {
+    const generated: { text?: string } = await callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models['act-text'],
+        contents: `Transcribe the official text of the Indian Bare Act "${name}"${url ? ` from ${url} or its IndiaCode page` : ' from IndiaCode.nic.in'}.
+        Reproduce the wording exactly, without commentary or footnotes, one provision per line in this layout:
+        "PART III" and "CHAPTER VI" headings on their own line, followed by the heading title in capitals on the next line.
+        Each section starts "<number>. <heading>.—<text>", e.g. "103. Punishment for murder.—(1) Whoever commits murder...".
+        Every sub-section "(1)", clause "(a)", sub-clause "(i)", proviso ("Provided that..."), "Explanation.—" and "Exception.—" on its own line.
+        Put "Illustrations" on its own line before the lettered illustrations.
+        Return a JSON object with the whole text in "text".`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { text: { type: Type.STRING } },
+            required: ["text"]
+          }
+        }
+      });
+      return JSON.parse(response.text || "{}");
     });
-    return JSON.parse(response.text || "{}");
-  }).catch(() => ({ text: "Extraction failed due to heavy traffic. Please try again in a moment.", mentions: [] }));
-};
+    const act = parseActText(name, url || '', generated.text || '');
+    if (!act.parts.length) throw new Error(`No sections could be read from ${name}`);
+    return act;
+  };
 
-export const generateStudyMaterials = async (content: string): Promise<StudyMaterials> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: `Analyze the following legal text as a senior legal researcher for M&O Law Office: "${content}". 
-      Create:
-      1. 5 Flashcards for key provisions.
-      2. A hierarchical Mind Map of concepts.
-      3. A Briefing Note for an advocate (Key provisions, Core arguments, and Conclusion).
-      Return only a JSON object matching the schema.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            flashcards: {
-              type: Type.ARRAY,
-              items: {
+  const generateStudyMaterials = async (content: string, profile: AnalysisProfile): Promise<StudyMaterials> => {
+    const sectionTitles = profile.sections.map(section => `"${section.title}"`).join(', ');
+    const generated: Omit<StudyMaterials, 'mindMap'> & { mindMapNodes?: FlatMindMapNode[] } = await callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models['study-materials'],
+        contents: `Analyze the following legal text as a senior legal researcher for M&O Law Office: "${content}". 
+        Subject: ${profile.subject}. ${profile.focus}
+        Create:
+        1. Exactly ${profile.flashcardCount} Flashcards for key provisions, framed for ${profile.subject}.
+        2. A hierarchical Mind Map of concepts as a flat "mindMapNodes" list: one root node without parentId, every other node naming its parent in parentId, nested as deep as the analysis needs (typically 3-4 levels). Give each node a short verbatim "passage" from the text that supports it.
+        3. A Briefing Note for an advocate (Key provisions, Core arguments, and Conclusion).
+        The briefing "sections" array must contain these sections in this order, each with its own points: ${sectionTitles}.
+        Return only a JSON object matching the schema.`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              flashcards: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    question: { type: Type.STRING },
+                    answer: { type: Type.STRING }
+                  },
+                  required: ["question", "answer"]
+                }
+              },
+              mindMapNodes: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    id: { type: Type.STRING },
+                    label: { type: Type.STRING },
+                    parentId: { type: Type.STRING },
+                    passage: { type: Type.STRING }
+                  },
+                  required: ["id", "label"]
+                }
+              },
+              briefing: {
                 type: Type.OBJECT,
                 properties: {
-                  question: { type: Type.STRING },
-                  answer: { type: Type.STRING }
+                  provisions: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  arguments: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  conclusion: { type: Type.STRING },
+                  sections: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        title: { type: Type.STRING },
+                        points: { type: Type.ARRAY, items: { type: Type.STRING } }
+                      },
+                      required: ["title", "points"]
+                    }
+                  }
                 },
-                required: ["question", "answer"]
+                required: ["provisions", "arguments", "conclusion", "sections"]
               }
             },
-            mindMap: {
+            required: ["flashcards", "mindMapNodes", "briefing"]
+          }
+        }
+      });
+      return JSON.parse(response.text || "{}");
+    });
+    const { mindMapNodes, ...materials } = generated;
+    return {
+      ...materials,
+      flashcards: (materials.flashcards || []).slice(0, profile.flashcardCount),
+      mindMap: buildMindMapTree(mindMapNodes || [], profile.subject),
+      briefing: { ...materials.briefing, sections: alignBriefingSections(profile, materials.briefing?.sections) }
+    };
+  };
+
+  const generateQuiz = async (content: string, profile: AnalysisProfile): Promise<QuizQuestion[]> => {
+    const questions: Partial<QuizQuestion>[] = await callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.quiz,
+        contents: `Set a practice test on the following legal text in the style of the Tamil Nadu State Judicial Service examination: "${content}".
+        Subject: ${profile.subject}. ${profile.focus}
+        Include:
+        1. 5 multiple-choice questions ("mcq") with 4 options each. answerIndex is the zero-based index of the correct option. Every option needs an explanation of why it is right or wrong.
+        2. 3 "identify-section" questions: a short fact scenario; acceptedAnswers lists the applicable provision written as "Section <number> <Act abbreviation>" (add the corresponding IPC or CrPC section if the provision replaced one).
+        3. 2 "short-answer" questions in the style of the mains paper, with a model answer and 3 to 5 keyPoints forming the marking scheme.
+        Tag every question with a short topic such as "Bail" or "Ingredients of Offence", and give marks (1 for mcq, 2 for identify-section, 5 for short-answer).
+        Return only a JSON array matching the schema.`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
               type: Type.OBJECT,
               properties: {
-                id: { type: Type.STRING },
-                label: { type: Type.STRING },
-                children: {
+                type: { type: Type.STRING, enum: ["mcq", "identify-section", "short-answer"] },
+                topic: { type: Type.STRING },
+                prompt: { type: Type.STRING },
+                marks: { type: Type.NUMBER },
+                options: {
                   type: Type.ARRAY,
                   items: {
                     type: Type.OBJECT,
                     properties: {
-                      id: { type: Type.STRING },
-                      label: { type: Type.STRING }
+                      text: { type: Type.STRING },
+                      explanation: { type: Type.STRING }
                     },
-                    required: ["id", "label"]
+                    required: ["text", "explanation"]
                   }
-                }
-              },
-              required: ["id", "label"]
-            },
-            briefing: {
-              type: Type.OBJECT,
-              properties: {
-                provisions: { type: Type.ARRAY, items: { type: Type.STRING } },
-                arguments: { type: Type.ARRAY, items: { type: Type.STRING } },
-                conclusion: { type: Type.STRING }
+                },
+                answerIndex: { type: Type.INTEGER },
+                acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+                modelAnswer: { type: Type.STRING },
+                keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } }
               },
-              required: ["provisions", "arguments", "conclusion"]
+              required: ["type", "topic", "prompt", "modelAnswer"]
             }
-          },
-          required: ["flashcards", "mindMap", "briefing"]
+          }
         }
-      }
+      });
+      return JSON.parse(response.text || "[]");
     });
-    return JSON.parse(response.text || "{}");
-  });
-};
+    return normaliseQuizQuestions(questions);
+  };
 
-export const fetchSearchSuggestions = async (input: string): Promise<string[]> => {
-  if (!input || input.length < 2) return [];
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Legal suggestions for "${input}". JSON array.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } }
-      }
-    });
-    return JSON.parse(response.text || "[]");
-  }).catch(() => []);
-};
+  const fetchSearchSuggestions = async (input: string): Promise<string[]> => {
+    if (!input || input.length < 2) return [];
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.suggestions,
+        contents: `Legal suggestions for "${input}". JSON array.`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } }
+        }
+      });
+      return JSON.parse(response.text || "[]");
+    }).catch(() => []);
+  };
 
-export const fetchLegalNews = async (page: number = 1): Promise<LegalNews[]> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Fetch today's Indian legal news and daily updates. 
-      PRIORITIZE: https://www.verdictum.in/, The Leaflet, India Legal Live, and official High Court/Supreme Court press releases. 
-      STRICT RULE: Only include FULL, VERIFIED, and LIVE URLs. Do not guess or truncate URLs with '...'. 
-      Avoid paywalled sites like LiveLaw or Bar and Bench. Batch ${page}.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { 
-            type: Type.OBJECT, 
-            properties: { 
-              title: { type: Type.STRING }, 
-              summary: { type: Type.STRING }, 
-              url: { type: Type.STRING }, 
-              source: { type: Type.STRING }, 
-              date: { type: Type.STRING } 
-            }, 
-            required: ["title", "summary", "url", "source", "date"] 
+  // One grounded call for every feed at once; each group is cleaned under its own tab's policy
+  const searchLegalData = async (query: string, policy: SourcePolicy): Promise<SearchResults> => {
+    const articleItem = {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        author: { type: Type.STRING },
+        summary: { type: Type.STRING },
+        url: { type: Type.STRING },
+        downloadUrl: { type: Type.STRING },
+        source: { type: Type.STRING },
+        act: { type: Type.STRING },
+        topic: { type: Type.STRING }
+      },
+      required: ["title", "author", "summary", "url", "source"]
+    };
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.search,
+        contents: `Search Indian legal sources for: "${query}".
+        Return up to five results in each group, and leave a group empty rather than pad it:
+        - news: recent legal news reports (with the publication date)
+        - articles: law journal articles and legal blog posts, each with a short 'topic'
+        - academy: training material from the National Judicial Academy, State Judicial Academies and TNSJA, with 'academy', 'course', 'module' and 'date'
+        - supremeCourt: Supreme Court case summaries
+        - tamilNadu: Tamil Nadu law updates and Madras High Court matters
+        - judgments: landmark judgments, with every reported citation separated by "; " and the Acts they interpret in 'relatedActs'
+        - acts: Bare Acts on IndiaCode.nic.in, with 'jurisdiction' set to "central" or "state"
+        STRICT RULE: Only include FULL, VERIFIED and LIVE URLs. Do not guess or truncate URLs.
+        ${groupedSourceGuidance(policy, SEARCH_GROUP_TABS)}`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              news: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: { title: { type: Type.STRING }, summary: { type: Type.STRING }, url: { type: Type.STRING }, source: { type: Type.STRING }, date: { type: Type.STRING } },
+                  required: ["title", "summary", "url", "source", "date"]
+                }
+              },
+              articles: { type: Type.ARRAY, items: articleItem },
+              academy: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    title: { type: Type.STRING },
+                    academy: { type: Type.STRING },
+                    course: { type: Type.STRING },
+                    module: { type: Type.STRING },
+                    date: { type: Type.STRING },
+                    summary: { type: Type.STRING },
+                    url: { type: Type.STRING }
+                  },
+                  required: ["title", "academy", "course", "summary", "url"]
+                }
+              },
+              supremeCourt: { type: Type.ARRAY, items: articleItem },
+              tamilNadu: { type: Type.ARRAY, items: articleItem },
+              judgments: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    caseName: { type: Type.STRING },
+                    citation: { type: Type.STRING },
+                    act: { type: Type.STRING },
+                    summary: { type: Type.STRING },
+                    impact: { type: Type.STRING },
+                    link: { type: Type.STRING },
+                    freeDownloadLink: { type: Type.STRING },
+                    bench: { type: Type.STRING },
+                    relatedActs: { type: Type.ARRAY, items: { type: Type.STRING } }
+                  },
+                  required: ["caseName", "citation", "act", "summary", "impact", "link"]
+                }
+              },
+              acts: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING },
+                    year: { type: Type.NUMBER },
+                    description: { type: Type.STRING },
+                    sourceUrl: { type: Type.STRING },
+                    pdfUrl: { type: Type.STRING },
+                    sections: { type: Type.STRING },
+                    jurisdiction: { type: Type.STRING, enum: ['central', 'state'] }
+                  },
+                  required: ["name", "year", "description", "sourceUrl"]
+                }
+              }
+            },
+            required: ["news", "articles", "academy", "supremeCourt", "tamilNadu", "judgments", "acts"]
           }
         }
-      }
+      });
+      const raw: Partial<SearchResults> = JSON.parse(response.text || "{}");
+      return {
+        news: cleanLegalData(raw.news || [], SEARCH_GROUP_TABS.news, policy),
+        articles: cleanLegalData(raw.articles || [], SEARCH_GROUP_TABS.articles, policy),
+        academy: cleanLegalData(raw.academy || [], SEARCH_GROUP_TABS.academy, policy),
+        supremeCourt: cleanLegalData(raw.supremeCourt || [], SEARCH_GROUP_TABS.supremeCourt, policy),
+        tamilNadu: cleanLegalData(raw.tamilNadu || [], SEARCH_GROUP_TABS.tamilNadu, policy),
+        judgments: mergeParallelCitations(cleanLegalData(raw.judgments || [], SEARCH_GROUP_TABS.judgments, policy)),
+        acts: applyBareActQuery(cleanLegalData(raw.acts || [], SEARCH_GROUP_TABS.acts, policy), query, {})
+      };
     });
-    // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as LegalNews[]
-    return cleanLegalData<LegalNews>(JSON.parse(response.text || "[]"));
-  }).catch(() => []);
-};
+  };
 
-export const fetchAcademyArticles = async (query: string = "", page: number = 1): Promise<ScholarlyArticle[]> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Fetch scholarly articles and research from National/State Judicial Academies and Verdictum.in. 
-      Query: ${query}. 
-      STRICT RULE: Provide only DIRECT and COMPLETE source URLs. No placeholders or guessed citation URLs.
-      Batch ${page}.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { 
-            type: Type.OBJECT, 
-            properties: { 
-              title: { type: Type.STRING }, 
-              author: { type: Type.STRING }, 
-              summary: { type: Type.STRING }, 
-              url: { type: Type.STRING }, 
-              downloadUrl: { type: Type.STRING }, 
-              source: { type: Type.STRING }, 
-              act: { type: Type.STRING } 
-            }, 
-            required: ["title", "author", "summary", "url", "source"] 
+  const fetchLegalNews = async (page: number = 1, policy: SourcePolicy): Promise<LegalNews[]> => {
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.news,
+        contents: `Fetch today's Indian legal news and daily updates. 
+        PRIORITIZE: https://www.verdictum.in/, The Leaflet, India Legal Live, and official High Court/Supreme Court press releases. 
+        STRICT RULE: Only include FULL, VERIFIED, and LIVE URLs. Do not guess or truncate URLs with '...'. 
+        ${sourceGuidance(policy, 'news')}
+        Batch ${page}.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { 
+              type: Type.OBJECT, 
+              properties: { 
+                title: { type: Type.STRING }, 
+                summary: { type: Type.STRING }, 
+                url: { type: Type.STRING }, 
+                source: { type: Type.STRING }, 
+                date: { type: Type.STRING } 
+              }, 
+              required: ["title", "summary", "url", "source", "date"] 
+            }
           }
         }
-      }
-    });
-    // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as ScholarlyArticle[]
-    return cleanLegalData<ScholarlyArticle>(JSON.parse(response.text || "[]"));
-  }).catch(() => []);
-};
+      });
+      // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as LegalNews[]
+      return cleanLegalData<LegalNews>(JSON.parse(response.text || "[]"), 'news', policy);
+    }).catch(() => []);
+  };
 
-export const fetchTamilNaduLegalData = async (page: number = 1): Promise<ScholarlyArticle[]> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Tamil Nadu law updates and Madras High Court news. 
-      STRICT RULE: Verify URLs are live and publicly accessible. 
-      Batch ${page}. Include Verdictum.in TN section.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { 
-            type: Type.OBJECT, 
-            properties: { 
-              title: { type: Type.STRING }, 
-              author: { type: Type.STRING }, 
-              summary: { type: Type.STRING }, 
-              url: { type: Type.STRING }, 
-              downloadUrl: { type: Type.STRING }, 
-              source: { type: Type.STRING }, 
-              act: { type: Type.STRING } 
-            }, 
-            required: ["title", "author", "summary", "url", "source"] 
+  const fetchLegalArticles = async (query: string = "", page: number = 1, filters: ArticleFilters = {}, policy: SourcePolicy): Promise<ScholarlyArticle[]> => {
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.articles,
+        contents: `Fetch Indian law journal articles, case comments and legal blog posts.
+        Query: ${query}.
+        ${filters.author ? `Only pieces written by: ${filters.author}.` : ''}
+        ${filters.topic ? `Only pieces on the topic: ${filters.topic}.` : ''}
+        Give each piece a short 'topic' (e.g. "Criminal Law", "Constitutional Law") and its publication 'date'.
+        Do not include judicial academy training material.
+        STRICT RULE: Provide only DIRECT and COMPLETE source URLs. No placeholders or guessed citation URLs.
+        ${sourceGuidance(policy, 'articles')}
+        Batch ${page}.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { 
+              type: Type.OBJECT, 
+              properties: { 
+                title: { type: Type.STRING }, 
+                author: { type: Type.STRING }, 
+                summary: { type: Type.STRING }, 
+                url: { type: Type.STRING }, 
+                downloadUrl: { type: Type.STRING }, 
+                source: { type: Type.STRING }, 
+                act: { type: Type.STRING },
+                topic: { type: Type.STRING },
+                date: { type: Type.STRING }
+              }, 
+              required: ["title", "author", "summary", "url", "source", "topic"] 
+            }
           }
         }
-      }
-    });
-    // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as ScholarlyArticle[]
-    return cleanLegalData<ScholarlyArticle>(JSON.parse(response.text || "[]"));
-  }).catch(() => []);
-};
+      });
+      return applyArticleFilters(cleanLegalData<ScholarlyArticle>(JSON.parse(response.text || "[]"), 'articles', policy), filters);
+    }).catch(() => []);
+  };
 
-export const fetchSupremeCourtData = async (page: number = 1): Promise<ScholarlyArticle[]> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Supreme Court case summaries and observer reports. 
-      STRICT RULE: Use only active, verifiable URLs from free portals like Verdictum or SC Observer. 
-      Batch ${page}.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { 
-            type: Type.OBJECT, 
-            properties: { 
-              title: { type: Type.STRING }, 
-              author: { type: Type.STRING }, 
-              summary: { type: Type.STRING }, 
-              url: { type: Type.STRING }, 
-              downloadUrl: { type: Type.STRING }, 
-              source: { type: Type.STRING }, 
-              act: { type: Type.STRING } 
-            }, 
-            required: ["title", "author", "summary", "url", "source"] 
+  const fetchAcademyMaterials = async (query: string = "", page: number = 1, policy: SourcePolicy): Promise<AcademyMaterial[]> => {
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.academy,
+        contents: `Fetch training material published by Indian judicial academies: the National Judicial Academy (nja.gov.in),
+        the State Judicial Academies and the Tamil Nadu State Judicial Academy (tnsja.tn.gov.in).
+        Include reading material, course modules, lecture notes and programme reports.
+        Query: ${query}.
+        For each item give the 'academy', the 'course' or programme it belongs to, the 'module' or session if any, and its 'date'.
+        STRICT RULE: Provide only DIRECT and COMPLETE source URLs. No placeholders or guessed URLs.
+        ${sourceGuidance(policy, 'academy')}
+        Batch ${page}.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                academy: { type: Type.STRING },
+                course: { type: Type.STRING },
+                module: { type: Type.STRING },
+                date: { type: Type.STRING },
+                summary: { type: Type.STRING },
+                url: { type: Type.STRING },
+                downloadUrl: { type: Type.STRING }
+              },
+              required: ["title", "academy", "course", "summary", "url"]
+            }
           }
         }
-      }
-    });
-    // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as ScholarlyArticle[]
-    return cleanLegalData<ScholarlyArticle>(JSON.parse(response.text || "[]"));
-  }).catch(() => []);
-};
+      });
+      return cleanLegalData<AcademyMaterial>(JSON.parse(response.text || "[]"), 'academy', policy);
+    }).catch(() => []);
+  };
 
-export const fetchLandmarkJudgments = async (actName: string, page: number = 1): Promise<LandmarkJudgment[]> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Fetch Landmark Judgments for ${actName}. 
-      STRICT RULE: Provide only COMPLETE and FUNCTIONAL source links from Indian Kanoon, Verdictum, or court websites. 
-      DO NOT guess URLs based on citations. Batch ${page}. 
-      Identify specifically mentioned Bare Acts for 'relatedActs'.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { 
-            type: Type.OBJECT, 
-            properties: { 
-              caseName: { type: Type.STRING }, 
-              citation: { type: Type.STRING }, 
-              act: { type: Type.STRING }, 
-              summary: { type: Type.STRING }, 
-              impact: { type: Type.STRING }, 
-              link: { type: Type.STRING }, 
-              freeDownloadLink: { type: Type.STRING }, 
-              bench: { type: Type.STRING },
-              relatedActs: { type: Type.ARRAY, items: { type: Type.STRING } }
-            }, 
-            required: ["caseName", "citation", "act", "summary", "impact", "link"] 
+  const fetchTamilNaduLegalData = async (page: number = 1, policy: SourcePolicy): Promise<ScholarlyArticle[]> => {
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models['tamil-nadu'],
+        contents: `Tamil Nadu law updates and Madras High Court news. 
+        STRICT RULE: Verify URLs are live and publicly accessible. 
+        ${sourceGuidance(policy, 'tamil-nadu')}
+        Batch ${page}. Include Verdictum.in TN section.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { 
+              type: Type.OBJECT, 
+              properties: { 
+                title: { type: Type.STRING }, 
+                author: { type: Type.STRING }, 
+                summary: { type: Type.STRING }, 
+                url: { type: Type.STRING }, 
+                downloadUrl: { type: Type.STRING }, 
+                source: { type: Type.STRING }, 
+                act: { type: Type.STRING } 
+              }, 
+              required: ["title", "author", "summary", "url", "source"] 
+            }
           }
         }
-      }
-    });
-    // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as LandmarkJudgment[]
-    return cleanLegalData<LandmarkJudgment>(JSON.parse(response.text || "[]"));
-  }).catch(() => []);
-};
+      });
+      // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as ScholarlyArticle[]
+      return cleanLegalData<ScholarlyArticle>(JSON.parse(response.text || "[]"), 'tamil-nadu', policy);
+    }).catch(() => []);
+  };
 
-export const fetchBareActs = async (page: number = 1): Promise<BareAct[]> => {
-  return callGeminiWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Fetch official Indian Bare Acts from IndiaCode.nic.in. 
-      STRICT RULE: sourceUrl must be the direct IndiaCode page. pdfUrl must be a verified bitstream/download link if available. 
-      Ensure URLs do not contain '...' and are fully resolved.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { 
-            type: Type.OBJECT, 
-            properties: { 
-              name: { type: Type.STRING }, 
-              year: { type: Type.NUMBER }, 
-              description: { type: Type.STRING }, 
-              sourceUrl: { type: Type.STRING }, 
-              secondarySourceUrl: { type: Type.STRING }, 
-              pdfUrl: { type: Type.STRING },
-              sections: { type: Type.STRING } 
-            }, 
-            required: ["name", "year", "description", "sourceUrl", "secondarySourceUrl", "pdfUrl"] 
+  const fetchSupremeCourtData = async (page: number = 1, policy: SourcePolicy): Promise<ScholarlyArticle[]> => {
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models['supreme-court'],
+        contents: `Supreme Court case summaries and observer reports. 
+        STRICT RULE: Use only active, verifiable URLs from free portals like Verdictum or SC Observer. 
+        ${sourceGuidance(policy, 'supreme-court')}
+        Batch ${page}.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { 
+              type: Type.OBJECT, 
+              properties: { 
+                title: { type: Type.STRING }, 
+                author: { type: Type.STRING }, 
+                summary: { type: Type.STRING }, 
+                url: { type: Type.STRING }, 
+                downloadUrl: { type: Type.STRING }, 
+                source: { type: Type.STRING }, 
+                act: { type: Type.STRING } 
+              }, 
+              required: ["title", "author", "summary", "url", "source"] 
+            }
           }
         }
-      }
-    });
-    // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as BareAct[]
-    return cleanLegalData<BareAct>(JSON.parse(response.text || "[]"));
-  }).catch(() => []);
+      });
+      // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as ScholarlyArticle[]
+      return cleanLegalData<ScholarlyArticle>(JSON.parse(response.text || "[]"), 'supreme-court', policy);
+    }).catch(() => []);
+  };
+
+  const fetchLandmarkJudgments = async (actName: string, page: number = 1, policy: SourcePolicy): Promise<LandmarkJudgment[]> => {
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models.judgments,
+        contents: `Fetch Landmark Judgments for ${actName}. 
+        STRICT RULE: Provide only COMPLETE and FUNCTIONAL source links from Indian Kanoon, Verdictum, or court websites. 
+        DO NOT guess URLs based on citations. Batch ${page}. 
+        ${sourceGuidance(policy, 'judgments')}
+        Identify specifically mentioned Bare Acts for 'relatedActs'.
+        For 'citation', give every reported citation of the case separated by "; " (neutral INSC citation, SCC, SCR, AIR, SCC OnLine, MLJ), e.g. "(1973) 4 SCC 225; AIR 1973 SC 1461". Leave it empty rather than invent one.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { 
+              type: Type.OBJECT, 
+              properties: { 
+                caseName: { type: Type.STRING }, 
+                citation: { type: Type.STRING }, 
+                act: { type: Type.STRING }, 
+                summary: { type: Type.STRING }, 
+                impact: { type: Type.STRING }, 
+                link: { type: Type.STRING }, 
+                freeDownloadLink: { type: Type.STRING }, 
+                bench: { type: Type.STRING },
+                relatedActs: { type: Type.ARRAY, items: { type: Type.STRING } }
+              }, 
+              required: ["caseName", "citation", "act", "summary", "impact", "link"] 
+            }
+          }
+        }
+      });
+      // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as LandmarkJudgment[]
+      return mergeParallelCitations(cleanLegalData<LandmarkJudgment>(JSON.parse(response.text || "[]"), 'judgments', policy));
+    }).catch(() => []);
+  };
+
+  const fetchBareActs = async (query: string = "", page: number = 1, filters: BareActFilters = {}, policy: SourcePolicy): Promise<BareAct[]> => {
+    const constraints = [
+      query ? `The user is searching for: "${query}". If this names a specific Act, return that exact Act FIRST, followed by closely related Acts.` : 'Return commonly used central and Tamil Nadu Acts.',
+      filters.yearFrom ? `Only include Acts enacted in or after ${filters.yearFrom}.` : '',
+      filters.yearTo ? `Only include Acts enacted in or before ${filters.yearTo}.` : '',
+      filters.jurisdiction === 'central' ? 'Only include Central (Parliament) legislation.' : '',
+      filters.jurisdiction === 'state' ? 'Only include State legislation, prioritising Tamil Nadu.' : '',
+      sourceGuidance(policy, 'bare-acts')
+    ].filter(Boolean).join('\n      ');
+
+    return callGeminiWithRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: models['bare-acts'],
+        contents: `Fetch official Indian Bare Acts from IndiaCode.nic.in. 
+        ${constraints}
+        Set 'jurisdiction' to "central" or "state" for each Act.
+        STRICT RULE: sourceUrl must be the direct IndiaCode page. pdfUrl must be a verified bitstream/download link if available. 
+        Ensure URLs do not contain '...' and are fully resolved. Batch ${page}.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { 
+              type: Type.OBJECT, 
+              properties: { 
+                name: { type: Type.STRING }, 
+                year: { type: Type.NUMBER }, 
+                description: { type: Type.STRING }, 
+                sourceUrl: { type: Type.STRING }, 
+                secondarySourceUrl: { type: Type.STRING }, 
+                pdfUrl: { type: Type.STRING },
+                sections: { type: Type.STRING },
+                jurisdiction: { type: Type.STRING, enum: ['central', 'state'] }
+              }, 
+              required: ["name", "year", "description", "sourceUrl", "secondarySourceUrl", "pdfUrl"] 
+            }
+          }
+        }
+      });
+      // Explicitly pass type argument to cleanLegalData to ensure the returned array is typed as BareAct[]
+      return applyBareActQuery(cleanLegalData<BareAct>(JSON.parse(response.text || "[]"), 'bare-acts', policy), query, filters);
+    }).catch(() => []);
+  };
+
+  return {
+    extractResourceContent,
+    fetchActText,
+    generateStudyMaterials,
+    generateQuiz,
+    fetchSearchSuggestions,
+    searchLegalData,
+    fetchLegalNews,
+    fetchLegalArticles,
+    fetchAcademyMaterials,
+    fetchTamilNaduLegalData,
+    fetchSupremeCourtData,
+    fetchLandmarkJudgments,
+    fetchBareActs
+  };
 };
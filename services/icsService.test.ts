@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { Matter } from "../types";
+import { addEvent, calendarEntries, createMatter } from "./matterService";
+import { exportIcs, IcsImportError, IMPORTED_MATTER_TITLE, importIcs } from "./icsService";
+
+const sampleMatters = (): Matter[] => {
+  const { matters, matter } = createMatter([], { title: 'Sri Lakshmi Traders v. CTO, Egmore', client: 'Sri Lakshmi Traders', area: 'civil', caseRef: 'W.P. No.12345 of 2025' });
+  const withHearing = addEvent(matters, matter.id, { kind: 'hearing', title: 'W.P. No.12345 of 2025', date: '2026-10-20', time: '10:30', location: 'Court 5, Chennai', notes: 'Counter affidavit due; bring the assessment order' });
+  return addEvent(withHearing, matter.id, { kind: 'deadline', title: 'File rejoinder', date: '2026-10-27' });
+};
+
+const exported = (matters: Matter[]) => exportIcs(calendarEntries(matters, []), new Date('2026-10-19T04:00:00Z'));
+
+describe('exportIcs', () => {
+  it('writes timed events in UTC and all-day events as dates, with folded CRLF lines', () => {
+    const text = exported(sampleMatters());
+    expect(text.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(text).toContain('DTSTART:20261020T050000Z');
+    expect(text).toContain('DTSTART;VALUE=DATE:20261027');
+    expect(text).toContain('SUMMARY:Hearing: W.P. No.12345 of 2025');
+    expect(text).toContain('LOCATION:Court 5\\, Chennai');
+    expect(text.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+});
+
+describe('importIcs', () => {
+  it('round-trips its own export, updating events in place', () => {
+    const matters = sampleMatters();
+    const moved = exported(matters).replace('DTSTART:20261020T050000Z', 'DTSTART:20261103T083000Z');
+    const result = importIcs(matters, moved);
+    expect(result).toMatchObject({ added: 0, updated: 2 });
+    expect(result.matters).toHaveLength(1);
+
+    const [hearing, deadline] = result.matters[0].events;
+    expect(hearing).toMatchObject({ id: matters[0].events[0].id, kind: 'hearing', title: 'W.P. No.12345 of 2025', date: '2026-11-03', time: '14:00', location: 'Court 5, Chennai' });
+    expect(deadline).toMatchObject({ kind: 'deadline', title: 'File rejoinder', date: '2026-10-27', time: undefined });
+  });
+
+  it('adds the events of an export into the matter named in the file', () => {
+    const matters = sampleMatters();
+    const text = exported(matters);
+    const emptied = matters.map(matter => ({ ...matter, events: [] }));
+    const result = importIcs(emptied, text);
+    expect(result).toMatchObject({ added: 2, updated: 0 });
+    expect(result.matters[0].events[0]).toMatchObject({ uid: matters[0].events[0].uid, notes: 'Counter affidavit due; bring the assessment order' });
+  });
+
+  it('files events from other calendars under an imported matter', () => {
+    const foreign = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:abc@example.org',
+      'DTSTART;TZID=Asia/Kolkata:20261105T113000',
+      'SUMMARY:Listed before the Division Bench',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Not the event summary',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\n');
+    const result = importIcs([], foreign);
+    expect(result.added).toBe(1);
+    expect(result.matters[0].title).toBe(IMPORTED_MATTER_TITLE);
+    expect(result.matters[0].events[0]).toMatchObject({ kind: 'hearing', title: 'Listed before the Division Bench', date: '2026-11-05', time: '11:30' });
+  });
+
+  it('rejects files that are not calendars or hold no events', () => {
+    expect(() => importIcs([], 'hello')).toThrow(IcsImportError);
+    expect(() => importIcs([], 'BEGIN:VCALENDAR\nEND:VCALENDAR')).toThrow('The calendar has no events to import.');
+  });
+});
@@ -0,0 +1,220 @@
+import { Matter, MatterEvent, MatterEventKind } from "../types";
+import { CalendarEntry, EVENT_KINDS, createEvent, createMatter } from "./matterService";
+import { addDays } from "./limitationService";
+
+/**
+ * iCalendar (RFC 5545) export and import for the matters calendar, so hearings and deadlines
+ * reach the phone calendars advocates already use. Exported events keep their UID and carry the
+ * matter id, so importing a file exported here updates events in place rather than copying them.
+ */
+
+const PRODID = '-//The Moon & Ocean//Matters Calendar//EN';
+const MATTER_PROPERTY = 'X-MO-MATTER';
+// Indian Standard Time has no daylight saving, so a fixed offset converts it exactly
+const IST_OFFSET = '+05:30';
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+export const IMPORTED_MATTER_TITLE = 'Imported calendar';
+
+export class IcsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsImportError';
+  }
+}
+
+export interface IcsImportSummary {
+  matters: Matter[];
+  added: number;
+  updated: number;
+}
+
+interface ParsedEvent {
+  uid?: string;
+  summary: string;
+  date: string;
+  time?: string;
+  location?: string;
+  description?: string;
+  matterId?: string;
+}
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) => text.replace(/\\([\\;,nN])/g, (_, escaped: string) => escaped.toLowerCase() === 'n' ? '\n' : escaped);
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const basicDate = (iso: string) => iso.replace(/-/g, '');
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const startOf = (event: MatterEvent) => new Date(`${event.date}T${event.time}:00${IST_OFFSET}`);
+
+const kindLabel = (kind: MatterEventKind) => EVENT_KINDS[kind].label;
+
+const alarmTrigger = (event: MatterEvent) => {
+  if (event.remindDaysBefore > 0) return `-P${event.remindDaysBefore}D`;
+  // On the day: 9 am for all-day events, an hour ahead otherwise
+  return event.time ? '-PT1H' : 'PT9H';
+};
+
+const eventLines = ({ matter, event }: CalendarEntry, stamp: string): string[] => {
+  const summary = `${kindLabel(event.kind)}: ${event.title}`;
+  const description = [
+    `Matter: ${matter.title}`,
+    matter.client && `Client: ${matter.client}`,
+    matter.caseRef && `Case: ${matter.caseRef}`,
+    event.notes && `\n${event.notes}`
+  ].filter(Boolean).join('\n');
+  const when = event.time
+    ? [`DTSTART:${utcStamp(startOf(event))}`, `DTEND:${utcStamp(new Date(startOf(event).getTime() + 60 * 60 * 1000))}`]
+    : [`DTSTART;VALUE=DATE:${basicDate(event.date)}`, `DTEND;VALUE=DATE:${basicDate(addDays(event.date, 1))}`];
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...when,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `CATEGORIES:${escapeText(kindLabel(event.kind))}`,
+    `${MATTER_PROPERTY}:${matter.id}`,
+    ...(event.done ? [] : ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(summary)}`, `TRIGGER:${alarmTrigger(event)}`, 'END:VALARM']),
+    'END:VEVENT'
+  ];
+};
+
+export const exportIcs = (entries: CalendarEntry[], now: Date = new Date()): string => {
+  const stamp = utcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Matters',
+    'X-WR-TIMEZONE:Asia/Kolkata',
+    ...entries.flatMap(entry => eventLines(entry, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// UTC times are moved to IST; floating and zoned times are taken as IST, which is what Indian calendars send
+const parseDateTime = (value: string, params: string): { date: string, time?: string } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (!hours || /VALUE=DATE(?!-)/i.test(params)) return { date: `${year}-${month}-${day}` };
+  if (!utc) return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+  const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)) + IST_OFFSET_MS).toISOString();
+  return { date: local.slice(0, 10), time: local.slice(11, 16) };
+};
+
+const parseEvents = (text: string): ParsedEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedEvent[] = [];
+  let current: Partial<ParsedEvent> | null = null;
+  let nested = 0;
+  lines.forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon < 0) return;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    const value = line.slice(colon + 1);
+    const property = name.toUpperCase();
+    if (property === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT') current = {};
+      else if (current) nested++;
+      return;
+    }
+    if (property === 'END') {
+      if (current && nested) nested--;
+      else if (current && value.toUpperCase() === 'VEVENT') {
+        if (current.date) events.push({ summary: '', ...current } as ParsedEvent);
+        current = null;
+      }
+      return;
+    }
+    // Properties of an alarm inside the event are not the event's own
+    if (!current || nested) return;
+    if (property === 'UID') current.uid = value.trim();
+    else if (property === 'SUMMARY') current.summary = unescapeText(value);
+    else if (property === 'LOCATION') current.location = unescapeText(value);
+    else if (property === 'DESCRIPTION') current.description = unescapeText(value);
+    else if (property === MATTER_PROPERTY) current.matterId = value.trim();
+    else if (property === 'DTSTART') Object.assign(current, parseDateTime(value.trim(), params.join(';')) || {});
+  });
+  return events;
+};
+
+// "Hearing: W.P. No.12 of 2026" back to its kind and title; other calendars' events become meetings
+const readSummary = (summary: string): { kind: MatterEventKind, title: string } => {
+  const kind = (Object.keys(EVENT_KINDS) as MatterEventKind[]).find(id => summary.startsWith(`${EVENT_KINDS[id].label}: `));
+  return kind
+    ? { kind, title: summary.slice(EVENT_KINDS[kind].label.length + 2) }
+    : { kind: /hearing|listed|court/i.test(summary) ? 'hearing' : /deadline|last date|limitation|filing/i.test(summary) ? 'deadline' : 'meeting', title: summary };
+};
+
+// Notes from our own export follow the matter header and a blank line
+const readNotes = (description = '') => description.startsWith('Matter: ')
+  ? description.split('\n\n').slice(1).join('\n\n')
+  : description;
+
+/**
+ * Merge an .ics file into the matters. Events whose UID is already known are moved to the
+ * date, time and place in the file; new ones join the matter named in the file, the matter
+ * chosen for the import, or a new "Imported calendar" matter.
+ */
+export const importIcs = (matters: Matter[], text: string, targetMatterId?: string): IcsImportSummary => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) throw new IcsImportError('The file is not an iCalendar (.ics) file.');
+  // Case Tracker hearings are refreshed from cause lists, not from calendars
+  const events = parseEvents(text).filter(event => !event.uid?.startsWith('tracked-'));
+  if (!events.length) throw new IcsImportError('The calendar has no events to import.');
+
+  let merged = matters;
+  let added = 0;
+  let updated = 0;
+  events.forEach(parsed => {
+    const { kind, title } = readSummary(parsed.summary);
+    const owner = parsed.uid ? merged.find(matter => matter.events.some(event => event.uid === parsed.uid)) : undefined;
+    if (owner) {
+      merged = merged.map(matter => matter !== owner ? matter : {
+        ...matter,
+        events: matter.events.map(event => event.uid !== parsed.uid ? event : {
+          ...event, kind, title, date: parsed.date, time: parsed.time, location: parsed.location || event.location
+        }),
+        updatedAt: Date.now()
+      });
+      updated++;
+      return;
+    }
+    let target = merged.find(matter => matter.id === parsed.matterId)
+      || merged.find(matter => matter.id === targetMatterId)
+      || merged.find(matter => matter.title === IMPORTED_MATTER_TITLE);
+    if (!target) {
+      const created = createMatter(merged, { title: IMPORTED_MATTER_TITLE, client: '', area: 'civil' });
+      merged = created.matters;
+      target = created.matter;
+    }
+    const event = createEvent({ kind, title, date: parsed.date, time: parsed.time, location: parsed.location, notes: readNotes(parsed.description), uid: parsed.uid });
+    const targetId = target.id;
+    merged = merged.map(matter => matter.id === targetId ? { ...matter, events: [...matter.events, event], updatedAt: Date.now() } : matter);
+    added++;
+  });
+  return { matters: merged, added, updated };
+};
@@ -0,0 +1,28 @@
+import { LegalNews, ScholarlyArticle, AcademyMaterial, ArticleFilters, LandmarkJudgment, BareAct, BareActFilters, ExtractedContent, StudyMaterials, AnalysisProfile, QuizQuestion, StructuredAct, SourcePolicy, SearchResults } from "../types";
+import type { LegalApiRoute } from "./apiContract";
+
+/**
+ * Everything the app asks of a legal data source. The API server picks one implementation:
+ * Gemini (geminiService.ts) for live data, or recorded fixtures (server/fixtureProvider.ts) for offline work.
+ * Feed fetchers receive the reader's source policy and must filter through cleanLegalData.
+ */
+export interface LegalDataProvider {
+  fetchLegalNews(page: number, policy: SourcePolicy): Promise<LegalNews[]>;
+  fetchLegalArticles(query: string, page: number, filters: ArticleFilters, policy: SourcePolicy): Promise<ScholarlyArticle[]>;
+  fetchAcademyMaterials(query: string, page: number, policy: SourcePolicy): Promise<AcademyMaterial[]>;
+  fetchTamilNaduLegalData(page: number, policy: SourcePolicy): Promise<ScholarlyArticle[]>;
+  fetchSupremeCourtData(page: number, policy: SourcePolicy): Promise<ScholarlyArticle[]>;
+  fetchLandmarkJudgments(actName: string, page: number, policy: SourcePolicy): Promise<LandmarkJudgment[]>;
+  fetchBareActs(query: string, page: number, filters: BareActFilters, policy: SourcePolicy): Promise<BareAct[]>;
+  extractResourceContent(title: string, url: string): Promise<ExtractedContent>;
+  fetchActText(name: string, url?: string): Promise<StructuredAct>;
+  generateStudyMaterials(content: string, profile: AnalysisProfile): Promise<StudyMaterials>;
+  generateQuiz(content: string, profile: AnalysisProfile): Promise<QuizQuestion[]>;
+  fetchSearchSuggestions(input: string): Promise<string[]>;
+  searchLegalData(query: string, policy: SourcePolicy): Promise<SearchResults>;
+}
+
+// Each provider task is named after the API route that serves it; link checks and cause lists are fetched by the server itself
+export type LegalDataTask = Exclude<LegalApiRoute, 'verify-links' | 'cause-list'>;
+
+export type LegalDataProviderName = 'gemini' | 'fixtures';
@@ -0,0 +1,37 @@
+// Shared by the browser bundle and the API server, so it must stay free of SDK imports
+import { ArticleFilters, BareAct, BareActFilters, ScholarlyArticle } from "../types";
+
+export const EXTRACTION_FAILED_TEXT = "Extraction failed due to heavy traffic. Please try again in a moment.";
+
+// Reduce an Act title to comparable words, e.g. "The Hindu Succession Act, 1956" -> "hindu succession act"
+export const normaliseActName = (name: string) =>
+  name.toLowerCase().replace(/\b(18|19|20)\d{2}\b/g, '').replace(/[^a-z0-9 ]/g, ' ').replace(/\bthe\b/g, '').replace(/\s+/g, ' ').trim();
+
+// Enforce the requested filters locally and rank the Act that best matches the query first
+export const applyBareActQuery = (acts: BareAct[], query: string, filters: BareActFilters): BareAct[] => {
+  const filtered = acts.filter(act => {
+    if (filters.yearFrom && act.year < filters.yearFrom) return false;
+    if (filters.yearTo && act.year > filters.yearTo) return false;
+    if (filters.jurisdiction && act.jurisdiction && act.jurisdiction !== filters.jurisdiction) return false;
+    return true;
+  });
+  const target = normaliseActName(query);
+  if (!target) return filtered;
+  const score = (act: BareAct) => {
+    const name = normaliseActName(act.name);
+    if (name === target) return 3;
+    if (name.startsWith(target) || target.startsWith(name)) return 2;
+    if (name.includes(target) || target.split(' ').every(word => name.includes(word))) return 1;
+    return 0;
+  };
+  return [...filtered].sort((a, b) => score(b) - score(a));
+};
+
+// Enforce the author and topic filters locally; the model treats them as hints and strays from them
+export const applyArticleFilters = (articles: ScholarlyArticle[], filters: ArticleFilters): ScholarlyArticle[] => {
+  const author = filters.author?.trim().toLowerCase();
+  const topic = filters.topic?.trim().toLowerCase();
+  return articles.filter(article =>
+    (!author || (article.author || '').toLowerCase().includes(author)) &&
+    (!topic || `${article.topic || ''} ${article.title} ${article.act || ''}`.toLowerCase().includes(topic)));
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { LandmarkJudgment, LegalNews, Library } from "../types";
+import { LibraryImportError, createFolder, deleteFolder, describeResource, exportLibrary, importLibrary, isSaved, parseTags, saveToFolder } from "./libraryService";
+
+const news = (n: number): LegalNews => ({
+  title: `Story ${n}`,
+  summary: 'A summary',
+  url: `https://www.verdictum.in/story-${n}`,
+  source: 'Verdictum',
+  date: '2026-10-19'
+});
+
+const judgment: LandmarkJudgment = {
+  caseName: 'Maneka Gandhi v. Union of India',
+  citation: '(1978) 1 SCC 248',
+  act: 'Constitution of India',
+  bench: '7 judges',
+  summary: '',
+  impact: '',
+  link: 'https://indiankanoon.org/doc/1766147/'
+};
+
+const EMPTY: Library = { folders: [], items: [] };
+
+const withFolder = (name: string, library: Library = EMPTY) => createFolder(library, name);
+
+describe('library folders', () => {
+  it('files a card once per folder and updates it when saved again', () => {
+    const { library, folder } = withFolder('Bail');
+    const saved = saveToFolder(library, folder.id, 'news', news(1), { notes: 'First', tags: ['bail'] });
+    const again = saveToFolder(saved, folder.id, 'news', news(1), { notes: 'Second' });
+    expect(again.items).toHaveLength(1);
+    expect(again.items[0]).toMatchObject({ title: 'Story 1', notes: 'Second', tags: ['bail'] });
+    expect(isSaved(again, news(1).url)).toBe(true);
+  });
+
+  it('takes the title and link of judgments from their own fields', () => {
+    expect(describeResource('judgment', judgment)).toEqual({ title: judgment.caseName, url: judgment.link });
+  });
+
+  it('deletes the items of a deleted folder', () => {
+    const { library, folder } = withFolder('Bail');
+    const other = withFolder('Writs', library);
+    const filled = saveToFolder(saveToFolder(other.library, folder.id, 'news', news(1)), other.folder.id, 'news', news(2));
+    expect(deleteFolder(filled, folder.id).items.map(item => item.title)).toEqual(['Story 2']);
+  });
+
+  it('reads tags as lower-case and without repeats', () => {
+    expect(parseTags('Bail, bail , Article 21,,')).toEqual(['bail', 'article 21']);
+  });
+});
+
+describe('importLibrary', () => {
+  it('merges folders by name and skips links already filed there', () => {
+    const ours = withFolder('Bail');
+    const mine = saveToFolder(ours.library, ours.folder.id, 'news', news(1));
+    const theirs = withFolder('BAIL');
+    const shared = saveToFolder(saveToFolder(theirs.library, theirs.folder.id, 'news', news(1)), theirs.folder.id, 'judgment', judgment);
+
+    const merged = importLibrary(mine, JSON.stringify(exportLibrary(shared)));
+    expect(merged.folders).toHaveLength(1);
+    expect(merged.items.map(item => item.title).sort()).toEqual([judgment.caseName, 'Story 1']);
+    expect(merged.items.every(item => item.folderId === ours.folder.id)).toBe(true);
+  });
+
+  it('exports only the chosen folders', () => {
+    const first = withFolder('Bail');
+    const second = withFolder('Writs', first.library);
+    const library = saveToFolder(saveToFolder(second.library, first.folder.id, 'news', news(1)), second.folder.id, 'news', news(2));
+    const exported = exportLibrary(library, [second.folder.id]);
+    expect(exported.folders.map(folder => folder.name)).toEqual(['Writs']);
+    expect(exported.items.map(item => item.title)).toEqual(['Story 2']);
+  });
+
+  it('refuses files that are not a library export', () => {
+    expect(() => importLibrary(EMPTY, '{')).toThrow(new LibraryImportError('The file is not valid JSON.'));
+    expect(() => importLibrary(EMPTY, '{"format":"other"}')).toThrow('The file is not a My Library export.');
+    expect(() => importLibrary(EMPTY, JSON.stringify({ ...exportLibrary(EMPTY), version: 99 }))).toThrow('newer version');
+  });
+});
@@ -0,0 +1,158 @@
+import { Library, LibraryFolder, LibraryItem, LibraryItemKind, LibraryResource, LegalNews, ScholarlyArticle, LandmarkJudgment, BareAct } from "../types";
+import { readStored, writeStored, createId } from "./localStore";
+
+/**
+ * "My Library": named research folders holding saved resource cards with notes and tags.
+ * All operations are pure (they return a new Library); App persists the result.
+ */
+
+const STORAGE_KEY = 'mo-library';
+const EXPORT_FORMAT = 'mo-library';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_FOLDER_NAME = 'General Research';
+
+export interface LibraryExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  folders: LibraryFolder[];
+  items: LibraryItem[];
+}
+
+export class LibraryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryImportError';
+  }
+}
+
+export const loadLibrary = (): Library => readStored<Library>(STORAGE_KEY, { folders: [], items: [] });
+
+export const saveLibrary = (library: Library) => writeStored(STORAGE_KEY, library);
+
+// Title and canonical link of a card, whichever feed it came from
+export const describeResource = (kind: LibraryItemKind, resource: LibraryResource): { title: string, url: string } => {
+  if (kind === 'judgment') {
+    const judgment = resource as LandmarkJudgment;
+    return { title: judgment.caseName, url: judgment.link };
+  }
+  if (kind === 'act') {
+    const act = resource as BareAct;
+    return { title: act.name, url: act.sourceUrl };
+  }
+  const item = resource as LegalNews | ScholarlyArticle;
+  return { title: item.title, url: item.url };
+};
+
+export const createFolder = (library: Library, name: string): { library: Library, folder: LibraryFolder } => {
+  const folder: LibraryFolder = { id: createId('folder-'), name: name.trim() || DEFAULT_FOLDER_NAME, createdAt: Date.now() };
+  return { library: { ...library, folders: [...library.folders, folder] }, folder };
+};
+
+export const renameFolder = (library: Library, folderId: string, name: string): Library => ({
+  ...library,
+  folders: library.folders.map(folder => folder.id === folderId ? { ...folder, name: name.trim() || folder.name } : folder)
+});
+
+// Deleting a folder deletes the items filed in it
+export const deleteFolder = (library: Library, folderId: string): Library => ({
+  folders: library.folders.filter(folder => folder.id !== folderId),
+  items: library.items.filter(item => item.folderId !== folderId)
+});
+
+export const saveToFolder = (
+  library: Library,
+  folderId: string,
+  kind: LibraryItemKind,
+  resource: LibraryResource,
+  details: { notes?: string, tags?: string[] } = {}
+): Library => {
+  const { title, url } = describeResource(kind, resource);
+  const existing = library.items.find(item => item.folderId === folderId && item.url === url);
+  if (existing) {
+    return updateItem(library, existing.id, { notes: details.notes ?? existing.notes, tags: details.tags ?? existing.tags });
+  }
+  const item: LibraryItem = {
+    id: createId('item-'),
+    folderId,
+    kind,
+    title,
+    url,
+    notes: details.notes || '',
+    tags: details.tags || [],
+    savedAt: Date.now(),
+    resource
+  };
+  return { ...library, items: [item, ...library.items] };
+};
+
+export const updateItem = (library: Library, itemId: string, patch: Partial<Pick<LibraryItem, 'notes' | 'tags' | 'folderId'>>): Library => ({
+  ...library,
+  items: library.items.map(item => item.id === itemId ? { ...item, ...patch } : item)
+});
+
+export const removeItem = (library: Library, itemId: string): Library => ({
+  ...library,
+  items: library.items.filter(item => item.id !== itemId)
+});
+
+export const isSaved = (library: Library, url: string) => library.items.some(item => item.url === url);
+
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const exportLibrary = (library: Library, folderIds?: string[]): LibraryExport => {
+  const folders = folderIds ? library.folders.filter(folder => folderIds.includes(folder.id)) : library.folders;
+  const ids = new Set(folders.map(folder => folder.id));
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    folders,
+    items: library.items.filter(item => ids.has(item.folderId))
+  };
+};
+
+/**
+ * Merge a colleague's export into the library. Folders with the same name are combined,
+ * and items already filed in the target folder (same URL) are skipped.
+ */
+export const importLibrary = (library: Library, raw: string): Library => {
+  let data: Partial<LibraryExport>;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new LibraryImportError('The file is not valid JSON.');
+  }
+  if (data.format !== EXPORT_FORMAT || !Array.isArray(data.folders) || !Array.isArray(data.items)) {
+    throw new LibraryImportError('The file is not a My Library export.');
+  }
+  if ((data.version || 0) > EXPORT_VERSION) {
+    throw new LibraryImportError('The file was exported by a newer version of the app.');
+  }
+
+  let merged = library;
+  const folderMap = new Map<string, string>();
+  data.folders.forEach(folder => {
+    const match = merged.folders.find(existing => existing.name.toLowerCase() === folder.name.toLowerCase());
+    if (match) {
+      folderMap.set(folder.id, match.id);
+    } else {
+      const created = createFolder(merged, folder.name);
+      merged = created.library;
+      folderMap.set(folder.id, created.folder.id);
+    }
+  });
+
+  data.items.forEach(item => {
+    const folderId = folderMap.get(item.folderId);
+    if (!folderId || !item.resource) return;
+    if (merged.items.some(existing => existing.folderId === folderId && existing.url === item.url)) return;
+    merged = {
+      ...merged,
+      items: [...merged.items, { ...item, id: createId('item-'), folderId, tags: item.tags || [], notes: item.notes || '' }]
+    };
+  });
+  return merged;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { computeLimitation, DEFAULT_CLOSED_WEEKDAYS, LimitationInput } from "./limitationService";
+
+const input = (changes: Partial<LimitationInput>): LimitationInput => ({
+  articleId: '116a',
+  startDate: '2025-01-01',
+  closures: [],
+  closedWeekdays: DEFAULT_CLOSED_WEEKDAYS,
+  today: '2025-02-01',
+  ...changes
+});
+
+describe('computeLimitation', () => {
+  it('counts the period from the day after the starting date', () => {
+    const result = computeLimitation(input({}))!;
+    expect(result.prescribedEnd).toBe('2025-04-01');
+    expect(result.deadline).toBe('2025-04-01');
+    expect(result).toMatchObject({ status: 'running', days: 59, excludedDays: 0 });
+  });
+
+  it('ends a period in years on the same date of the later year', () => {
+    expect(computeLimitation(input({ articleId: '113', startDate: '2024-02-29' }))!.prescribedEnd).toBe('2027-02-28');
+  });
+
+  it('excludes the time taken for the certified copy, counting both days', () => {
+    const result = computeLimitation(input({ copyAppliedOn: '2025-01-10', copyReadyOn: '2025-01-19' }))!;
+    expect(result.excludedDays).toBe(10);
+    expect(result.deadline).toBe('2025-04-11');
+  });
+
+  it('excludes no copy time when the Article does not allow it or the copy was applied for too late', () => {
+    expect(computeLimitation(input({ articleId: '113', copyAppliedOn: '2025-01-10', copyReadyOn: '2025-01-19' }))!.excludedDays).toBe(0);
+    const late = computeLimitation(input({ copyAppliedOn: '2025-04-02', copyReadyOn: '2025-04-05' }))!;
+    expect(late.excludedDays).toBe(0);
+    expect(late.steps.map(step => step.label)).toContain('Copy applied for too late');
+  });
+
+  it('rolls a deadline that falls while the court is closed over to the next working day', () => {
+    // 6 April 2025 is a Sunday
+    expect(computeLimitation(input({ startDate: '2025-01-06' }))!.deadline).toBe('2025-04-07');
+    const vacation = computeLimitation(input({
+      startDate: '2025-01-06',
+      closures: [{ id: 'summer', from: '2025-04-05', to: '2025-04-13', label: 'Summer vacation' }]
+    }))!;
+    expect(vacation.deadline).toBe('2025-04-14');
+    expect(vacation.steps.at(-1)).toMatchObject({ label: 'Court closed on the last day', citation: expect.objectContaining({ section: '4' }) });
+  });
+
+  it('measures a late filing for condonation under Section 5', () => {
+    const result = computeLimitation(input({ filedOn: '2025-04-10' }))!;
+    expect(result).toMatchObject({ status: 'late', days: 9 });
+    expect(result.steps.at(-1)).toMatchObject({ label: 'Delay of 9 days', citation: expect.objectContaining({ section: '5' }) });
+    expect(computeLimitation(input({ filedOn: '2025-04-01' }))).toMatchObject({ status: 'in-time', days: 0 });
+  });
+
+  it('reports suits past the period as barred, without Section 5', () => {
+    const expired = computeLimitation(input({ articleId: '113', startDate: '2020-03-15', today: '2024-03-15' }))!;
+    expect(expired).toMatchObject({ deadline: '2023-03-15', status: 'expired', days: 366 });
+    expect(expired.steps.at(-1)).toMatchObject({ label: 'Expired 366 days ago', citation: expect.objectContaining({ section: '3' }) });
+
+    const filed = computeLimitation(input({ articleId: '113', startDate: '2020-03-15', filedOn: '2023-03-20' }))!;
+    expect(filed.steps.at(-1)?.label).toBe('Barred by 5 days');
+  });
+
+  it('returns nothing for an unknown Article or a missing starting date', () => {
+    expect(computeLimitation(input({ articleId: 'nope' }))).toBeNull();
+    expect(computeLimitation(input({ startDate: '' }))).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+import { CourtClosure, LimitationArticle, LimitationDataset, ProvisionCitation } from "../types";
+import dataset from "../config/limitationArticles.json";
+import { readStored, writeStored, createId } from "./localStore";
+
+/**
+ * Limitation periods under the Schedule to the Limitation Act, 1963. The period runs from the
+ * day after the starting date (Section 12(1)), is extended by the time taken to obtain certified
+ * copies where the Article allows it (Section 12(2) and (3)), and rolls over to the next working
+ * day when it ends while the court is closed (Section 4). A late filing is measured against that
+ * deadline, for a Section 5 condonation petition. Dates are ISO "yyyy-mm-dd" strings throughout.
+ */
+
+export const LIMITATION = dataset as LimitationDataset;
+
+const STORAGE_KEY = 'mo-court-closures';
+const DAY = 86400000;
+
+// Sunday; courts that also do not sit on Saturdays add 6
+export const DEFAULT_CLOSED_WEEKDAYS = [0];
+
+export type LimitationStatus = 'running' | 'expired' | 'in-time' | 'late';
+
+export interface LimitationStep {
+  label: string;
+  date?: string;
+  detail: string;
+  citation: ProvisionCitation;
+}
+
+export interface LimitationInput {
+  articleId: string;
+  startDate: string;
+  copyAppliedOn?: string;
+  copyReadyOn?: string;
+  filedOn?: string;
+  closures: CourtClosure[];
+  closedWeekdays: number[];
+  // Reference date for the days left when nothing has been filed yet
+  today: string;
+}
+
+export interface LimitationResult {
+  article: LimitationArticle;
+  prescribedEnd: string;
+  excludedDays: number;
+  deadline: string;
+  status: LimitationStatus;
+  // Days left before the deadline, or days of delay past it
+  days: number;
+  steps: LimitationStep[];
+}
+
+const dayNumber = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY;
+};
+
+const isoDay = (days: number) => new Date(days * DAY).toISOString().slice(0, 10);
+
+export const addDays = (iso: string, days: number) => isoDay(dayNumber(iso) + days);
+
+export const daysBetween = (from: string, to: string) => dayNumber(to) - dayNumber(from);
+
+// A year ends on the same date of the later year; 29 February falls back to the 28th
+const addYears = (iso: string, years: number) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  const target = new Date(Date.UTC(year + years, month - 1, day));
+  if (target.getUTCMonth() !== month - 1) target.setUTCDate(0);
+  return target.toISOString().slice(0, 10);
+};
+
+export const formatDate = (iso: string) =>
+  new Date(`${iso}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+export const periodLabel = (article: LimitationArticle) =>
+  `${article.period} ${article.period === 1 ? article.unit.slice(0, -1) : article.unit}`;
+
+export const limitationSection = (section: string, label = `Section ${section}`): ProvisionCitation =>
+  ({ act: LIMITATION.act, label, section: section.replace(/\(.*$/, '') });
+
+export const articleCitation = (article: LimitationArticle): ProvisionCitation =>
+  ({ act: LIMITATION.act, label: `Article ${article.article}, Schedule` });
+
+export const findArticle = (id: string) => LIMITATION.articles.find(article => article.id === id);
+
+export const loadCourtClosures = (): CourtClosure[] => readStored<CourtClosure[]>(STORAGE_KEY, []);
+
+export const saveCourtClosures = (closures: CourtClosure[]) => writeStored(STORAGE_KEY, closures);
+
+export const addCourtClosure = (closures: CourtClosure[], from: string, to: string, label: string): CourtClosure[] => {
+  const [start, end] = from <= to ? [from, to] : [to, from];
+  const closure: CourtClosure = { id: createId('closure-'), from: start, to: end, label: label.trim() || 'Court holiday' };
+  return [...closures, closure].sort((a, b) => a.from.localeCompare(b.from));
+};
+
+export const removeCourtClosure = (closures: CourtClosure[], id: string): CourtClosure[] => closures.filter(closure => closure.id !== id);
+
+export const closureOn = (iso: string, closures: CourtClosure[], closedWeekdays: number[]): string | null => {
+  const listed = closures.find(closure => closure.from <= iso && iso <= closure.to);
+  if (listed) return listed.label;
+  return closedWeekdays.includes(new Date(dayNumber(iso) * DAY).getUTCDay()) ? 'Weekly holiday' : null;
+};
+
+export const computeLimitation = (input: LimitationInput): LimitationResult | null => {
+  const article = findArticle(input.articleId);
+  if (!article || !input.startDate) return null;
+  const steps: LimitationStep[] = [];
+
+  const prescribedEnd = article.unit === 'years'
+    ? addYears(input.startDate, article.period)
+    : addDays(input.startDate, article.period);
+  steps.push({
+    label: `${periodLabel(article)} from ${article.startsFrom}`,
+    date: prescribedEnd,
+    detail: `${article.description}. The starting day itself is left out, so the period ends on ${formatDate(prescribedEnd)}.`,
+    citation: articleCitation(article)
+  });
+  steps.push({
+    label: 'Starting day excluded',
+    detail: `Counting begins on ${formatDate(addDays(input.startDate, 1))}.`,
+    citation: limitationSection('12(1)')
+  });
+
+  let excludedDays = 0;
+  if (article.copyExclusion && input.copyAppliedOn) {
+    const citation = limitationSection('12(2)', 'Section 12(2) and (3)');
+    if (input.copyAppliedOn > prescribedEnd) {
+      steps.push({ label: 'Copy applied for too late', detail: 'The certified copy was applied for after the period had run out, so no time is excluded for it.', citation });
+    } else if (!input.copyReadyOn) {
+      steps.push({ label: 'Copy not yet ready', detail: 'The time from the copy application until the copy is ready will be excluded. Enter that date to extend the deadline.', citation });
+    } else if (input.copyReadyOn < input.copyAppliedOn) {
+      steps.push({ label: 'Check the copy dates', detail: 'The copy is shown as ready before it was applied for, so no time is excluded.', citation });
+    } else {
+      // Both the day of the application and the day the copy was ready are excluded
+      excludedDays = daysBetween(input.copyAppliedOn, input.copyReadyOn) + 1;
+      steps.push({
+        label: `${excludedDays} days excluded for the certified copy`,
+        date: addDays(prescribedEnd, excludedDays),
+        detail: `Applied for on ${formatDate(input.copyAppliedOn)} and ready on ${formatDate(input.copyReadyOn)}, both days included.`,
+        citation
+      });
+    }
+  }
+
+  let deadline = addDays(prescribedEnd, excludedDays);
+  const closedOn = closureOn(deadline, input.closures, input.closedWeekdays);
+  if (closedOn) {
+    const expiredOn = deadline;
+    // A year of closures would mean a missing end date, not a real vacation
+    for (let i = 0; i < 366 && closureOn(deadline, input.closures, input.closedWeekdays); i++) deadline = addDays(deadline, 1);
+    steps.push({
+      label: 'Court closed on the last day',
+      date: deadline,
+      detail: `${formatDate(expiredOn)} falls on a closure (${closedOn}). Filing on the day the court reopens, ${formatDate(deadline)}, is in time.`,
+      citation: limitationSection('4')
+    });
+  }
+
+  let status: LimitationStatus;
+  let days: number;
+  if (input.filedOn) {
+    days = daysBetween(deadline, input.filedOn);
+    status = days > 0 ? 'late' : 'in-time';
+    if (days > 0 && article.condonable) {
+      steps.push({
+        label: `Delay of ${days} days`,
+        date: input.filedOn,
+        detail: `Filed on ${formatDate(input.filedOn)}. File a petition to condone the delay, showing sufficient cause for the whole period.${article.note ? ` ${article.note}` : ''}`,
+        citation: limitationSection('5')
+      });
+    } else if (days > 0) {
+      steps.push({
+        label: `Barred by ${days} days`,
+        date: input.filedOn,
+        detail: `Filed on ${formatDate(input.filedOn)}. Section 5 does not apply to this ${article.category}, so it is liable to be dismissed.${article.note ? ` ${article.note}` : ''}`,
+        citation: limitationSection('3')
+      });
+    }
+  } else {
+    days = daysBetween(input.today, deadline);
+    status = days >= 0 ? 'running' : 'expired';
+    if (days < 0) {
+      steps.push({
+        label: `Expired ${-days} days ago`,
+        detail: article.condonable
+          ? 'Any filing now needs a petition to condone the delay, showing sufficient cause.'
+          : `Section 5 does not apply to this ${article.category}.${article.note ? ` ${article.note}` : ''}`,
+        citation: limitationSection(article.condonable ? '5' : '3')
+      });
+      days = -days;
+    }
+  }
+
+  return { article, prescribedEnd, excludedDays, deadline, status, days, steps };
+};
@@ -0,0 +1,19 @@
+import { LinkCheck } from "../types";
+
+/**
+ * Which card links get a liveness check, and how the results are kept in the app. The checks
+ * themselves run on the API server (server/linkVerifier.ts), which also caches them.
+ */
+
+// Primary and download links of news, article, judgment and Bare Act cards
+const LINK_FIELDS = ['url', 'link', 'sourceUrl', 'pdfUrl', 'freeDownloadLink'] as const;
+
+type LinkedItem = Partial<Record<(typeof LINK_FIELDS)[number], string>>;
+
+// Links in a batch that have not been sent for checking yet
+export const uncheckedLinks = (items: LinkedItem[], requested: Set<string>): string[] =>
+  Array.from(new Set(items.flatMap(item => LINK_FIELDS.map(field => item[field]).filter((url): url is string => Boolean(url)))))
+    .filter(url => !requested.has(url));
+
+export const mergeLinkChecks = (known: Record<string, LinkCheck>, checks: LinkCheck[]): Record<string, LinkCheck> =>
+  checks.length ? { ...known, ...Object.fromEntries(checks.map(check => [check.url, check])) } : known;
@@ -0,0 +1,38 @@
+/**
+ * Small persistence helpers for user-owned data (library, annotations, sessions, ...).
+ * Everything is stored as JSON in localStorage under an "mo-" prefixed key.
+ */
+
+export const readStored = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.warn(`Could not read ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const writeStored = <T,>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}:`, error);
+  }
+};
+
+export const createId = (prefix: string = '') =>
+  `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Offer a generated file to the user as a download
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadJson = (filename: string, payload: unknown) =>
+  downloadBlob(filename, new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }));
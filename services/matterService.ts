@@ -0,0 +1,189 @@
+import { LibraryItemKind, LibraryResource, Matter, MatterEvent, MatterEventKind, PracticeArea, TrackedCase } from "../types";
+import { readStored, writeStored, createId } from "./localStore";
+import { describeResource } from "./libraryService";
+import { BENCH_LABELS, formatCaseNumber } from "./causeListService";
+import { addDays } from "./limitationService";
+
+/**
+ * Client matters with their hearings, filing deadlines and meetings, and the research filed
+ * against them from any tab. A matter linked to a Case Tracker entry also shows that case's
+ * next hearing. Times are Indian Standard Time. All operations are pure; App persists them.
+ */
+
+const STORAGE_KEY = 'mo-matters';
+const REMINDERS_KEY = 'mo-matter-reminders';
+
+// How often App looks for reminders that have fallen due
+export const REMINDER_CHECK_INTERVAL = 60 * 1000;
+
+export const PRACTICE_AREAS: Record<PracticeArea, string> = {
+  civil: 'Civil Litigation',
+  criminal: 'Criminal Defense',
+  family: 'Family Law',
+  property: 'Property Law',
+  advisory: 'Legal Consulting'
+};
+
+export const EVENT_KINDS: Record<MatterEventKind, { label: string, icon: string }> = {
+  hearing: { label: 'Hearing', icon: 'fa-gavel' },
+  deadline: { label: 'Filing deadline', icon: 'fa-hourglass-end' },
+  meeting: { label: 'Client meeting', icon: 'fa-handshake' }
+};
+
+export const DEFAULT_REMINDER_DAYS: Record<MatterEventKind, number> = { hearing: 1, deadline: 3, meeting: 0 };
+
+// An event with its matter; derived events mirror the Case Tracker and are edited there
+export interface CalendarEntry {
+  matter: Matter;
+  event: MatterEvent;
+  derived: boolean;
+}
+
+export interface MatterDetails {
+  title: string;
+  client: string;
+  area: PracticeArea;
+  court?: string;
+  caseRef?: string;
+  trackedCaseId?: string;
+}
+
+export interface EventDetails {
+  kind: MatterEventKind;
+  title: string;
+  date: string;
+  time?: string;
+  location?: string;
+  notes?: string;
+  remindDaysBefore?: number;
+  uid?: string;
+}
+
+export const loadMatters = (): Matter[] => readStored<Matter[]>(STORAGE_KEY, []);
+
+export const saveMatters = (matters: Matter[]) => writeStored(STORAGE_KEY, matters);
+
+export const createMatter = (matters: Matter[], details: MatterDetails): { matters: Matter[], matter: Matter } => {
+  const now = Date.now();
+  const matter: Matter = {
+    ...details,
+    id: createId('matter-'),
+    title: details.title.trim() || 'Untitled matter',
+    client: details.client.trim(),
+    notes: '',
+    events: [],
+    research: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  return { matters: [matter, ...matters], matter };
+};
+
+const changeMatter = (matters: Matter[], id: string, change: (matter: Matter) => Matter): Matter[] =>
+  matters.map(matter => matter.id === id ? { ...change(matter), updatedAt: Date.now() } : matter);
+
+export const updateMatter = (matters: Matter[], id: string, changes: Partial<Omit<Matter, 'id' | 'events' | 'research' | 'createdAt'>>): Matter[] =>
+  changeMatter(matters, id, matter => ({ ...matter, ...changes }));
+
+export const deleteMatter = (matters: Matter[], id: string): Matter[] => matters.filter(matter => matter.id !== id);
+
+export const createEvent = (details: EventDetails): MatterEvent => {
+  const id = createId('event-');
+  return {
+    id,
+    uid: details.uid || `${id}@moon-ocean`,
+    kind: details.kind,
+    title: details.title.trim() || EVENT_KINDS[details.kind].label,
+    date: details.date,
+    time: details.time || undefined,
+    location: details.location?.trim() || undefined,
+    notes: details.notes || '',
+    remindDaysBefore: details.remindDaysBefore ?? DEFAULT_REMINDER_DAYS[details.kind],
+    done: false
+  };
+};
+
+export const addEvent = (matters: Matter[], matterId: string, details: EventDetails): Matter[] =>
+  changeMatter(matters, matterId, matter => ({ ...matter, events: [...matter.events, createEvent(details)] }));
+
+export const updateEvent = (matters: Matter[], matterId: string, eventId: string, changes: Partial<Omit<MatterEvent, 'id' | 'uid'>>): Matter[] =>
+  changeMatter(matters, matterId, matter => ({
+    ...matter,
+    events: matter.events.map(event => event.id === eventId ? { ...event, ...changes } : event)
+  }));
+
+export const removeEvent = (matters: Matter[], matterId: string, eventId: string): Matter[] =>
+  changeMatter(matters, matterId, matter => ({ ...matter, events: matter.events.filter(event => event.id !== eventId) }));
+
+export const linkResearch = (matters: Matter[], matterId: string, kind: LibraryItemKind, resource: LibraryResource): Matter[] => {
+  const { title, url } = describeResource(kind, resource);
+  return changeMatter(matters, matterId, matter => matter.research.some(item => item.url === url)
+    ? matter
+    : { ...matter, research: [{ id: createId('research-'), kind, title, url, resource, addedAt: Date.now() }, ...matter.research] });
+};
+
+export const unlinkResearch = (matters: Matter[], matterId: string, researchId: string): Matter[] =>
+  changeMatter(matters, matterId, matter => ({ ...matter, research: matter.research.filter(item => item.id !== researchId) }));
+
+// The linked tracked case's next hearing, shaped as an event of the matter
+const trackedHearing = (matter: Matter, trackedCases: TrackedCase[]): MatterEvent | null => {
+  const tracked = trackedCases.find(item => item.id === matter.trackedCaseId);
+  if (!tracked?.nextHearing) return null;
+  return {
+    id: `tracked-${tracked.id}`,
+    uid: `tracked-${tracked.id}@moon-ocean`,
+    kind: 'hearing',
+    title: tracked.stage ? `${formatCaseNumber(tracked)} • ${tracked.stage}` : formatCaseNumber(tracked),
+    date: tracked.nextHearing,
+    location: tracked.courtHall ? `Court ${tracked.courtHall}, ${BENCH_LABELS[tracked.bench]}` : BENCH_LABELS[tracked.bench],
+    notes: [tracked.judge, tracked.itemNo !== undefined ? `Item ${tracked.itemNo}` : ''].filter(Boolean).join(' • '),
+    remindDaysBefore: DEFAULT_REMINDER_DAYS.hearing,
+    done: false
+  };
+};
+
+const entryTime = ({ event }: CalendarEntry) => `${event.date}T${event.time || '00:00'}`;
+
+// Every event of every matter, soonest first
+export const calendarEntries = (matters: Matter[], trackedCases: TrackedCase[]): CalendarEntry[] =>
+  matters.flatMap(matter => {
+    const entries: CalendarEntry[] = matter.events.map(event => ({ matter, event, derived: false }));
+    const hearing = trackedHearing(matter, trackedCases);
+    return hearing ? [...entries, { matter, event: hearing, derived: true }] : entries;
+  }).sort((a, b) => entryTime(a).localeCompare(entryTime(b)));
+
+export const upcomingEntries = (entries: CalendarEntry[], today: string, days: number): CalendarEntry[] => {
+  const until = addDays(today, days);
+  return entries.filter(({ event }) => !event.done && event.date >= today && event.date <= until);
+};
+
+// A rescheduled event is reminded of again
+export const reminderKey = (event: MatterEvent) => `${event.uid}|${event.date}|${event.time || ''}`;
+
+export const loadSentReminders = (): string[] => readStored<string[]>(REMINDERS_KEY, []);
+
+export const saveSentReminders = (keys: string[]) => writeStored(REMINDERS_KEY, keys);
+
+// All-day events are reminded of at 9 am, the days before them given by the event
+const remindAt = (event: MatterEvent) => new Date(`${addDays(event.date, -event.remindDaysBefore)}T${event.time || '09:00'}:00+05:30`);
+
+const eventOver = (event: MatterEvent) => new Date(`${addDays(event.date, 1)}T00:00:00+05:30`);
+
+export const dueReminders = (entries: CalendarEntry[], now: Date, sent: string[]): CalendarEntry[] =>
+  entries.filter(({ event }) => !event.done && !sent.includes(reminderKey(event)) && remindAt(event) <= now && now < eventOver(event));
+
+export const formatEventDate = (event: MatterEvent) => {
+  const date = new Date(`${event.date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+  return event.time ? `${date}, ${event.time}` : date;
+};
+
+export const reminderText = ({ matter, event }: CalendarEntry): { title: string, body: string } => ({
+  title: `${EVENT_KINDS[event.kind].label}: ${event.title}`,
+  body: [formatEventDate(event), event.location, `${matter.title}${matter.client ? ` for ${matter.client}` : ''}`].filter(Boolean).join('\n')
+});
+
+// Keys of reminders already shown, dropping those of events that have since gone
+export const recordReminders = (sent: string[], entries: CalendarEntry[], shown: CalendarEntry[]): string[] => {
+  const live = new Set(entries.map(({ event }) => reminderKey(event)));
+  return [...sent.filter(key => live.has(key)), ...shown.map(({ event }) => reminderKey(event))];
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { MindMapNode } from "../types";
+import { addChildNode, buildMindMapTree, countDescendants, findNode, findSupportingPassage, layoutMindMap, pruneCollapsed, removeNode, renameNode } from "./mindMapService";
+
+// Labels of the tree, children in brackets
+const shape = (node: MindMapNode): string =>
+  node.children?.length ? `${node.label}(${node.children.map(shape).join(',')})` : node.label;
+
+describe('buildMindMapTree', () => {
+  it('assembles a flat list into a tree of any depth', () => {
+    const tree = buildMindMapTree([
+      { id: 'bail', label: 'Bail' },
+      { id: 'regular', label: 'Regular bail', parentId: 'bail' },
+      { id: 'conditions', label: 'Conditions', parentId: 'regular' },
+      { id: 'anticipatory', label: 'Anticipatory bail', parentId: 'bail', passage: 'Section 482 BNSS' }
+    ]);
+    expect(shape(tree)).toBe('Bail(Regular bail(Conditions),Anticipatory bail)');
+    expect(findNode(tree, 'anticipatory')?.passage).toBe('Section 482 BNSS');
+  });
+
+  it('attaches nodes with unknown or cyclic parents to the root', () => {
+    const tree = buildMindMapTree([
+      { id: 'root', label: 'Root' },
+      { id: 'orphan', label: 'Orphan', parentId: 'missing' },
+      { id: 'a', label: 'A', parentId: 'b' },
+      { id: 'b', label: 'B', parentId: 'a' },
+      { id: 'blank', label: '' }
+    ]);
+    expect(shape(tree)).toBe('Root(Orphan,A,B)');
+  });
+
+  it('keeps nodes the model gave the same id', () => {
+    const tree = buildMindMapTree([
+      { id: 'root', label: 'Bail' },
+      { id: 'n1', label: 'Regular bail', parentId: 'root' },
+      { id: 'n1', label: 'Anticipatory bail', parentId: 'root' },
+      { id: 'n2', label: 'Conditions', parentId: 'n1' }
+    ]);
+    expect(shape(tree)).toBe('Bail(Regular bail(Conditions),Anticipatory bail)');
+    expect(findNode(tree, 'n1-2')?.label).toBe('Anticipatory bail');
+  });
+
+  it('falls back to a root of its own when the model sends none', () => {
+    expect(buildMindMapTree([], 'Bail order')).toEqual({ id: 'root', label: 'Bail order' });
+  });
+});
+
+describe('editing', () => {
+  const tree = buildMindMapTree([
+    { id: 'root', label: 'Root' },
+    { id: 'a', label: 'A', parentId: 'root' },
+    { id: 'a1', label: 'A1', parentId: 'a' },
+    { id: 'b', label: 'B', parentId: 'root' }
+  ]);
+
+  it('renames, adds and removes nodes without touching the original', () => {
+    expect(shape(renameNode(tree, 'a1', '  Renamed '))).toBe('Root(A(Renamed),B)');
+    expect(shape(renameNode(tree, 'a1', '   '))).toBe('Root(A(A1),B)');
+    const { mindMap, node } = addChildNode(tree, 'b', 'B1');
+    expect(findNode(mindMap, node.id)?.label).toBe('B1');
+    expect(shape(removeNode(mindMap, 'a'))).toBe('Root(B(B1))');
+    expect(shape(tree)).toBe('Root(A(A1),B)');
+  });
+
+  it('hides the branches of collapsed nodes and counts descendants', () => {
+    expect(shape(pruneCollapsed(tree, new Set(['a'])))).toBe('Root(A,B)');
+    expect(countDescendants(tree)).toBe(3);
+  });
+});
+
+describe('layoutMindMap', () => {
+  it('stacks leaves and centres each parent on its children', () => {
+    const tree = buildMindMapTree([{ id: 'root', label: 'Root' }, { id: 'a', label: 'A', parentId: 'root' }, { id: 'b', label: 'B', parentId: 'root' }]);
+    const { tree: laidOut } = layoutMindMap(tree, { x: 10, y: 20 });
+    const [a, b] = laidOut.children;
+    expect(a.y).toBe(20);
+    expect(b.y).toBeGreaterThan(a.y);
+    expect(laidOut.y).toBe((a.y + b.y) / 2);
+    expect(a.x).toBeGreaterThan(laidOut.x + laidOut.width);
+  });
+});
+
+describe('findSupportingPassage', () => {
+  const source = 'The petitioner seeks anticipatory bail.\n\nPersonal liberty under Article 21 cannot be curtailed lightly.\n\nThe petition is allowed.';
+
+  it('prefers the paragraph holding the quoted passage, then the best keyword match', () => {
+    expect(findSupportingPassage(source, { id: 'x', label: 'Outcome', passage: 'petition  is allowed' })).toBe('The petition is allowed.');
+    expect(findSupportingPassage(source, { id: 'y', label: 'Article 21 and liberty' })).toBe('Personal liberty under Article 21 cannot be curtailed lightly.');
+    expect(findSupportingPassage(source, { id: 'z', label: 'Limitation' })).toBeNull();
+  });
+});
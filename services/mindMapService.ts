@@ -0,0 +1,184 @@
+import { MindMapNode } from "../types";
+import { createId } from "./localStore";
+
+/**
+ * Mind map structure shared by the Gemini provider, the graph view and the exporters.
+ * The model returns a flat node list with parent ids (its response schema has no recursive types),
+ * which is assembled here into a tree of any depth.
+ */
+
+export interface FlatMindMapNode {
+  id: string;
+  label: string;
+  parentId?: string;
+  passage?: string;
+}
+
+// Give repeated ids a numbered suffix; parents named by a repeated id stay with its first node
+const renameDuplicateIds = (nodes: FlatMindMapNode[]): FlatMindMapNode[] => {
+  const taken = new Set(nodes.map(node => node.id));
+  const seen = new Set<string>();
+  return nodes.map(node => {
+    if (!seen.has(node.id)) {
+      seen.add(node.id);
+      return node;
+    }
+    let n = 2;
+    while (taken.has(`${node.id}-${n}`)) n++;
+    taken.add(`${node.id}-${n}`);
+    return { ...node, id: `${node.id}-${n}` };
+  });
+};
+
+// Assemble flat nodes into a tree. Unknown or cyclic parents attach to the root and repeated ids are renamed, so no node is lost.
+export const buildMindMapTree = (nodes: FlatMindMapNode[], fallbackLabel: string = 'Analysis'): MindMapNode => {
+  const usable = renameDuplicateIds(nodes.filter(node => node.id && node.label));
+  const rootSource = usable.find(node => !node.parentId || !usable.some(other => other.id === node.parentId));
+  const root: MindMapNode = rootSource
+    ? { id: rootSource.id, label: rootSource.label, passage: rootSource.passage || undefined }
+    : { id: usable.some(node => node.id === 'root') ? createId('root-') : 'root', label: fallbackLabel };
+
+  const byId = new Map<string, MindMapNode>([[root.id, root]]);
+  usable.forEach(node => {
+    if (node !== rootSource) byId.set(node.id, { id: node.id, label: node.label, passage: node.passage || undefined });
+  });
+
+  const sources = new Map(usable.map(node => [node.id, node]));
+  const declaredParent = (nodeId: string) => {
+    const parentId = sources.get(nodeId)?.parentId;
+    return parentId && byId.has(parentId) ? parentId : root.id;
+  };
+  // Walk up the declared parents; a chain that loops back to the node is broken at the root
+  const parentOf = (nodeId: string) => {
+    let current = declaredParent(nodeId);
+    for (let steps = 0; current !== root.id; steps++) {
+      if (current === nodeId || steps > usable.length) return root.id;
+      current = declaredParent(current);
+    }
+    return declaredParent(nodeId);
+  };
+
+  byId.forEach((node, nodeId) => {
+    if (nodeId === root.id) return;
+    const parent = byId.get(parentOf(nodeId))!;
+    parent.children = [...(parent.children || []), node];
+  });
+  return root;
+};
+
+export const findNode = (root: MindMapNode, nodeId: string): MindMapNode | null => {
+  if (root.id === nodeId) return root;
+  for (const child of root.children || []) {
+    const found = findNode(child, nodeId);
+    if (found) return found;
+  }
+  return null;
+};
+
+const mapNodes = (node: MindMapNode, update: (node: MindMapNode) => MindMapNode): MindMapNode => {
+  const children = node.children?.map(child => mapNodes(child, update));
+  return update(children ? { ...node, children } : node);
+};
+
+export const renameNode = (root: MindMapNode, nodeId: string, label: string): MindMapNode =>
+  mapNodes(root, node => node.id === nodeId && label.trim() ? { ...node, label: label.trim() } : node);
+
+export const addChildNode = (root: MindMapNode, parentId: string, label: string = 'New concept'): { mindMap: MindMapNode, node: MindMapNode } => {
+  const node: MindMapNode = { id: createId('node-'), label };
+  const mindMap = mapNodes(root, current => current.id === parentId ? { ...current, children: [...(current.children || []), node] } : current);
+  return { mindMap, node };
+};
+
+// The root cannot be deleted; removing any other node removes its branch
+export const removeNode = (root: MindMapNode, nodeId: string): MindMapNode =>
+  mapNodes(root, node => node.children ? { ...node, children: node.children.filter(child => child.id !== nodeId) } : node);
+
+// Copy of the tree without the children of collapsed nodes, for layout
+export const pruneCollapsed = (root: MindMapNode, collapsed: Set<string>): MindMapNode =>
+  collapsed.has(root.id) ? { ...root, children: undefined } : { ...root, children: root.children?.map(child => pruneCollapsed(child, collapsed)) };
+
+export const countDescendants = (node: MindMapNode): number =>
+  (node.children || []).reduce((total, child) => total + 1 + countDescendants(child), 0);
+
+// ---------- Layout ----------
+
+export interface LaidOutNode {
+  node: MindMapNode;
+  x: number;
+  y: number;
+  width: number;
+  children: LaidOutNode[];
+}
+
+export const NODE_HEIGHT = 36;
+export const COLUMN_GAP = 56;
+const ROW_GAP = 14;
+const CHAR_WIDTH = 7.2;
+
+export const nodeWidth = (label: string) => Math.min(320, Math.max(80, label.length * CHAR_WIDTH + 28));
+
+export const truncateLabel = (label: string, width: number) => {
+  const maxChars = Math.floor((width - 28) / CHAR_WIDTH);
+  return label.length > maxChars ? `${label.slice(0, maxChars - 1)}…` : label;
+};
+
+// Left-to-right tidy tree: columns by depth, leaves stacked top to bottom, parents centred on their children
+export const layoutMindMap = (root: MindMapNode, origin: { x: number, y: number }) => {
+  const columnWidths: number[] = [];
+  const measure = (node: MindMapNode, depth: number) => {
+    columnWidths[depth] = Math.max(columnWidths[depth] || 0, nodeWidth(node.label));
+    node.children?.forEach(child => measure(child, depth + 1));
+  };
+  measure(root, 0);
+  const columnX = columnWidths.map((_, depth) => origin.x + columnWidths.slice(0, depth).reduce((sum, w) => sum + w + COLUMN_GAP, 0));
+
+  let nextY = origin.y;
+  const place = (node: MindMapNode, depth: number): LaidOutNode => {
+    const children = (node.children || []).map(child => place(child, depth + 1));
+    let y: number;
+    if (children.length) {
+      y = (children[0].y + children[children.length - 1].y) / 2;
+    } else {
+      y = nextY;
+      nextY += NODE_HEIGHT + ROW_GAP;
+    }
+    return { node, x: columnX[depth], y, width: nodeWidth(node.label), children };
+  };
+  const tree = place(root, 0);
+  const right = columnX[columnX.length - 1] + columnWidths[columnWidths.length - 1];
+  return { tree, right, bottom: nextY - ROW_GAP };
+};
+
+// ---------- Supporting passages ----------
+
+const STOP_WORDS = new Set(['the', 'of', 'and', 'a', 'an', 'to', 'in', 'on', 'for', 'by', 'or', 'under', 'with', 'vs', 'v']);
+
+const keywords = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+/**
+ * Paragraph of the source text that supports a node: the one containing the model's quoted passage,
+ * otherwise the paragraph sharing the most keywords with the label. Null when nothing matches.
+ */
+export const findSupportingPassage = (source: string, node: MindMapNode): string | null => {
+  const paragraphs = source.split(/\n\s*\n|\n/).map(p => p.trim()).filter(Boolean);
+  if (!paragraphs.length) return null;
+  if (node.passage) {
+    const needle = node.passage.toLowerCase().replace(/\s+/g, ' ').trim();
+    const quoted = paragraphs.find(p => p.toLowerCase().replace(/\s+/g, ' ').includes(needle));
+    if (quoted) return quoted;
+  }
+  const terms = keywords(node.label);
+  if (!terms.length) return node.passage || null;
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const paragraph of paragraphs) {
+    const words = new Set(keywords(paragraph));
+    const score = terms.filter(term => words.has(term)).length;
+    if (score > bestScore) {
+      best = paragraph;
+      bestScore = score;
+    }
+  }
+  return best || node.passage || null;
+};
@@ -0,0 +1,121 @@
+/**
+ * Minimal text extraction for PDFs with a text layer, such as court cause lists. Reads every
+ * content stream (inflating FlateDecode ones), interprets the text-showing operators and
+ * starts a new line whenever the text position moves down. Scanned PDFs and fonts with custom
+ * encodings come out empty or garbled; callers should say so rather than guess.
+ */
+
+const STREAM_PATTERN = /\bstream\r?\n/g;
+const TOKEN_PATTERN = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g;
+
+// Kerning gaps in TJ arrays wider than this (thousandths of an em) are read as word spaces
+const WORD_GAP = 200;
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decodeLiteral = (token: string) =>
+  token.slice(1, -1).replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+    if (/^[0-7]/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    return ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' } as Record<string, string>)[escape] ?? '';
+  });
+
+const decodeHex = (token: string) => {
+  const hex = token.slice(1, -1).replace(/\s+/g, '');
+  let text = '';
+  for (let i = 0; i < hex.length; i += 2) text += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+  return text;
+};
+
+const decodeString = (token: string) => token.startsWith('(') ? decodeLiteral(token) : decodeHex(token);
+
+// Text of one content stream, one output line per baseline
+export const contentStreamText = (content: string): string => {
+  const lines: string[] = [];
+  let line = '';
+  let operands: string[] = [];
+  let array: string[] | null = null;
+  // Baseline of the text line matrix, and of the text already collected in `line`
+  let lineY = 0;
+  let y: number | null = null;
+
+  const breakLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+  // Table cells are often separate text objects on one baseline; they join with a space
+  const moveTo = (nextY: number) => {
+    lineY = nextY;
+    if (y !== null && Math.abs(lineY - y) > 0.5) breakLine();
+    else if (line && !line.endsWith(' ')) line += ' ';
+    y = lineY;
+  };
+
+  for (const [token] of content.matchAll(TOKEN_PATTERN)) {
+    if (token === '[') {
+      array = [];
+      continue;
+    }
+    if (token === ']') {
+      operands.push(JSON.stringify(array));
+      array = null;
+      continue;
+    }
+    if (array) {
+      if (token.startsWith('(') || token.startsWith('<')) array.push(decodeString(token));
+      else if (Number(token) < -WORD_GAP) array.push(' ');
+      continue;
+    }
+    if (/^[A-Za-z'"*]+$/.test(token)) {
+      const last = operands[operands.length - 1];
+      if (token === 'Tj') line += decodeString(last || '()');
+      else if (token === "'" || token === '"') { breakLine(); line += decodeString(last || '()'); }
+      else if (token === 'TJ') line += (JSON.parse(last || '[]') as string[]).join('');
+      else if (token === 'Td' || token === 'TD') moveTo(lineY + Number(operands[operands.length - 1]));
+      else if (token === 'Tm') moveTo(Number(operands[operands.length - 1]));
+      else if (token === 'T*') moveTo(lineY - 1);
+      else if (token === 'BT') lineY = 0;
+      operands = [];
+      continue;
+    }
+    operands.push(token);
+  }
+  breakLine();
+  return lines.join('\n');
+};
+
+// A direct /Length is exact; otherwise the end-of-line before "endstream" is not part of the data
+const streamEnd = (raw: string, dictionary: string, start: number, end: number) => {
+  const length = Number(dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/)?.[1]);
+  if (length && start + length <= end) return start + length;
+  if (raw.slice(end - 2, end) === '\r\n') return end - 2;
+  return raw[end - 1] === '\n' || raw[end - 1] === '\r' ? end - 1 : end;
+};
+
+export const extractPdfText = async (bytes: Uint8Array): Promise<string> => {
+  const raw = new TextDecoder('latin1').decode(bytes);
+  const pages: string[] = [];
+  for (const match of raw.matchAll(STREAM_PATTERN)) {
+    // The stream dictionary sits between the object header and the stream keyword
+    const dictionary = raw.slice(raw.lastIndexOf(' obj', match.index!), match.index!);
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm|Metadata)/.test(dictionary)) continue;
+    const start = match.index! + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) continue;
+    let data = bytes.subarray(start, streamEnd(raw, dictionary, start, end));
+    if (/\/Filter\s*\/FlateDecode|\/Filter\s*\[\s*\/FlateDecode\s*\]/.test(dictionary)) {
+      try {
+        data = await inflate(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+    const content = new TextDecoder('latin1').decode(data);
+    if (/\bBT\b/.test(content) && /T[Jj]\b/.test(content)) pages.push(contentStreamText(content));
+  }
+  return pages.join('\n');
+};
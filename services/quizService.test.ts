@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { QuizQuestion } from "../types";
+import { createQuiz, gradeQuestion, gradeQuiz, normaliseQuizQuestions, overrideResult, scoreByTopic, timeLimitMinutes, totalMarks, wrongAnswerFlashcards } from "./quizService";
+
+const [mcq, identify, short] = normaliseQuizQuestions([
+  {
+    type: 'mcq',
+    topic: 'Bail',
+    prompt: 'Which court may grant anticipatory bail?',
+    options: [{ text: 'Magistrate', explanation: 'No power.' }, { text: 'Sessions Court or High Court', explanation: 'Section 482 BNSS.' }],
+    answerIndex: 1
+  },
+  { type: 'identify-section', topic: 'Offences', prompt: 'Punishment for murder', acceptedAnswers: ['Section 103(1) BNS', 'Section 302 IPC'] },
+  {
+    type: 'short-answer',
+    topic: 'Bail',
+    prompt: 'When is arrest justified?',
+    modelAnswer: 'Only when necessary.',
+    keyPoints: ['Arrest requires reasons recorded in writing', 'Notice of appearance comes first']
+  }
+]);
+
+describe('normaliseQuizQuestions', () => {
+  it('fills in ids, topics and the default marks of each type', () => {
+    expect([mcq.marks, identify.marks, short.marks]).toEqual([1, 2, 5]);
+    expect(mcq.id).toMatch(/^q-/);
+    expect(normaliseQuizQuestions([{ type: 'mcq', prompt: 'No topic', options: [{ text: 'A', explanation: '' }, { text: 'B', explanation: '' }], answerIndex: 0 }])[0].topic).toBe('General');
+  });
+
+  it('drops questions the model got wrong', () => {
+    expect(normaliseQuizQuestions([
+      { type: 'mcq', prompt: 'One option', options: [{ text: 'Only', explanation: '' }], answerIndex: 0 },
+      { type: 'mcq', prompt: 'Answer out of range', options: [{ text: 'A', explanation: '' }, { text: 'B', explanation: '' }], answerIndex: 2 },
+      { type: 'identify-section', prompt: 'No accepted answers' },
+      { type: 'essay' as QuizQuestion['type'], prompt: 'Unknown type' },
+      { type: 'short-answer' }
+    ])).toEqual([]);
+  });
+});
+
+describe('gradeQuestion', () => {
+  it('marks multiple choice by the chosen option', () => {
+    expect(gradeQuestion(mcq, 1)).toMatchObject({ correct: true, score: 1 });
+    expect(gradeQuestion(mcq, 0)).toMatchObject({ correct: false, score: 0 });
+    expect(gradeQuestion(mcq, undefined)).toMatchObject({ correct: false, score: 0 });
+  });
+
+  it('accepts any spelling of the section, old or new Act, but not the wrong Act', () => {
+    expect(gradeQuestion(identify, 's. 103(1) of the BNS').correct).toBe(true);
+    expect(gradeQuestion(identify, '302 IPC').correct).toBe(true);
+    expect(gradeQuestion(identify, '103').correct).toBe(true);
+    expect(gradeQuestion(identify, 'Section 302 BNS').correct).toBe(false);
+  });
+
+  it('gives short answers marks for the key points they cover, to the half mark', () => {
+    const result = gradeQuestion(short, 'The police must record reasons in writing before an arrest.');
+    expect(result).toMatchObject({ correct: true, score: 2.5, coveredPoints: ['Arrest requires reasons recorded in writing'] });
+    expect(gradeQuestion(short, 'Always arrest.')).toMatchObject({ correct: false, score: 0 });
+    expect(overrideResult(short, result, false)).toMatchObject({ correct: false, score: 0 });
+  });
+});
+
+describe('quiz totals', () => {
+  const quiz = createQuiz([mcq, identify, short]);
+
+  it('allows time and marks by question type', () => {
+    expect(timeLimitMinutes(quiz)).toBe(12);
+    expect(totalMarks(quiz)).toBe(8);
+  });
+
+  it('lists the weakest topic first', () => {
+    const results = gradeQuiz(quiz, { [mcq.id]: 1, [identify.id]: 'Section 101 BNS', [short.id]: 'No idea' });
+    expect(scoreByTopic(quiz, results)).toEqual([
+      { topic: 'Offences', score: 0, possible: 2, questions: 1 },
+      { topic: 'Bail', score: 1, possible: 6, questions: 2 }
+    ]);
+  });
+
+  it('turns wrong answers into flashcards the deck does not have yet', () => {
+    const results = gradeQuiz(quiz, { [mcq.id]: 0 });
+    const cards = wrongAnswerFlashcards(quiz, results, [{ question: short.prompt, answer: 'Already carded' }]);
+    expect(cards).toEqual([
+      { question: mcq.prompt, answer: 'Sessions Court or High Court. Section 482 BNSS.' },
+      { question: 'Which provision applies? Punishment for murder', answer: 'Section 103(1) BNS / Section 302 IPC.' }
+    ]);
+  });
+});
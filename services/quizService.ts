@@ -0,0 +1,141 @@
+import { Flashcard, Quiz, QuizQuestion, QuizQuestionType } from "../types";
+import { createId } from "./localStore";
+
+/**
+ * Practice tests in the style of the state judicial service examinations:
+ * multiple choice with distractor explanations, identify-the-section and short answers.
+ * Grading, the topic breakdown and the flashcards made from wrong answers live here.
+ */
+
+export type QuizAnswer = number | string;
+
+export interface QuestionResult {
+  questionId: string;
+  correct: boolean;
+  score: number;
+  // Short answers only: key points found in the answer
+  coveredPoints?: string[];
+}
+
+export interface TopicScore {
+  topic: string;
+  score: number;
+  possible: number;
+  questions: number;
+}
+
+// Minutes allowed per question type in timed mode
+const MINUTES_PER_QUESTION: Record<QuizQuestionType, number> = { mcq: 1.5, 'identify-section': 2, 'short-answer': 8 };
+
+const DEFAULT_MARKS: Record<QuizQuestionType, number> = { mcq: 1, 'identify-section': 2, 'short-answer': 5 };
+
+const STOP_WORDS = new Set(['the', 'and', 'that', 'with', 'from', 'under', 'which', 'this', 'such', 'shall', 'must', 'been', 'have', 'into', 'upon', 'only']);
+
+// Drop malformed questions from the model and fill in ids and marks
+export const normaliseQuizQuestions = (raw: Partial<QuizQuestion>[]): QuizQuestion[] =>
+  (raw || []).flatMap(question => {
+    if (!question.prompt || !question.type || !(question.type in DEFAULT_MARKS)) return [];
+    if (question.type === 'mcq') {
+      const options = (question.options || []).filter(option => option?.text);
+      if (options.length < 2 || question.answerIndex === undefined || !options[question.answerIndex]) return [];
+    }
+    if (question.type === 'identify-section' && !question.acceptedAnswers?.length) return [];
+    return [{
+      ...question,
+      id: question.id || createId('q-'),
+      type: question.type,
+      topic: question.topic?.trim() || 'General',
+      prompt: question.prompt,
+      marks: question.marks && question.marks > 0 ? question.marks : DEFAULT_MARKS[question.type],
+      modelAnswer: question.modelAnswer || ''
+    }];
+  });
+
+export const createQuiz = (questions: QuizQuestion[]): Quiz => ({ id: createId('quiz-'), createdAt: Date.now(), questions });
+
+export const timeLimitMinutes = (quiz: Quiz) =>
+  Math.ceil(quiz.questions.reduce((total, question) => total + MINUTES_PER_QUESTION[question.type], 0));
+
+export const totalMarks = (quiz: Quiz) => quiz.questions.reduce((total, question) => total + question.marks, 0);
+
+const keywords = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3 && !STOP_WORDS.has(word));
+
+// "s. 103(1) of the BNS" -> { number: "103", act: "bns" }
+const parseSectionReference = (text: string) => {
+  const lower = text.toLowerCase();
+  const number = lower.match(/(\d+[a-z]?)(?:\s*\(\d+\))?/)?.[1] || null;
+  const act = lower.match(/\b(bnss|bns|bsa|ipc|crpc|cr\.?p\.?c|iea|constitution|article)\b/)?.[1]?.replace(/\./g, '') || null;
+  return { number, act };
+};
+
+const matchesSection = (answer: string, accepted: string) => {
+  const given = parseSectionReference(answer);
+  const expected = parseSectionReference(accepted);
+  if (!given.number || given.number !== expected.number) return false;
+  return !given.act || !expected.act || given.act === expected.act;
+};
+
+export const gradeQuestion = (question: QuizQuestion, answer: QuizAnswer | undefined): QuestionResult => {
+  if (answer === undefined || answer === '') return { questionId: question.id, correct: false, score: 0 };
+
+  if (question.type === 'mcq') {
+    const correct = answer === question.answerIndex;
+    return { questionId: question.id, correct, score: correct ? question.marks : 0 };
+  }
+
+  if (question.type === 'identify-section') {
+    const correct = (question.acceptedAnswers || []).some(accepted => matchesSection(String(answer), accepted));
+    return { questionId: question.id, correct, score: correct ? question.marks : 0 };
+  }
+
+  // Short answer: a key point counts when at least half of its keywords appear in the answer
+  const answerWords = new Set(keywords(String(answer)));
+  const points = question.keyPoints?.length ? question.keyPoints : [question.modelAnswer];
+  const coveredPoints = points.filter(point => {
+    const terms = keywords(point);
+    return terms.length > 0 && terms.filter(term => answerWords.has(term)).length >= Math.ceil(terms.length / 2);
+  });
+  const score = Math.round((question.marks * coveredPoints.length / points.length) * 2) / 2;
+  return { questionId: question.id, correct: score >= question.marks / 2, score, coveredPoints };
+};
+
+export const gradeQuiz = (quiz: Quiz, answers: Record<string, QuizAnswer>): QuestionResult[] =>
+  quiz.questions.map(question => gradeQuestion(question, answers[question.id]));
+
+// Mark a short answer right or wrong by hand after reading the model answer
+export const overrideResult = (question: QuizQuestion, result: QuestionResult, correct: boolean): QuestionResult =>
+  ({ ...result, correct, score: correct ? question.marks : 0 });
+
+export const scoreByTopic = (quiz: Quiz, results: QuestionResult[]): TopicScore[] => {
+  const topics = new Map<string, TopicScore>();
+  quiz.questions.forEach((question, i) => {
+    const entry = topics.get(question.topic) || { topic: question.topic, score: 0, possible: 0, questions: 0 };
+    entry.score += results[i]?.score || 0;
+    entry.possible += question.marks;
+    entry.questions += 1;
+    topics.set(question.topic, entry);
+  });
+  return Array.from(topics.values()).sort((a, b) => a.score / a.possible - b.score / b.possible);
+};
+
+const flashcardFor = (question: QuizQuestion): Flashcard => {
+  if (question.type === 'mcq') {
+    const option = question.options![question.answerIndex!];
+    return { question: question.prompt, answer: `${option.text}. ${option.explanation}`.trim() };
+  }
+  if (question.type === 'identify-section') {
+    const explanation = question.modelAnswer ? ` ${question.modelAnswer}` : '';
+    return { question: `Which provision applies? ${question.prompt}`, answer: `${question.acceptedAnswers!.join(' / ')}.${explanation}` };
+  }
+  return { question: question.prompt, answer: question.modelAnswer };
+};
+
+// Flashcards for every question answered wrongly, skipping any the deck already has
+export const wrongAnswerFlashcards = (quiz: Quiz, results: QuestionResult[], existing: Flashcard[]): Flashcard[] => {
+  const known = new Set(existing.map(card => card.question));
+  return quiz.questions
+    .filter((_, i) => !results[i]?.correct)
+    .map(flashcardFor)
+    .filter(card => !known.has(card.question));
+};
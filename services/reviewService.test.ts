@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { Flashcard, ReviewState, StudySession } from "../types";
+import { buildDueQueue, cardIdFor, computeDeckStats, pruneReviewState, recordReview, scheduleCard, startOfDay } from "./reviewService";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 10, 0).getTime();
+
+const card = (n: number): Flashcard => ({ question: `What does Section ${n} provide?`, answer: `Answer ${n}` });
+
+const session = (id: string, flashcards: Flashcard[]): StudySession => ({
+  id,
+  name: `Deck ${id}`,
+  input: '',
+  subject: 'general',
+  createdAt: 0,
+  materials: { flashcards, mindMap: { id: 'root', label: 'Root' }, briefing: { provisions: [], arguments: [], conclusion: '' } }
+});
+
+const EMPTY: ReviewState = { schedules: {}, log: [] };
+
+describe('scheduleCard', () => {
+  it('starts new cards at one day, or four when easy', () => {
+    expect(scheduleCard(null, 'c', 'd', 'good', NOW)).toMatchObject({ interval: 1, repetitions: 1, dueAt: startOfDay(NOW) + DAY });
+    expect(scheduleCard(null, 'c', 'd', 'easy', NOW).interval).toBe(4);
+  });
+
+  it('grows the interval by the ease factor after the second review', () => {
+    const first = scheduleCard(null, 'c', 'd', 'good', NOW);
+    const second = scheduleCard(first, 'c', 'd', 'good', NOW + DAY);
+    expect(second.interval).toBe(6);
+    const third = scheduleCard(second, 'c', 'd', 'good', NOW + 7 * DAY);
+    expect(third.interval).toBe(Math.round(6 * third.easeFactor));
+    expect(scheduleCard(second, 'c', 'd', 'hard', NOW + 7 * DAY).interval).toBe(7);
+  });
+
+  it('resets a forgotten card, counts the lapse and keeps it due today', () => {
+    const learnt = scheduleCard(scheduleCard(null, 'c', 'd', 'good', NOW), 'c', 'd', 'good', NOW + DAY);
+    const lapsed = scheduleCard(learnt, 'c', 'd', 'again', NOW + 7 * DAY);
+    expect(lapsed).toMatchObject({ interval: 1, repetitions: 0, lapses: 1, dueAt: NOW + 7 * DAY });
+    expect(lapsed.easeFactor).toBeLessThan(learnt.easeFactor);
+  });
+
+  it('never lets the ease factor fall below 1.3', () => {
+    let schedule = scheduleCard(null, 'c', 'd', 'again', NOW);
+    for (let i = 0; i < 10; i++) schedule = scheduleCard(schedule, 'c', 'd', 'again', NOW);
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+});
+
+describe('card ids', () => {
+  it('follow the card, not its position in the deck', () => {
+    expect(cardIdFor(card(1))).toBe(cardIdFor({ question: ` ${card(1).question}`, answer: card(1).answer }));
+    expect(cardIdFor(card(1))).not.toBe(cardIdFor(card(2)));
+
+    const deck = session('a', [card(1), card(2)]);
+    const state = recordReview(EMPTY, buildDueQueue([deck], EMPTY, undefined, NOW)[1], 'good', NOW);
+    const reordered = session('a', [card(0), card(2), card(1)]);
+    expect(pruneReviewState(state, [reordered]).schedules[cardIdFor(card(2))]).toBeDefined();
+  });
+
+  it('let a copied deck share its schedules instead of being reviewed twice', () => {
+    const original = session('a', [card(1), card(2)]);
+    const copy = session('b', [card(1), card(2)]);
+    expect(buildDueQueue([original, copy], EMPTY, undefined, NOW)).toHaveLength(2);
+
+    const reviewed = buildDueQueue([original, copy], EMPTY, undefined, NOW)
+      .reduce((state, item) => recordReview(state, item, 'good', NOW), EMPTY);
+    expect(buildDueQueue([original, copy], reviewed, undefined, NOW)).toEqual([]);
+    expect(buildDueQueue([copy], reviewed, undefined, NOW + DAY)).toHaveLength(2);
+  });
+});
+
+describe('computeDeckStats', () => {
+  it('counts reviews and retention for every deck holding the card', () => {
+    const original = session('a', [card(1), card(2)]);
+    const copy = session('b', [card(1), card(2), card(3)]);
+    const [first, second] = buildDueQueue([original], EMPTY, undefined, NOW);
+    const learnt = [first, second].reduce((state, item) => recordReview(state, item, 'good', NOW), EMPTY);
+    const reviewed = recordReview(recordReview(learnt, first, 'good', NOW + DAY), second, 'again', NOW + DAY);
+
+    const [stats, copied] = computeDeckStats([original, copy], reviewed, NOW + DAY);
+    expect(stats).toMatchObject({ total: 2, newCards: 0, reviews: 4, retention: 50 });
+    expect(copied).toMatchObject({ total: 3, newCards: 1, reviews: 4, retention: 50 });
+  });
+
+  it('has no retention before a card has been seen twice', () => {
+    const deck = session('a', [card(1)]);
+    const state = recordReview(EMPTY, buildDueQueue([deck], EMPTY, undefined, NOW)[0], 'good', NOW);
+    expect(computeDeckStats([deck], state, NOW)[0]).toMatchObject({ reviews: 1, retention: null, learning: 1, due: 0 });
+  });
+});
+
+describe('pruneReviewState', () => {
+  it('keeps the history of cards that live on in a copied deck', () => {
+    const original = session('a', [card(1)]);
+    const copy = session('b', [card(1)]);
+    const state = recordReview(EMPTY, buildDueQueue([original], EMPTY, undefined, NOW)[0], 'good', NOW);
+    expect(pruneReviewState(state, [copy])).toEqual(state);
+    expect(pruneReviewState(state, [session('c', [card(2)])])).toEqual(EMPTY);
+  });
+});
@@ -0,0 +1,180 @@
+import { CardSchedule, Flashcard, ReviewGrade, ReviewLogEntry, ReviewState, StudySession } from "../types";
+import { readStored, writeStored } from "./localStore";
+
+/**
+ * Spaced-repetition review of Study Lab flashcards using the SM-2 schedule.
+ * Every saved session is a deck; schedules and the review log are kept per card
+ * so due queues, the daily count and deck statistics survive between visits. Cards are keyed by
+ * their question and answer, so adding, removing or reordering cards, or copying a deck, leaves
+ * every other card's schedule where it was.
+ */
+
+const STORAGE_KEY = 'mo-review';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+const MAX_LOG_ENTRIES = 5000;
+export const NEW_CARDS_PER_DAY = 20;
+export const MATURE_INTERVAL = 21;
+
+// SM-2 quality score for each button
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 2, hard: 3, good: 4, easy: 5 };
+
+export interface ReviewCard {
+  cardId: string;
+  deckId: string;
+  deckName: string;
+  card: Flashcard;
+  schedule: CardSchedule | null;
+}
+
+export interface DeckStats {
+  deckId: string;
+  deckName: string;
+  total: number;
+  newCards: number;
+  learning: number;
+  mature: number;
+  due: number;
+  reviews: number;
+  retention: number | null;
+}
+
+export const cardIdFor = (card: Flashcard) => {
+  const text = `${card.question.trim()}\u0000${card.answer.trim()}`;
+  let fnv = 0x811c9dc5;
+  let poly = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    fnv = Math.imul(fnv ^ code, 16777619);
+    poly = (poly * 31 + code) | 0;
+  }
+  return `card-${(fnv >>> 0).toString(36)}${(poly >>> 0).toString(36)}`;
+};
+
+export const loadReviewState = (): ReviewState => readStored<ReviewState>(STORAGE_KEY, { schedules: {}, log: [] });
+
+export const saveReviewState = (state: ReviewState) => writeStored(STORAGE_KEY, state);
+
+export const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const endOfDay = (timestamp: number) => startOfDay(timestamp) + DAY_MS - 1;
+
+const deckCards = (session: StudySession, state: ReviewState): ReviewCard[] =>
+  session.materials.flashcards.map(card => {
+    const cardId = cardIdFor(card);
+    return { cardId, deckId: session.id, deckName: session.name, card, schedule: state.schedules[cardId] || null };
+  });
+
+/**
+ * Next schedule after a grade. "Again" resets the card to day one; the other grades follow SM-2,
+ * with "hard" holding the interval and "easy" adding a bonus on top of the ease factor.
+ */
+export const scheduleCard = (previous: CardSchedule | null, cardId: string, deckId: string, grade: ReviewGrade, now: number): CardSchedule => {
+  const quality = GRADE_QUALITY[grade];
+  const current = previous || { cardId, deckId, easeFactor: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, dueAt: now, lastReviewedAt: now };
+  const easeFactor = Math.max(MIN_EASE, current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (grade === 'again') {
+    // Stays due today so it comes back in the same sitting, then restarts at one day
+    return { ...current, easeFactor, interval: 1, repetitions: 0, lapses: current.lapses + (previous ? 1 : 0), dueAt: now, lastReviewedAt: now };
+  }
+
+  let interval: number;
+  if (current.repetitions === 0) interval = grade === 'easy' ? 4 : 1;
+  else if (current.repetitions === 1) interval = grade === 'hard' ? 3 : 6;
+  else if (grade === 'hard') interval = Math.max(current.interval + 1, Math.round(current.interval * 1.2));
+  else interval = Math.round(current.interval * easeFactor * (grade === 'easy' ? 1.3 : 1));
+
+  return {
+    ...current,
+    easeFactor,
+    interval,
+    repetitions: current.repetitions + 1,
+    dueAt: startOfDay(now) + interval * DAY_MS,
+    lastReviewedAt: now
+  };
+};
+
+// Short label for the interval a grade would produce, shown on the grade buttons
+export const describeNextInterval = (previous: CardSchedule | null, grade: ReviewGrade, now: number): string => {
+  const next = scheduleCard(previous, '', '', grade, now);
+  if (grade === 'again') return '<1d';
+  if (next.interval < 30) return `${next.interval}d`;
+  if (next.interval < 365) return `${Math.round(next.interval / 30)}mo`;
+  return `${(next.interval / 365).toFixed(1)}y`;
+};
+
+export const recordReview = (state: ReviewState, item: ReviewCard, grade: ReviewGrade, now: number = Date.now()): ReviewState => {
+  const previous = state.schedules[item.cardId] || null;
+  const schedule = scheduleCard(previous, item.cardId, item.deckId, grade, now);
+  const entry: ReviewLogEntry = { cardId: item.cardId, deckId: item.deckId, grade, isNew: !previous, reviewedAt: now };
+  return {
+    schedules: { ...state.schedules, [item.cardId]: schedule },
+    log: [...state.log, entry].slice(-MAX_LOG_ENTRIES)
+  };
+};
+
+export const reviewsToday = (state: ReviewState, now: number = Date.now()) => {
+  const dayStart = startOfDay(now);
+  return state.log.filter(entry => entry.reviewedAt >= dayStart).length;
+};
+
+const newCardsIntroducedToday = (state: ReviewState, now: number) => {
+  const dayStart = startOfDay(now);
+  return state.log.filter(entry => entry.isNew && entry.reviewedAt >= dayStart).length;
+};
+
+/**
+ * Cards to review now across the given decks: scheduled cards due by the end of today (most overdue first),
+ * followed by unseen cards up to the daily new-card allowance. A card in several decks, such as a
+ * copied deck, is reviewed once.
+ */
+export const buildDueQueue = (sessions: StudySession[], state: ReviewState, deckIds?: string[], now: number = Date.now()): ReviewCard[] => {
+  const decks = deckIds ? sessions.filter(session => deckIds.includes(session.id)) : sessions;
+  const cards = decks.flatMap(session => deckCards(session, state))
+    .filter((item, index, all) => all.findIndex(other => other.cardId === item.cardId) === index);
+  const dueLimit = endOfDay(now);
+  const due = cards
+    .filter(item => item.schedule && item.schedule.dueAt <= dueLimit)
+    .sort((a, b) => a.schedule!.dueAt - b.schedule!.dueAt);
+  const newAllowance = Math.max(0, NEW_CARDS_PER_DAY - newCardsIntroducedToday(state, now));
+  const fresh = cards.filter(item => !item.schedule).slice(0, newAllowance);
+  return [...due, ...fresh];
+};
+
+export const computeDeckStats = (sessions: StudySession[], state: ReviewState, now: number = Date.now()): DeckStats[] => {
+  const dueLimit = endOfDay(now);
+  return sessions.map(session => {
+    const cards = deckCards(session, state);
+    const scheduled = cards.map(item => item.schedule).filter((schedule): schedule is CardSchedule => Boolean(schedule));
+    // A card's reviews count for every deck it is in, whichever deck it was reviewed from
+    const cardIds = new Set(cards.map(item => item.cardId));
+    const cardLog = state.log.filter(entry => cardIds.has(entry.cardId));
+    const graded = cardLog.filter(entry => !entry.isNew);
+    return {
+      deckId: session.id,
+      deckName: session.name,
+      total: cards.length,
+      newCards: cards.length - scheduled.length,
+      learning: scheduled.filter(schedule => schedule.interval < MATURE_INTERVAL).length,
+      mature: scheduled.filter(schedule => schedule.interval >= MATURE_INTERVAL).length,
+      due: scheduled.filter(schedule => schedule.dueAt <= dueLimit).length,
+      reviews: cardLog.length,
+      retention: graded.length ? Math.round(100 * graded.filter(entry => entry.grade !== 'again').length / graded.length) : null
+    };
+  });
+};
+
+// Drop schedules and log entries of cards no longer in any deck
+export const pruneReviewState = (state: ReviewState, sessions: StudySession[]): ReviewState => {
+  const cardIds = new Set(sessions.flatMap(session => session.materials.flashcards.map(cardIdFor)));
+  return {
+    schedules: Object.fromEntries(Object.entries(state.schedules).filter(([cardId]) => cardIds.has(cardId))),
+    log: state.log.filter(entry => cardIds.has(entry.cardId))
+  };
+};
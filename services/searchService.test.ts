@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { BareAct, LandmarkJudgment, Library, ScholarlyArticle, SearchResults } from "../types";
+import { filterHits, filterOptions, groupHits, savedHits, searchHits } from "./searchService";
+
+const judgment: LandmarkJudgment = {
+  caseName: 'Arnesh Kumar v. State of Bihar',
+  citation: '(2014) 8 SCC 273',
+  act: 'IPC',
+  bench: 'Division Bench',
+  summary: 'Guidelines on arrest.',
+  impact: '',
+  link: 'https://indiankanoon.org/doc/2982624/',
+  relatedActs: ['Code of Criminal Procedure, 1973']
+};
+
+const act: BareAct = {
+  name: 'Bharatiya Nyaya Sanhita, 2023',
+  year: 2023,
+  description: 'The penal code.',
+  sections: '358',
+  sourceUrl: 'https://www.indiacode.nic.in/handle/123456789/20062'
+};
+
+const article = (title: string, summary: string): ScholarlyArticle => ({
+  title,
+  author: 'A. Author',
+  act: 'BNSS',
+  summary,
+  url: `https://www.scobserver.in/${title.toLowerCase().replace(/\s+/g, '-')}`,
+  source: 'SC Observer'
+});
+
+const RESULTS: SearchResults = {
+  news: [{ title: 'Madras High Court on bail', summary: 'A ruling of 2025.', url: 'https://www.verdictum.in/bail', source: 'Verdictum', date: '2026-10-01' }],
+  articles: [],
+  supremeCourt: [article('Bail hearing', 'Listed before a three-judge bench.')],
+  tamilNadu: [],
+  judgments: [judgment],
+  acts: [act],
+  academy: [{ title: 'Refresher course on bail jurisprudence', academy: 'TNSJA', course: 'Refresher course', date: 'March 2025', summary: 'Module for Madras High Court staff.', url: 'https://tnsja.tn.gov.in/bail' }]
+};
+
+describe('searchHits', () => {
+  it('derives the court, year, Acts and source of every hit', () => {
+    const hits = searchHits(RESULTS);
+    expect(hits.map(hit => [hit.kind, hit.court, hit.year, hit.acts, hit.source])).toEqual([
+      ['judgment', 'Supreme Court', 2014, ['Indian Penal Code, 1860', 'Code of Criminal Procedure, 1973'], 'indiankanoon.org'],
+      ['act', undefined, 2023, ['Bharatiya Nyaya Sanhita, 2023'], 'indiacode.nic.in'],
+      ['supreme-court', 'Supreme Court', undefined, ['Bharatiya Nagarik Suraksha Sanhita, 2023'], 'SC Observer'],
+      ['news', 'Madras High Court', 2026, [], 'Verdictum'],
+      ['academy', 'Madras High Court', 2025, [], 'TNSJA']
+    ]);
+  });
+});
+
+describe('filters and groups', () => {
+  const hits = searchHits(RESULTS);
+
+  it('offers only values present in the hits', () => {
+    expect(filterOptions(hits)).toEqual({
+      courts: ['Madras High Court', 'Supreme Court'],
+      years: [2026, 2025, 2023, 2014],
+      acts: ['Bharatiya Nagarik Suraksha Sanhita, 2023', 'Bharatiya Nyaya Sanhita, 2023', 'Code of Criminal Procedure, 1973', 'Indian Penal Code, 1860'],
+      sources: ['SC Observer', 'TNSJA', 'Verdictum', 'indiacode.nic.in', 'indiankanoon.org']
+    });
+  });
+
+  it('keeps hits matching every filter', () => {
+    expect(filterHits(hits, { court: 'Supreme Court' }).map(hit => hit.kind)).toEqual(['judgment', 'supreme-court']);
+    expect(filterHits(hits, { court: 'Supreme Court', act: 'Indian Penal Code, 1860' }).map(hit => hit.kind)).toEqual(['judgment']);
+    expect(filterHits(hits, { year: 1999 })).toEqual([]);
+  });
+
+  it('groups hits in display order and leaves out empty groups', () => {
+    expect(groupHits(hits).map(group => [group.label, group.hits.length])).toEqual([
+      ['Judgments', 1], ['Bare Acts', 1], ['SC Observer', 1], ['News', 1], ['Judiciary Academy', 1]
+    ]);
+  });
+});
+
+describe('savedHits', () => {
+  const library: Library = {
+    folders: [{ id: 'f', name: 'Bail', createdAt: 0 }],
+    items: [{ id: 'i', folderId: 'f', kind: 'judgment', title: judgment.caseName, url: judgment.link, notes: 'Cite for 41A notice', tags: ['arrest'], savedAt: 0, resource: judgment }]
+  };
+
+  it('matches every word against the title, notes, tags and record', () => {
+    expect(savedHits(library, 'arrest 41a').map(hit => [hit.id, hit.kind, hit.title])).toEqual([['saved:i', 'saved', judgment.caseName]]);
+    expect(savedHits(library, 'arrest murder')).toEqual([]);
+    expect(savedHits(library, '  ')).toEqual([]);
+  });
+});
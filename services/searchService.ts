@@ -0,0 +1,166 @@
+import { AcademyMaterial, BareAct, LandmarkJudgment, LegalNews, Library, LibraryItemKind, LibraryResource, ScholarlyArticle, SearchFilters, SearchResults } from "../types";
+import { analyseCitation, COURT_NAMES } from "./citationService";
+import { actLabel } from "./citationGraphService";
+import { describeResource } from "./libraryService";
+
+/**
+ * Cross-tab search: flattens a SearchResults response and the matching saved items into one
+ * list of hits, derives the court, year, Act and source of each so they can be filtered, and
+ * groups the survivors by type for display.
+ */
+
+export type SearchHitKind = 'news' | 'article' | 'academy' | 'supreme-court' | 'tamil-nadu' | 'judgment' | 'act' | 'saved';
+
+export interface SearchHit {
+  id: string;
+  kind: SearchHitKind;
+  // Library kind of the underlying resource, for saving and for saved hits
+  resourceKind: LibraryItemKind;
+  resource: LibraryResource;
+  title: string;
+  snippet: string;
+  url: string;
+  court?: string;
+  year?: number;
+  acts: string[];
+  source: string;
+}
+
+export interface SearchGroup {
+  kind: SearchHitKind;
+  label: string;
+  icon: string;
+  hits: SearchHit[];
+}
+
+export const SEARCH_GROUPS: { kind: SearchHitKind, label: string, icon: string }[] = [
+  { kind: 'saved', label: 'In My Library', icon: 'fa-bookmark' },
+  { kind: 'judgment', label: 'Judgments', icon: 'fa-gavel' },
+  { kind: 'act', label: 'Bare Acts', icon: 'fa-scroll' },
+  { kind: 'supreme-court', label: 'SC Observer', icon: 'fa-building-columns' },
+  { kind: 'tamil-nadu', label: 'Tamil Nadu Hub', icon: 'fa-location-dot' },
+  { kind: 'news', label: 'News', icon: 'fa-earth-asia' },
+  { kind: 'article', label: 'Articles', icon: 'fa-book-open' },
+  { kind: 'academy', label: 'Judiciary Academy', icon: 'fa-landmark-dome' }
+];
+
+export const SEARCH_DEBOUNCE_MS = 300;
+
+const COURT_MENTIONS: { court: string, pattern: RegExp }[] = [
+  { court: COURT_NAMES.SC, pattern: /supreme court|\bapex court\b/i },
+  { court: COURT_NAMES.Mad, pattern: /madras high court|madurai bench|\bmadras hc\b/i },
+  ...Object.values(COURT_NAMES)
+    .filter(name => name !== COURT_NAMES.SC && name !== COURT_NAMES.Mad)
+    .map(name => ({ court: name, pattern: new RegExp(name.replace(/\s+/g, '\\s+'), 'i') }))
+];
+
+const courtMentioned = (text: string) => COURT_MENTIONS.find(({ pattern }) => pattern.test(text))?.court;
+
+const yearIn = (text: string = "") => {
+  const match = text.match(/\b(18|19|20)\d{2}\b/);
+  return match ? Number(match[0]) : undefined;
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+const uniqueActs = (names: (string | undefined)[]) =>
+  Array.from(new Set(names.filter((name): name is string => Boolean(name?.trim())).map(actLabel)));
+
+// Facets and display fields for one resource; `kind` decides which feed's defaults apply
+const describeHit = (kind: SearchHitKind, resourceKind: LibraryItemKind, resource: LibraryResource): SearchHit => {
+  const { title, url } = describeResource(resourceKind, resource);
+  const base = { id: `${kind}:${url || title}`, kind, resourceKind, resource, title, url };
+  if (resourceKind === 'judgment') {
+    const judgment = resource as LandmarkJudgment;
+    const [citation] = analyseCitation(judgment.citation).valid;
+    return {
+      ...base,
+      snippet: judgment.summary,
+      court: citation ? COURT_NAMES[citation.court] : courtMentioned(`${judgment.bench} ${judgment.summary}`),
+      year: citation?.year || yearIn(judgment.citation),
+      acts: uniqueActs([judgment.act, ...(judgment.relatedActs || [])]),
+      source: hostOf(judgment.link)
+    };
+  }
+  if (resourceKind === 'act') {
+    const act = resource as BareAct;
+    return { ...base, snippet: act.description, year: act.year, acts: uniqueActs([act.name]), source: hostOf(act.sourceUrl) };
+  }
+  if (resourceKind === 'academy') {
+    const material = resource as AcademyMaterial;
+    return {
+      ...base,
+      snippet: material.summary,
+      court: courtMentioned(`${material.title} ${material.summary}`),
+      year: yearIn(material.date),
+      acts: [],
+      source: material.academy
+    };
+  }
+  if (resourceKind === 'news') {
+    const news = resource as LegalNews;
+    return { ...base, snippet: news.summary, court: courtMentioned(`${news.title} ${news.summary}`), year: yearIn(news.date), acts: [], source: news.source };
+  }
+  const article = resource as ScholarlyArticle;
+  const text = `${article.title} ${article.summary}`;
+  return {
+    ...base,
+    snippet: article.summary,
+    court: courtMentioned(text) || (kind === 'supreme-court' ? COURT_NAMES.SC : undefined),
+    year: yearIn(text),
+    acts: uniqueActs([article.act]),
+    source: article.source
+  };
+};
+
+export const searchHits = (results: SearchResults): SearchHit[] => [
+  ...results.judgments.map(item => describeHit('judgment', 'judgment', item)),
+  ...results.acts.map(item => describeHit('act', 'act', item)),
+  ...results.supremeCourt.map(item => describeHit('supreme-court', 'article', item)),
+  ...results.tamilNadu.map(item => describeHit('tamil-nadu', 'article', item)),
+  ...results.news.map(item => describeHit('news', 'news', item)),
+  ...results.articles.map(item => describeHit('article', 'article', item)),
+  ...results.academy.map(item => describeHit('academy', 'academy', item))
+];
+
+// Saved items whose title, notes, tags or stored record contain every word of the query
+export const savedHits = (library: Library, query: string): SearchHit[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return [];
+  return library.items
+    .filter(item => {
+      const text = `${item.title} ${item.notes} ${item.tags.join(' ')} ${JSON.stringify(item.resource)}`.toLowerCase();
+      return words.every(word => text.includes(word));
+    })
+    .map(item => ({ ...describeHit('saved', item.kind, item.resource), id: `saved:${item.id}` }));
+};
+
+export const filterHits = (hits: SearchHit[], filters: SearchFilters): SearchHit[] =>
+  hits.filter(hit =>
+    (!filters.court || hit.court === filters.court) &&
+    (!filters.year || hit.year === filters.year) &&
+    (!filters.act || hit.acts.includes(filters.act)) &&
+    (!filters.source || hit.source === filters.source));
+
+// Values present in the unfiltered hits, so every filter option returns something
+export const filterOptions = (hits: SearchHit[]) => {
+  const values = <T,>(pick: (hit: SearchHit) => T | T[] | undefined) =>
+    Array.from(new Set(hits.flatMap(hit => pick(hit) ?? []))).filter(Boolean) as T[];
+  return {
+    courts: values(hit => hit.court).sort(),
+    years: values(hit => hit.year).sort((a, b) => b - a),
+    acts: values(hit => hit.acts).sort(),
+    sources: values(hit => hit.source).sort()
+  };
+};
+
+export const groupHits = (hits: SearchHit[]): SearchGroup[] =>
+  SEARCH_GROUPS
+    .map(group => ({ ...group, hits: hits.filter(hit => hit.kind === group.kind) }))
+    .filter(group => group.hits.length > 0);
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SourceNote, SourcePolicy } from "../types";
+import { DEFAULT_SOURCE_POLICY, cleanLegalData, groupedSourceGuidance, linkHost, loadSourcePolicy, parseDomainList } from "./sourcePolicy";
+
+const policy: SourcePolicy = {
+  allowed: ['trusted.in'],
+  blocked: ['paywall.com'],
+  preferred: { news: ['favourite.in'] },
+  showFiltered: false
+};
+
+const item = (title: string, url?: string, extra: Record<string, string> = {}): { title: string, summary: string, url?: string, sourceNote?: SourceNote } =>
+  ({ title, summary: 'A summary', url, ...extra });
+
+describe('cleanLegalData', () => {
+  it('drops items whose link cannot be opened, even when filtered items are shown', () => {
+    const items = [
+      item('No link'),
+      item('No scheme', 'www.verdictum.in/some-story'),
+      item('Placeholder', 'https://example.com/article-one'),
+      item('Truncated', 'https://www.verdictum.in/court-updates/...'),
+      item('Bad download', 'https://www.verdictum.in/story-one', { downloadUrl: 'javascript:alert(1)' }),
+      item('Good', 'https://www.verdictum.in/story-two')
+    ];
+    expect(cleanLegalData(items, 'news', policy).map(result => result.title)).toEqual(['Good']);
+    expect(cleanLegalData(items, 'news', { ...policy, showFiltered: true }).map(result => result.title)).toEqual(['Good']);
+  });
+
+  it('drops blocked sources and error pages unless filtered items are shown, then sinks them with a note', () => {
+    const items = [
+      item('Blocked', 'https://www.paywall.com/story-one'),
+      item('Error 404', 'https://www.verdictum.in/missing-story'),
+      item('Plain', 'https://www.verdictum.in/story-two')
+    ];
+    expect(cleanLegalData(items, 'news', policy).map(result => result.title)).toEqual(['Plain']);
+
+    const shown = cleanLegalData(items, 'news', { ...policy, showFiltered: true });
+    expect(shown.map(result => result.title)).toEqual(['Plain', 'Blocked', 'Error 404']);
+    expect(shown[1].sourceNote).toEqual({ status: 'filtered', reason: 'Blocked source: paywall.com' });
+    expect(shown[2].sourceNote).toEqual({ status: 'filtered', reason: 'Looks like an error page' });
+  });
+
+  it('treats oops, not found and maintenance pages as error pages', () => {
+    const items = [
+      item('Oops, something went wrong', 'https://www.verdictum.in/story-one'),
+      item('Resource not found', 'https://www.verdictum.in/story-two'),
+      item('Down for maintenance', 'https://www.verdictum.in/story-three')
+    ];
+    expect(cleanLegalData(items, 'news', policy)).toEqual([]);
+  });
+
+  it('lifts preferred sources for the tab and sinks partly blocked items', () => {
+    const items = [
+      item('Mirror', 'https://www.verdictum.in/story-one', { downloadUrl: 'https://paywall.com/copy.pdf' }),
+      item('Plain', 'https://www.verdictum.in/story-two'),
+      item('Favourite', 'https://news.favourite.in/story-three')
+    ];
+    const cleaned = cleanLegalData(items, 'news', policy);
+    expect(cleaned.map(result => result.title)).toEqual(['Favourite', 'Plain', 'Mirror']);
+    expect(cleaned[0].sourceNote).toEqual({ status: 'preferred', reason: 'Preferred source: favourite.in' });
+    expect(cleaned[2].sourceNote).toEqual({ status: 'down-ranked', reason: 'A secondary link points to blocked paywall.com' });
+
+    // Preferences belong to one tab
+    expect(cleanLegalData(items, 'articles', policy)[0].title).toBe('Plain');
+  });
+
+  it('keeps allowed sources even when they look like error pages', () => {
+    const items = [item('Page not found: tracker', 'https://trusted.in/tracker-page')];
+    expect(cleanLegalData(items, 'news', policy)).toHaveLength(1);
+  });
+
+  it('blocks the paywalled portals by default', () => {
+    expect(cleanLegalData([item('Paywalled', 'https://www.scconline.com/blog/post')], 'news')).toEqual([]);
+    expect(DEFAULT_SOURCE_POLICY.showFiltered).toBe(false);
+  });
+});
+
+describe('loadSourcePolicy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the default preferences of tabs the stored policy does not mention', () => {
+    const stored = { blocked: ['paywall.com'], preferred: { news: ['favourite.in'], judgments: [] } };
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+    const loaded = loadSourcePolicy();
+    expect(loaded.blocked).toEqual(['paywall.com']);
+    expect(loaded.allowed).toEqual(DEFAULT_SOURCE_POLICY.allowed);
+    expect(loaded.preferred).toEqual({ ...DEFAULT_SOURCE_POLICY.preferred, news: ['favourite.in'], judgments: [] });
+  });
+});
+
+describe('parseDomainList', () => {
+  it('reduces pasted links to their domains', () => {
+    expect(parseDomainList('https://www.SCCOnline.com/Home, livelaw.in\nnot-a-domain livelaw.in')).toEqual(['scconline.com', 'livelaw.in']);
+  });
+});
+
+describe('groupedSourceGuidance', () => {
+  it('names the preferred sources of each group once and the shared lists after them', () => {
+    expect(groupedSourceGuidance(policy, { news: 'news', judgments: 'judgments' }).split('\n').map(line => line.trim())).toEqual([
+      "For 'news', PREFER these sources: favourite.in.",
+      'These sources are trusted and may be used: trusted.in.',
+      'NEVER use these sources: paywall.com.'
+    ]);
+  });
+});
+
+describe('linkHost', () => {
+  it('returns the host without www, or nothing for a link that cannot be parsed', () => {
+    expect(linkHost('https://www.IndiaCode.nic.in/handle/123')).toBe('indiacode.nic.in');
+    expect(linkHost('indiacode.nic.in/handle/123')).toBe('');
+    expect(linkHost(undefined)).toBe('');
+  });
+});
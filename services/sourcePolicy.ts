@@ -0,0 +1,179 @@
+import { SourceNote, SourcePolicy, SourceTab } from "../types";
+import { readStored, writeStored } from "./localStore";
+
+/**
+ * The reader's source policy: which domains the feeds trust, block or prefer on each tab.
+ * Edited on the Source Policy screen, sent with every feed request and applied on the server by
+ * both providers through cleanLegalData, so Gemini and the fixtures filter alike.
+ */
+
+const STORAGE_KEY = 'mo-source-policy';
+
+export const SOURCE_TABS: { id: SourceTab, label: string }[] = [
+  { id: 'news', label: 'Current News' },
+  { id: 'articles', label: 'Legal Articles' },
+  { id: 'academy', label: 'Judiciary Academy' },
+  { id: 'supreme-court', label: 'SC Observer' },
+  { id: 'tamil-nadu', label: 'Tamil Nadu Hub' },
+  { id: 'judgments', label: 'Landmark Verdicts' },
+  { id: 'bare-acts', label: 'Bare Acts' }
+];
+
+// Paywalled portals stay blocked until a subscriber allows them
+export const DEFAULT_SOURCE_POLICY: SourcePolicy = {
+  allowed: [],
+  blocked: ['livelaw.in', 'barandbench.com', 'scconline.com', 'manupatra.com'],
+  preferred: {
+    news: ['verdictum.in', 'theleaflet.in'],
+    academy: ['nja.gov.in', 'tnsja.tn.gov.in'],
+    'supreme-court': ['scobserver.in', 'sci.gov.in'],
+    'tamil-nadu': ['mhc.tn.gov.in', 'tn.gov.in'],
+    judgments: ['indiankanoon.org', 'sci.gov.in'],
+    'bare-acts': ['indiacode.nic.in']
+  },
+  showFiltered: false
+};
+
+// Titles and summaries of error pages; these are dropped
+const ERROR_PATTERNS = [/404/i, /page not found/i, /oops/i, /error 404/i, /not found/i, /access denied/i, /maintenance/i, /forbidden/i];
+
+// Preferred first, untouched items next, then down-ranked and finally filtered ones
+const rank = (note?: SourceNote) => note ? { preferred: 0, 'down-ranked': 2, filtered: 3 }[note.status] : 1;
+
+// Tabs the stored policy has no preferences for keep the defaults
+export const loadSourcePolicy = (): SourcePolicy => {
+  const stored = readStored<Partial<SourcePolicy>>(STORAGE_KEY, {});
+  return { ...DEFAULT_SOURCE_POLICY, ...stored, preferred: { ...DEFAULT_SOURCE_POLICY.preferred, ...stored.preferred } };
+};
+
+export const saveSourcePolicy = (policy: SourcePolicy) => writeStored(STORAGE_KEY, policy);
+
+// "https://www.SCCOnline.com/Home" and "scconline.com" are the same domain
+export const normaliseDomain = (input: string) =>
+  input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/[/?#:].*$/, '');
+
+// Domains typed into the settings screen, one per line or comma separated
+export const parseDomainList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,]+/).map(normaliseDomain).filter(domain => domain.includes('.'))));
+
+// Short fingerprint for cache keys, so a changed policy never serves a feed filtered under the old one
+export const policyKey = (policy: SourcePolicy) => {
+  const json = JSON.stringify([policy.allowed, policy.blocked, policy.preferred, policy.showFiltered]);
+  let hash = 0;
+  for (let i = 0; i < json.length; i++) hash = (hash * 31 + json.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+// Host of a card link for display; empty when the link cannot be parsed
+export const linkHost = (url?: string) => hostOf(url || '');
+
+const onDomain = (url: string, domains: string[]) => {
+  const host = hostOf(url);
+  return domains.find(domain => host === domain || host.endsWith(`.${domain}`));
+};
+
+const sharedGuidance = (policy: SourcePolicy) => [
+  policy.allowed.length ? `These sources are trusted and may be used: ${policy.allowed.join(', ')}.` : '',
+  policy.blocked.length ? `NEVER use these sources: ${policy.blocked.join(', ')}.` : ''
+];
+
+// Prompt lines for the live provider, so the model searches the way the filter will judge
+export const sourceGuidance = (policy: SourcePolicy, tab: SourceTab) => [
+  policy.preferred[tab]?.length ? `PREFER these sources: ${policy.preferred[tab]!.join(', ')}.` : '',
+  ...sharedGuidance(policy)
+].filter(Boolean).join('\n        ');
+
+// The same for a search that fills several tabs' groups in one answer, each group with its own preferred sources
+export const groupedSourceGuidance = (policy: SourcePolicy, groups: Record<string, SourceTab>) => [
+  ...Object.entries(groups).map(([group, tab]) =>
+    policy.preferred[tab]?.length ? `For '${group}', PREFER these sources: ${policy.preferred[tab]!.join(', ')}.` : ''),
+  ...sharedGuidance(policy)
+].filter(Boolean).join('\n        ');
+
+type LegalRecord = {
+  title?: string;
+  name?: string;
+  caseName?: string;
+  summary?: string;
+  description?: string;
+  url?: string;
+  link?: string;
+  sourceUrl?: string;
+  downloadUrl?: string;
+  freeAlternativeUrl?: string;
+  secondarySourceUrl?: string;
+  pdfUrl?: string;
+  downloadLink?: string;
+  freeDownloadLink?: string;
+  sourceNote?: SourceNote;
+};
+
+const primaryUrlOf = (item: LegalRecord) => item.url || item.link || item.sourceUrl || '';
+
+const urlsOf = (item: LegalRecord) => [
+  primaryUrlOf(item),
+  item.downloadUrl,
+  item.freeAlternativeUrl,
+  item.secondarySourceUrl,
+  item.pdfUrl,
+  item.downloadLink,
+  item.freeDownloadLink
+].filter(Boolean) as string[];
+
+// Why the item's links cannot be opened at all; such items are dropped even when filtered items are shown
+const unusableLink = (item: LegalRecord): string | undefined => {
+  const urls = urlsOf(item);
+  if (!urls.length) return 'No source link';
+  const badUrl = urls.find(url => {
+    const lowerUrl = url.toLowerCase();
+    if (!/^https?:\/\//.test(lowerUrl) || !hostOf(url)) return true;
+    if (lowerUrl.length < 15) return true;
+    if (url.includes('...') || url.includes('…')) return true;
+    return lowerUrl.includes('example.com') || lowerUrl.includes('placeholder');
+  });
+  return badUrl ? 'Incomplete or placeholder link' : undefined;
+};
+
+const judgeItem = (item: LegalRecord, policy: SourcePolicy, tab: SourceTab): SourceNote | undefined => {
+  const primaryUrl = primaryUrlOf(item);
+  const urls = urlsOf(item);
+
+  const trusted = Boolean(primaryUrl && onDomain(primaryUrl, policy.allowed));
+  const blockedUrl = urls.find(url => onDomain(url, policy.blocked) && !onDomain(url, policy.allowed));
+  if (blockedUrl && !trusted) {
+    const domain = onDomain(blockedUrl, policy.blocked);
+    if (blockedUrl === primaryUrl) return { status: 'filtered', reason: `Blocked source: ${domain}` };
+    return { status: 'down-ranked', reason: `A secondary link points to blocked ${domain}` };
+  }
+
+  const text = `${item.title || item.name || item.caseName || ''} ${item.summary || item.description || ''}`;
+  if (!trusted && ERROR_PATTERNS.some(pattern => pattern.test(text))) return { status: 'filtered', reason: 'Looks like an error page' };
+
+  const preferred = primaryUrl && onDomain(primaryUrl, policy.preferred[tab] || []);
+  if (preferred) return { status: 'preferred', reason: `Preferred source: ${preferred}` };
+  return undefined;
+};
+
+/**
+ * Apply the source policy to one batch of feed items: drop items without a usable link, drop (or,
+ * with showFiltered, sink) error pages and blocked sources, sink items with a blocked secondary link
+ * and lift preferred sources. Every moved item carries a sourceNote that the cards show as a badge.
+ */
+export const cleanLegalData = <T extends LegalRecord>(data: T[], tab: SourceTab, policy: SourcePolicy = DEFAULT_SOURCE_POLICY): T[] =>
+  data
+    .filter(item => !unusableLink(item))
+    .map((item, index) => {
+      const note = judgeItem(item, policy, tab);
+      return { item: { ...item, sourceNote: note }, note, index };
+    })
+    .filter(({ note }) => note?.status !== 'filtered' || policy.showFiltered)
+    .sort((a, b) => rank(a.note) - rank(b.note) || a.index - b.index)
+    .map(({ item }) => item);
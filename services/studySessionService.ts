@@ -0,0 +1,59 @@
+import { StudyMaterials, StudySession } from "../types";
+import { readStored, writeStored, createId } from "./localStore";
+
+/**
+ * Study Lab history: every generation is kept as a session so earlier analyses
+ * can be reopened, renamed, duplicated and compared instead of being overwritten.
+ */
+
+const STORAGE_KEY = 'mo-study-sessions';
+const DEFAULT_NAME_LENGTH = 60;
+
+export const loadSessions = (): StudySession[] => readStored<StudySession[]>(STORAGE_KEY, []);
+
+export const saveSessions = (sessions: StudySession[]) => writeStored(STORAGE_KEY, sessions);
+
+const defaultName = (input: string, sourceTitle?: string) => {
+  if (sourceTitle) return sourceTitle;
+  const firstLine = input.trim().split('\n')[0];
+  return firstLine.length > DEFAULT_NAME_LENGTH ? `${firstLine.slice(0, DEFAULT_NAME_LENGTH - 1)}…` : firstLine;
+};
+
+export const createSession = (
+  details: { input: string, subject: string, materials: StudyMaterials, source?: { title: string, url: string } | null }
+): StudySession => ({
+  id: createId('session-'),
+  name: defaultName(details.input, details.source?.title),
+  input: details.input,
+  subject: details.subject,
+  sourceTitle: details.source?.title,
+  sourceUrl: details.source?.url,
+  createdAt: Date.now(),
+  materials: details.materials
+});
+
+export const renameSession = (sessions: StudySession[], sessionId: string, name: string): StudySession[] =>
+  sessions.map(session => session.id === sessionId ? { ...session, name: name.trim() || session.name } : session);
+
+export const duplicateSession = (sessions: StudySession[], sessionId: string): StudySession[] => {
+  const original = sessions.find(session => session.id === sessionId);
+  if (!original) return sessions;
+  const copy: StudySession = { ...original, id: createId('session-'), name: `${original.name} (copy)`, createdAt: Date.now() };
+  return [copy, ...sessions];
+};
+
+// Keep edits made after generation (e.g. to the mind map) with the session
+export const updateSessionMaterials = (sessions: StudySession[], sessionId: string, materials: StudyMaterials): StudySession[] =>
+  sessions.map(session => session.id === sessionId ? { ...session, materials } : session);
+
+export const deleteSession = (sessions: StudySession[], sessionId: string): StudySession[] =>
+  sessions.filter(session => session.id !== sessionId);
+
+const normaliseInput = (input: string) => input.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Earlier sessions that analysed the same provision: same source document or the same pasted text
+export const findComparableSessions = (sessions: StudySession[], session: StudySession): StudySession[] =>
+  sessions.filter(other =>
+    other.id !== session.id &&
+    ((session.sourceUrl && other.sourceUrl === session.sourceUrl) || normaliseInput(other.input) === normaliseInput(session.input))
+  );
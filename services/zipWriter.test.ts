@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "./zipWriter";
+
+// Walk the local file headers of a stored (uncompressed) archive
+const readEntries = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const entries: { name: string, crc: number, data: string }[] = [];
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const dataStart = offset + 30 + nameLength;
+    entries.push({
+      name: decoder.decode(new Uint8Array(buffer, offset + 30, nameLength)),
+      crc: view.getUint32(offset + 14, true),
+      data: decoder.decode(new Uint8Array(buffer, dataStart, size))
+    });
+    offset = dataStart + size;
+  }
+  return { entries, view, offset };
+};
+
+describe('createZip', () => {
+  it('stores each entry with its CRC-32', async () => {
+    const zip = createZip([{ name: 'check.txt', content: '123456789' }, { name: 'word/document.xml', content: '<w:t>§ 302</w:t>' }], 'application/test');
+    expect(zip.type).toBe('application/test');
+    const { entries } = readEntries(await zip.arrayBuffer());
+    expect(entries.map(entry => entry.name)).toEqual(['check.txt', 'word/document.xml']);
+    // The standard CRC-32 check value
+    expect(entries[0].crc).toBe(0xcbf43926);
+    expect(entries[1].data).toBe('<w:t>§ 302</w:t>');
+  });
+
+  it('ends with a central directory that counts and locates the entries', async () => {
+    const buffer = await createZip([{ name: 'a.txt', content: 'a' }, { name: 'b.txt', content: new Uint8Array([1, 2, 3]) }]).arrayBuffer();
+    const { view, offset } = readEntries(buffer);
+    const end = new DataView(buffer, buffer.byteLength - 22);
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(10, true)).toBe(2);
+    expect(end.getUint32(16, true)).toBe(offset);
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+  });
+});
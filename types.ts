@@ -1,4 +1,40 @@
 
+// Feed tabs a source policy can be tuned for, named after their API routes
+export type SourceTab = 'news' | 'articles' | 'academy' | 'tamil-nadu' | 'supreme-court' | 'judgments' | 'bare-acts';
+
+/**
+ * Which sources the feeds may use. Domains are bare host names, e.g. "scconline.com", and
+ * also match their subdomains. The allow-list wins over the blocklist and the error heuristics.
+ */
+export interface SourcePolicy {
+  allowed: string[];
+  blocked: string[];
+  preferred: Partial<Record<SourceTab, string[]>>;
+  // Keep filtered items at the end of the feed, badged, instead of dropping them
+  showFiltered: boolean;
+}
+
+export type SourceNoteStatus = 'preferred' | 'down-ranked' | 'filtered';
+
+// Why the source policy moved or removed an item; absent for items it left alone
+export interface SourceNote {
+  status: SourceNoteStatus;
+  reason: string;
+}
+
+export type LinkStatus = 'verified' | 'unverified' | 'dead';
+
+// Result of fetching one model-returned URL on the server
+export interface LinkCheck {
+  url: string;
+  status: LinkStatus;
+  // Last HTTP status seen, after redirects
+  httpStatus?: number;
+  finalUrl?: string;
+  reason: string;
+  checkedAt: number;
+}
+
 export interface LegalNews {
   title: string;
   summary: string;
@@ -6,6 +42,7 @@ export interface LegalNews {
   source: string;
   date: string;
   freeAlternativeUrl?: string;
+  sourceNote?: SourceNote;
 }
 
 export interface ScholarlyArticle {
@@ -18,6 +55,30 @@ export interface ScholarlyArticle {
   downloadUrl?: string;
   freeAlternativeUrl?: string;
   source: string;
+  // Set on journal and blog pieces from the Legal Articles feed
+  topic?: string;
+  date?: string;
+  sourceNote?: SourceNote;
+}
+
+// Author and topic narrowing for the Legal Articles feed; both match loosely
+export interface ArticleFilters {
+  author?: string;
+  topic?: string;
+}
+
+// Training material from the National Judicial Academy, a State Judicial Academy or TNSJA
+export interface AcademyMaterial {
+  title: string;
+  academy: string;
+  course: string;
+  module?: string;
+  // When the programme was held or the material published, as given by the academy
+  date?: string;
+  summary: string;
+  url: string;
+  downloadUrl?: string;
+  sourceNote?: SourceNote;
 }
 
 export interface LandmarkJudgment {
@@ -30,6 +91,65 @@ export interface LandmarkJudgment {
   link: string;
   freeDownloadLink?: string;
   relatedActs?: string[];
+  sourceNote?: SourceNote;
+}
+
+// One cross-tab search, grouped by the feed each result belongs to
+export interface SearchResults {
+  news: LegalNews[];
+  articles: ScholarlyArticle[];
+  academy: AcademyMaterial[];
+  supremeCourt: ScholarlyArticle[];
+  tamilNadu: ScholarlyArticle[];
+  judgments: LandmarkJudgment[];
+  acts: BareAct[];
+}
+
+export interface SearchFilters {
+  court?: string;
+  year?: number;
+  act?: string;
+  source?: string;
+}
+
+export type CitationReporter = 'INSC' | 'SCC' | 'SCR' | 'AIR' | 'SCC OnLine' | 'MLJ';
+
+// One reported citation, e.g. "(1973) 4 SCC 225" or the neutral "2023 INSC 123"
+export interface ParsedCitation {
+  raw: string;
+  reporter: CitationReporter;
+  year: number;
+  volume?: string;
+  // Sub-series within a reporter, e.g. "Cri" in "(2014) 3 SCC (Cri) 449"
+  series?: string;
+  page: number;
+  court: string;
+  canonical: string;
+}
+
+export type GraphNodeKind = 'judgment' | 'act' | 'section';
+
+// judgment -> act/section: "interprets"; section -> act: "part-of"; judgment -> judgment: "cites"
+export type GraphEdgeKind = 'interprets' | 'part-of' | 'cites';
+
+export interface GraphNode {
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+  url?: string;
+  citation?: string;
+  updatedAt: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+}
+
+export interface CitationGraph {
+  nodes: Record<string, GraphNode>;
+  edges: GraphEdge[];
 }
 
 export interface BareAct {
@@ -40,6 +160,154 @@ export interface BareAct {
   sourceUrl: string;
   secondarySourceUrl?: string;
   pdfUrl?: string;
+  jurisdiction?: 'central' | 'state';
+  sourceNote?: SourceNote;
+}
+
+export type ProvisionKind = 'sub-section' | 'clause' | 'sub-clause' | 'proviso' | 'explanation' | 'illustration';
+
+// One numbered or labelled unit inside a section, e.g. sub-section "(1)", clause "(a)" or "Explanation 1"
+export interface ProvisionBlock {
+  kind: ProvisionKind;
+  label?: string;
+  text: string;
+  children?: ProvisionBlock[];
+}
+
+export interface ActSection {
+  // Deep-link id within the Act, e.g. "s103"
+  id: string;
+  number: string;
+  heading: string;
+  // Text that precedes the first sub-section or clause
+  text: string;
+  blocks: ProvisionBlock[];
+}
+
+export interface ActChapter {
+  id: string;
+  number: string;
+  title: string;
+  sections: ActSection[];
+}
+
+// Acts without parts (or chapters) get a single untitled one so the shape stays uniform
+export interface ActPart {
+  id: string;
+  number: string;
+  title: string;
+  chapters: ActChapter[];
+}
+
+export interface StructuredAct {
+  slug: string;
+  name: string;
+  sourceUrl: string;
+  parts: ActPart[];
+}
+
+export type CorrespondenceChange = 'same' | 'modified' | 'repealed' | 'new';
+
+// One row of a correspondence table; `old` is null for new provisions and `new` for repealed ones
+export interface CorrespondenceEntry {
+  old: string | null;
+  new: string | null;
+  subject: string;
+  change: CorrespondenceChange;
+  note?: string;
+  oldText?: string;
+  newText?: string;
+}
+
+export interface CorrespondenceTable {
+  id: string;
+  // Abbreviations as cited, e.g. "IPC" and "BNS"
+  oldCode: string;
+  newCode: string;
+  oldAct: string;
+  newAct: string;
+  entries: CorrespondenceEntry[];
+}
+
+export interface CorrespondenceDataset {
+  version: string;
+  updatedOn: string;
+  source: string;
+  tables: CorrespondenceTable[];
+}
+
+// A provision a calculator result rests on; `section` is set when the reader can open at it
+export interface ProvisionCitation {
+  act: string;
+  label: string;
+  section?: string;
+}
+
+export type LimitationCategory = 'appeal' | 'revision' | 'review' | 'application' | 'execution' | 'suit';
+
+// One Article of the Schedule to the Limitation Act
+export interface LimitationArticle {
+  id: string;
+  // As cited, e.g. "116(a)"
+  article: string;
+  description: string;
+  period: number;
+  unit: 'days' | 'years';
+  startsFrom: string;
+  category: LimitationCategory;
+  // Section 12(2) and (3): the time taken to obtain certified copies is excluded
+  copyExclusion: boolean;
+  // Section 5: delay can be condoned on sufficient cause
+  condonable: boolean;
+  note?: string;
+}
+
+export interface LimitationDataset {
+  version: string;
+  updatedOn: string;
+  source: string;
+  act: string;
+  articles: LimitationArticle[];
+}
+
+// Days the court does not sit, such as a holiday or the summer vacation; ISO dates, both inclusive
+export interface CourtClosure {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+export interface CourtFeeSuitType {
+  id: string;
+  label: string;
+  // Section of the Court-fees Act under which the suit is valued
+  section: string;
+  basis: string;
+}
+
+export interface CourtFeeDataset {
+  version: string;
+  updatedOn: string;
+  source: string;
+  act: string;
+  // Ad valorem fee: `rate` rupees for every `per` rupees of value or part thereof
+  adValorem: { article: string, rate: number, per: number, minimum: number };
+  suits: CourtFeeSuitType[];
+}
+
+export interface BareActFilters {
+  yearFrom?: number;
+  yearTo?: number;
+  jurisdiction?: 'central' | 'state';
+}
+
+export interface ExtractedContent {
+  text: string;
+  mentions: {
+    name: string;
+    type: 'act' | 'judgment';
+  }[];
 }
 
 export interface Flashcard {
@@ -50,13 +318,31 @@ export interface Flashcard {
 export interface MindMapNode {
   id: string;
   label: string;
+  // Short quote from the source text that supports this concept
+  passage?: string;
   children?: MindMapNode[];
 }
 
+export interface BriefingSection {
+  title: string;
+  points: string[];
+}
+
 export interface BriefingNote {
   provisions: string[];
   arguments: string[];
   conclusion: string;
+  // Subject-specific sections required by the analysis profile, in profile order
+  sections?: BriefingSection[];
+}
+
+export interface AnalysisProfile {
+  id: string;
+  subject: string;
+  description: string;
+  focus: string;
+  flashcardCount: number;
+  sections: { id: string, title: string }[];
 }
 
 export interface StudyMaterials {
@@ -65,6 +351,267 @@ export interface StudyMaterials {
   briefing: BriefingNote;
 }
 
+export type QuizQuestionType = 'mcq' | 'identify-section' | 'short-answer';
+
+export interface QuizOption {
+  text: string;
+  // Why this option is right or wrong
+  explanation: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  topic: string;
+  prompt: string;
+  marks: number;
+  // Multiple choice
+  options?: QuizOption[];
+  answerIndex?: number;
+  // Identify the section, e.g. ["Section 103 BNS", "Section 302 IPC"]
+  acceptedAnswers?: string[];
+  // Explanation or model answer shown after submission
+  modelAnswer: string;
+  // Marking scheme for short answers
+  keyPoints?: string[];
+}
+
+export interface Quiz {
+  id: string;
+  createdAt: number;
+  questions: QuizQuestion[];
+}
+
+export interface QuizAttemptSummary {
+  finishedAt: number;
+  score: number;
+  total: number;
+  timed: boolean;
+}
+
+export interface StudySession {
+  id: string;
+  name: string;
+  input: string;
+  subject: string;
+  sourceTitle?: string;
+  sourceUrl?: string;
+  createdAt: number;
+  materials: StudyMaterials;
+  quiz?: Quiz;
+  quizAttempts?: QuizAttemptSummary[];
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 schedule for one flashcard; cardId is a hash of its question and answer
+export interface CardSchedule {
+  cardId: string;
+  deckId: string;
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+export interface ReviewLogEntry {
+  cardId: string;
+  deckId: string;
+  grade: ReviewGrade;
+  isNew: boolean;
+  reviewedAt: number;
+}
+
+export interface ReviewState {
+  schedules: Record<string, CardSchedule>;
+  log: ReviewLogEntry[];
+}
+
+export type HighlightColour = 'yellow' | 'green' | 'blue' | 'pink';
+
+export interface Annotation {
+  id: string;
+  url: string;
+  colour: HighlightColour;
+  // Text-quote anchor: the passage plus some surrounding context, with its last known offset as a hint
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+  note: string;
+  createdAt: number;
+}
+
+export type LibraryItemKind = 'news' | 'article' | 'academy' | 'judgment' | 'act';
+
+export type LibraryResource = LegalNews | ScholarlyArticle | AcademyMaterial | LandmarkJudgment | BareAct;
+
+export interface LibraryFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface LibraryItem {
+  id: string;
+  folderId: string;
+  kind: LibraryItemKind;
+  title: string;
+  url: string;
+  notes: string;
+  tags: string[];
+  savedAt: number;
+  resource: LibraryResource;
+}
+
+export interface Library {
+  folders: LibraryFolder[];
+  items: LibraryItem[];
+}
+
+// Madras High Court sits at the Principal Seat in Chennai and at the Madurai Bench
+export type MhcBench = 'principal' | 'madurai';
+
+// A case number as printed in a cause list, e.g. "W.P.(MD) No.1234 of 2024"
+export interface CaseNumber {
+  // Normalised case type, e.g. "WP", "CRL.OP"
+  caseType: string;
+  number: number;
+  year: number;
+  // Set when the number carries the (MD) suffix of the Madurai Bench
+  bench?: MhcBench;
+}
+
+// One of our matters, registered by case number; the hearing fields come from the latest cause list
+export interface TrackedCase extends CaseNumber {
+  id: string;
+  bench: MhcBench;
+  parties: string;
+  nextHearing?: string;
+  stage?: string;
+  courtHall?: string;
+  judge?: string;
+  itemNo?: number;
+  // Cause list the hearing fields were last taken from
+  listedIn?: string;
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CauseListEntry {
+  itemNo?: number;
+  // Main case first, then any connected petitions listed with it
+  cases: CaseNumber[];
+  text: string;
+  stage?: string;
+  courtHall?: string;
+  judge?: string;
+}
+
+export interface CauseList {
+  fileName: string;
+  bench?: MhcBench;
+  // ISO date the list is for
+  date?: string;
+  entries: CauseListEntry[];
+}
+
+// A downloaded cause list as served by the API, base64 encoded so PDFs survive the JSON body
+export interface CauseListDocument {
+  fileName: string;
+  contentType: string;
+  data: string;
+}
+
+export type PracticeArea = 'civil' | 'criminal' | 'family' | 'property' | 'advisory';
+
+export type MatterEventKind = 'hearing' | 'deadline' | 'meeting';
+
+export interface MatterEvent {
+  id: string;
+  // Stable across ICS export and import, so a round trip updates the event instead of copying it
+  uid: string;
+  kind: MatterEventKind;
+  title: string;
+  // ISO date; `time` is "HH:MM" in Indian Standard Time, absent for all-day events
+  date: string;
+  time?: string;
+  location?: string;
+  notes: string;
+  // Days ahead of the event to remind; 0 reminds on the day
+  remindDaysBefore: number;
+  done: boolean;
+}
+
+// A card from any tab filed against a matter
+export interface MatterResearch {
+  id: string;
+  kind: LibraryItemKind;
+  title: string;
+  url: string;
+  resource: LibraryResource;
+  addedAt: number;
+}
+
+export interface Matter {
+  id: string;
+  title: string;
+  client: string;
+  area: PracticeArea;
+  court?: string;
+  caseRef?: string;
+  // Case Tracker entry whose next hearing shows on the calendar
+  trackedCaseId?: string;
+  notes: string;
+  events: MatterEvent[];
+  research: MatterResearch[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A value the advocate fills in when drafting, referenced in a template body as {{key}}
+export interface DraftField {
+  key: string;
+  label: string;
+  required: boolean;
+  multiline?: boolean;
+  hint?: string;
+}
+
+// A document template; every saved edit becomes a new version and the old one is kept
+export interface DraftTemplate {
+  id: string;
+  name: string;
+  description: string;
+  version: number;
+  fields: DraftField[];
+  body: string;
+  updatedAt: number;
+}
+
+export interface DraftTemplateDataset {
+  version: string;
+  updatedOn: string;
+  templates: DraftTemplate[];
+}
+
+export interface Draft {
+  id: string;
+  title: string;
+  templateId: string;
+  templateVersion: number;
+  // Study Lab session the briefing was taken from
+  sessionId?: string;
+  matterId?: string;
+  values: Record<string, string>;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export enum LegalTab {
   NEWS = 'NEWS',
   ARTICLES = 'ARTICLES',
@@ -74,5 +621,13 @@ export enum LegalTab {
   TAMIL_NADU = 'TAMIL_NADU',
   SUPREME_COURT = 'SUPREME_COURT',
   ABOUT = 'ABOUT',
-  STUDY_LAB = 'STUDY_LAB'
+  STUDY_LAB = 'STUDY_LAB',
+  LIBRARY = 'LIBRARY',
+  GRAPH = 'GRAPH',
+  SOURCES = 'SOURCES',
+  SEARCH = 'SEARCH',
+  CASE_TRACKER = 'CASE_TRACKER',
+  CALCULATORS = 'CALCULATORS',
+  MATTERS = 'MATTERS',
+  DRAFTING = 'DRAFTING'
 }